@@ -0,0 +1,163 @@
+// Loudness-targeted automatic gain control. Mirrored by server/dsp/agc.ts.
+// Loudness is measured with BS.1770 K-weighting in 100ms blocks; channels are summed as the
+// standard does and share one gain.
+
+const BLOCK_SEC = 0.1;
+const SHORT_TERM_BLOCKS = 30;
+const MOMENTARY_BLOCKS = 4;
+const MAX_CUT_DB = 24;
+const ATTACK_DB_PER_SEC = 12;
+const RELEASE_DB_PER_SEC = 4;
+const GAIN_SMOOTHING_SEC = 0.05;
+
+// BS.1770 K-weighting for any sample rate: the head-related high shelf, then the RLB high-pass
+function kWeightingCoefs(rate) {
+  let K = Math.tan((Math.PI * 1681.974450955533) / rate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf = {
+    b0: (Vh + (Vb * K) / Q + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  K = Math.tan((Math.PI * 38.13547087602444) / rate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+  return [shelf, highPass];
+}
+
+function meanSquareToLufs(meanSquare) {
+  return -0.691 + 10 * Math.log10(Math.max(meanSquare, 1e-12));
+}
+
+class AgcProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.enabled = false;
+    this.targetLufs = -18;
+    this.maxGainDb = 12;
+    this.gateLufs = -50;
+
+    this.filters = kWeightingCoefs(sampleRate);
+    // Per channel: x1, x2, y1, y2 for each of the two stages
+    this.filterState = [];
+    this.blockLength = Math.max(1, Math.round(BLOCK_SEC * sampleRate));
+    this.blockSum = 0;
+    this.blockCount = 0;
+    this.blocks = new Float32Array(SHORT_TERM_BLOCKS);
+    this.speechBlocks = new Uint8Array(SHORT_TERM_BLOCKS);
+    this.blockPos = 0;
+    this.gainDb = 0;
+    this.targetGain = 1;
+    this.gain = 1;
+    this.gainCoef = Math.exp(-1 / (GAIN_SMOOTHING_SEC * sampleRate));
+
+    this.port.onmessage = (event) => {
+      const d = event.data || {};
+      if (d.type !== "set") return;
+      if (typeof d.enabled === "boolean") this.enabled = d.enabled;
+      if (typeof d.targetLufs === "number") this.targetLufs = d.targetLufs;
+      if (typeof d.maxGainDb === "number") this.maxGainDb = d.maxGainDb;
+      if (typeof d.gateLufs === "number") this.gateLufs = d.gateLufs;
+    };
+  }
+
+  static get parameterDescriptors() {
+    return [];
+  }
+
+  kWeight(ch, x) {
+    if (!this.filterState[ch]) this.filterState[ch] = new Float64Array(8);
+    const s = this.filterState[ch];
+    let input = x;
+    for (let stage = 0; stage < 2; stage++) {
+      const c = this.filters[stage];
+      const o = stage * 4;
+      const y = c.b0 * input + c.b1 * s[o] + c.b2 * s[o + 1] - c.a1 * s[o + 2] - c.a2 * s[o + 3];
+      s[o + 1] = s[o];
+      s[o] = input;
+      s[o + 3] = s[o + 2];
+      s[o + 2] = y;
+      input = y;
+    }
+    return input;
+  }
+
+  // Same steps as LoudnessAgc.endBlock; reports the loudness after the gain to the main thread
+  endBlock() {
+    this.blocks[this.blockPos] = this.blockSum / this.blockCount;
+    let momentary = 0;
+    for (let i = 0; i < MOMENTARY_BLOCKS; i++) {
+      momentary += this.blocks[(this.blockPos - i + SHORT_TERM_BLOCKS) % SHORT_TERM_BLOCKS];
+    }
+    const isSpeech = meanSquareToLufs(momentary / MOMENTARY_BLOCKS) > this.gateLufs;
+    this.speechBlocks[this.blockPos] = isSpeech ? 1 : 0;
+    this.blockPos = (this.blockPos + 1) % SHORT_TERM_BLOCKS;
+    this.blockSum = 0;
+    this.blockCount = 0;
+
+    let all = 0;
+    let speech = 0;
+    let speechCount = 0;
+    for (let i = 0; i < SHORT_TERM_BLOCKS; i++) {
+      all += this.blocks[i];
+      if (this.speechBlocks[i]) {
+        speech += this.blocks[i];
+        speechCount++;
+      }
+    }
+    const inputLufs = meanSquareToLufs(all / SHORT_TERM_BLOCKS);
+
+    if (this.enabled && isSpeech && speechCount > 0) {
+      const speechLufs = meanSquareToLufs(speech / speechCount);
+      const wanted = Math.max(-MAX_CUT_DB, Math.min(this.maxGainDb, this.targetLufs - speechLufs));
+      const step = (wanted < this.gainDb ? ATTACK_DB_PER_SEC : RELEASE_DB_PER_SEC) * BLOCK_SEC;
+      this.gainDb += Math.max(-step, Math.min(step, wanted - this.gainDb));
+    }
+    // Turning the AGC off drops its gain so it starts from unity when it comes back
+    if (!this.enabled) this.gainDb = 0;
+    this.targetGain = Math.pow(10, this.gainDb / 20);
+
+    this.port.postMessage({ type: "meter", lufs: inputLufs + this.gainDb, gainDb: this.gainDb });
+  }
+
+  process(inputs, outputs) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!input || input.length === 0 || !output || output.length === 0) return true;
+
+    const blockSize = input[0] ? input[0].length : 128;
+
+    // Loudness is measured even while disabled so the meter keeps working
+    for (let i = 0; i < blockSize; i++) {
+      for (let ch = 0; ch < input.length; ch++) {
+        const k = this.kWeight(ch, input[ch][i]);
+        this.blockSum += k * k;
+      }
+      if (++this.blockCount >= this.blockLength) this.endBlock();
+
+      this.gain = this.targetGain + (this.gain - this.targetGain) * this.gainCoef;
+
+      for (let ch = 0; ch < output.length; ch++) {
+        const chIn = input[Math.min(ch, input.length - 1)];
+        output[ch][i] = this.enabled ? chIn[i] * this.gain : chIn[i];
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor("agc-processor", AgcProcessor);
@@ -0,0 +1,155 @@
+// Split-band de-esser (4-9 kHz sidechain) and plosive suppressor. Mirrored by server/dsp/de-esser.ts.
+// Each channel is processed on its own.
+
+const SIBILANCE_LOW_HZ = 4000;
+const SIBILANCE_HIGH_HZ = 9000;
+const DE_ESSER_RATIO = 4;
+const PLOSIVE_CUTOFF_HZ = 150;
+const PLOSIVE_MAX_REDUCTION_DB = 18;
+const PLOSIVE_DOMINANCE = 0.6;
+const DETECTOR_ATTACK_MS = 0.5;
+const DETECTOR_RELEASE_MS = 60;
+const GAIN_ATTACK_MS = 1;
+const GAIN_RELEASE_MS = 80;
+
+function makeBand(type, frequency, Q) {
+  const w0 = (2 * Math.PI * Math.min(frequency, sampleRate * 0.45)) / sampleRate;
+  const cosW = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * Q);
+  const a0 = 1 + alpha;
+  const b = type === "bandpass" ? [alpha, 0, -alpha] : [(1 - cosW) / 2, 1 - cosW, (1 - cosW) / 2];
+  return {
+    b0: b[0] / a0,
+    b1: b[1] / a0,
+    b2: b[2] / a0,
+    a1: (-2 * cosW) / a0,
+    a2: (1 - alpha) / a0,
+    x1: 0,
+    x2: 0,
+    y1: 0,
+    y2: 0,
+  };
+}
+
+function runBand(f, x) {
+  const y = f.b0 * x + f.b1 * f.x1 + f.b2 * f.x2 - f.a1 * f.y1 - f.a2 * f.y2;
+  f.x2 = f.x1;
+  f.x1 = x;
+  f.y2 = f.y1;
+  f.y1 = y;
+  return y;
+}
+
+function toDb(x) {
+  return 20 * Math.log10(Math.max(x, 1e-9));
+}
+
+function coef(ms) {
+  return Math.exp(-1 / ((ms / 1000) * sampleRate));
+}
+
+class DeEsserProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.deEsserEnabled = false;
+    this.deEsserThresholdDb = -30;
+    this.deEsserMaxReductionDb = 8;
+    this.plosiveEnabled = false;
+    this.plosiveThresholdDb = -30;
+
+    this.detectorAttack = coef(DETECTOR_ATTACK_MS);
+    this.detectorRelease = coef(DETECTOR_RELEASE_MS);
+    this.gainAttack = coef(GAIN_ATTACK_MS);
+    this.gainRelease = coef(GAIN_RELEASE_MS);
+    this.channels = [];
+
+    this.port.onmessage = (event) => {
+      const d = event.data || {};
+      if (d.type !== "set") return;
+      if (typeof d.deEsserEnabled === "boolean") this.deEsserEnabled = d.deEsserEnabled;
+      if (typeof d.deEsserThresholdDb === "number") this.deEsserThresholdDb = d.deEsserThresholdDb;
+      if (typeof d.deEsserMaxReductionDb === "number") this.deEsserMaxReductionDb = d.deEsserMaxReductionDb;
+      if (typeof d.plosiveEnabled === "boolean") this.plosiveEnabled = d.plosiveEnabled;
+      if (typeof d.plosiveThresholdDb === "number") this.plosiveThresholdDb = d.plosiveThresholdDb;
+    };
+  }
+
+  static get parameterDescriptors() {
+    return [];
+  }
+
+  channel(index) {
+    if (!this.channels[index]) {
+      const center = Math.sqrt(SIBILANCE_LOW_HZ * SIBILANCE_HIGH_HZ);
+      this.channels[index] = {
+        sibilance: makeBand("bandpass", center, center / (SIBILANCE_HIGH_HZ - SIBILANCE_LOW_HZ)),
+        lowBand: makeBand("lowpass", PLOSIVE_CUTOFF_HZ, Math.SQRT1_2),
+        sibilanceEnv: 0,
+        lowEnv: 0,
+        fullEnv: 0,
+        sibilanceGain: 1,
+        plosiveGain: 1,
+      };
+    }
+    return this.channels[index];
+  }
+
+  follow(env, x) {
+    const level = Math.abs(x);
+    return level + (env - level) * (level > env ? this.detectorAttack : this.detectorRelease);
+  }
+
+  smooth(gain, target) {
+    return target + (gain - target) * (target < gain ? this.gainAttack : this.gainRelease);
+  }
+
+  // Same steps as DeEsser.processSample
+  processSample(s, x) {
+    const sibilant = runBand(s.sibilance, x);
+    const low = runBand(s.lowBand, x);
+    s.sibilanceEnv = this.follow(s.sibilanceEnv, sibilant);
+    s.lowEnv = this.follow(s.lowEnv, low);
+    s.fullEnv = this.follow(s.fullEnv, x);
+
+    let sibilanceTarget = 1;
+    if (this.deEsserEnabled) {
+      const over = toDb(s.sibilanceEnv) - this.deEsserThresholdDb;
+      if (over > 0) {
+        const reductionDb = Math.min(this.deEsserMaxReductionDb, over * (1 - 1 / DE_ESSER_RATIO));
+        sibilanceTarget = Math.pow(10, -reductionDb / 20);
+      }
+    }
+
+    let plosiveTarget = 1;
+    if (this.plosiveEnabled && s.lowEnv > s.fullEnv * PLOSIVE_DOMINANCE) {
+      const over = toDb(s.lowEnv) - this.plosiveThresholdDb;
+      if (over > 0) plosiveTarget = Math.pow(10, -Math.min(PLOSIVE_MAX_REDUCTION_DB, over * 1.5) / 20);
+    }
+
+    s.sibilanceGain = this.smooth(s.sibilanceGain, sibilanceTarget);
+    s.plosiveGain = this.smooth(s.plosiveGain, plosiveTarget);
+    return x - (1 - s.sibilanceGain) * sibilant - (1 - s.plosiveGain) * low;
+  }
+
+  process(inputs, outputs) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!input || input.length === 0 || !output || output.length === 0) return true;
+
+    const active = this.deEsserEnabled || this.plosiveEnabled;
+    for (let ch = 0; ch < output.length; ch++) {
+      const chIn = input[Math.min(ch, input.length - 1)];
+      const chOut = output[ch];
+      if (!active) {
+        chOut.set(chIn);
+        continue;
+      }
+      const s = this.channel(ch);
+      for (let i = 0; i < chIn.length; i++) chOut[i] = this.processSample(s, chIn[i]);
+    }
+
+    return true;
+  }
+}
+
+registerProcessor("de-esser-processor", DeEsserProcessor);
@@ -0,0 +1,295 @@
+class SpectralSuppressorProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    // STFT: 512-point frames with 50% overlap (sqrt-Hann analysis + synthesis = perfect reconstruction).
+    this.fftSize = 512;
+    this.hopSize = 256;
+    this.numBins = this.fftSize / 2 + 1;
+
+    this.enabled = false;
+    // Suppression controls (driven by noiseReductionLevel on the main thread).
+    this.overSubtraction = 1.5;
+    this.floorGain = this.dbToGain(-18);
+    // Noise floor learning: how fast the estimate follows the input during pauses.
+    this.noiseAlpha = 0.92;
+    // Decision-directed a-priori SNR smoothing (Ephraim-Malah); higher = less musical noise.
+    this.ddAlpha = 0.98;
+    // Frames after (re)start whose floor comes straight from minimum statistics.
+    this.warmupFrames = 20;
+    // Minimum statistics: the noise floor is bounded by the running minimum of smoothed power over
+    // ~1.5 s (8 sub-windows of 36 hops at 48 kHz), so speech present at start (or a floor learned
+    // during it) can't stay in the estimate for longer than that. The minimum of a noisy power
+    // estimate sits below its mean; minBias compensates.
+    this.psdAlpha = 0.85;
+    this.minSubwindows = 8;
+    this.minSubwindowFrames = 36;
+    this.minBias = 2.3;
+
+    this.window = new Float32Array(this.fftSize);
+    for (let i = 0; i < this.fftSize; i++) {
+      this.window[i] = Math.sqrt(0.5 - 0.5 * Math.cos((2 * Math.PI * i) / this.fftSize));
+    }
+
+    this.re = new Float32Array(this.fftSize);
+    this.im = new Float32Array(this.fftSize);
+    this.buildFftTables();
+
+    this.inBuf = new Float32Array(this.fftSize);
+    this.olaBuf = new Float32Array(this.fftSize);
+    const queueLen = 4096;
+    this.outQueue = new Float32Array(queueLen);
+    this.outQueueLen = queueLen;
+
+    this.noise = new Float32Array(this.numBins);
+    this.prevGain = new Float32Array(this.numBins);
+    this.prevPostSnr = new Float32Array(this.numBins);
+    this.smoothedPower = new Float32Array(this.numBins);
+    this.minCurrent = new Float32Array(this.numBins);
+    this.minPast = new Float32Array(this.numBins);
+    this.minHistory = new Float32Array(this.numBins * this.minSubwindows);
+    this.resetState();
+
+    this.port.onmessage = (event) => {
+      const d = event.data || {};
+      if (d.type === "reset") {
+        this.resetState();
+        return;
+      }
+      if (d.type !== "set") return;
+      if (typeof d.enabled === "boolean") {
+        if (d.enabled && !this.enabled) this.resetState();
+        this.enabled = d.enabled;
+      }
+      if (typeof d.overSubtraction === "number") this.overSubtraction = this.clamp(d.overSubtraction, 0.5, 6);
+      if (typeof d.floorDb === "number") this.floorGain = this.dbToGain(this.clamp(d.floorDb, -60, 0));
+      if (typeof d.noiseAlpha === "number") this.noiseAlpha = this.clamp(d.noiseAlpha, 0.5, 0.999);
+    };
+  }
+
+  static get parameterDescriptors() {
+    return [];
+  }
+
+  dbToGain(db) {
+    return Math.pow(10, db / 20);
+  }
+
+  clamp(x, lo, hi) {
+    return Math.max(lo, Math.min(hi, x));
+  }
+
+  resetState() {
+    this.inBuf.fill(0);
+    this.inFill = this.fftSize - this.hopSize;
+    this.olaBuf.fill(0);
+    this.outQueue.fill(0);
+    this.outRead = 0;
+    this.outWrite = 0;
+    this.outAvailable = 0;
+    this.noise.fill(0);
+    this.prevGain.fill(1);
+    this.prevPostSnr.fill(1);
+    this.smoothedPower.fill(0);
+    this.minCurrent.fill(Infinity);
+    this.minPast.fill(Infinity);
+    this.minHistory.fill(Infinity);
+    this.minFrame = 0;
+    this.minSlot = 0;
+    this.framesSeen = 0;
+  }
+
+  // Close the current sub-window: it replaces the oldest one, and the past minimum is recomputed.
+  rollMinimumWindow() {
+    const base = this.minSlot * this.numBins;
+    this.minHistory.set(this.minCurrent, base);
+    for (let k = 0; k < this.numBins; k++) {
+      let m = Infinity;
+      for (let w = 0; w < this.minSubwindows; w++) {
+        const v = this.minHistory[w * this.numBins + k];
+        if (v < m) m = v;
+      }
+      this.minPast[k] = m;
+    }
+    this.minCurrent.fill(Infinity);
+    this.minSlot = (this.minSlot + 1) % this.minSubwindows;
+    this.minFrame = 0;
+  }
+
+  buildFftTables() {
+    const n = this.fftSize;
+    let bits = 0;
+    while ((1 << bits) < n) bits++;
+    this.bitRev = new Uint16Array(n);
+    for (let i = 0; i < n; i++) {
+      let r = 0;
+      for (let b = 0; b < bits; b++) {
+        if (i & (1 << b)) r |= 1 << (bits - 1 - b);
+      }
+      this.bitRev[i] = r;
+    }
+    this.cosTable = new Float32Array(n / 2);
+    this.sinTable = new Float32Array(n / 2);
+    for (let i = 0; i < n / 2; i++) {
+      this.cosTable[i] = Math.cos((2 * Math.PI * i) / n);
+      this.sinTable[i] = Math.sin((2 * Math.PI * i) / n);
+    }
+  }
+
+  // In-place iterative radix-2 FFT. `inverse` flips the twiddle sign; scaling is done by the caller.
+  fft(re, im, inverse) {
+    const n = this.fftSize;
+    for (let i = 0; i < n; i++) {
+      const j = this.bitRev[i];
+      if (j > i) {
+        let t = re[i]; re[i] = re[j]; re[j] = t;
+        t = im[i]; im[i] = im[j]; im[j] = t;
+      }
+    }
+    const sign = inverse ? 1 : -1;
+    for (let size = 2; size <= n; size <<= 1) {
+      const half = size >> 1;
+      const step = n / size;
+      for (let start = 0; start < n; start += size) {
+        for (let k = 0; k < half; k++) {
+          const wr = this.cosTable[k * step];
+          const wi = sign * this.sinTable[k * step];
+          const a = start + k;
+          const b = a + half;
+          const tr = re[b] * wr - im[b] * wi;
+          const ti = re[b] * wi + im[b] * wr;
+          re[b] = re[a] - tr;
+          im[b] = im[a] - ti;
+          re[a] += tr;
+          im[a] += ti;
+        }
+      }
+    }
+  }
+
+  processFrame() {
+    const n = this.fftSize;
+    const re = this.re;
+    const im = this.im;
+    for (let i = 0; i < n; i++) {
+      re[i] = this.inBuf[i] * this.window[i];
+      im[i] = 0;
+    }
+    this.fft(re, im, false);
+
+    // Speech presence: mean a-posteriori SNR across bins. Pauses update the noise floor; speech
+    // frames only let it drift down towards quieter minima. Either way it never rises above the
+    // minimum-statistics bound, which alone sets it during warm-up.
+    const warmingUp = this.framesSeen < this.warmupFrames;
+    let snrSum = 0;
+    for (let k = 0; k < this.numBins; k++) {
+      const p = re[k] * re[k] + im[k] * im[k];
+      const nz = this.noise[k];
+      snrSum += nz > 1e-12 ? p / nz : 1;
+    }
+    const isPause = warmingUp || snrSum / this.numBins < 2.5;
+
+    for (let k = 0; k < this.numBins; k++) {
+      const p = re[k] * re[k] + im[k] * im[k];
+      const smoothed = this.framesSeen === 0
+        ? p
+        : this.psdAlpha * this.smoothedPower[k] + (1 - this.psdAlpha) * p;
+      this.smoothedPower[k] = smoothed;
+      if (smoothed < this.minCurrent[k]) this.minCurrent[k] = smoothed;
+      const minPower = Math.min(this.minCurrent[k], this.minPast[k]);
+      const minFloor = this.minBias * minPower;
+
+      if (warmingUp) {
+        this.noise[k] = minFloor;
+      } else {
+        if (isPause) {
+          this.noise[k] = this.noiseAlpha * this.noise[k] + (1 - this.noiseAlpha) * p;
+        } else if (p < this.noise[k]) {
+          this.noise[k] = 0.8 * this.noise[k] + 0.2 * p;
+        }
+        // Kept at or above the raw minimum as well, or a floor learned too low (e.g. from the
+        // silent start of the buffer) would make every frame look like speech and never recover
+        if (this.noise[k] > minFloor) this.noise[k] = minFloor;
+        else if (this.noise[k] < minPower) this.noise[k] = minPower;
+      }
+
+      // Wiener gain with decision-directed a-priori SNR.
+      const nz = Math.max(this.noise[k], 1e-12);
+      const postSnr = p / nz;
+      const priorSnr =
+        this.ddAlpha * this.prevGain[k] * this.prevGain[k] * this.prevPostSnr[k] +
+        (1 - this.ddAlpha) * Math.max(postSnr - 1, 0);
+      let gain = priorSnr / (this.overSubtraction + priorSnr);
+      if (gain < this.floorGain) gain = this.floorGain;
+      this.prevGain[k] = gain;
+      this.prevPostSnr[k] = postSnr;
+
+      re[k] *= gain;
+      im[k] *= gain;
+      // Keep the spectrum Hermitian so the inverse transform stays real.
+      if (k > 0 && k < n / 2) {
+        re[n - k] = re[k];
+        im[n - k] = -im[k];
+      }
+    }
+    this.framesSeen++;
+    if (++this.minFrame >= this.minSubwindowFrames) this.rollMinimumWindow();
+
+    this.fft(re, im, true);
+    for (let i = 0; i < n; i++) {
+      this.olaBuf[i] += (re[i] / n) * this.window[i];
+    }
+
+    // The first hop of the overlap-add buffer is now complete.
+    for (let i = 0; i < this.hopSize; i++) {
+      this.outQueue[this.outWrite] = this.olaBuf[i];
+      this.outWrite = (this.outWrite + 1) % this.outQueueLen;
+    }
+    this.outAvailable = Math.min(this.outQueueLen, this.outAvailable + this.hopSize);
+    this.olaBuf.copyWithin(0, this.hopSize);
+    this.olaBuf.fill(0, n - this.hopSize);
+  }
+
+  process(inputs, outputs) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!input || !input[0] || !output || !output[0]) return true;
+
+    const inCh = input[0];
+    const blockSize = inCh.length;
+
+    if (!this.enabled) {
+      for (let ch = 0; ch < output.length; ch++) {
+        const chIn = input[ch] || inCh;
+        output[ch].set(chIn);
+      }
+      return true;
+    }
+
+    for (let i = 0; i < blockSize; i++) {
+      this.inBuf[this.inFill++] = inCh[i];
+      if (this.inFill === this.fftSize) {
+        this.processFrame();
+        this.inBuf.copyWithin(0, this.hopSize);
+        this.inFill = this.fftSize - this.hopSize;
+      }
+    }
+
+    const outCh = output[0];
+    for (let i = 0; i < blockSize; i++) {
+      if (this.outAvailable > 0) {
+        outCh[i] = this.outQueue[this.outRead];
+        this.outRead = (this.outRead + 1) % this.outQueueLen;
+        this.outAvailable--;
+      } else {
+        outCh[i] = 0;
+      }
+    }
+    for (let ch = 1; ch < output.length; ch++) {
+      output[ch].set(outCh);
+    }
+
+    return true;
+  }
+}
+
+registerProcessor("spectral-suppressor-processor", SpectralSuppressorProcessor);
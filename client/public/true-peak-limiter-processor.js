@@ -0,0 +1,133 @@
+// Brickwall true-peak limiter at the end of the chain. Mirrored by server/dsp/limiter.ts.
+// Channels share one gain (the loudest decides) so the stereo image never shifts.
+
+const LOOKAHEAD_MS = 1.5;
+const RELEASE_MS = 50;
+const OVERSAMPLE_POINTS = [0.25, 0.5, 0.75];
+// Gain reduction is reported to the main thread about 30 times a second
+const METER_INTERVAL_SEC = 1 / 30;
+
+// Catmull-Rom between p1 and p2: a 4x oversampled estimate of the reconstructed peak
+function interSamplePeak(p0, p1, p2, p3) {
+  let peak = 0;
+  for (let i = 0; i < OVERSAMPLE_POINTS.length; i++) {
+    const t = OVERSAMPLE_POINTS[i];
+    const t2 = t * t;
+    const v = 0.5 * (2 * p1 + (p2 - p0) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2 + (3 * p1 - p0 - 3 * p2 + p3) * t2 * t);
+    peak = Math.max(peak, Math.abs(v));
+  }
+  return peak;
+}
+
+class TruePeakLimiterProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.enabled = true;
+    this.ceiling = Math.pow(10, -1 / 20);
+    this.releaseCoef = Math.exp(-1 / ((RELEASE_MS / 1000) * sampleRate));
+    this.boxLength = Math.max(1, Math.round((LOOKAHEAD_MS / 1000) * sampleRate));
+    this.required = new Float32Array(this.boxLength + 2).fill(1);
+    this.requiredPos = 0;
+    this.box = new Float32Array(this.boxLength).fill(1);
+    this.boxPos = 0;
+    this.boxSum = this.boxLength;
+    this.gain = 1;
+    // Per channel: delay line and the three previous samples
+    this.channels = [];
+
+    this.minGain = 1;
+    this.meterSamples = 0;
+    this.meterInterval = Math.round(METER_INTERVAL_SEC * sampleRate);
+
+    this.port.onmessage = (event) => {
+      const d = event.data || {};
+      if (d.type !== "set") return;
+      if (typeof d.enabled === "boolean") this.enabled = d.enabled;
+      if (typeof d.ceilingDb === "number") this.ceiling = Math.pow(10, d.ceilingDb / 20);
+    };
+  }
+
+  static get parameterDescriptors() {
+    return [];
+  }
+
+  channel(index) {
+    if (!this.channels[index]) {
+      this.channels[index] = { delay: new Float32Array(this.boxLength + 1), delayPos: 0, x3: 0, x2: 0, x1: 0, out: 0 };
+    }
+    return this.channels[index];
+  }
+
+  // Same steps as TruePeakLimiter.nextGain, with the peak taken over all channels
+  nextGain(peak) {
+    this.required[this.requiredPos] = peak > this.ceiling ? this.ceiling / peak : 1;
+    this.requiredPos = (this.requiredPos + 1) % this.required.length;
+    let held = 1;
+    for (let i = 0; i < this.required.length; i++) held = Math.min(held, this.required[i]);
+
+    this.gain = Math.min(held, 1 - (1 - this.gain) * this.releaseCoef);
+
+    this.boxSum += this.gain - this.box[this.boxPos];
+    this.box[this.boxPos] = this.gain;
+    this.boxPos = (this.boxPos + 1) % this.boxLength;
+    if (this.boxPos === 0) {
+      let sum = 0;
+      for (let i = 0; i < this.boxLength; i++) sum += this.box[i];
+      this.boxSum = sum;
+    }
+    return this.boxSum / this.boxLength;
+  }
+
+  process(inputs, outputs) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!input || input.length === 0 || !output || output.length === 0) return true;
+
+    const blockSize = input[0] ? input[0].length : 128;
+
+    if (!this.enabled) {
+      for (let ch = 0; ch < output.length; ch++) {
+        const chIn = input[ch] || input[0];
+        if (chIn && output[ch]) output[ch].set(chIn);
+      }
+      this.minGain = 1;
+    } else {
+      for (let i = 0; i < blockSize; i++) {
+        let peak = 0;
+        for (let ch = 0; ch < input.length; ch++) {
+          const state = this.channel(ch);
+          const x = input[ch][i];
+          peak = Math.max(peak, Math.abs(x), interSamplePeak(state.x3, state.x2, state.x1, x));
+          state.x3 = state.x2;
+          state.x2 = state.x1;
+          state.x1 = x;
+        }
+
+        const gain = this.nextGain(peak);
+        this.minGain = Math.min(this.minGain, gain);
+
+        for (let ch = 0; ch < input.length; ch++) {
+          const state = this.channel(ch);
+          const delayed = state.delay[state.delayPos];
+          state.delay[state.delayPos] = input[ch][i];
+          state.delayPos = (state.delayPos + 1) % state.delay.length;
+          state.out = Math.max(-this.ceiling, Math.min(this.ceiling, delayed * gain));
+        }
+        for (let ch = 0; ch < output.length; ch++) {
+          output[ch][i] = this.channel(Math.min(ch, input.length - 1)).out;
+        }
+      }
+    }
+
+    this.meterSamples += blockSize;
+    if (this.meterSamples >= this.meterInterval) {
+      this.port.postMessage({ type: "meter", reductionDb: -20 * Math.log10(Math.max(1e-6, this.minGain)) });
+      this.meterSamples = 0;
+      this.minGain = 1;
+    }
+
+    return true;
+  }
+}
+
+registerProcessor("true-peak-limiter-processor", TruePeakLimiterProcessor);
@@ -0,0 +1,96 @@
+// Energy-based voice activity detector. Audio passes through untouched; the processor posts
+// {type: "vad", speaking} on its port whenever speech starts or stops.
+// The noise floor follows quiet stretches quickly and creeps up slowly, so steady background
+// noise is learned while speech (much louder, much shorter) is not.
+
+const FRAME_SEC = 0.01;
+const FLOOR_RISE_DB_PER_SEC = 0.5;
+const FLOOR_FALL = 0.2;
+const INITIAL_FLOOR_DB = -60;
+// Anything quieter is silence however low the floor gets
+const ABSOLUTE_MIN_DB = -65;
+// Speech must last this long to count (drops clicks), and silence this long to end it (bridges
+// the gaps between words)
+const ONSET_FRAMES = 3;
+const HANGOVER_FRAMES = 30;
+
+class VadProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.sensitivity = 50;
+    this.frameLength = Math.max(1, Math.round(FRAME_SEC * sampleRate));
+    this.frameSum = 0;
+    this.frameCount = 0;
+    this.floorDb = INITIAL_FLOOR_DB;
+    this.floorRise = FLOOR_RISE_DB_PER_SEC * FRAME_SEC;
+    this.speechFrames = 0;
+    this.silentFrames = 0;
+    this.speaking = false;
+
+    this.port.onmessage = (event) => {
+      const d = event.data || {};
+      if (d.type !== "set") return;
+      if (typeof d.sensitivity === "number") this.sensitivity = d.sensitivity;
+    };
+  }
+
+  static get parameterDescriptors() {
+    return [];
+  }
+
+  endFrame() {
+    const levelDb = 10 * Math.log10(Math.max(this.frameSum / this.frameCount, 1e-12));
+    this.frameSum = 0;
+    this.frameCount = 0;
+
+    if (levelDb < this.floorDb) {
+      this.floorDb += (levelDb - this.floorDb) * FLOOR_FALL;
+    } else {
+      this.floorDb += this.floorRise;
+    }
+
+    // Sensitivity 0-100 -> 18 to 6 dB above the noise floor
+    const marginDb = 18 - this.sensitivity * 0.12;
+    const isSpeech = levelDb > this.floorDb + marginDb && levelDb > ABSOLUTE_MIN_DB;
+
+    if (isSpeech) {
+      this.speechFrames++;
+      this.silentFrames = 0;
+    } else {
+      this.silentFrames++;
+      this.speechFrames = 0;
+    }
+
+    if (!this.speaking && this.speechFrames >= ONSET_FRAMES) {
+      this.speaking = true;
+      this.port.postMessage({ type: "vad", speaking: true });
+    } else if (this.speaking && this.silentFrames >= HANGOVER_FRAMES) {
+      this.speaking = false;
+      this.port.postMessage({ type: "vad", speaking: false });
+    }
+  }
+
+  process(inputs, outputs) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!input || input.length === 0 || !output || output.length === 0) return true;
+
+    for (let ch = 0; ch < output.length; ch++) {
+      const chIn = input[Math.min(ch, input.length - 1)];
+      if (chIn && output[ch]) output[ch].set(chIn);
+    }
+
+    // Channels are averaged into one level
+    const blockSize = input[0] ? input[0].length : 128;
+    for (let i = 0; i < blockSize; i++) {
+      let sq = 0;
+      for (let ch = 0; ch < input.length; ch++) sq += input[ch][i] * input[ch][i];
+      this.frameSum += sq / input.length;
+      if (++this.frameCount >= this.frameLength) this.endFrame();
+    }
+
+    return true;
+  }
+}
+
+registerProcessor("vad-processor", VadProcessor);
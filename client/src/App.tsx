@@ -6,17 +6,30 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { SidebarProvider, SidebarTrigger, SidebarInset } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { AdminSetupGate } from "@/components/admin-setup-gate";
+import { LoginGate } from "@/components/login-form";
+import { isAutomatedBrowser } from "@/lib/utils";
 import AgentDashboard from "@/pages/agent-dashboard";
 import AdminPanel from "@/pages/admin-panel";
 import UserGuide from "@/pages/user-guide";
+import AcceptInvite from "@/pages/accept-invite";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={AgentDashboard} />
-      <Route path="/admin" component={AdminPanel} />
+      <Route path="/">
+        <LoginGate bypass={isAutomatedBrowser}>
+          <AgentDashboard />
+        </LoginGate>
+      </Route>
+      <Route path="/admin">
+        <AdminSetupGate>
+          <AdminPanel />
+        </AdminSetupGate>
+      </Route>
       <Route path="/guide" component={UserGuide} />
+      <Route path="/invite/:token" component={AcceptInvite} />
       <Route component={NotFound} />
     </Switch>
   );
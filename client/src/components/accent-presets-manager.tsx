@@ -0,0 +1,381 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AudioLines, Edit2, Plus, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAccentPresets } from "@/hooks/use-accent-presets";
+import { formantBandsForShift } from "@shared/schema";
+import type { AccentFormants, AccentPresetDefinition, AccentPresetFields, FormantBand } from "@shared/schema";
+
+type AccentPresetForm = Omit<AccentPresetFields, "isBuiltIn">;
+
+const formantKeys = ["f1", "f2", "f3"] as const;
+
+const bandTypeLabels: Record<FormantBand["type"], string> = {
+  peaking: "Peak",
+  lowshelf: "Low shelf",
+  highshelf: "High shelf",
+};
+
+const emptyForm: AccentPresetForm = {
+  key: "",
+  name: "",
+  description: "",
+  category: "Custom",
+  pitchShift: 0,
+  formantShift: 0,
+  highPassFreq: 80,
+  lowPassFreq: 8000,
+  resonanceQ: 0.7,
+  formants: formantBandsForShift(0),
+};
+
+function NumberField({
+  id,
+  label,
+  value,
+  step = 1,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: number;
+  step?: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="h-8"
+        data-testid={`input-${id}`}
+      />
+    </div>
+  );
+}
+
+/**
+ * The organization's accent presets. Built-ins can be tuned but not removed; keys are fixed once
+ * created because agents' settings and usage stats refer to them.
+ */
+export function AccentPresetsManager() {
+  const { toast } = useToast();
+  const { presets, groups } = useAccentPresets();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPreset, setEditingPreset] = useState<AccentPresetDefinition | null>(null);
+  const [form, setForm] = useState<AccentPresetForm>(emptyForm);
+
+  const invalidatePresets = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/accent-presets"] });
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingPreset(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: AccentPresetForm) => {
+      if (editingPreset) {
+        const { key, ...updates } = data;
+        return apiRequest("PATCH", `/api/accent-presets/${editingPreset.id}`, updates);
+      }
+      return apiRequest("POST", "/api/accent-presets", { ...data, key: data.key || undefined });
+    },
+    onSuccess: () => {
+      invalidatePresets();
+      toast({
+        title: editingPreset ? "Accent preset updated" : "Accent preset created",
+        description: "Agents pick up the change the next time the preset is applied.",
+      });
+      closeDialog();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.includes("key already exists")
+          ? "Another accent preset already uses that key."
+          : "Failed to save accent preset. Check the values and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/accent-presets/${id}`);
+    },
+    onSuccess: () => {
+      invalidatePresets();
+      toast({
+        title: "Accent preset deleted",
+        description: "Agents still set to it fall back to Neutral.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete accent preset. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenCreate = () => {
+    setEditingPreset(null);
+    setForm(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const handleOpenEdit = (preset: AccentPresetDefinition) => {
+    const { id, orgId, isBuiltIn, createdAt, updatedAt, ...fields } = preset;
+    setEditingPreset(preset);
+    setForm(fields);
+    setIsDialogOpen(true);
+  };
+
+  const updateForm = (changes: Partial<AccentPresetForm>) => {
+    setForm((prev) => ({ ...prev, ...changes }));
+  };
+
+  const updateBand = (band: keyof AccentFormants, changes: Partial<FormantBand>) => {
+    setForm((prev) => ({ ...prev, formants: { ...prev.formants, [band]: { ...prev.formants[band], ...changes } } }));
+  };
+
+  const handleSave = () => {
+    if (!form.name.trim()) {
+      toast({
+        title: "Name required",
+        description: "Please enter a name for the accent preset.",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate(form);
+  };
+
+  // Until the organization's presets load the list shows built-ins, which have no id to edit by
+  const stored = (preset: AccentPresetFields) => ("id" in preset ? (preset as AccentPresetDefinition) : null);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <AudioLines className="w-5 h-5" />
+            Accent Presets
+          </CardTitle>
+          <Button onClick={handleOpenCreate} data-testid="button-create-accent-preset">
+            <Plus className="w-4 h-4 mr-2" />
+            Create Accent
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {groups.map(([category, items]) => (
+          <div key={category} className="space-y-2">
+            <h4 className="text-xs font-semibold text-muted-foreground">{category}</h4>
+            {items.map((preset) => {
+              const row = stored(preset);
+              return (
+                <div
+                  key={preset.key}
+                  className="flex items-center justify-between p-3 rounded-md border hover-elevate"
+                  data-testid={`accent-preset-item-${preset.key}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{preset.name}</span>
+                      <span className="text-xs font-mono text-muted-foreground">{preset.key}</span>
+                      {preset.isBuiltIn && (
+                        <Badge variant="secondary" className="shrink-0">Built-in</Badge>
+                      )}
+                    </div>
+                    {preset.description && (
+                      <p className="text-xs text-muted-foreground truncate mt-0.5">{preset.description}</p>
+                    )}
+                    <div className="flex gap-2 mt-1 text-xs text-muted-foreground">
+                      <span>Pitch: {preset.pitchShift > 0 ? "+" : ""}{preset.pitchShift} st</span>
+                      <span>Formant: {preset.formantShift > 0 ? "+" : ""}{preset.formantShift}%</span>
+                      <span>{preset.highPassFreq}–{preset.lowPassFreq} Hz</span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => row && handleOpenEdit(row)}
+                      disabled={!row}
+                      data-testid={`button-edit-accent-${preset.key}`}
+                    >
+                      <Edit2 className="w-4 h-4 text-muted-foreground" />
+                    </Button>
+                    {!preset.isBuiltIn && row && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => deleteMutation.mutate(row.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-accent-${preset.key}`}
+                      >
+                        <Trash2 className="w-4 h-4 text-muted-foreground" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+        {presets.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-4">No accent presets yet</p>
+        )}
+
+        <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingPreset ? `Edit ${editingPreset.name}` : "Create Accent Preset"}</DialogTitle>
+              <DialogDescription>
+                Pitch and formant shift are the starting point agents get when they pick the preset;
+                the filters and formant bands shape the voice.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-6 py-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="accent-name">Name</Label>
+                  <Input
+                    id="accent-name"
+                    value={form.name}
+                    onChange={(e) => updateForm({ name: e.target.value })}
+                    placeholder="e.g., Scottish"
+                    data-testid="input-accent-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="accent-key">Key</Label>
+                  <Input
+                    id="accent-key"
+                    value={form.key}
+                    onChange={(e) => updateForm({ key: e.target.value })}
+                    placeholder="Made from the name if empty"
+                    disabled={!!editingPreset}
+                    className="font-mono"
+                    data-testid="input-accent-key"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="accent-category">Category</Label>
+                  <Input
+                    id="accent-category"
+                    value={form.category}
+                    onChange={(e) => updateForm({ category: e.target.value })}
+                    data-testid="input-accent-category"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="accent-description">Description</Label>
+                  <Input
+                    id="accent-description"
+                    value={form.description}
+                    onChange={(e) => updateForm({ description: e.target.value })}
+                    data-testid="input-accent-description"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-5 gap-3">
+                <NumberField id="accent-pitch" label="Pitch (st)" value={form.pitchShift}
+                  onChange={(pitchShift) => updateForm({ pitchShift })} />
+                <NumberField id="accent-formant" label="Formant (%)" value={form.formantShift}
+                  onChange={(formantShift) => updateForm({ formantShift })} />
+                <NumberField id="accent-highpass" label="High-pass (Hz)" value={form.highPassFreq}
+                  onChange={(highPassFreq) => updateForm({ highPassFreq })} />
+                <NumberField id="accent-lowpass" label="Low-pass (Hz)" value={form.lowPassFreq} step={100}
+                  onChange={(lowPassFreq) => updateForm({ lowPassFreq })} />
+                <NumberField id="accent-resonance" label="Resonance Q" value={form.resonanceQ} step={0.05}
+                  onChange={(resonanceQ) => updateForm({ resonanceQ })} />
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label>Formant Bands</Label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateForm({ formants: formantBandsForShift(form.formantShift) })}
+                    data-testid="button-accent-generic-bands"
+                  >
+                    Use generic shaping
+                  </Button>
+                </div>
+                {formantKeys.map((band) => (
+                  <div key={band} className="grid grid-cols-[2rem_1fr_1fr_1fr_1fr] gap-3 items-end">
+                    <span className="text-sm font-medium pb-2">{band.toUpperCase()}</span>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Type</Label>
+                      <Select
+                        value={form.formants[band].type}
+                        onValueChange={(type: FormantBand["type"]) => updateBand(band, { type })}
+                      >
+                        <SelectTrigger className="h-8" data-testid={`select-accent-${band}-type`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(bandTypeLabels).map(([type, label]) => (
+                            <SelectItem key={type} value={type}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <NumberField id={`accent-${band}-frequency`} label="Frequency (Hz)" value={form.formants[band].frequency}
+                      step={10} onChange={(frequency) => updateBand(band, { frequency })} />
+                    <NumberField id={`accent-${band}-q`} label="Q" value={form.formants[band].Q}
+                      step={0.1} onChange={(Q) => updateBand(band, { Q })} />
+                    <NumberField id={`accent-${band}-gain`} label="Gain (dB)" value={form.formants[band].gain}
+                      step={0.5} onChange={(gain) => updateBand(band, { gain })} />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={closeDialog}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-accent-preset">
+                {saveMutation.isPending ? "Saving..." : editingPreset ? "Save Changes" : "Create Accent"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
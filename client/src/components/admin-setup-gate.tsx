@@ -0,0 +1,152 @@
+import { useState, type FormEvent, type ReactNode } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ShieldCheck } from "lucide-react";
+import { LoginGate } from "@/components/login-form";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { applySession, type LoginResponse } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+interface BootstrapStatus {
+  required: boolean;
+}
+
+interface AdminSetupGateProps {
+  children: ReactNode;
+}
+
+/**
+ * Blocks the admin area on a fresh install until the owner account has been created,
+ * and afterwards until an owner, admin or supervisor has signed in.
+ */
+export function AdminSetupGate({ children }: AdminSetupGateProps) {
+  const { toast } = useToast();
+  const [username, setUsername] = useState("admin");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const { data: status, isLoading } = useQuery<BootstrapStatus>({
+    queryKey: ["/api/auth/bootstrap"],
+  });
+
+  const bootstrapMutation = useMutation({
+    mutationFn: async (data: { username: string; password: string }) => {
+      const res = await apiRequest("POST", "/api/auth/bootstrap", data);
+      return res.json() as Promise<LoginResponse>;
+    },
+    onSuccess: (session) => {
+      applySession(session);
+      queryClient.setQueryData<BootstrapStatus>(["/api/auth/bootstrap"], { required: false });
+      toast({
+        title: "Owner account created",
+        description: `Signed in as ${session.user.username}.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create the owner account. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (username.trim().length < 3) {
+      setFormError("Username must be at least 3 characters.");
+      return;
+    }
+    if (password.length < 8) {
+      setFormError("Password must be at least 8 characters.");
+      return;
+    }
+    if (password !== confirmPassword) {
+      setFormError("Passwords do not match.");
+      return;
+    }
+    setFormError(null);
+    bootstrapMutation.mutate({ username: username.trim(), password });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <Skeleton className="h-64 w-full max-w-md mx-auto" />
+      </div>
+    );
+  }
+
+  if (!status?.required) {
+    return <LoginGate allowedRoles={["owner", "admin", "supervisor"]}>{children}</LoginGate>;
+  }
+
+  return (
+    <div className="p-6 flex justify-center">
+      <Card className="w-full max-w-md" data-testid="card-admin-setup">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5" />
+            Create Owner Account
+          </CardTitle>
+          <CardDescription>
+            No accounts exist yet. The owner administers the default organization and can set up
+            organizations for other call centers.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="setup-username">Username</Label>
+              <Input
+                id="setup-username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoComplete="username"
+                data-testid="input-setup-username"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="setup-password">Password</Label>
+              <Input
+                id="setup-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="new-password"
+                data-testid="input-setup-password"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="setup-confirm-password">Confirm Password</Label>
+              <Input
+                id="setup-confirm-password"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                autoComplete="new-password"
+                data-testid="input-setup-confirm-password"
+              />
+            </div>
+            {formError && (
+              <p className="text-sm text-destructive" data-testid="text-setup-error">{formError}</p>
+            )}
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={bootstrapMutation.isPending}
+              data-testid="button-create-admin"
+            >
+              {bootstrapMutation.isPending ? "Creating..." : "Create Owner Account"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -2,10 +2,13 @@ import { Mic, MicOff, Volume2 } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { StatusBadge } from "./status-badge";
 import { ProcessingBadge } from "./processing-badge";
+import { AudioLevelMeter } from "./audio-level-meter";
 import type { Agent } from "@shared/schema";
 
 interface AgentCardProps {
   agent: Agent;
+  // Live mic level from presence heartbeats (0-100), if the agent is connected.
+  inputLevel?: number;
   onClick?: () => void;
 }
 
@@ -20,7 +23,7 @@ function formatDuration(seconds: number): string {
   return `${mins}:${secs.toString().padStart(2, "0")}`;
 }
 
-export function AgentCard({ agent, onClick }: AgentCardProps) {
+export function AgentCard({ agent, inputLevel, onClick }: AgentCardProps) {
   const isOnCall = agent.status === "busy" && agent.callDuration > 0;
 
   return (
@@ -67,6 +70,10 @@ export function AgentCard({ agent, onClick }: AgentCardProps) {
             )}
           </div>
 
+          {agent.isProcessingActive && inputLevel !== undefined && (
+            <AudioLevelMeter level={inputLevel} label="Input" />
+          )}
+
           {/* Feature indicators */}
           <div className="flex items-center gap-1.5 flex-wrap">
             {agent.audioSettings.noiseReductionEnabled && (
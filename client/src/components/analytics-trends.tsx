@@ -0,0 +1,310 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Download, TrendingUp } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { downloadFile } from "@/lib/utils";
+import { usePermissions } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { useAccentPresets } from "@/hooks/use-accent-presets";
+import type { Agent, AnalyticsBucket, AnalyticsTimeSeries, Team } from "@shared/schema";
+
+const ALL = "all";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const rangeOptions = {
+  "1d": { label: "Last 24 hours", days: 1, bucket: "hour" },
+  "7d": { label: "Last 7 days", days: 7, bucket: "day" },
+  "30d": { label: "Last 30 days", days: 30, bucket: "day" },
+  "90d": { label: "Last 90 days", days: 90, bucket: "week" },
+} satisfies Record<string, { label: string; days: number; bucket: AnalyticsBucket }>;
+
+type RangeKey = keyof typeof rangeOptions;
+
+const bucketLabels: Record<AnalyticsBucket, string> = {
+  hour: "Hourly",
+  day: "Daily",
+  week: "Weekly",
+};
+
+const minutesChartConfig = {
+  noiseReductionMinutes: { label: "Noise Reduction", color: "hsl(var(--chart-1))" },
+  accentModifierMinutes: { label: "Voice Modifier", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+const callsChartConfig = {
+  calls: { label: "Calls", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig;
+
+const latencyChartConfig = {
+  latencyP50: { label: "p50", color: "hsl(var(--chart-4))" },
+  latencyP95: { label: "p95", color: "hsl(var(--chart-5))" },
+} satisfies ChartConfig;
+
+function formatBucket(iso: string, bucket: AnalyticsBucket): string {
+  return format(new Date(iso), bucket === "hour" ? "HH:mm" : "MMM d");
+}
+
+/**
+ * Usage trends for the analytics tab: processing minutes, calls and latency over time,
+ * with filters and CSV/JSON export of the same series.
+ */
+export function AnalyticsTrends() {
+  const { toast } = useToast();
+  const accentPresets = useAccentPresets();
+  const { can } = usePermissions();
+  const [range, setRange] = useState<RangeKey>("7d");
+  const [bucket, setBucket] = useState<AnalyticsBucket>(rangeOptions["7d"].bucket);
+  const [agentId, setAgentId] = useState(ALL);
+  const [teamId, setTeamId] = useState(ALL);
+  const [preset, setPreset] = useState(ALL);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { data: agents = [] } = useQuery<Agent[]>({ queryKey: ["/api/agents"] });
+  const { data: teams = [] } = useQuery<Team[]>({
+    queryKey: ["/api/teams"],
+    enabled: can("teams:manage"),
+  });
+
+  // Pinned per range so the query key (and the chart) doesn't change on every render
+  const queryString = useMemo(() => {
+    const to = new Date();
+    const params = new URLSearchParams({
+      bucket,
+      from: new Date(to.getTime() - rangeOptions[range].days * DAY_MS).toISOString(),
+      to: to.toISOString(),
+    });
+    if (agentId !== ALL) params.set("agentId", agentId);
+    if (teamId !== ALL) params.set("teamId", teamId);
+    if (preset !== ALL) params.set("preset", preset);
+    return params.toString();
+  }, [range, bucket, agentId, teamId, preset]);
+
+  const { data: series, isLoading, isError } = useQuery<AnalyticsTimeSeries>({
+    queryKey: [`/api/analytics/timeseries?${queryString}`],
+  });
+
+  const chartData = useMemo(
+    () => series?.points.map((point) => ({ ...point, label: formatBucket(point.bucketStart, series.bucket) })) ?? [],
+    [series],
+  );
+
+  const handleRangeChange = (value: RangeKey) => {
+    setRange(value);
+    setBucket(rangeOptions[value].bucket);
+  };
+
+  const exportData = async (exportFormat: "csv" | "json") => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    setIsExporting(true);
+    try {
+      if (exportFormat === "csv") {
+        const res = await apiRequest("GET", `/api/analytics/timeseries?${queryString}&format=csv`);
+        downloadFile(await res.blob(), `voxfilter-analytics-${stamp}.csv`);
+      } else if (series) {
+        downloadFile(
+          new Blob([JSON.stringify(series, null, 2)], { type: "application/json" }),
+          `voxfilter-analytics-${stamp}.json`,
+        );
+      }
+    } catch {
+      toast({ title: "Export failed", description: "Could not export analytics. Please try again.", variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <TrendingUp className="w-4 h-4" />
+            Usage Trends
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => exportData("csv")}
+              disabled={isExporting || !series}
+              data-testid="button-export-analytics-csv"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              CSV
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => exportData("json")}
+              disabled={isExporting || !series}
+              data-testid="button-export-analytics-json"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              JSON
+            </Button>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Select value={range} onValueChange={(value) => handleRangeChange(value as RangeKey)}>
+            <SelectTrigger className="w-40" data-testid="select-analytics-range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(rangeOptions) as RangeKey[]).map((key) => (
+                <SelectItem key={key} value={key}>{rangeOptions[key].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={bucket} onValueChange={(value) => setBucket(value as AnalyticsBucket)}>
+            <SelectTrigger className="w-32" data-testid="select-analytics-bucket">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(bucketLabels) as AnalyticsBucket[]).map((key) => (
+                // Hourly buckets over 90 days are more than the API returns
+                <SelectItem key={key} value={key} disabled={key === "hour" && range === "90d"}>
+                  {bucketLabels[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={agentId} onValueChange={setAgentId}>
+            <SelectTrigger className="w-44" data-testid="select-analytics-agent">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All agents</SelectItem>
+              {agents.map((agent) => (
+                <SelectItem key={agent.id} value={agent.id}>{agent.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {can("teams:manage") && (
+            <Select value={teamId} onValueChange={setTeamId}>
+              <SelectTrigger className="w-40" data-testid="select-analytics-team">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All teams</SelectItem>
+                {teams.map((team) => (
+                  <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={preset} onValueChange={setPreset}>
+            <SelectTrigger className="w-44" data-testid="select-analytics-preset">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All presets</SelectItem>
+              {accentPresets.presets.map((option) => (
+                <SelectItem key={option.key} value={option.key}>{option.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : isError || !series ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Failed to load usage trends.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-4 text-center" data-testid="analytics-totals">
+              <div>
+                <p className="text-2xl font-semibold">{series.totals.calls}</p>
+                <p className="text-xs text-muted-foreground">Calls</p>
+              </div>
+              <div>
+                <p className="text-2xl font-semibold">{series.totals.noiseReductionMinutes}</p>
+                <p className="text-xs text-muted-foreground">Noise Reduction min</p>
+              </div>
+              <div>
+                <p className="text-2xl font-semibold">{series.totals.accentModifierMinutes}</p>
+                <p className="text-xs text-muted-foreground">Voice Modifier min</p>
+              </div>
+              <div>
+                <p className="text-2xl font-semibold">{Math.round(series.totals.talkRatio * 100)}%</p>
+                <p className="text-xs text-muted-foreground">Talk Time ({series.totals.talkMinutes} min)</p>
+              </div>
+              <div>
+                <p className="text-2xl font-semibold">{series.totals.latencyP50}ms</p>
+                <p className="text-xs text-muted-foreground">Latency p50</p>
+              </div>
+              <div>
+                <p className="text-2xl font-semibold">{series.totals.latencyP95}ms</p>
+                <p className="text-xs text-muted-foreground">Latency p95</p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Processing Minutes</p>
+              <ChartContainer config={minutesChartConfig} className="h-56 w-full aspect-auto">
+                <BarChart data={chartData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="noiseReductionMinutes" stackId="minutes" fill="var(--color-noiseReductionMinutes)" />
+                  <Bar dataKey="accentModifierMinutes" stackId="minutes" fill="var(--color-accentModifierMinutes)" />
+                </BarChart>
+              </ChartContainer>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Calls</p>
+                <ChartContainer config={callsChartConfig} className="h-48 w-full aspect-auto">
+                  <BarChart data={chartData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="calls" fill="var(--color-calls)" radius={2} />
+                  </BarChart>
+                </ChartContainer>
+              </div>
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Latency (ms)</p>
+                <ChartContainer config={latencyChartConfig} className="h-48 w-full aspect-auto">
+                  <LineChart data={chartData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                    <YAxis tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line dataKey="latencyP50" stroke="var(--color-latencyP50)" strokeWidth={2} dot={false} />
+                    <Line dataKey="latencyP95" stroke="var(--color-latencyP95)" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ChartContainer>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
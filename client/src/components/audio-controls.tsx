@@ -16,8 +16,13 @@ import {
 import { ProcessingBadge } from "./processing-badge";
 import { WaveformVisualizer } from "./waveform-visualizer";
 import { AudioLevelMeter } from "./audio-level-meter";
-import type { AudioSettings, AccentPresetType } from "@shared/schema";
-import { accentPresetConfigs } from "@shared/schema";
+import { EqCurveEditor } from "./eq-curve-editor";
+import { DeEsserControls, DynamicsControls, LoudnessControls } from "./dynamics-controls";
+import { ProcessingModeControls } from "./processing-mode-controls";
+import { PreferredDevicesList } from "./preferred-devices-list";
+import type { AudioSettings, TeamPreset } from "@shared/schema";
+import { useAccentPresets } from "@/hooks/use-accent-presets";
+import { getLock, getLockedRange, type LockableSetting } from "@/lib/preset-locks";
 import type { OutputRouteStatus, SelfTestReport, AbCompareResult } from "@/hooks/use-audio-processor";
 
 interface AudioDevice {
@@ -44,6 +49,15 @@ interface AudioControlsProps {
   outputDeviceId?: string | null;
   inputLevel: number;
   outputLevel: number;
+  loudnessLufs?: number | null;
+  agcGain?: number;
+  compressorReduction?: number;
+  limiterReduction?: number;
+  isSpeaking?: boolean;
+  isTransmitting?: boolean;
+  pushToTalkRegistered?: boolean | null;
+  isMuted?: boolean;
+  onToggleMute?: () => void;
   latency: number;
   devices: AudioDevice[];
   onInitialize: () => void;
@@ -63,16 +77,10 @@ interface AudioControlsProps {
   isAbComparing?: boolean;
   getAnalyserData: () => Uint8Array | null;
   error: string | null;
+  /** Mandatory preset in force for this agent; its locks disable or narrow the matching controls */
+  mandatoryPreset?: TeamPreset | null;
 }
 
-// Group presets by category
-const presetGroups = {
-  "Basic": ["neutral", "deeper", "higher", "warm", "clear"],
-  "American Accents": ["midwest_us", "california", "pacific_nw", "mid_atlantic", "southern_us", "texas", "new_york", "boston"],
-  "International": ["british", "australian"],
-  "Voice Character": ["professional", "confident", "authoritative", "friendly", "calm", "energetic"],
-};
-
 function formatDuration(seconds: number): string {
   const mins = Math.floor(seconds / 60);
   const secs = seconds % 60;
@@ -97,6 +105,15 @@ export function AudioControls({
   outputDeviceId,
   inputLevel,
   outputLevel,
+  loudnessLufs = null,
+  agcGain = 0,
+  compressorReduction = 0,
+  limiterReduction = 0,
+  isSpeaking = false,
+  isTransmitting = true,
+  pushToTalkRegistered = null,
+  isMuted = false,
+  onToggleMute,
   latency,
   devices,
   onInitialize,
@@ -116,8 +133,10 @@ export function AudioControls({
   isAbComparing = false,
   getAnalyserData,
   error,
+  mandatoryPreset = null,
 }: AudioControlsProps) {
   const [copiedSelfTest, setCopiedSelfTest] = useState(false);
+  const accentPresets = useAccentPresets();
 
   const selfTestReportJson = useMemo(() => {
     if (!selfTestReport) return null;
@@ -131,6 +150,13 @@ export function AudioControls({
   const outputDevices = devices.filter((d) => d.kind === "audiooutput");
   const processingActive = isInitialized && isProcessing;
   const pitchShiftSupported = true;
+  const isPinned = (field: LockableSetting) => getLock(mandatoryPreset, field) === "exact";
+  const noiseReductionRange = getLockedRange(mandatoryPreset, "noiseReductionLevel", 0, 100);
+  const pitchShiftRange = getLockedRange(mandatoryPreset, "pitchShift", -12, 12);
+  const formantShiftRange = getLockedRange(mandatoryPreset, "formantShift", -50, 50);
+  const clarityBoostRange = getLockedRange(mandatoryPreset, "clarityBoost", 0, 100);
+  const inputGainRange = getLockedRange(mandatoryPreset, "inputGain", 0, 200);
+  const outputGainRange = getLockedRange(mandatoryPreset, "outputGain", 0, 200);
 
   const isVirtualCableLabel = (label: string) => {
     const l = label.toLowerCase();
@@ -138,7 +164,8 @@ export function AudioControls({
       l.includes("cable") ||
       l.includes("vb-audio") ||
       l.includes("blackhole") ||
-      l.includes("black hole")
+      l.includes("black hole") ||
+      l.includes("voxfilter")
     );
   };
 
@@ -202,6 +229,14 @@ export function AudioControls({
               <div className="space-y-2">
                 <AudioLevelMeter level={inputLevel} label="Input" />
                 <AudioLevelMeter level={outputLevel} label="Output" />
+                <div className="flex items-center justify-between text-xs text-muted-foreground" data-testid="text-loudness">
+                  <span>Loudness</span>
+                  <span className="font-mono">
+                    {/* Anything under -70 LUFS is silence */}
+                    {loudnessLufs === null || loudnessLufs < -70 ? "--" : loudnessLufs.toFixed(1)} LUFS
+                    {settings.agcEnabled && ` (AGC ${agcGain >= 0 ? "+" : ""}${agcGain.toFixed(1)} dB)`}
+                  </span>
+                </div>
               </div>
 
               <div className="flex gap-2">
@@ -246,6 +281,19 @@ export function AudioControls({
         </CardContent>
       </Card>
 
+      {/* Talk Mode */}
+      <ProcessingModeControls
+        settings={settings}
+        onSettingsChange={onSettingsChange}
+        mandatoryPreset={mandatoryPreset}
+        isProcessing={isProcessing}
+        isSpeaking={isSpeaking}
+        isTransmitting={isTransmitting}
+        pushToTalkRegistered={pushToTalkRegistered}
+        isMuted={isMuted}
+        onToggleMute={onToggleMute}
+      />
+
       {/* Noise Reduction */}
       <Card>
         <CardHeader className="pb-3">
@@ -254,7 +302,7 @@ export function AudioControls({
             <Switch
               checked={settings.noiseReductionEnabled}
               onCheckedChange={(checked) => onSettingsChange({ noiseReductionEnabled: checked })}
-              disabled={!processingActive}
+              disabled={!processingActive || isPinned("noiseReductionEnabled")}
               data-testid="switch-noise-reduction"
             />
           </div>
@@ -269,13 +317,27 @@ export function AudioControls({
               <Slider
                 value={[settings.noiseReductionLevel]}
                 onValueChange={([value]) => onSettingsChange({ noiseReductionLevel: value })}
-                max={100}
-                min={0}
+                max={noiseReductionRange.max}
+                min={noiseReductionRange.min}
                 step={5}
-                disabled={!processingActive || !settings.noiseReductionEnabled}
+                disabled={!processingActive || !settings.noiseReductionEnabled || isPinned("noiseReductionLevel")}
                 data-testid="slider-noise-reduction"
               />
             </div>
+            <div className="flex items-center justify-between py-2">
+              <div>
+                <Label className="text-sm">Spectral Suppression</Label>
+                <p className="text-xs text-muted-foreground">
+                  Removes steady noise while you talk (adds ~8ms latency)
+                </p>
+              </div>
+              <Switch
+                checked={settings.spectralSuppressionEnabled || false}
+                onCheckedChange={(checked) => onSettingsChange({ spectralSuppressionEnabled: checked })}
+                disabled={!processingActive || !settings.noiseReductionEnabled || isPinned("spectralSuppressionEnabled")}
+                data-testid="switch-spectral-suppression"
+              />
+            </div>
             <p className="text-xs text-muted-foreground">
               Reduces background noise like keyboard sounds, AC hum, and ambient noise.
             </p>
@@ -291,7 +353,7 @@ export function AudioControls({
             <Switch
               checked={settings.accentModifierEnabled}
               onCheckedChange={(checked) => onSettingsChange({ accentModifierEnabled: checked })}
-              disabled={!processingActive}
+              disabled={!processingActive || isPinned("accentModifierEnabled")}
               data-testid="switch-accent-modifier"
             />
           </div>
@@ -302,34 +364,30 @@ export function AudioControls({
               <Label className="text-sm text-muted-foreground">Preset</Label>
               <Select
                 value={settings.accentPreset}
-                onValueChange={(value: AccentPresetType) => {
-                  const config = accentPresetConfigs[value];
+                onValueChange={(value) => {
+                  const preset = accentPresets.find(value);
                   onSettingsChange({ 
                     accentPreset: value,
-                    pitchShift: config.pitchShift,
-                    formantShift: config.formantShift,
+                    ...(preset ? { pitchShift: preset.pitchShift, formantShift: preset.formantShift } : {}),
                   });
                 }}
-                disabled={!processingActive || !settings.accentModifierEnabled}
+                disabled={!processingActive || !settings.accentModifierEnabled || isPinned("accentPreset")}
               >
                 <SelectTrigger data-testid="select-accent-preset">
                   <SelectValue placeholder="Select preset" />
                 </SelectTrigger>
                 <SelectContent>
-                  {Object.entries(presetGroups).map(([group, presets]) => (
+                  {accentPresets.groups.map(([group, presets]) => (
                     <div key={group}>
                       <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground">{group}</div>
-                      {presets.map((key) => {
-                        const config = accentPresetConfigs[key as AccentPresetType];
-                        return (
-                          <SelectItem key={key} value={key}>
-                            <div className="flex flex-col">
-                              <span className="capitalize">{key.replace(/_/g, ' ')}</span>
-                              <span className="text-xs text-muted-foreground">{config.description}</span>
-                            </div>
-                          </SelectItem>
-                        );
-                      })}
+                      {presets.map((preset) => (
+                        <SelectItem key={preset.key} value={preset.key}>
+                          <div className="flex flex-col">
+                            <span>{preset.name}</span>
+                            <span className="text-xs text-muted-foreground">{preset.description}</span>
+                          </div>
+                        </SelectItem>
+                      ))}
                     </div>
                   ))}
                 </SelectContent>
@@ -350,17 +408,17 @@ export function AudioControls({
                 <Switch
                   checked={settings.pitchShiftEnabled || false}
                   onCheckedChange={(checked) => onSettingsChange({ pitchShiftEnabled: checked })}
-                  disabled={!processingActive || !settings.accentModifierEnabled}
+                  disabled={!processingActive || !settings.accentModifierEnabled || isPinned("pitchShiftEnabled")}
                   data-testid="switch-pitch-shift-enabled"
                 />
               </div>
               <Slider
                 value={[settings.pitchShift]}
                 onValueChange={([value]) => onSettingsChange({ pitchShift: value })}
-                max={12}
-                min={-12}
+                max={pitchShiftRange.max}
+                min={pitchShiftRange.min}
                 step={1}
-                disabled={!pitchShiftSupported || !processingActive || !settings.accentModifierEnabled || !(settings.pitchShiftEnabled || false)}
+                disabled={!pitchShiftSupported || !processingActive || !settings.accentModifierEnabled || !(settings.pitchShiftEnabled || false) || isPinned("pitchShift")}
                 data-testid="slider-pitch-shift"
               />
               {!pitchShiftSupported ? (
@@ -384,10 +442,10 @@ export function AudioControls({
               <Slider
                 value={[settings.formantShift || 0]}
                 onValueChange={([value]) => onSettingsChange({ formantShift: value })}
-                max={50}
-                min={-50}
+                max={formantShiftRange.max}
+                min={formantShiftRange.min}
                 step={5}
-                disabled={!processingActive || !settings.accentModifierEnabled}
+                disabled={!processingActive || !settings.accentModifierEnabled || isPinned("formantShift")}
                 data-testid="slider-formant-shift"
               />
               <p className="text-xs text-muted-foreground">
@@ -473,9 +531,10 @@ export function AudioControls({
               <Slider
                 value={[settings.clarityBoost || 0]}
                 onValueChange={([value]) => onSettingsChange({ clarityBoost: value })}
-                max={100}
-                min={0}
+                max={clarityBoostRange.max}
+                min={clarityBoostRange.min}
                 step={5}
+                disabled={isPinned("clarityBoost")}
                 data-testid="slider-clarity-boost"
               />
               <p className="text-xs text-muted-foreground">
@@ -483,6 +542,12 @@ export function AudioControls({
               </p>
             </div>
 
+            <DeEsserControls
+              settings={settings}
+              onSettingsChange={onSettingsChange}
+              mandatoryPreset={mandatoryPreset}
+            />
+
             <div className="flex items-center justify-between py-2">
               <div>
                 <Label className="text-sm">Volume Normalization</Label>
@@ -493,9 +558,27 @@ export function AudioControls({
               <Switch
                 checked={settings.volumeNormalization || false}
                 onCheckedChange={(checked) => onSettingsChange({ volumeNormalization: checked })}
+                disabled={isPinned("volumeNormalization")}
                 data-testid="switch-volume-normalization"
               />
             </div>
+
+            <DynamicsControls
+              settings={settings}
+              onSettingsChange={onSettingsChange}
+              mandatoryPreset={mandatoryPreset}
+              compressorReduction={compressorReduction}
+              limiterReduction={limiterReduction}
+            />
+
+            <div className="space-y-2">
+              <Label className="text-sm text-muted-foreground">Equalizer</Label>
+              <EqCurveEditor
+                bands={settings.eqBands ?? []}
+                onChange={(eqBands) => onSettingsChange({ eqBands })}
+                disabled={isPinned("eqBands")}
+              />
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -518,9 +601,10 @@ export function AudioControls({
               <Slider
                 value={[settings.inputGain]}
                 onValueChange={([value]) => onSettingsChange({ inputGain: value })}
-                max={200}
-                min={0}
+                max={inputGainRange.max}
+                min={inputGainRange.min}
                 step={5}
+                disabled={isPinned("inputGain")}
                 data-testid="slider-input-gain"
               />
             </div>
@@ -533,12 +617,19 @@ export function AudioControls({
               <Slider
                 value={[settings.outputGain]}
                 onValueChange={([value]) => onSettingsChange({ outputGain: value })}
-                max={200}
-                min={0}
+                max={outputGainRange.max}
+                min={outputGainRange.min}
                 step={5}
+                disabled={isPinned("outputGain")}
                 data-testid="slider-output-gain"
               />
             </div>
+
+            <LoudnessControls
+              settings={settings}
+              onSettingsChange={onSettingsChange}
+              mandatoryPreset={mandatoryPreset}
+            />
           </div>
         </CardContent>
       </Card>
@@ -577,6 +668,13 @@ export function AudioControls({
             <p className="text-xs text-muted-foreground mt-2">
               Select your physical microphone here. Virtual cable devices are for output only.
             </p>
+            <PreferredDevicesList
+              label="If it's unplugged, use (in order)"
+              preferred={settings.preferredInputDevices ?? []}
+              available={inputDevices}
+              onChange={(preferredInputDevices) => onSettingsChange({ preferredInputDevices })}
+              testId="list-preferred-inputs"
+            />
           </CardContent>
         </Card>
       )}
@@ -664,9 +762,7 @@ export function AudioControls({
                     <SelectContent>
                       <SelectItem value="__system_default__">System Default (Speakers)</SelectItem>
                       {outputDevices.map((device) => {
-                        const isVirtualCable = device.label.toLowerCase().includes('cable') || 
-                                               device.label.toLowerCase().includes('blackhole') ||
-                                               device.label.toLowerCase().includes('vb-audio');
+                        const isVirtualCable = isVirtualCableLabel(device.label);
                         return (
                           <SelectItem key={device.deviceId} value={device.deviceId}>
                             <div className="flex items-center gap-2">
@@ -684,6 +780,13 @@ export function AudioControls({
                   <p className="text-xs text-muted-foreground">
                     For desktop call apps: Select "CABLE Input" (VB-Audio) or "BlackHole" as output, then set your app microphone to "CABLE Output" / "BlackHole".
                   </p>
+                  <PreferredDevicesList
+                    label="If it's unplugged, route to (in order)"
+                    preferred={settings.preferredOutputDevices ?? []}
+                    available={outputDevices}
+                    onChange={(preferredOutputDevices) => onSettingsChange({ preferredOutputDevices })}
+                    testId="list-preferred-outputs"
+                  />
                 </div>
               )}
 
@@ -0,0 +1,237 @@
+import { Fragment, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChevronDown, ChevronRight, ScrollText } from "lucide-react";
+import { auditEntityTypeSchema } from "@shared/schema";
+import type { AuditEntityType, AuditEntry, PublicUser } from "@shared/schema";
+
+const ALL = "all";
+const PAGE_SIZE = 50;
+
+const entityTypeLabels: Record<AuditEntityType, string> = {
+  agent: "Agents",
+  accent: "Accent presets",
+  profile: "Custom profiles",
+  preset: "Team presets",
+  team: "Teams",
+  user: "Users & sign-ins",
+  organization: "Organizations",
+  invite: "Invites",
+  usage: "Usage stats",
+  call: "Calls",
+  recording: "Recordings",
+};
+
+function Snapshot({ label, value }: { label: string; value: unknown }) {
+  return (
+    <div className="space-y-1 min-w-0">
+      <div className="text-xs font-medium text-muted-foreground">{label}</div>
+      <pre className="text-xs bg-muted/50 rounded-md p-2 overflow-auto max-h-64">
+        {value === null ? "—" : JSON.stringify(value, null, 2)}
+      </pre>
+    </div>
+  );
+}
+
+/**
+ * The organization's audit log: every successful create, update and delete through the API,
+ * filterable by entity, user and date, with the entity's before/after snapshots.
+ */
+export function AuditLogViewer() {
+  const [entityType, setEntityType] = useState<AuditEntityType | typeof ALL>(ALL);
+  const [actorId, setActorId] = useState(ALL);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data: users = [] } = useQuery<PublicUser[]>({ queryKey: ["/api/users"] });
+
+  const queryString = useMemo(() => {
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (entityType !== ALL) params.set("entityType", entityType);
+    if (actorId !== ALL) params.set("actorId", actorId);
+    // Date inputs are local calendar days; the "to" day is included in full
+    if (fromDate) params.set("from", new Date(`${fromDate}T00:00:00`).toISOString());
+    if (toDate) params.set("to", new Date(`${toDate}T23:59:59.999`).toISOString());
+    return params.toString();
+  }, [entityType, actorId, fromDate, toDate, limit]);
+
+  const { data: entries = [], isLoading, isFetching } = useQuery<AuditEntry[]>({
+    queryKey: [`/api/audit?${queryString}`],
+    // Keep the rows on screen while "Load more" fetches the longer page
+    placeholderData: (previous) => previous,
+  });
+
+  // Changing a filter starts again from the first page
+  const updateFilter = (apply: () => void) => {
+    apply();
+    setLimit(PAGE_SIZE);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ScrollText className="w-5 h-5" />
+          Audit Log
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label>Entity</Label>
+            <Select
+              value={entityType}
+              onValueChange={(value: AuditEntityType | typeof ALL) => updateFilter(() => setEntityType(value))}
+            >
+              <SelectTrigger data-testid="select-audit-entity">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Everything</SelectItem>
+                {auditEntityTypeSchema.options.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {entityTypeLabels[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>User</Label>
+            <Select value={actorId} onValueChange={(value) => updateFilter(() => setActorId(value))}>
+              <SelectTrigger data-testid="select-audit-actor">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Anyone</SelectItem>
+                {users.map((user) => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {user.username}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-from">From</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={fromDate}
+              onChange={(e) => updateFilter(() => setFromDate(e.target.value))}
+              data-testid="input-audit-from"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-to">To</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={toDate}
+              onChange={(e) => updateFilter(() => setToDate(e.target.value))}
+              data-testid="input-audit-to"
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground text-center py-8">Loading audit log...</div>
+        ) : entries.length === 0 ? (
+          <div className="text-sm text-muted-foreground text-center py-8" data-testid="text-audit-empty">
+            No matching changes.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>When</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Entity</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => {
+                const isExpanded = expandedId === entry.id;
+                return (
+                  <Fragment key={entry.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                      data-testid={`audit-row-${entry.id}`}
+                    >
+                      <TableCell>
+                        {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(entry.createdAt), "MMM d, yyyy HH:mm:ss")}
+                      </TableCell>
+                      <TableCell>{entry.actorUsername}</TableCell>
+                      <TableCell>
+                        <Badge variant={entry.action.endsWith(".delete") ? "destructive" : "secondary"}>
+                          {entry.action}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs truncate max-w-[16rem]">
+                        {entry.entityId ?? "—"}
+                      </TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow>
+                        <TableCell colSpan={5}>
+                          <div className="text-xs text-muted-foreground mb-2 font-mono">
+                            {entry.method} {entry.path} → {entry.statusCode}
+                          </div>
+                          <div className="grid md:grid-cols-2 gap-4">
+                            <Snapshot label="Before" value={entry.before} />
+                            <Snapshot label="After" value={entry.after} />
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {entries.length === limit && (
+          <div className="flex justify-center">
+            <Button
+              variant="outline"
+              onClick={() => setLimit(limit + PAGE_SIZE)}
+              disabled={isFetching}
+              data-testid="button-audit-load-more"
+            >
+              {isFetching ? "Loading..." : "Load more"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { UserPlus } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { PublicUser, Team, UserRoleType } from "@shared/schema";
+
+const NO_TEAM = "none";
+
+/**
+ * Admin dialog for creating login accounts. Agents sign in with these on the dashboard.
+ */
+export function CreateUserDialog() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<UserRoleType>("agent");
+  const [teamId, setTeamId] = useState<string | null>(null);
+
+  const { data: teams = [] } = useQuery<Team[]>({
+    queryKey: ["/api/teams"],
+    enabled: open,
+  });
+
+  const resetForm = () => {
+    setUsername("");
+    setPassword("");
+    setRole("agent");
+    setTeamId(null);
+  };
+
+  const createUserMutation = useMutation({
+    mutationFn: async (data: { username: string; password: string; role: UserRoleType; teamId: string | null }) => {
+      const res = await apiRequest("POST", "/api/auth/register", data);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: (user) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setOpen(false);
+      resetForm();
+      toast({
+        title: "Account created",
+        description: `${user.username} can now sign in.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message.startsWith("400")
+          ? "Username is taken or the password is shorter than 8 characters."
+          : "Failed to create account. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSubmit = username.trim().length >= 3 && password.length >= 8;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-create-user">
+          <UserPlus className="w-4 h-4 mr-2" />
+          Add Account
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Create Account</DialogTitle>
+          <DialogDescription>
+            Agents sign in to the dashboard with this account and can only change their own settings.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="new-user-username">Username</Label>
+            <Input
+              id="new-user-username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              autoComplete="off"
+              data-testid="input-new-user-username"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="new-user-password">Temporary Password</Label>
+            <Input
+              id="new-user-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="new-password"
+              data-testid="input-new-user-password"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as UserRoleType)}>
+              <SelectTrigger data-testid="select-new-user-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="agent">Agent</SelectItem>
+                <SelectItem value="supervisor">Supervisor</SelectItem>
+                <SelectItem value="admin">Admin</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {role === "supervisor" && (
+            <div className="space-y-2">
+              <Label>Supervises Team</Label>
+              <Select
+                value={teamId ?? NO_TEAM}
+                onValueChange={(value) => setTeamId(value === NO_TEAM ? null : value)}
+              >
+                <SelectTrigger data-testid="select-new-user-team">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TEAM}>No team yet</SelectItem>
+                  {teams.map((team) => (
+                    <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() => createUserMutation.mutate({
+              username: username.trim(),
+              password,
+              role,
+              teamId: role === "supervisor" ? teamId : null,
+            })}
+            disabled={!canSubmit || createUserMutation.isPending}
+            data-testid="button-submit-new-user"
+          >
+            {createUserMutation.isPending ? "Creating..." : "Create Account"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
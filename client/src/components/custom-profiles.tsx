@@ -16,15 +16,19 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { Save, Trash2, User, Users, Plus, Building2 } from "lucide-react";
+import { Save, Trash2, User, Users, Plus, Building2, Download, Upload } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { downloadVoxPreset } from "@/lib/voxpreset";
 import { useToast } from "@/hooks/use-toast";
+import { useAccentPresets } from "@/hooks/use-accent-presets";
+import { VoxPresetImportDialog } from "@/components/voxpreset-import-dialog";
 import type { AudioSettings, CustomProfile, TeamPreset } from "@shared/schema";
 
 interface CustomProfilesProps {
   agentId: string;
   currentSettings: AudioSettings;
-  onApplyProfile: (settings: AudioSettings) => void;
+  // `sourceId` is the profile's or team preset's id, so the desktop tray can mark it as active
+  onApplyProfile: (settings: AudioSettings, sourceId?: string) => void;
 }
 
 export function CustomProfiles({
@@ -36,6 +40,8 @@ export function CustomProfiles({
   const [profileName, setProfileName] = useState("");
   const [isShared, setIsShared] = useState(false);
   const [activeTab, setActiveTab] = useState("my-profiles");
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const { labelFor } = useAccentPresets();
   const { toast } = useToast();
 
   const { data: myProfiles = [], isLoading: loadingMyProfiles } = useQuery<CustomProfile[]>({
@@ -117,8 +123,22 @@ export function CustomProfiles({
     });
   };
 
+  // Without ids, every one of this agent's own profiles is exported
+  const handleExport = async (ids?: string[]) => {
+    const query = ids ? `?ids=${ids.join(",")}` : "";
+    try {
+      await downloadVoxPreset(`/api/agents/${agentId}/profiles/export${query}`);
+    } catch {
+      toast({
+        title: "Export failed",
+        description: "Could not export profiles. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleApplyProfile = (profile: CustomProfile) => {
-    onApplyProfile(profile.audioSettings);
+    onApplyProfile(profile.audioSettings, profile.id);
     toast({
       title: "Profile applied",
       description: `Applied "${profile.name}" voice profile.`,
@@ -126,7 +146,7 @@ export function CustomProfiles({
   };
 
   const handleApplyTeamPreset = (preset: TeamPreset) => {
-    onApplyProfile(preset.audioSettings);
+    onApplyProfile(preset.audioSettings, preset.id);
     toast({
       title: "Team preset applied",
       description: `Applied "${preset.name}" team preset.`,
@@ -145,72 +165,105 @@ export function CustomProfiles({
             <Save className="w-4 h-4" />
             Custom Profiles
           </CardTitle>
-          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button size="sm" variant="outline" data-testid="button-save-profile">
-                <Plus className="w-4 h-4 mr-1" />
-                Save Current
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Save Voice Profile</DialogTitle>
-                <DialogDescription>
-                  Save your current voice settings as a custom profile that you can apply later.
-                </DialogDescription>
-              </DialogHeader>
-              <div className="space-y-4 py-4">
-                <div className="space-y-2">
-                  <Label htmlFor="profile-name">Profile Name</Label>
-                  <Input
-                    id="profile-name"
-                    value={profileName}
-                    onChange={(e) => setProfileName(e.target.value)}
-                    placeholder="e.g., Morning Calls, Client Meeting"
-                    data-testid="input-profile-name"
-                  />
+          <div className="flex items-center gap-1">
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8"
+              onClick={() => setIsImportOpen(true)}
+              title="Import profiles"
+              data-testid="button-import-profiles"
+            >
+              <Upload className="w-4 h-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8"
+              onClick={() => handleExport()}
+              disabled={myProfiles.length === 0}
+              title="Export my profiles"
+              data-testid="button-export-profiles"
+            >
+              <Download className="w-4 h-4" />
+            </Button>
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              <DialogTrigger asChild>
+                <Button size="sm" variant="outline" data-testid="button-save-profile">
+                  <Plus className="w-4 h-4 mr-1" />
+                  Save Current
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Save Voice Profile</DialogTitle>
+                  <DialogDescription>
+                    Save your current voice settings as a custom profile that you can apply later.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4 py-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="profile-name">Profile Name</Label>
+                    <Input
+                      id="profile-name"
+                      value={profileName}
+                      onChange={(e) => setProfileName(e.target.value)}
+                      placeholder="e.g., Morning Calls, Client Meeting"
+                      data-testid="input-profile-name"
+                    />
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="share-profile"
+                      checked={isShared}
+                      onCheckedChange={(checked) => setIsShared(checked === true)}
+                      data-testid="checkbox-share-profile"
+                    />
+                    <label
+                      htmlFor="share-profile"
+                      className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                    >
+                      Share with team
+                    </label>
+                  </div>
+                  <div className="rounded-md bg-muted p-3 text-sm space-y-1">
+                    <p className="font-medium">Current Settings Preview:</p>
+                    <ul className="text-muted-foreground text-xs space-y-1">
+                      <li>Noise Reduction: {currentSettings.noiseReductionEnabled ? `${currentSettings.noiseReductionLevel}%` : "Off"}</li>
+                      <li>Voice Modifier: {currentSettings.accentModifierEnabled ? labelFor(currentSettings.accentPreset) : "Off"}</li>
+                      <li>Pitch: {currentSettings.pitchShift > 0 ? "+" : ""}{currentSettings.pitchShift} st</li>
+                      <li>Formant: {(currentSettings.formantShift || 0) > 0 ? "+" : ""}{currentSettings.formantShift || 0}%</li>
+                      <li>Clarity: {currentSettings.clarityBoost || 0}%</li>
+                      <li>Volume Norm: {currentSettings.volumeNormalization ? "On" : "Off"}</li>
+                    </ul>
+                  </div>
                 </div>
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="share-profile"
-                    checked={isShared}
-                    onCheckedChange={(checked) => setIsShared(checked === true)}
-                    data-testid="checkbox-share-profile"
-                  />
-                  <label
-                    htmlFor="share-profile"
-                    className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button 
+                    onClick={handleSaveProfile} 
+                    disabled={createProfileMutation.isPending}
+                    data-testid="button-confirm-save-profile"
                   >
-                    Share with team
-                  </label>
-                </div>
-                <div className="rounded-md bg-muted p-3 text-sm space-y-1">
-                  <p className="font-medium">Current Settings Preview:</p>
-                  <ul className="text-muted-foreground text-xs space-y-1">
-                    <li>Noise Reduction: {currentSettings.noiseReductionEnabled ? `${currentSettings.noiseReductionLevel}%` : "Off"}</li>
-                    <li>Voice Modifier: {currentSettings.accentModifierEnabled ? currentSettings.accentPreset : "Off"}</li>
-                    <li>Pitch: {currentSettings.pitchShift > 0 ? "+" : ""}{currentSettings.pitchShift} st</li>
-                    <li>Formant: {(currentSettings.formantShift || 0) > 0 ? "+" : ""}{currentSettings.formantShift || 0}%</li>
-                    <li>Clarity: {currentSettings.clarityBoost || 0}%</li>
-                    <li>Volume Norm: {currentSettings.volumeNormalization ? "On" : "Off"}</li>
-                  </ul>
-                </div>
-              </div>
-              <DialogFooter>
-                <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button 
-                  onClick={handleSaveProfile} 
-                  disabled={createProfileMutation.isPending}
-                  data-testid="button-confirm-save-profile"
-                >
-                  {createProfileMutation.isPending ? "Saving..." : "Save Profile"}
-                </Button>
-              </DialogFooter>
-            </DialogContent>
-          </Dialog>
+                    {createProfileMutation.isPending ? "Saving..." : "Save Profile"}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
+        <VoxPresetImportDialog
+          open={isImportOpen}
+          onOpenChange={setIsImportOpen}
+          title="Import Voice Profiles"
+          importUrl="/api/profiles/import"
+          extraBody={{ agentId }}
+          onImported={() => {
+            queryClient.invalidateQueries({ queryKey: ["/api/agents", agentId, "profiles"] });
+          }}
+        />
       </CardHeader>
       <CardContent>
         <Tabs value={activeTab} onValueChange={setActiveTab}>
@@ -263,6 +316,17 @@ export function CustomProfiles({
                         )}
                       </button>
                     </div>
+                    {profile.agentId === agentId && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="shrink-0 h-8 w-8"
+                        onClick={() => handleExport([profile.id])}
+                        data-testid={`button-export-profile-${profile.id}`}
+                      >
+                        <Download className="w-4 h-4 text-muted-foreground" />
+                      </Button>
+                    )}
                     {profile.agentId === agentId && (
                       <Button
                         size="icon"
@@ -0,0 +1,95 @@
+import { useEffect, useState } from "react";
+import { Keyboard } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { GlobalShortcutStatus, GlobalShortcuts } from "@/hooks/use-electron";
+import { formatAccelerator, parseAccelerator } from "@/lib/hotkeys";
+
+const shortcutLabels: Record<keyof GlobalShortcuts, { name: string; description: string }> = {
+  toggleProcessing: { name: "Toggle Processing", description: "Starts or stops voice processing" },
+  cyclePreset: { name: "Next Preset", description: "Switches to the next team preset or profile in the tray menu" },
+};
+
+interface DesktopShortcutsProps {
+  shortcuts: GlobalShortcuts;
+  onShortcutsChange: (changes: Partial<GlobalShortcuts>) => void;
+  // Whether each shortcut could be registered, null until the desktop app answers
+  status: GlobalShortcutStatus | null;
+}
+
+/**
+ * The desktop app's global shortcuts, which work while VoxFilter is hidden in the tray. Clearing
+ * one turns it off.
+ */
+export function DesktopShortcuts({ shortcuts, onShortcutsChange, status }: DesktopShortcutsProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-medium flex items-center gap-2">
+          <Keyboard className="w-4 h-4" />
+          Desktop Shortcuts
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {(Object.keys(shortcutLabels) as (keyof GlobalShortcuts)[]).map((name) => (
+            <ShortcutField
+              key={name}
+              name={name}
+              value={shortcuts[name] ?? ""}
+              registered={status ? status[name] : null}
+              onCommit={(accelerator) => onShortcutsChange({ [name]: accelerator || null })}
+            />
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Closing the window keeps VoxFilter running in the system tray, where you can also toggle
+            processing, mute and switch presets.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ShortcutFieldProps {
+  name: keyof GlobalShortcuts;
+  value: string;
+  registered: boolean | null;
+  onCommit: (accelerator: string) => void;
+}
+
+function ShortcutField({ name, value, registered, onCommit }: ShortcutFieldProps) {
+  // Edited locally and only saved once it parses (or is cleared), like the push-to-talk hotkey
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+  const trimmed = draft.trim();
+  const valid = trimmed === "" || parseAccelerator(trimmed) !== null;
+  const commit = () => {
+    if (valid && trimmed !== value) onCommit(trimmed);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm text-muted-foreground">{shortcutLabels[name].name}</Label>
+      <Input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === "Enter" && commit()}
+        maxLength={64}
+        placeholder="Off"
+        data-testid={`input-shortcut-${name}`}
+      />
+      {!valid ? (
+        <p className="text-xs text-destructive">Use modifiers and a key joined by "+", e.g. Ctrl+Alt+V</p>
+      ) : value && registered === false ? (
+        <p className="text-xs text-destructive">{formatAccelerator(value)} is taken by another app</p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          {value ? `${formatAccelerator(value)}: ${shortcutLabels[name].description.toLowerCase()}` : "Off"}
+        </p>
+      )}
+    </div>
+  );
+}
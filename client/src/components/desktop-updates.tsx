@@ -0,0 +1,156 @@
+import { useEffect, useRef, useState } from "react";
+import { Download, RefreshCw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAppUpdate } from "@/hooks/use-app-update";
+import { useToast } from "@/hooks/use-toast";
+import type { UpdateState } from "@/hooks/use-electron";
+
+function describeStatus(state: UpdateState): string {
+  switch (state.status) {
+    case "disabled":
+      return "Automatic updates are not set up on this computer.";
+    case "idle":
+      return "Updates are checked automatically.";
+    case "checking":
+      return "Checking for updates...";
+    case "up-to-date":
+      return "You have the latest version.";
+    case "downloading":
+      return `Downloading version ${state.availableVersion} in the background...`;
+    case "ready":
+      return `Version ${state.availableVersion} is downloaded and verified.`;
+    case "error":
+      return `Update failed: ${state.error}`;
+  }
+}
+
+interface DesktopUpdatesProps {
+  // The restart prompt waits until the agent is off a call
+  isOnCall: boolean;
+}
+
+/**
+ * The desktop app's version and update progress, with a prompt to restart into a downloaded update
+ * once the agent is not on a call and no audio is routed. Renders nothing without the updater.
+ */
+export function DesktopUpdates({ isOnCall }: DesktopUpdatesProps) {
+  const { updateState, isRouting, checkForUpdates, installUpdate } = useAppUpdate();
+  const { toast } = useToast();
+  // "Later" holds the prompt back until the next call ends
+  const [postponedVersion, setPostponedVersion] = useState<string | null>(null);
+  const wasOnCallRef = useRef(isOnCall);
+  useEffect(() => {
+    if (wasOnCallRef.current && !isOnCall) setPostponedVersion(null);
+    wasOnCallRef.current = isOnCall;
+  }, [isOnCall]);
+
+  if (!updateState) return null;
+
+  const isReady = updateState.status === "ready";
+  // The main process refuses to install while audio is routed to the call app
+  const mustWait = isOnCall || isRouting;
+  const promptOpen = isReady && !mustWait && postponedVersion !== updateState.availableVersion;
+  const isBusy = updateState.status === "checking" || updateState.status === "downloading";
+
+  const handleInstall = async () => {
+    const installing = await installUpdate();
+    if (!installing) {
+      toast({
+        title: "Update failed",
+        description: "The update could not be started. Try again after checking for updates.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="text-base font-medium flex items-center gap-2">
+              <Download className="w-4 h-4" />
+              App Updates
+            </CardTitle>
+            <Badge variant="outline" className="font-mono" data-testid="badge-app-version">
+              v{updateState.currentVersion}
+            </Badge>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            <p
+              className={`text-sm ${updateState.status === "error" ? "text-destructive" : "text-muted-foreground"}`}
+              data-testid="text-update-status"
+            >
+              {describeStatus(updateState)}
+            </p>
+            {updateState.status === "downloading" && <Progress value={updateState.progress} />}
+            {updateState.releaseNotes && (isReady || updateState.status === "downloading") && (
+              <p className="text-xs text-muted-foreground">{updateState.releaseNotes}</p>
+            )}
+            <div className="flex gap-2">
+              {isReady ? (
+                <Button size="sm" onClick={handleInstall} disabled={mustWait} data-testid="button-install-update">
+                  {isOnCall ? "Restart after your call" : isRouting ? "Stop routing to update" : "Restart to Update"}
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => void checkForUpdates()}
+                  disabled={updateState.status === "disabled" || isBusy}
+                  data-testid="button-check-updates"
+                >
+                  <RefreshCw className={`w-3.5 h-3.5 mr-1.5 ${isBusy ? "animate-spin" : ""}`} />
+                  Check for Updates
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={promptOpen}
+        onOpenChange={(open) => {
+          if (!open) setPostponedVersion(updateState.availableVersion);
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Update ready</DialogTitle>
+            <DialogDescription>
+              VoxFilter {updateState.availableVersion} is ready.{" "}
+              {updateState.installMode === "silent"
+                ? "Restarting takes under a minute; processing stops until VoxFilter is back."
+                : "The new version's installer opens for you to finish."}
+            </DialogDescription>
+          </DialogHeader>
+          {updateState.releaseNotes && (
+            <p className="text-sm text-muted-foreground">{updateState.releaseNotes}</p>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPostponedVersion(updateState.availableVersion)}>
+              Later
+            </Button>
+            <Button onClick={handleInstall} data-testid="button-restart-update">
+              Restart Now
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
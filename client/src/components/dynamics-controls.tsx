@@ -0,0 +1,313 @@
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { defaultAudioSettings } from "@shared/schema";
+import type { AudioSettings, TeamPreset } from "@shared/schema";
+import { getLock, getLockedRange, type LockableSetting } from "@/lib/preset-locks";
+
+// Gain reduction is drawn on a 0-24 dB scale
+const METER_RANGE_DB = 24;
+
+type DynamicsSetting = Extract<
+  LockableSetting,
+  | "compressorThreshold"
+  | "compressorRatio"
+  | "compressorKnee"
+  | "compressorAttack"
+  | "compressorRelease"
+  | "compressorMakeupGain"
+  | "limiterCeiling"
+  | "agcTargetLufs"
+  | "agcMaxGain"
+  | "agcGateLufs"
+  | "deEsserThreshold"
+  | "deEsserReduction"
+  | "plosiveSensitivity"
+>;
+
+const compressorSliders: { field: DynamicsSetting; label: string; min: number; max: number; step: number; unit: string }[] = [
+  { field: "compressorThreshold", label: "Threshold", min: -60, max: 0, step: 1, unit: " dB" },
+  { field: "compressorRatio", label: "Ratio", min: 1, max: 20, step: 0.5, unit: ":1" },
+  { field: "compressorKnee", label: "Knee", min: 0, max: 40, step: 1, unit: " dB" },
+  { field: "compressorAttack", label: "Attack", min: 0, max: 1000, step: 1, unit: " ms" },
+  { field: "compressorRelease", label: "Release", min: 10, max: 1000, step: 10, unit: " ms" },
+  { field: "compressorMakeupGain", label: "Makeup Gain", min: 0, max: 24, step: 0.5, unit: " dB" },
+];
+
+const agcSliders: { field: DynamicsSetting; label: string; min: number; max: number; step: number; unit: string }[] = [
+  { field: "agcTargetLufs", label: "Target", min: -36, max: -10, step: 1, unit: " LUFS" },
+  { field: "agcMaxGain", label: "Max Gain", min: 0, max: 30, step: 1, unit: " dB" },
+  { field: "agcGateLufs", label: "Speech Gate", min: -70, max: -30, step: 1, unit: " LUFS" },
+];
+
+const deEsserSliders: { field: DynamicsSetting; label: string; min: number; max: number; step: number; unit: string }[] = [
+  { field: "deEsserThreshold", label: "Threshold", min: -60, max: 0, step: 1, unit: " dB" },
+  { field: "deEsserReduction", label: "Max Reduction", min: 0, max: 24, step: 1, unit: " dB" },
+];
+
+function GainReductionMeter({ label, reductionDb }: { label: string; reductionDb: number }) {
+  const db = Math.max(0, reductionDb);
+  return (
+    <div className="flex items-center gap-2 w-full" data-testid={`gain-reduction-${label.toLowerCase()}`}>
+      <span className="text-xs text-muted-foreground w-12 shrink-0">{label}</span>
+      {/* Reduction grows from the right, like a hardware GR meter */}
+      <div className="flex-1 h-2 bg-muted rounded-full overflow-hidden flex justify-end">
+        <div
+          className="h-full transition-all duration-75 rounded-full bg-status-away"
+          style={{ width: `${Math.min(100, (db / METER_RANGE_DB) * 100)}%` }}
+        />
+      </div>
+      <span className="text-xs font-mono text-muted-foreground w-14 text-right">
+        {db < 0.05 ? "0.0" : `-${db.toFixed(1)}`} dB
+      </span>
+    </div>
+  );
+}
+
+interface DynamicsControlsProps {
+  settings: AudioSettings;
+  onSettingsChange: (settings: Partial<AudioSettings>) => void;
+  mandatoryPreset?: TeamPreset | null;
+  // Live gain reduction in dB; the meters are left out without it (e.g. when editing a preset)
+  compressorReduction?: number;
+  limiterReduction?: number;
+}
+
+/**
+ * Compressor (shown while volume normalization is on) and the true-peak limiter, with their
+ * live gain reduction.
+ */
+export function DynamicsControls({
+  settings,
+  onSettingsChange,
+  mandatoryPreset = null,
+  compressorReduction,
+  limiterReduction,
+}: DynamicsControlsProps) {
+  const isPinned = (field: LockableSetting) => getLock(mandatoryPreset, field) === "exact";
+  // Settings saved before these controls existed don't carry them yet
+  const value = (field: DynamicsSetting) => settings[field] ?? defaultAudioSettings[field];
+  const limiterEnabled = settings.limiterEnabled ?? defaultAudioSettings.limiterEnabled;
+  const ceilingRange = getLockedRange(mandatoryPreset, "limiterCeiling", -12, 0);
+
+  return (
+    <div className="space-y-4">
+      {settings.volumeNormalization && (
+        <div className="grid grid-cols-2 gap-x-4 gap-y-3">
+          {compressorSliders.map(({ field, label, min, max, step, unit }) => {
+            const range = getLockedRange(mandatoryPreset, field, min, max);
+            return (
+              <div key={field} className="space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <Label className="text-xs text-muted-foreground">{label}</Label>
+                  <span className="text-xs font-mono">{value(field)}{unit}</span>
+                </div>
+                <Slider
+                  value={[value(field)]}
+                  onValueChange={([next]) => onSettingsChange({ [field]: next })}
+                  min={range.min}
+                  max={range.max}
+                  step={step}
+                  disabled={isPinned(field)}
+                  data-testid={`slider-${field}`}
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between py-2">
+        <div>
+          <Label className="text-sm">Peak Limiter</Label>
+          <p className="text-xs text-muted-foreground">
+            Stops loud moments from clipping the call
+          </p>
+        </div>
+        <Switch
+          checked={limiterEnabled}
+          onCheckedChange={(checked) => onSettingsChange({ limiterEnabled: checked })}
+          disabled={isPinned("limiterEnabled")}
+          data-testid="switch-limiter"
+        />
+      </div>
+      {limiterEnabled && (
+        <div className="space-y-1.5">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Ceiling</Label>
+            <span className="text-xs font-mono">{value("limiterCeiling")} dBTP</span>
+          </div>
+          <Slider
+            value={[value("limiterCeiling")]}
+            onValueChange={([next]) => onSettingsChange({ limiterCeiling: next })}
+            min={ceilingRange.min}
+            max={ceilingRange.max}
+            step={0.5}
+            disabled={isPinned("limiterCeiling")}
+            data-testid="slider-limiterCeiling"
+          />
+        </div>
+      )}
+
+      {compressorReduction !== undefined && limiterReduction !== undefined && (
+        <div className="space-y-2">
+          <Label className="text-xs text-muted-foreground">Gain Reduction</Label>
+          <GainReductionMeter label="Comp" reductionDb={settings.volumeNormalization ? compressorReduction : 0} />
+          <GainReductionMeter label="Limit" reductionDb={limiterEnabled ? limiterReduction : 0} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface LoudnessControlsProps {
+  settings: AudioSettings;
+  onSettingsChange: (settings: Partial<AudioSettings>) => void;
+  mandatoryPreset?: TeamPreset | null;
+}
+
+/**
+ * Loudness AGC: a target (LUFS), how far it may boost, and the level below which audio counts as
+ * silence and leaves the gain alone.
+ */
+export function LoudnessControls({ settings, onSettingsChange, mandatoryPreset = null }: LoudnessControlsProps) {
+  const isPinned = (field: LockableSetting) => getLock(mandatoryPreset, field) === "exact";
+  const value = (field: DynamicsSetting) => settings[field] ?? defaultAudioSettings[field];
+  const agcEnabled = settings.agcEnabled ?? defaultAudioSettings.agcEnabled;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between py-2">
+        <div>
+          <Label className="text-sm">Loudness AGC</Label>
+          <p className="text-xs text-muted-foreground">
+            Evens out loudness between mics and speakers
+          </p>
+        </div>
+        <Switch
+          checked={agcEnabled}
+          onCheckedChange={(checked) => onSettingsChange({ agcEnabled: checked })}
+          disabled={isPinned("agcEnabled")}
+          data-testid="switch-agc"
+        />
+      </div>
+      {agcEnabled && (
+        <div className="grid grid-cols-3 gap-x-4 gap-y-3">
+          {agcSliders.map(({ field, label, min, max, step, unit }) => {
+            const range = getLockedRange(mandatoryPreset, field, min, max);
+            return (
+              <div key={field} className="space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <Label className="text-xs text-muted-foreground">{label}</Label>
+                  <span className="text-xs font-mono">{value(field)}{unit}</span>
+                </div>
+                <Slider
+                  value={[value(field)]}
+                  onValueChange={([next]) => onSettingsChange({ [field]: next })}
+                  min={range.min}
+                  max={range.max}
+                  step={step}
+                  disabled={isPinned(field)}
+                  data-testid={`slider-${field}`}
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface DeEsserControlsProps {
+  settings: AudioSettings;
+  onSettingsChange: (settings: Partial<AudioSettings>) => void;
+  mandatoryPreset?: TeamPreset | null;
+}
+
+/**
+ * De-esser for harsh "s" sounds (bright presets make them worse) and the plosive suppressor for
+ * "p"/"b" pops.
+ */
+export function DeEsserControls({ settings, onSettingsChange, mandatoryPreset = null }: DeEsserControlsProps) {
+  const isPinned = (field: LockableSetting) => getLock(mandatoryPreset, field) === "exact";
+  const value = (field: DynamicsSetting) => settings[field] ?? defaultAudioSettings[field];
+  const deEsserEnabled = settings.deEsserEnabled ?? defaultAudioSettings.deEsserEnabled;
+  const plosiveEnabled = settings.plosiveSuppressionEnabled ?? defaultAudioSettings.plosiveSuppressionEnabled;
+  const sensitivityRange = getLockedRange(mandatoryPreset, "plosiveSensitivity", 0, 100);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between py-2">
+        <div>
+          <Label className="text-sm">De-esser</Label>
+          <p className="text-xs text-muted-foreground">
+            Softens harsh "s" and "sh" sounds
+          </p>
+        </div>
+        <Switch
+          checked={deEsserEnabled}
+          onCheckedChange={(checked) => onSettingsChange({ deEsserEnabled: checked })}
+          disabled={isPinned("deEsserEnabled")}
+          data-testid="switch-de-esser"
+        />
+      </div>
+      {deEsserEnabled && (
+        <div className="grid grid-cols-2 gap-x-4 gap-y-3">
+          {deEsserSliders.map(({ field, label, min, max, step, unit }) => {
+            const range = getLockedRange(mandatoryPreset, field, min, max);
+            return (
+              <div key={field} className="space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <Label className="text-xs text-muted-foreground">{label}</Label>
+                  <span className="text-xs font-mono">{value(field)}{unit}</span>
+                </div>
+                <Slider
+                  value={[value(field)]}
+                  onValueChange={([next]) => onSettingsChange({ [field]: next })}
+                  min={range.min}
+                  max={range.max}
+                  step={step}
+                  disabled={isPinned(field)}
+                  data-testid={`slider-${field}`}
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between py-2">
+        <div>
+          <Label className="text-sm">Plosive Suppression</Label>
+          <p className="text-xs text-muted-foreground">
+            Ducks "p" and "b" pops from a close mic
+          </p>
+        </div>
+        <Switch
+          checked={plosiveEnabled}
+          onCheckedChange={(checked) => onSettingsChange({ plosiveSuppressionEnabled: checked })}
+          disabled={isPinned("plosiveSuppressionEnabled")}
+          data-testid="switch-plosive-suppression"
+        />
+      </div>
+      {plosiveEnabled && (
+        <div className="space-y-1.5">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-muted-foreground">Sensitivity</Label>
+            <span className="text-xs font-mono">{value("plosiveSensitivity")}%</span>
+          </div>
+          <Slider
+            value={[value("plosiveSensitivity")]}
+            onValueChange={([next]) => onSettingsChange({ plosiveSensitivity: next })}
+            min={sensitivityRange.min}
+            max={sensitivityRange.max}
+            step={5}
+            disabled={isPinned("plosiveSensitivity")}
+            data-testid="slider-plosiveSensitivity"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
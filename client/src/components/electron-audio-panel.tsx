@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Cable, Zap, RefreshCw, Check, AlertTriangle, Monitor } from "lucide-react";
+import { Cable, Zap, RefreshCw, Check, AlertTriangle, Monitor, Unplug } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -16,13 +16,17 @@ import { useElectron } from "@/hooks/use-electron";
 interface ElectronAudioPanelProps {
   isProcessing: boolean;
   currentInputDeviceId?: string;
+  // Lets the desktop app recognise the input in its own device list, to notice it being unplugged
+  currentInputLabel?: string;
 }
 
-export function ElectronAudioPanel({ isProcessing, currentInputDeviceId }: ElectronAudioPanelProps) {
+export function ElectronAudioPanel({ isProcessing, currentInputDeviceId, currentInputLabel }: ElectronAudioPanelProps) {
   const {
     isElectron,
     platform,
     nativeDevices,
+    virtualCableDevice,
+    routingState,
     isNativeRouting,
     selectedOutputDevice,
     refreshNativeDevices,
@@ -47,9 +51,10 @@ export function ElectronAudioPanel({ isProcessing, currentInputDeviceId }: Elect
   }
 
   const virtualCableOutputs = nativeDevices.outputs.filter(d => d.isVirtualCable);
-  const hasVirtualCable = virtualCableOutputs.length > 0;
+  const hasVirtualCable = virtualCableOutputs.length > 0 || virtualCableDevice !== null;
+  const isLinux = platform === 'linux';
   const platformName = platform === 'win32' ? 'Windows' : platform === 'darwin' ? 'Mac' : 'Linux';
-  const cableName = platform === 'darwin' ? 'BlackHole' : 'VB-Audio CABLE';
+  const cableName = platform === 'darwin' ? 'BlackHole' : isLinux ? 'VoxFilter Microphone' : 'VB-Audio CABLE';
 
   const handleRefresh = async () => {
     setIsRefreshing(true);
@@ -66,31 +71,51 @@ export function ElectronAudioPanel({ isProcessing, currentInputDeviceId }: Elect
     setIsAutoConfiguring(false);
 
     if (success && currentInputDeviceId) {
-      const virtualOutput = nativeDevices.outputs.find(d => d.isVirtualCable);
+      const virtualOutput = virtualCableDevice ?? nativeDevices.outputs.find(d => d.isVirtualCable);
       if (virtualOutput) {
-        await startNativeRouting(currentInputDeviceId, virtualOutput.deviceId);
+        await startNativeRouting(currentInputDeviceId, virtualOutput.deviceId, currentInputLabel);
       }
     }
   };
 
   const handleStartRouting = async () => {
     if (!selectedOutput || !currentInputDeviceId) return;
-    await startNativeRouting(currentInputDeviceId, selectedOutput);
+    await startNativeRouting(currentInputDeviceId, selectedOutput, currentInputLabel);
   };
 
   const handleStopRouting = async () => {
     await stopNativeRouting();
   };
 
+  const routeStatus = routingState?.status ?? "stopped";
+  const routedOutputLabel =
+    nativeDevices.outputs.find(d => d.deviceId === routingState?.outputDeviceId)?.label ?? cableName;
+  const missingLabel = (routingState?.missingDevices ?? [])
+    .map(end => end === "input" ? "microphone" : "output device")
+    .join(" and ");
+
   return (
-    <Card className={isNativeRouting ? "border-green-500/50" : hasVirtualCable ? "border-blue-500/50" : "border-amber-500/50"}>
+    <Card
+      className={
+        routeStatus === "active" ? "border-green-500/50"
+          : routeStatus === "device-lost" || routeStatus === "error" ? "border-destructive/50"
+          : hasVirtualCable ? "border-blue-500/50"
+          : "border-amber-500/50"
+      }
+    >
       <CardHeader className="pb-3">
         <div className="flex items-center justify-between gap-2">
           <CardTitle className="text-base font-medium flex items-center gap-2">
             <Monitor className="w-4 h-4" />
             Desktop Audio Routing
-            {isNativeRouting ? (
-              <Badge variant="secondary" className="bg-green-500/10 text-green-600 dark:text-green-400">Connected</Badge>
+            {routeStatus === "active" ? (
+              <Badge variant="secondary" className="bg-green-500/10 text-green-600 dark:text-green-400" data-testid="badge-routing-state">Connected</Badge>
+            ) : routeStatus === "starting" ? (
+              <Badge variant="secondary" data-testid="badge-routing-state">Connecting...</Badge>
+            ) : routeStatus === "device-lost" ? (
+              <Badge variant="destructive" data-testid="badge-routing-state">Device Lost</Badge>
+            ) : routeStatus === "error" ? (
+              <Badge variant="destructive" data-testid="badge-routing-state">Routing Failed</Badge>
             ) : hasVirtualCable ? (
               <Badge variant="secondary" className="bg-blue-500/10 text-blue-600 dark:text-blue-400">Ready</Badge>
             ) : (
@@ -110,7 +135,9 @@ export function ElectronAudioPanel({ isProcessing, currentInputDeviceId }: Elect
               <div>
                 <p className="font-medium">{cableName} not detected</p>
                 <p className="text-xs mt-1 opacity-80">
-                  Please install {cableName} to route audio into your call app.
+                  {isLinux
+                    ? "Could not create it with pactl. Make sure PulseAudio or PipeWire (with pipewire-pulse) is running, then refresh."
+                    : `Please install ${cableName} to route audio into your call app.`}
                 </p>
               </div>
             </div>
@@ -128,13 +155,37 @@ export function ElectronAudioPanel({ isProcessing, currentInputDeviceId }: Elect
             </div>
           )}
 
-          {isNativeRouting && (
+          {routeStatus === "device-lost" && (
+            <div className="flex items-start gap-2 p-3 rounded-md bg-destructive/10 text-destructive text-sm" data-testid="routing-device-lost">
+              <Unplug className="w-4 h-4 mt-0.5 shrink-0" />
+              <div>
+                <p className="font-medium">Your {missingLabel || "device"} disconnected</p>
+                <p className="text-xs mt-1 opacity-80">
+                  Plug it back in and routing resumes automatically.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {routeStatus === "error" && routingState?.error && (
+            <div className="flex items-start gap-2 p-3 rounded-md bg-destructive/10 text-destructive text-sm" data-testid="routing-error">
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+              <p>{routingState.error}</p>
+            </div>
+          )}
+
+          {(routeStatus === "active" || routeStatus === "starting") && (
             <div className="flex items-start gap-2 p-3 rounded-md bg-green-500/10 text-green-700 dark:text-green-300 text-sm">
               <Check className="w-4 h-4 mt-0.5 shrink-0" />
               <div>
-                <p className="font-medium">Audio routing active</p>
+                <p className="font-medium">{routeStatus === "starting" ? "Connecting audio routing..." : "Audio routing active"}</p>
+                {routingState && routingState.reconnects > 0 && (
+                  <p className="text-xs mt-1 opacity-80" data-testid="text-routing-reconnects">
+                    Reconnected {routingState.reconnects} {routingState.reconnects === 1 ? "time" : "times"} after a device was unplugged.
+                  </p>
+                )}
                 <p className="text-xs mt-1 opacity-80">
-                  Processed audio is being sent to {cableName}. Your call app should receive your voice.
+                  Processed audio is being sent to {routedOutputLabel}. {isLinux ? `Select "${cableName}" as the microphone in your call app.` : "Your call app should receive your voice."}
                 </p>
               </div>
             </div>
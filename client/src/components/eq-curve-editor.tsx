@@ -0,0 +1,310 @@
+import { useMemo, useRef, useState, type MouseEvent, type PointerEvent, type WheelEvent } from "react";
+import { Plus, RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { EQ_BAND_TYPES, MAX_EQ_BANDS, type EqBand } from "@shared/schema";
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const MIN_FREQ = 20;
+const MAX_FREQ = 20000;
+const MAX_DB = 24;
+const POINTS = 200;
+const GRID_FREQS = [50, 100, 200, 500, 1000, 2000, 5000, 10000];
+const GRID_DBS = [-18, -12, -6, 0, 6, 12, 18];
+
+const bandTypeLabels: Record<EqBand["type"], string> = {
+  peaking: "Peak",
+  lowshelf: "Low shelf",
+  highshelf: "High shelf",
+  lowpass: "Low-pass",
+  highpass: "High-pass",
+  notch: "Notch",
+};
+
+// Web Audio ignores gain on the pass and notch filters, and Q on the shelves
+const usesGain = (type: EqBand["type"]) => type === "peaking" || type === "lowshelf" || type === "highshelf";
+const usesQ = (type: EqBand["type"]) => type !== "lowshelf" && type !== "highshelf";
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const freqToX = (freq: number) => (Math.log10(freq / MIN_FREQ) / Math.log10(MAX_FREQ / MIN_FREQ)) * WIDTH;
+const xToFreq = (x: number) => MIN_FREQ * Math.pow(MAX_FREQ / MIN_FREQ, clamp(x, 0, WIDTH) / WIDTH);
+const dbToY = (db: number) => HEIGHT / 2 - (clamp(db, -MAX_DB, MAX_DB) / MAX_DB) * (HEIGHT / 2);
+const yToDb = (y: number) => ((HEIGHT / 2 - clamp(y, 0, HEIGHT)) / (HEIGHT / 2)) * MAX_DB;
+
+const responseFreqs = Float32Array.from({ length: POINTS }, (_, i) => xToFreq((i / (POINTS - 1)) * WIDTH));
+
+let responseContext: OfflineAudioContext | null = null;
+
+// Combined magnitude (dB) of the bands at `responseFreqs`, from the same BiquadFilterNodes the live
+// chain uses. Without Web Audio (e.g. some test browsers) the curve stays flat.
+function eqResponse(bands: EqBand[]): Float32Array {
+  const total = new Float32Array(POINTS);
+  if (typeof OfflineAudioContext === "undefined") return total;
+  responseContext ??= new OfflineAudioContext(1, 1, 48000);
+  const magnitude = new Float32Array(POINTS);
+  const phase = new Float32Array(POINTS);
+  bands.forEach((band) => {
+    const filter = responseContext!.createBiquadFilter();
+    filter.type = band.type;
+    filter.frequency.value = band.frequency;
+    filter.gain.value = band.gain;
+    filter.Q.value = band.Q;
+    filter.getFrequencyResponse(responseFreqs, magnitude, phase);
+    magnitude.forEach((m, i) => {
+      total[i] += 20 * Math.log10(Math.max(m, 1e-6));
+    });
+  });
+  return total;
+}
+
+function formatFreq(freq: number): string {
+  return freq >= 1000 ? `${(freq / 1000).toFixed(freq >= 10000 ? 0 : 1)}k` : `${Math.round(freq)}`;
+}
+
+interface EqCurveEditorProps {
+  bands: EqBand[];
+  onChange: (bands: EqBand[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Frequency-response curve of the parametric EQ. Drag a band's handle to move its frequency and gain,
+ * scroll over it to change Q, and double-click the curve to add a band there.
+ */
+export function EqCurveEditor({ bands, onChange, disabled = false }: EqCurveEditorProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+
+  const curve = useMemo(() => {
+    const response = eqResponse(bands);
+    return Array.from(response, (db, i) =>
+      `${i === 0 ? "M" : "L"}${((i / (POINTS - 1)) * WIDTH).toFixed(1)},${dbToY(db).toFixed(1)}`
+    ).join(" ");
+  }, [bands]);
+
+  const selectedBand = selected !== null ? bands[selected] : undefined;
+
+  const updateBand = (index: number, changes: Partial<EqBand>) => {
+    onChange(bands.map((band, i) => (i === index ? { ...band, ...changes } : band)));
+  };
+
+  const addBand = (band: EqBand) => {
+    if (bands.length >= MAX_EQ_BANDS) return;
+    onChange([...bands, band]);
+    setSelected(bands.length);
+  };
+
+  const removeBand = (index: number) => {
+    onChange(bands.filter((_, i) => i !== index));
+    setSelected(null);
+  };
+
+  // Pointer position in viewBox units
+  const toGraph = (clientX: number, clientY: number) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: ((clientX - rect.left) / rect.width) * WIDTH,
+      y: ((clientY - rect.top) / rect.height) * HEIGHT,
+    };
+  };
+
+  const handlePointerMove = (e: PointerEvent<SVGSVGElement>) => {
+    if (dragging === null) return;
+    const { x, y } = toGraph(e.clientX, e.clientY);
+    const band = bands[dragging];
+    updateBand(dragging, {
+      frequency: Math.round(xToFreq(x)),
+      ...(usesGain(band.type) ? { gain: Math.round(yToDb(y) * 2) / 2 } : {}),
+    });
+  };
+
+  const handleDoubleClick = (e: MouseEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    const { x, y } = toGraph(e.clientX, e.clientY);
+    addBand({ type: "peaking", frequency: Math.round(xToFreq(x)), gain: Math.round(yToDb(y) * 2) / 2, Q: 1 });
+  };
+
+  const handleWheel = (index: number, e: WheelEvent) => {
+    const band = bands[index];
+    if (disabled || !usesQ(band.type)) return;
+    const Q = clamp(band.Q * (e.deltaY < 0 ? 1.1 : 1 / 1.1), 0.1, 18);
+    updateBand(index, { Q: Math.round(Q * 100) / 100 });
+  };
+
+  return (
+    <div className="space-y-3">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className={`w-full rounded-md bg-muted/30 select-none touch-none ${disabled ? "opacity-60" : ""}`}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragging(null)}
+        onPointerLeave={() => setDragging(null)}
+        onDoubleClick={handleDoubleClick}
+        data-testid="eq-curve"
+      >
+        {GRID_FREQS.map((freq) => (
+          <g key={freq}>
+            <line x1={freqToX(freq)} x2={freqToX(freq)} y1={0} y2={HEIGHT} stroke="hsl(var(--border))" strokeWidth={1} />
+            <text x={freqToX(freq) + 3} y={HEIGHT - 4} fontSize={10} fill="hsl(var(--muted-foreground))">
+              {formatFreq(freq)}
+            </text>
+          </g>
+        ))}
+        {GRID_DBS.map((db) => (
+          <g key={db}>
+            <line
+              x1={0}
+              x2={WIDTH}
+              y1={dbToY(db)}
+              y2={dbToY(db)}
+              stroke="hsl(var(--border))"
+              strokeWidth={db === 0 ? 1.5 : 1}
+            />
+            <text x={3} y={dbToY(db) - 3} fontSize={10} fill="hsl(var(--muted-foreground))">
+              {db > 0 ? "+" : ""}{db}
+            </text>
+          </g>
+        ))}
+        <path d={curve} fill="none" stroke="hsl(var(--primary))" strokeWidth={2} />
+        {bands.map((band, index) => (
+          <circle
+            key={index}
+            cx={freqToX(band.frequency)}
+            cy={dbToY(usesGain(band.type) ? band.gain : 0)}
+            r={selected === index ? 8 : 6}
+            fill={selected === index ? "hsl(var(--primary))" : "hsl(var(--background))"}
+            stroke="hsl(var(--primary))"
+            strokeWidth={2}
+            className={disabled ? "" : "cursor-grab"}
+            onPointerDown={(e) => {
+              if (disabled) return;
+              e.stopPropagation();
+              (e.target as Element).setPointerCapture(e.pointerId);
+              setSelected(index);
+              setDragging(index);
+            }}
+            onWheel={(e) => handleWheel(index, e)}
+            data-testid={`eq-band-handle-${index}`}
+          />
+        ))}
+      </svg>
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          {bands.length === 0
+            ? "Flat. Double-click the curve or add a band to start."
+            : "Drag a point to move it, scroll over it to change Q."}
+        </p>
+        <div className="flex gap-2 shrink-0">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => addBand({ type: "peaking", frequency: 1000, gain: 0, Q: 1 })}
+            disabled={disabled || bands.length >= MAX_EQ_BANDS}
+            data-testid="button-eq-add-band"
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Band
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              onChange([]);
+              setSelected(null);
+            }}
+            disabled={disabled || bands.length === 0}
+            data-testid="button-eq-reset"
+          >
+            <RotateCcw className="w-3 h-3 mr-1" />
+            Flat
+          </Button>
+        </div>
+      </div>
+
+      {selectedBand && selected !== null && (
+        <div className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2 items-end" data-testid="eq-band-details">
+          <div className="space-y-1">
+            <Label className="text-xs">Type</Label>
+            <Select
+              value={selectedBand.type}
+              onValueChange={(type: EqBand["type"]) => updateBand(selected, { type })}
+              disabled={disabled}
+            >
+              <SelectTrigger className="h-8" data-testid="select-eq-band-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EQ_BAND_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>{bandTypeLabels[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Hz</Label>
+            <Input
+              type="number"
+              min={MIN_FREQ}
+              max={MAX_FREQ}
+              value={selectedBand.frequency}
+              onChange={(e) => updateBand(selected, { frequency: clamp(Number(e.target.value), MIN_FREQ, MAX_FREQ) })}
+              disabled={disabled}
+              className="h-8"
+              data-testid="input-eq-band-frequency"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">dB</Label>
+            <Input
+              type="number"
+              step={0.5}
+              min={-MAX_DB}
+              max={MAX_DB}
+              value={selectedBand.gain}
+              onChange={(e) => updateBand(selected, { gain: clamp(Number(e.target.value), -MAX_DB, MAX_DB) })}
+              disabled={disabled || !usesGain(selectedBand.type)}
+              className="h-8"
+              data-testid="input-eq-band-gain"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Q</Label>
+            <Input
+              type="number"
+              step={0.1}
+              min={0.1}
+              max={18}
+              value={selectedBand.Q}
+              onChange={(e) => updateBand(selected, { Q: clamp(Number(e.target.value), 0.1, 18) })}
+              disabled={disabled || !usesQ(selectedBand.type)}
+              className="h-8"
+              data-testid="input-eq-band-q"
+            />
+          </div>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => removeBand(selected)}
+            disabled={disabled}
+            data-testid="button-eq-remove-band"
+          >
+            <Trash2 className="w-4 h-4 text-muted-foreground" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
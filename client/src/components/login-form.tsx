@@ -0,0 +1,126 @@
+import { useState, type FormEvent, type ReactNode } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { LogIn } from "lucide-react";
+import { useCurrentUser, useLogin } from "@/hooks/use-auth";
+import type { UserRoleType } from "@shared/schema";
+
+interface LoginFormProps {
+  title?: string;
+  description?: string;
+}
+
+export function LoginForm({
+  title = "Sign in to VoxFilter",
+  description = "Use the account your administrator created for you.",
+}: LoginFormProps) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const loginMutation = useLogin();
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!username.trim() || !password) return;
+    loginMutation.mutate({ username: username.trim(), password });
+  };
+
+  return (
+    <div className="p-6 flex justify-center">
+      <Card className="w-full max-w-md" data-testid="card-login">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <LogIn className="w-5 h-5" />
+            {title}
+          </CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="login-username">Username</Label>
+              <Input
+                id="login-username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoComplete="username"
+                data-testid="input-login-username"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="login-password">Password</Label>
+              <Input
+                id="login-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+                data-testid="input-login-password"
+              />
+            </div>
+            {loginMutation.isError && (
+              <p className="text-sm text-destructive" data-testid="text-login-error">
+                Invalid username or password.
+              </p>
+            )}
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={!username.trim() || !password || loginMutation.isPending}
+              data-testid="button-login"
+            >
+              {loginMutation.isPending ? "Signing in..." : "Sign In"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+interface LoginGateProps {
+  children: ReactNode;
+  /** Skip the gate entirely (automated browser runs have no account to sign in with). */
+  bypass?: boolean;
+  /** Restrict to these roles (e.g. the team monitor); any signed-in user when omitted. */
+  allowedRoles?: UserRoleType[];
+}
+
+/**
+ * Renders `children` only once a user is signed in, showing the login form otherwise.
+ */
+export function LoginGate({ children, bypass = false, allowedRoles }: LoginGateProps) {
+  const { data: user, isLoading } = useCurrentUser(!bypass);
+
+  if (bypass) {
+    return <>{children}</>;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <Skeleton className="h-64 w-full max-w-md mx-auto" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return allowedRoles ? (
+      <LoginForm title="Team Monitor sign in" description="Sign in with an owner, administrator or supervisor account." />
+    ) : (
+      <LoginForm />
+    );
+  }
+
+  if (allowedRoles && !allowedRoles.includes(user.role)) {
+    return (
+      <div className="p-6 text-center text-sm text-muted-foreground" data-testid="text-access-denied">
+        You don't have access to this page. You are signed in as {user.username}.
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
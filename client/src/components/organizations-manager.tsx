@@ -0,0 +1,270 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Building2, Copy, Mail, Plus, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-auth";
+import type { Invite, Organization, UserRoleType } from "@shared/schema";
+
+type InviteRole = Exclude<UserRoleType, "owner">;
+
+const inviteRoleLabels: Record<InviteRole, string> = {
+  admin: "Admin",
+  supervisor: "Supervisor",
+  agent: "Agent",
+};
+
+interface CreatedInvite {
+  token: string;
+  invite: Invite;
+}
+
+function inviteLink(token: string): string {
+  return `${window.location.origin}/invite/${token}`;
+}
+
+interface InviteDialogProps {
+  organization: Organization | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Create single-use invite links into one organization and revoke pending ones.
+ */
+function InviteDialog({ organization, onOpenChange }: InviteDialogProps) {
+  const { toast } = useToast();
+  const [role, setRole] = useState<InviteRole>("admin");
+  const [createdLink, setCreatedLink] = useState<string | null>(null);
+  const invitesKey = [`/api/orgs/${organization?.id}/invites`];
+
+  const { data: invites = [] } = useQuery<Invite[]>({
+    queryKey: invitesKey,
+    enabled: !!organization,
+  });
+
+  const createInviteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/orgs/${organization!.id}/invites`, { role });
+      return (await res.json()) as CreatedInvite;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: invitesKey });
+      setCreatedLink(inviteLink(created.token));
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to create invite. Please try again.", variant: "destructive" });
+    },
+  });
+
+  const revokeInviteMutation = useMutation({
+    mutationFn: async (inviteId: string) =>
+      apiRequest("DELETE", `/api/orgs/${organization!.id}/invites/${encodeURIComponent(inviteId)}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invitesKey });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to revoke invite. Please try again.", variant: "destructive" });
+    },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setCreatedLink(null);
+    onOpenChange(open);
+  };
+
+  const copyLink = async () => {
+    if (!createdLink) return;
+    try {
+      await navigator.clipboard.writeText(createdLink);
+      toast({ title: "Invite link copied" });
+    } catch {
+      toast({ title: "Copy failed", description: "Select the link and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={!!organization} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Invite to {organization?.name}</DialogTitle>
+          <DialogDescription>
+            Invite links can be used once and expire after 7 days. The link is only shown now.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="flex items-end gap-2">
+            <div className="space-y-2 flex-1">
+              <Label>Role</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as InviteRole)}>
+                <SelectTrigger data-testid="select-invite-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(inviteRoleLabels) as InviteRole[]).map((r) => (
+                    <SelectItem key={r} value={r}>{inviteRoleLabels[r]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              onClick={() => createInviteMutation.mutate()}
+              disabled={createInviteMutation.isPending}
+              data-testid="button-create-invite"
+            >
+              <Mail className="w-4 h-4 mr-2" />
+              Create Link
+            </Button>
+          </div>
+          {createdLink && (
+            <div className="flex gap-2">
+              <Input value={createdLink} readOnly onFocus={(e) => e.target.select()} data-testid="input-invite-link" />
+              <Button size="icon" variant="outline" onClick={copyLink} data-testid="button-copy-invite">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>Pending Invites</Label>
+            {invites.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No pending invites.</p>
+            ) : (
+              invites.map((invite) => (
+                <div
+                  key={invite.id}
+                  className="flex items-center justify-between p-2 rounded-md border"
+                  data-testid={`invite-item-${invite.id}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary">{inviteRoleLabels[invite.role as InviteRole] ?? invite.role}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      Expires {new Date(invite.expiresAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => revokeInviteMutation.mutate(invite.id)}
+                    disabled={revokeInviteMutation.isPending}
+                    data-testid={`button-revoke-invite-${invite.id}`}
+                  >
+                    <Trash2 className="w-4 h-4 text-muted-foreground" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Owner view for creating organizations (tenants) and inviting their first users.
+ */
+export function OrganizationsManager() {
+  const { toast } = useToast();
+  const { user } = usePermissions();
+  const [orgName, setOrgName] = useState("");
+  const [inviteOrg, setInviteOrg] = useState<Organization | null>(null);
+
+  const { data: organizations = [] } = useQuery<Organization[]>({ queryKey: ["/api/orgs"] });
+
+  const createOrgMutation = useMutation({
+    mutationFn: async (name: string) => apiRequest("POST", "/api/orgs", { name }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orgs"] });
+      setOrgName("");
+      toast({ title: "Organization created", description: "Invite its first admin to get it started." });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create organization. Organization names must be unique.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreateOrg = () => {
+    if (orgName.trim()) {
+      createOrgMutation.mutate(orgName.trim());
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-medium flex items-center gap-2">
+          <Building2 className="w-4 h-4" />
+          Organizations
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          Each organization has its own agents, teams, presets and analytics, and can't see any other's.
+        </p>
+        <div className="flex gap-2">
+          <Input
+            placeholder="New organization name"
+            value={orgName}
+            onChange={(e) => setOrgName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleCreateOrg()}
+            data-testid="input-organization-name"
+          />
+          <Button
+            onClick={handleCreateOrg}
+            disabled={!orgName.trim() || createOrgMutation.isPending}
+            data-testid="button-create-organization"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Organization
+          </Button>
+        </div>
+        <div className="space-y-2">
+          {organizations.map((org) => (
+            <div
+              key={org.id}
+              className="flex items-center justify-between p-3 rounded-md border"
+              data-testid={`organization-item-${org.id}`}
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <span className="font-medium truncate">{org.name}</span>
+                {org.id === user?.orgId && <Badge variant="secondary">Yours</Badge>}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setInviteOrg(org)}
+                data-testid={`button-invite-${org.id}`}
+              >
+                <Mail className="w-4 h-4 mr-2" />
+                Invite
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+      <InviteDialog organization={inviteOrg} onOpenChange={(open) => !open && setInviteOrg(null)} />
+    </Card>
+  );
+}
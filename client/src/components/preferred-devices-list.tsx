@@ -0,0 +1,65 @@
+import { ArrowUp, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import type { PreferredDevice } from "@shared/schema";
+import { findDevice } from "@/lib/device-fallback";
+
+interface PreferredDevicesListProps {
+  label: string;
+  preferred: PreferredDevice[];
+  // Currently connected devices of the same kind
+  available: { deviceId: string; label: string }[];
+  onChange: (preferred: PreferredDevice[]) => void;
+  testId: string;
+}
+
+/**
+ * The order devices are fallen back to when the one in use is unplugged. Devices are added by
+ * selecting them; here they can be moved up or dropped.
+ */
+export function PreferredDevicesList({ label, preferred, available, onChange, testId }: PreferredDevicesListProps) {
+  if (preferred.length === 0) return null;
+
+  const moveUp = (index: number) => {
+    const next = [...preferred];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-1.5 mt-3" data-testid={testId}>
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <ol className="space-y-1">
+        {preferred.map((device, index) => (
+          <li key={device.deviceId} className="flex items-center gap-2 text-sm">
+            <span className="w-4 text-xs text-muted-foreground font-mono">{index + 1}</span>
+            <span className="flex-1 truncate">{device.label || device.deviceId.slice(0, 8)}</span>
+            {!findDevice(available, device) && (
+              <Badge variant="outline" className="text-xs">Not connected</Badge>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              disabled={index === 0}
+              onClick={() => moveUp(index)}
+              aria-label={`Prefer ${device.label}`}
+            >
+              <ArrowUp className="w-3 h-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => onChange(preferred.filter((_, i) => i !== index))}
+              aria-label={`Forget ${device.label}`}
+            >
+              <X className="w-3 h-3" />
+            </Button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
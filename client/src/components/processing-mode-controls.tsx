@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { Mic, MicOff, Radio } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PROCESSING_MODES, defaultAudioSettings } from "@shared/schema";
+import type { AudioSettings, ProcessingMode, TeamPreset } from "@shared/schema";
+import { getLock, getLockedRange, type LockableSetting } from "@/lib/preset-locks";
+import { formatAccelerator, parseAccelerator } from "@/lib/hotkeys";
+
+const modeLabels: Record<ProcessingMode, { name: string; description: string }> = {
+  "always-on": { name: "Always on", description: "Your voice is always sent" },
+  "push-to-talk": { name: "Push to talk", description: "Only sent while you hold the hotkey" },
+  "auto-mute": { name: "Auto-mute", description: "Mutes after a stretch of silence, unmutes when you speak" },
+};
+
+interface ProcessingModeControlsProps {
+  settings: AudioSettings;
+  onSettingsChange: (settings: Partial<AudioSettings>) => void;
+  mandatoryPreset?: TeamPreset | null;
+  isProcessing: boolean;
+  isSpeaking?: boolean;
+  isTransmitting?: boolean;
+  // Whether the desktop app registered the global shortcut (null in the browser)
+  pushToTalkRegistered?: boolean | null;
+  // Manual mute, on top of the talk mode (also in the desktop tray)
+  isMuted?: boolean;
+  onToggleMute?: () => void;
+}
+
+/**
+ * Talk mode (always-on, push-to-talk, auto-mute) and the voice activity detector it relies on,
+ * with the live speaking / muted state.
+ */
+export function ProcessingModeControls({
+  settings,
+  onSettingsChange,
+  mandatoryPreset = null,
+  isProcessing,
+  isSpeaking = false,
+  isTransmitting = true,
+  pushToTalkRegistered = null,
+  isMuted = false,
+  onToggleMute,
+}: ProcessingModeControlsProps) {
+  const isPinned = (field: LockableSetting) => getLock(mandatoryPreset, field) === "exact";
+  const c = { ...defaultAudioSettings, ...settings };
+  const delayRange = getLockedRange(mandatoryPreset, "autoMuteDelay", 1, 60);
+  const sensitivityRange = getLockedRange(mandatoryPreset, "vadSensitivity", 0, 100);
+  // The hotkey is edited locally and only saved once it parses, so half-typed values never go out
+  const [hotkeyDraft, setHotkeyDraft] = useState(c.pushToTalkHotkey);
+  useEffect(() => setHotkeyDraft(c.pushToTalkHotkey), [c.pushToTalkHotkey]);
+  const hotkeyValid = parseAccelerator(hotkeyDraft) !== null;
+  const commitHotkey = () => {
+    const pushToTalkHotkey = hotkeyDraft.trim();
+    if (hotkeyValid && pushToTalkHotkey !== c.pushToTalkHotkey) onSettingsChange({ pushToTalkHotkey });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base font-medium flex items-center gap-2">
+            <Radio className="w-4 h-4" />
+            Talk Mode
+          </CardTitle>
+          {isProcessing && (
+            <div className="flex items-center gap-1.5">
+              <Badge variant={isSpeaking ? "default" : "secondary"} data-testid="badge-vad">
+                {isSpeaking ? "Speaking" : "Silent"}
+              </Badge>
+              {!isTransmitting && (
+                <Badge variant="destructive" data-testid="badge-muted">Muted</Badge>
+              )}
+              {onToggleMute && (
+                <Button
+                  variant={isMuted ? "destructive" : "ghost"}
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={onToggleMute}
+                  aria-label={isMuted ? "Unmute microphone" : "Mute microphone"}
+                  data-testid="button-toggle-mute"
+                >
+                  {isMuted ? <MicOff className="w-3.5 h-3.5" /> : <Mic className="w-3.5 h-3.5" />}
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Select
+              value={c.processingMode}
+              onValueChange={(processingMode: ProcessingMode) => onSettingsChange({ processingMode })}
+              disabled={isPinned("processingMode")}
+            >
+              <SelectTrigger data-testid="select-processing-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROCESSING_MODES.map((mode) => (
+                  <SelectItem key={mode} value={mode}>{modeLabels[mode].name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{modeLabels[c.processingMode].description}</p>
+          </div>
+
+          {c.processingMode === "push-to-talk" && (
+            <div className="space-y-2">
+              <Label className="text-sm text-muted-foreground">Hotkey</Label>
+              <Input
+                value={hotkeyDraft}
+                onChange={(e) => setHotkeyDraft(e.target.value)}
+                onBlur={commitHotkey}
+                onKeyDown={(e) => e.key === "Enter" && commitHotkey()}
+                maxLength={64}
+                disabled={isPinned("pushToTalkHotkey")}
+                placeholder="CommandOrControl+Shift+Space"
+                data-testid="input-push-to-talk-hotkey"
+              />
+              {!hotkeyValid ? (
+                <p className="text-xs text-destructive">Use modifiers and a key joined by "+", e.g. Ctrl+Shift+Space</p>
+              ) : pushToTalkRegistered === false ? (
+                <p className="text-xs text-destructive">
+                  {formatAccelerator(c.pushToTalkHotkey)} is taken by another app; it only works in this window
+                </p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Hold {formatAccelerator(c.pushToTalkHotkey)} here to talk
+                  {pushToTalkRegistered ? "; from other apps, press it once to talk and again to stop" : ""}
+                </p>
+              )}
+            </div>
+          )}
+
+          {c.processingMode === "auto-mute" && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm text-muted-foreground">Mute After</Label>
+                <span className="text-sm font-mono">{c.autoMuteDelay}s of silence</span>
+              </div>
+              <Slider
+                value={[c.autoMuteDelay]}
+                onValueChange={([autoMuteDelay]) => onSettingsChange({ autoMuteDelay })}
+                min={delayRange.min}
+                max={delayRange.max}
+                step={1}
+                disabled={isPinned("autoMuteDelay")}
+                data-testid="slider-auto-mute-delay"
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm text-muted-foreground">Voice Detection Sensitivity</Label>
+              <span className="text-sm font-mono">{c.vadSensitivity}%</span>
+            </div>
+            <Slider
+              value={[c.vadSensitivity]}
+              onValueChange={([vadSensitivity]) => onSettingsChange({ vadSensitivity })}
+              min={sensitivityRange.min}
+              max={sensitivityRange.max}
+              step={5}
+              disabled={isPinned("vadSensitivity")}
+              data-testid="slider-vad-sensitivity"
+            />
+            <p className="text-xs text-muted-foreground">
+              Raise it if quiet speech shows as Silent; lower it if background noise shows as Speaking.
+            </p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,139 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Disc, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Recording } from "@shared/schema";
+
+interface RecordingsListProps {
+  agentId: string;
+}
+
+function formatDuration(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+interface RecordingAudioUrl {
+  url: string;
+  expiresAt: number;
+}
+
+// The player streams from a URL carrying a short-lived media token; once it has expired, a failed
+// load (e.g. pressing play much later) fetches a fresh one.
+function RecordingAudio({ recordingId }: { recordingId: string }) {
+  const { data, refetch } = useQuery<RecordingAudioUrl>({
+    queryKey: ["/api/recordings", recordingId, "audio-url"],
+    // A new URL would restart playback, so only replace it when it has stopped working
+    staleTime: Infinity,
+  });
+
+  return (
+    <audio
+      controls
+      preload="none"
+      src={data?.url}
+      onError={() => {
+        if (data && data.expiresAt <= Date.now()) void refetch();
+      }}
+      className="w-full h-8"
+      data-testid={`audio-recording-${recordingId}`}
+    />
+  );
+}
+
+export function RecordingsList({ agentId }: RecordingsListProps) {
+  const { toast } = useToast();
+
+  const { data: recordings = [], isLoading } = useQuery<Recording[]>({
+    queryKey: ["/api/agents", agentId, "recordings"],
+  });
+
+  const deleteRecordingMutation = useMutation({
+    mutationFn: async (recordingId: string) => {
+      return apiRequest("DELETE", `/api/recordings/${recordingId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/agents", agentId, "recordings"] });
+      toast({
+        title: "Recording deleted",
+        description: "The recording and its audio have been removed.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete recording. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-medium flex items-center gap-2">
+          <Disc className="w-4 h-4" />
+          Recordings
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground text-center py-4">
+            Loading recordings...
+          </div>
+        ) : recordings.length === 0 ? (
+          <div className="text-sm text-muted-foreground text-center py-4">
+            No recordings yet. Recordings you stop are saved here automatically.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {recordings.map((recording) => (
+              <div
+                key={recording.id}
+                className="p-2 rounded-md border space-y-2"
+                data-testid={`recording-item-${recording.id}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="text-sm font-medium truncate">{recording.fileName}</span>
+                    <Badge variant="outline" className="shrink-0 font-mono">
+                      {formatDuration(recording.duration)}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground shrink-0">
+                      {formatFileSize(recording.fileSize)}
+                    </span>
+                  </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="shrink-0 h-8 w-8"
+                    onClick={() => deleteRecordingMutation.mutate(recording.id)}
+                    disabled={deleteRecordingMutation.isPending}
+                    data-testid={`button-delete-recording-${recording.id}`}
+                  >
+                    <Trash2 className="w-4 h-4 text-muted-foreground" />
+                  </Button>
+                </div>
+                {recording.storageKey ? (
+                  <RecordingAudio recordingId={recording.id} />
+                ) : (
+                  <p className="text-xs text-muted-foreground">Audio was not uploaded for this recording.</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,156 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { RotateCcw } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { describeEqBands, lockableSettingLabels, type LockableSetting } from "@/lib/preset-locks";
+import type { AudioSettingsChange, EqBand, PreferredDevice, RevisionAction, SettingsRevision } from "@shared/schema";
+
+const actionLabels: Record<RevisionAction, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+  restore: "Restored",
+};
+
+// Device settings aren't lockable, so they have no lock label
+const deviceSettingLabels: Partial<Record<AudioSettingsChange["field"], string>> = {
+  inputDeviceId: "Microphone",
+  outputDeviceId: "Output Device",
+  preferredInputDevices: "Preferred Microphones",
+  preferredOutputDevices: "Preferred Output Devices",
+};
+
+function formatValue(field: AudioSettingsChange["field"], value: AudioSettingsChange["from"]): string {
+  if (value === null) return "—";
+  if (typeof value === "boolean") return value ? "on" : "off";
+  if (field === "preferredInputDevices" || field === "preferredOutputDevices") {
+    return (value as PreferredDevice[]).map((device) => device.label).join(", ") || "none";
+  }
+  if (Array.isArray(value)) return describeEqBands(value as EqBand[]);
+  return String(value).replace(/_/g, " ");
+}
+
+function fieldLabel(field: AudioSettingsChange["field"]): string {
+  return lockableSettingLabels[field as LockableSetting] ?? deviceSettingLabels[field] ?? field;
+}
+
+interface RevisionHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  // e.g. "/api/team-presets/<id>/revisions"; restoring posts to "<revisionsUrl>/<revisionId>/restore"
+  revisionsUrl: string;
+  onRestored?: () => void;
+}
+
+/**
+ * Who changed a preset or profile, when, and which audio settings moved; any earlier revision can be restored.
+ */
+export function RevisionHistoryDialog({ open, onOpenChange, title, revisionsUrl, onRestored }: RevisionHistoryDialogProps) {
+  const { toast } = useToast();
+
+  const { data: revisions = [], isLoading, refetch } = useQuery<SettingsRevision[]>({
+    queryKey: [revisionsUrl],
+    enabled: open,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: string) => {
+      return apiRequest("POST", `${revisionsUrl}/${revisionId}/restore`);
+    },
+    onSuccess: () => {
+      refetch();
+      onRestored?.();
+      toast({
+        title: "Revision restored",
+        description: "The previous settings are back in place.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to restore revision. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>History: {title}</DialogTitle>
+          <DialogDescription>
+            Every change, newest first. Restoring a revision puts its name and audio settings back.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground text-center py-8">Loading history...</div>
+        ) : revisions.length === 0 ? (
+          <div className="text-sm text-muted-foreground text-center py-8">
+            No changes have been recorded yet.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {revisions.map((revision, index) => (
+              <div
+                key={revision.id}
+                className="p-3 rounded-md border space-y-2"
+                data-testid={`revision-item-${revision.id}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Badge variant={revision.action === "delete" ? "destructive" : "secondary"} className="shrink-0">
+                      {actionLabels[revision.action]}
+                    </Badge>
+                    <span className="text-sm truncate">
+                      {revision.username} · {format(new Date(revision.createdAt), "MMM d, yyyy HH:mm")}
+                    </span>
+                  </div>
+                  {index > 0 && revision.action !== "delete" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => restoreMutation.mutate(revision.id)}
+                      disabled={restoreMutation.isPending}
+                      data-testid={`button-restore-revision-${revision.id}`}
+                    >
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+                {revision.action === "update" || revision.action === "restore" ? (
+                  revision.changes.length > 0 ? (
+                    <ul className="text-xs text-muted-foreground space-y-0.5">
+                      {revision.changes.map((change) => (
+                        <li key={change.field}>
+                          {fieldLabel(change.field)}: {formatValue(change.field, change.from)} → {formatValue(change.field, change.to)}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">No audio settings changed</p>
+                  )
+                ) : (
+                  <p className="text-xs text-muted-foreground">"{revision.snapshot.name}"</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -23,16 +23,18 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Settings, Plus, Trash2, Edit2, Users, CheckCircle2 } from "lucide-react";
+import { Settings, Plus, Trash2, Edit2, Users, CheckCircle2, Lock, History, Download, Upload } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { downloadVoxPreset } from "@/lib/voxpreset";
 import { useToast } from "@/hooks/use-toast";
-import type { TeamPreset, AudioSettings, AccentPresetType } from "@shared/schema";
-import { defaultAudioSettings, accentPresetConfigs } from "@shared/schema";
-
-const presetGroups = {
-  "Basic": ["neutral", "deeper", "higher", "warm", "clear"],
-  "Regional": ["british", "australian", "southern_us", "midwest_us", "new_york"],
-};
+import { RevisionHistoryDialog } from "@/components/revision-history";
+import { VoxPresetImportDialog } from "@/components/voxpreset-import-dialog";
+import { EqCurveEditor } from "@/components/eq-curve-editor";
+import { DeEsserControls, DynamicsControls, LoudnessControls } from "@/components/dynamics-controls";
+import { useAccentPresets } from "@/hooks/use-accent-presets";
+import type { TeamPreset, AudioSettings, PresetLockMode, PresetLocks, Team } from "@shared/schema";
+import { defaultAudioSettings } from "@shared/schema";
+import { lockableSettingLabels, lockModeLabels, type LockableSetting } from "@/lib/preset-locks";
 
 export function TeamPresetsManager() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -41,18 +43,47 @@ export function TeamPresetsManager() {
   const [presetDescription, setPresetDescription] = useState("");
   const [isActive, setIsActive] = useState(true);
   const [settings, setSettings] = useState<AudioSettings>(defaultAudioSettings);
+  const [isMandatory, setIsMandatory] = useState(false);
+  const [scopeTeamId, setScopeTeamId] = useState<string | null>(null);
+  const [lockedFields, setLockedFields] = useState<PresetLocks>({});
+  const [historyPreset, setHistoryPreset] = useState<TeamPreset | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const accentPresets = useAccentPresets();
   const { toast } = useToast();
 
   const { data: teamPresets = [], isLoading } = useQuery<TeamPreset[]>({
     queryKey: ["/api/team-presets"],
   });
 
+  const { data: teams = [] } = useQuery<Team[]>({
+    queryKey: ["/api/teams"],
+  });
+
+  const teamName = (teamId: string | null) =>
+    teamId === null ? "Whole organization" : teams.find((t) => t.id === teamId)?.name ?? "Unknown team";
+
+  // Agents' settings change as soon as a mandatory preset does, so refresh them too
+  const invalidatePresets = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/team-presets"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/agents"] });
+  };
+
+  const revisionsUrl = (presetId: string) => `/api/team-presets/${presetId}/revisions`;
+
   const createPresetMutation = useMutation({
-    mutationFn: async (data: { name: string; description?: string; isActive: boolean; audioSettings: AudioSettings }) => {
+    mutationFn: async (data: {
+      name: string;
+      description?: string;
+      isActive: boolean;
+      audioSettings: AudioSettings;
+      isMandatory: boolean;
+      teamId: string | null;
+      lockedFields: PresetLocks;
+    }) => {
       return apiRequest("POST", "/api/team-presets", data);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/team-presets"] });
+      invalidatePresets();
       resetForm();
       toast({
         title: "Team preset created",
@@ -72,8 +103,9 @@ export function TeamPresetsManager() {
     mutationFn: async (data: { id: string; updates: Partial<TeamPreset> }) => {
       return apiRequest("PATCH", `/api/team-presets/${data.id}`, data.updates);
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/team-presets"] });
+    onSuccess: (_res, data) => {
+      invalidatePresets();
+      queryClient.invalidateQueries({ queryKey: [revisionsUrl(data.id)] });
       resetForm();
       toast({
         title: "Preset updated",
@@ -94,7 +126,7 @@ export function TeamPresetsManager() {
       return apiRequest("DELETE", `/api/team-presets/${presetId}`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/team-presets"] });
+      invalidatePresets();
       toast({
         title: "Preset deleted",
         description: "The team preset has been removed.",
@@ -116,6 +148,9 @@ export function TeamPresetsManager() {
     setPresetDescription("");
     setIsActive(true);
     setSettings(defaultAudioSettings);
+    setIsMandatory(false);
+    setScopeTeamId(null);
+    setLockedFields({});
   };
 
   const handleOpenCreate = () => {
@@ -129,6 +164,9 @@ export function TeamPresetsManager() {
     setPresetDescription(preset.description || "");
     setIsActive(preset.isActive);
     setSettings(preset.audioSettings);
+    setIsMandatory(preset.isMandatory);
+    setScopeTeamId(preset.teamId);
+    setLockedFields(preset.lockedFields);
     setIsDialogOpen(true);
   };
 
@@ -142,26 +180,36 @@ export function TeamPresetsManager() {
       return;
     }
 
+    const data = {
+      name: presetName.trim(),
+      description: presetDescription.trim() || undefined,
+      isActive,
+      audioSettings: settings,
+      isMandatory,
+      teamId: scopeTeamId,
+      // Locks only mean something on a mandatory preset
+      lockedFields: isMandatory ? lockedFields : {},
+    };
+
     if (editingPreset) {
-      updatePresetMutation.mutate({
-        id: editingPreset.id,
-        updates: {
-          name: presetName.trim(),
-          description: presetDescription.trim() || undefined,
-          isActive,
-          audioSettings: settings,
-        },
-      });
+      updatePresetMutation.mutate({ id: editingPreset.id, updates: data });
     } else {
-      createPresetMutation.mutate({
-        name: presetName.trim(),
-        description: presetDescription.trim() || undefined,
-        isActive,
-        audioSettings: settings,
-      });
+      createPresetMutation.mutate(data);
     }
   };
 
+  const handleLockChange = (field: LockableSetting, mode: PresetLockMode | "none") => {
+    setLockedFields((prev) => {
+      const next = { ...prev };
+      if (mode === "none") {
+        delete next[field];
+      } else {
+        next[field] = mode;
+      }
+      return next;
+    });
+  };
+
   const handleSettingsChange = (newSettings: Partial<AudioSettings>) => {
     setSettings((prev) => ({ ...prev, ...newSettings }));
   };
@@ -173,6 +221,20 @@ export function TeamPresetsManager() {
     });
   };
 
+  // Without ids, every preset is exported
+  const handleExport = async (ids?: string[]) => {
+    const query = ids ? `?ids=${ids.join(",")}` : "";
+    try {
+      await downloadVoxPreset(`/api/team-presets/export${query}`);
+    } catch {
+      toast({
+        title: "Export failed",
+        description: "Could not export presets. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -181,231 +243,329 @@ export function TeamPresetsManager() {
             <Settings className="w-5 h-5" />
             Team Presets
           </CardTitle>
-          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button onClick={handleOpenCreate} data-testid="button-create-team-preset">
-                <Plus className="w-4 h-4 mr-2" />
-                Create Preset
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
-              <DialogHeader>
-                <DialogTitle>{editingPreset ? "Edit Team Preset" : "Create Team Preset"}</DialogTitle>
-                <DialogDescription>
-                  {editingPreset 
-                    ? "Update the team-wide voice preset settings." 
-                    : "Create a voice preset that will be available to all agents on your team."}
-                </DialogDescription>
-              </DialogHeader>
-              
-              <div className="space-y-6 py-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="preset-name">Preset Name</Label>
-                    <Input
-                      id="preset-name"
-                      value={presetName}
-                      onChange={(e) => setPresetName(e.target.value)}
-                      placeholder="e.g., Professional Call, Warm & Friendly"
-                      data-testid="input-team-preset-name"
-                    />
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => setIsImportOpen(true)} data-testid="button-import-team-presets">
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => handleExport()}
+              disabled={teamPresets.length === 0}
+              data-testid="button-export-team-presets"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export All
+            </Button>
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              <DialogTrigger asChild>
+                <Button onClick={handleOpenCreate} data-testid="button-create-team-preset">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Create Preset
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>{editingPreset ? "Edit Team Preset" : "Create Team Preset"}</DialogTitle>
+                  <DialogDescription>
+                    {editingPreset 
+                      ? "Update the team-wide voice preset settings." 
+                      : "Create a voice preset that will be available to all agents on your team."}
+                  </DialogDescription>
+                </DialogHeader>
+                
+                <div className="space-y-6 py-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="preset-name">Preset Name</Label>
+                      <Input
+                        id="preset-name"
+                        value={presetName}
+                        onChange={(e) => setPresetName(e.target.value)}
+                        placeholder="e.g., Professional Call, Warm & Friendly"
+                        data-testid="input-team-preset-name"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="preset-desc">Description (optional)</Label>
+                      <Input
+                        id="preset-desc"
+                        value={presetDescription}
+                        onChange={(e) => setPresetDescription(e.target.value)}
+                        placeholder="When to use this preset"
+                        data-testid="input-team-preset-description"
+                      />
+                    </div>
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="preset-desc">Description (optional)</Label>
-                    <Input
-                      id="preset-desc"
-                      value={presetDescription}
-                      onChange={(e) => setPresetDescription(e.target.value)}
-                      placeholder="When to use this preset"
-                      data-testid="input-team-preset-description"
+  
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label>Active</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Only active presets are visible to agents
+                      </p>
+                    </div>
+                    <Switch
+                      checked={isActive}
+                      onCheckedChange={setIsActive}
+                      data-testid="switch-team-preset-active"
                     />
                   </div>
-                </div>
-
-                <div className="flex items-center justify-between">
-                  <div>
-                    <Label>Active</Label>
-                    <p className="text-xs text-muted-foreground">
-                      Only active presets are visible to agents
-                    </p>
-                  </div>
-                  <Switch
-                    checked={isActive}
-                    onCheckedChange={setIsActive}
-                    data-testid="switch-team-preset-active"
-                  />
-                </div>
-
-                <div className="border-t pt-4 space-y-4">
-                  <h4 className="font-medium">Audio Settings</h4>
-                  
+  
                   <div className="grid grid-cols-2 gap-4">
-                    <div className="space-y-3">
-                      <div className="flex items-center justify-between">
-                        <Label className="text-sm">Noise Reduction</Label>
-                        <Switch
-                          checked={settings.noiseReductionEnabled}
-                          onCheckedChange={(checked) => handleSettingsChange({ noiseReductionEnabled: checked })}
-                        />
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <Label>Mandatory</Label>
+                        <p className="text-xs text-muted-foreground">
+                          Applied to every agent in scope immediately
+                        </p>
+                      </div>
+                      <Switch
+                        checked={isMandatory}
+                        onCheckedChange={setIsMandatory}
+                        data-testid="switch-team-preset-mandatory"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Applies To</Label>
+                      <Select
+                        value={scopeTeamId ?? "org"}
+                        onValueChange={(value) => setScopeTeamId(value === "org" ? null : value)}
+                      >
+                        <SelectTrigger data-testid="select-team-preset-scope">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="org">Whole organization</SelectItem>
+                          {teams.map((team) => (
+                            <SelectItem key={team.id} value={team.id}>
+                              {team.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+  
+                  <div className="border-t pt-4 space-y-4">
+                    <h4 className="font-medium">Audio Settings</h4>
+                    
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-3">
+                        <div className="flex items-center justify-between">
+                          <Label className="text-sm">Noise Reduction</Label>
+                          <Switch
+                            checked={settings.noiseReductionEnabled}
+                            onCheckedChange={(checked) => handleSettingsChange({ noiseReductionEnabled: checked })}
+                          />
+                        </div>
+                        {settings.noiseReductionEnabled && (
+                          <div className="space-y-2">
+                            <div className="flex justify-between text-xs text-muted-foreground">
+                              <span>Level</span>
+                              <span>{settings.noiseReductionLevel}%</span>
+                            </div>
+                            <Slider
+                              value={[settings.noiseReductionLevel]}
+                              onValueChange={([value]) => handleSettingsChange({ noiseReductionLevel: value })}
+                              max={100}
+                              min={0}
+                              step={5}
+                            />
+                          </div>
+                        )}
                       </div>
-                      {settings.noiseReductionEnabled && (
+  
+                      <div className="space-y-3">
+                        <div className="flex items-center justify-between">
+                          <Label className="text-sm">Voice Modifier</Label>
+                          <Switch
+                            checked={settings.accentModifierEnabled}
+                            onCheckedChange={(checked) => handleSettingsChange({ accentModifierEnabled: checked })}
+                          />
+                        </div>
+                        {settings.accentModifierEnabled && (
+                          <Select
+                            value={settings.accentPreset}
+                            onValueChange={(value) => {
+                              const preset = accentPresets.find(value);
+                              handleSettingsChange({
+                                accentPreset: value,
+                                ...(preset ? { pitchShift: preset.pitchShift, formantShift: preset.formantShift } : {}),
+                              });
+                            }}
+                          >
+                            <SelectTrigger className="h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {accentPresets.groups.map(([group, presets]) => (
+                                <div key={group}>
+                                  <div className="px-2 py-1 text-xs font-semibold text-muted-foreground">{group}</div>
+                                  {presets.map((preset) => (
+                                    <SelectItem key={preset.key} value={preset.key}>
+                                      {preset.name}
+                                    </SelectItem>
+                                  ))}
+                                </div>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </div>
+                    </div>
+  
+                    {settings.accentModifierEnabled && (
+                      <div className="grid grid-cols-2 gap-4">
                         <div className="space-y-2">
                           <div className="flex justify-between text-xs text-muted-foreground">
-                            <span>Level</span>
-                            <span>{settings.noiseReductionLevel}%</span>
+                            <span>Pitch</span>
+                            <span>{settings.pitchShift > 0 ? "+" : ""}{settings.pitchShift} st</span>
                           </div>
                           <Slider
-                            value={[settings.noiseReductionLevel]}
-                            onValueChange={([value]) => handleSettingsChange({ noiseReductionLevel: value })}
-                            max={100}
-                            min={0}
+                            value={[settings.pitchShift]}
+                            onValueChange={([value]) => handleSettingsChange({ pitchShift: value })}
+                            max={12}
+                            min={-12}
+                            step={1}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <div className="flex justify-between text-xs text-muted-foreground">
+                            <span>Formant</span>
+                            <span>{(settings.formantShift || 0) > 0 ? "+" : ""}{settings.formantShift || 0}%</span>
+                          </div>
+                          <Slider
+                            value={[settings.formantShift || 0]}
+                            onValueChange={([value]) => handleSettingsChange({ formantShift: value })}
+                            max={50}
+                            min={-50}
                             step={5}
                           />
                         </div>
-                      )}
-                    </div>
-
-                    <div className="space-y-3">
-                      <div className="flex items-center justify-between">
-                        <Label className="text-sm">Voice Modifier</Label>
+                      </div>
+                    )}
+  
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <div className="flex justify-between text-xs text-muted-foreground">
+                          <span>Clarity Boost</span>
+                          <span>{settings.clarityBoost || 0}%</span>
+                        </div>
+                        <Slider
+                          value={[settings.clarityBoost || 0]}
+                          onValueChange={([value]) => handleSettingsChange({ clarityBoost: value })}
+                          max={100}
+                          min={0}
+                          step={5}
+                        />
+                      </div>
+                      <div className="flex items-center justify-between py-2">
+                        <Label className="text-sm">Volume Normalization</Label>
                         <Switch
-                          checked={settings.accentModifierEnabled}
-                          onCheckedChange={(checked) => handleSettingsChange({ accentModifierEnabled: checked })}
+                          checked={settings.volumeNormalization || false}
+                          onCheckedChange={(checked) => handleSettingsChange({ volumeNormalization: checked })}
                         />
                       </div>
-                      {settings.accentModifierEnabled && (
-                        <Select
-                          value={settings.accentPreset}
-                          onValueChange={(value: AccentPresetType) => {
-                            const config = accentPresetConfigs[value];
-                            handleSettingsChange({
-                              accentPreset: value,
-                              pitchShift: config.pitchShift,
-                              formantShift: config.formantShift,
-                            });
-                          }}
-                        >
-                          <SelectTrigger className="h-8">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {Object.entries(presetGroups).map(([group, presets]) => (
-                              <div key={group}>
-                                <div className="px-2 py-1 text-xs font-semibold text-muted-foreground">{group}</div>
-                                {presets.map((key) => (
-                                  <SelectItem key={key} value={key}>
-                                    {key.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
-                                  </SelectItem>
-                                ))}
-                              </div>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                      )}
+                      <DynamicsControls settings={settings} onSettingsChange={handleSettingsChange} />
                     </div>
-                  </div>
 
-                  {settings.accentModifierEnabled && (
+                    <DeEsserControls settings={settings} onSettingsChange={handleSettingsChange} />
+
+                    <div className="space-y-2">
+                      <Label className="text-sm">Equalizer</Label>
+                      <EqCurveEditor
+                        bands={settings.eqBands ?? []}
+                        onChange={(eqBands) => handleSettingsChange({ eqBands })}
+                      />
+                    </div>
+  
                     <div className="grid grid-cols-2 gap-4">
                       <div className="space-y-2">
                         <div className="flex justify-between text-xs text-muted-foreground">
-                          <span>Pitch</span>
-                          <span>{settings.pitchShift > 0 ? "+" : ""}{settings.pitchShift} st</span>
+                          <span>Input Gain</span>
+                          <span>{settings.inputGain}%</span>
                         </div>
                         <Slider
-                          value={[settings.pitchShift]}
-                          onValueChange={([value]) => handleSettingsChange({ pitchShift: value })}
-                          max={12}
-                          min={-12}
-                          step={1}
+                          value={[settings.inputGain]}
+                          onValueChange={([value]) => handleSettingsChange({ inputGain: value })}
+                          max={200}
+                          min={0}
+                          step={5}
                         />
                       </div>
                       <div className="space-y-2">
                         <div className="flex justify-between text-xs text-muted-foreground">
-                          <span>Formant</span>
-                          <span>{(settings.formantShift || 0) > 0 ? "+" : ""}{settings.formantShift || 0}%</span>
+                          <span>Output Gain</span>
+                          <span>{settings.outputGain}%</span>
                         </div>
                         <Slider
-                          value={[settings.formantShift || 0]}
-                          onValueChange={([value]) => handleSettingsChange({ formantShift: value })}
-                          max={50}
-                          min={-50}
+                          value={[settings.outputGain]}
+                          onValueChange={([value]) => handleSettingsChange({ outputGain: value })}
+                          max={200}
+                          min={0}
                           step={5}
                         />
                       </div>
                     </div>
-                  )}
 
-                  <div className="grid grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <div className="flex justify-between text-xs text-muted-foreground">
-                        <span>Clarity Boost</span>
-                        <span>{settings.clarityBoost || 0}%</span>
-                      </div>
-                      <Slider
-                        value={[settings.clarityBoost || 0]}
-                        onValueChange={([value]) => handleSettingsChange({ clarityBoost: value })}
-                        max={100}
-                        min={0}
-                        step={5}
-                      />
-                    </div>
-                    <div className="flex items-center justify-between py-2">
-                      <Label className="text-sm">Volume Normalization</Label>
-                      <Switch
-                        checked={settings.volumeNormalization || false}
-                        onCheckedChange={(checked) => handleSettingsChange({ volumeNormalization: checked })}
-                      />
-                    </div>
+                    <LoudnessControls settings={settings} onSettingsChange={handleSettingsChange} />
                   </div>
-
-                  <div className="grid grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <div className="flex justify-between text-xs text-muted-foreground">
-                        <span>Input Gain</span>
-                        <span>{settings.inputGain}%</span>
+  
+                  {isMandatory && (
+                    <div className="border-t pt-4 space-y-3" data-testid="section-team-preset-locks">
+                      <div>
+                        <h4 className="font-medium">Locked Settings</h4>
+                        <p className="text-xs text-muted-foreground">
+                          Locked settings use this preset's value; minimum and maximum locks let agents go above or below it only.
+                        </p>
                       </div>
-                      <Slider
-                        value={[settings.inputGain]}
-                        onValueChange={([value]) => handleSettingsChange({ inputGain: value })}
-                        max={200}
-                        min={0}
-                        step={5}
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <div className="flex justify-between text-xs text-muted-foreground">
-                        <span>Output Gain</span>
-                        <span>{settings.outputGain}%</span>
+                      <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+                        {(Object.keys(lockableSettingLabels) as LockableSetting[]).map((field) => (
+                          <div key={field} className="flex items-center justify-between gap-2">
+                            <Label className="text-sm">{lockableSettingLabels[field]}</Label>
+                            <Select
+                              value={lockedFields[field] ?? "none"}
+                              onValueChange={(value: PresetLockMode | "none") => handleLockChange(field, value)}
+                            >
+                              <SelectTrigger className="h-8 w-32" data-testid={`select-lock-${field}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">Unlocked</SelectItem>
+                                <SelectItem value="exact">{lockModeLabels.exact}</SelectItem>
+                                {typeof defaultAudioSettings[field] === "number" && (
+                                  <>
+                                    <SelectItem value="min">{lockModeLabels.min}</SelectItem>
+                                    <SelectItem value="max">{lockModeLabels.max}</SelectItem>
+                                  </>
+                                )}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        ))}
                       </div>
-                      <Slider
-                        value={[settings.outputGain]}
-                        onValueChange={([value]) => handleSettingsChange({ outputGain: value })}
-                        max={200}
-                        min={0}
-                        step={5}
-                      />
                     </div>
-                  </div>
+                  )}
                 </div>
-              </div>
-
-              <DialogFooter>
-                <Button variant="outline" onClick={resetForm}>
-                  Cancel
-                </Button>
-                <Button 
-                  onClick={handleSave} 
-                  disabled={createPresetMutation.isPending || updatePresetMutation.isPending}
-                  data-testid="button-save-team-preset"
-                >
-                  {(createPresetMutation.isPending || updatePresetMutation.isPending) 
-                    ? "Saving..." 
-                    : (editingPreset ? "Save Changes" : "Create Preset")}
-                </Button>
-              </DialogFooter>
-            </DialogContent>
-          </Dialog>
+  
+                <DialogFooter>
+                  <Button variant="outline" onClick={resetForm}>
+                    Cancel
+                  </Button>
+                  <Button 
+                    onClick={handleSave} 
+                    disabled={createPresetMutation.isPending || updatePresetMutation.isPending}
+                    data-testid="button-save-team-preset"
+                  >
+                    {(createPresetMutation.isPending || updatePresetMutation.isPending) 
+                      ? "Saving..." 
+                      : (editingPreset ? "Save Changes" : "Create Preset")}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
       </CardHeader>
       <CardContent>
@@ -443,6 +603,12 @@ export function TeamPresetsManager() {
                           Inactive
                         </Badge>
                       )}
+                      {preset.isMandatory && (
+                        <Badge variant="outline" className="shrink-0" data-testid={`badge-preset-mandatory-${preset.id}`}>
+                          <Lock className="w-3 h-3 mr-1" />
+                          Mandatory · {teamName(preset.teamId)}
+                        </Badge>
+                      )}
                     </div>
                     {preset.description && (
                       <p className="text-xs text-muted-foreground truncate mt-0.5">
@@ -472,6 +638,24 @@ export function TeamPresetsManager() {
                   >
                     <CheckCircle2 className={`w-4 h-4 ${preset.isActive ? "text-primary" : "text-muted-foreground"}`} />
                   </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setHistoryPreset(preset)}
+                    title="History"
+                    data-testid={`button-history-preset-${preset.id}`}
+                  >
+                    <History className="w-4 h-4 text-muted-foreground" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => handleExport([preset.id])}
+                    title="Export"
+                    data-testid={`button-export-preset-${preset.id}`}
+                  >
+                    <Download className="w-4 h-4 text-muted-foreground" />
+                  </Button>
                   <Button
                     size="icon"
                     variant="ghost"
@@ -494,6 +678,22 @@ export function TeamPresetsManager() {
             ))}
           </div>
         )}
+        {historyPreset && (
+          <RevisionHistoryDialog
+            open
+            onOpenChange={(open) => !open && setHistoryPreset(null)}
+            title={historyPreset.name}
+            revisionsUrl={revisionsUrl(historyPreset.id)}
+            onRestored={invalidatePresets}
+          />
+        )}
+        <VoxPresetImportDialog
+          open={isImportOpen}
+          onOpenChange={setIsImportOpen}
+          title="Import Team Presets"
+          importUrl="/api/team-presets/import"
+          onImported={invalidatePresets}
+        />
       </CardContent>
     </Card>
   );
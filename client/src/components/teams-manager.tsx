@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Network, Plus, Trash2, UserCog, Users } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Agent, PublicUser, Team, UserRoleType } from "@shared/schema";
+
+const NO_TEAM = "none";
+
+const roleLabels: Record<UserRoleType, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  supervisor: "Supervisor",
+  agent: "Agent",
+};
+
+interface TeamSelectProps {
+  teams: Team[];
+  value: string | null;
+  onChange: (teamId: string | null) => void;
+  disabled?: boolean;
+  testId: string;
+}
+
+function TeamSelect({ teams, value, onChange, disabled, testId }: TeamSelectProps) {
+  return (
+    <Select
+      value={value ?? NO_TEAM}
+      onValueChange={(next) => onChange(next === NO_TEAM ? null : next)}
+      disabled={disabled}
+    >
+      <SelectTrigger className="w-44" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_TEAM}>No team</SelectItem>
+        {teams.map((team) => (
+          <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * Admin view for creating teams, assigning agents to them and giving supervisors a team.
+ */
+export function TeamsManager() {
+  const { toast } = useToast();
+  const [teamName, setTeamName] = useState("");
+
+  const { data: teams = [] } = useQuery<Team[]>({ queryKey: ["/api/teams"] });
+  const { data: users = [] } = useQuery<PublicUser[]>({ queryKey: ["/api/users"] });
+  const { data: agents = [] } = useQuery<Agent[]>({ queryKey: ["/api/agents"] });
+
+  const showError = (description: string) => {
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const createTeamMutation = useMutation({
+    mutationFn: async (name: string) => apiRequest("POST", "/api/teams", { name }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/teams"] });
+      setTeamName("");
+      toast({ title: "Team created" });
+    },
+    onError: () => showError("Failed to create team. Team names must be unique."),
+  });
+
+  const deleteTeamMutation = useMutation({
+    mutationFn: async (teamId: string) => apiRequest("DELETE", `/api/teams/${teamId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/teams"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/agents"] });
+    },
+    onError: () => showError("Failed to delete team. Please try again."),
+  });
+
+  const updateUserMutation = useMutation({
+    mutationFn: async (data: { id: string; role?: UserRoleType; teamId?: string | null }) => {
+      const { id, ...updates } = data;
+      return apiRequest("PATCH", `/api/users/${id}`, updates);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: () => showError("Failed to update account. Please try again."),
+  });
+
+  const assignAgentMutation = useMutation({
+    mutationFn: async (data: { agentId: string; teamId: string | null }) =>
+      apiRequest("PATCH", `/api/agents/${data.agentId}/team`, { teamId: data.teamId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/agents"] });
+    },
+    onError: () => showError("Failed to move agent. Please try again."),
+  });
+
+  const handleCreateTeam = () => {
+    if (teamName.trim()) {
+      createTeamMutation.mutate(teamName.trim());
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base font-medium flex items-center gap-2">
+            <Network className="w-4 h-4" />
+            Teams
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex gap-2">
+            <Input
+              placeholder="New team name"
+              value={teamName}
+              onChange={(e) => setTeamName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleCreateTeam()}
+              data-testid="input-team-name"
+            />
+            <Button
+              onClick={handleCreateTeam}
+              disabled={!teamName.trim() || createTeamMutation.isPending}
+              data-testid="button-create-team"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Team
+            </Button>
+          </div>
+          {teams.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No teams yet. Create one, then assign agents and a supervisor to it.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {teams.map((team) => (
+                <div
+                  key={team.id}
+                  className="flex items-center justify-between p-3 rounded-md border"
+                  data-testid={`team-item-${team.id}`}
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="font-medium truncate">{team.name}</span>
+                    <Badge variant="secondary">
+                      {agents.filter((a) => a.teamId === team.id).length} agents
+                    </Badge>
+                    <span className="text-xs text-muted-foreground truncate">
+                      {users.filter((u) => u.role === "supervisor" && u.teamId === team.id)
+                        .map((u) => u.username).join(", ") || "No supervisor"}
+                    </span>
+                  </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => deleteTeamMutation.mutate(team.id)}
+                    disabled={deleteTeamMutation.isPending}
+                    data-testid={`button-delete-team-${team.id}`}
+                  >
+                    <Trash2 className="w-4 h-4 text-muted-foreground" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base font-medium flex items-center gap-2">
+            <UserCog className="w-4 h-4" />
+            Accounts
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {users.map((user) => (
+            <div
+              key={user.id}
+              className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-2 rounded-md border"
+              data-testid={`user-item-${user.id}`}
+            >
+              <span className="text-sm font-medium truncate">{user.username}</span>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={user.role}
+                  onValueChange={(role) => updateUserMutation.mutate({ id: user.id, role: role as UserRoleType })}
+                  disabled={updateUserMutation.isPending || user.role === "owner"}
+                >
+                  <SelectTrigger className="w-36" data-testid={`select-user-role-${user.id}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(roleLabels) as UserRoleType[])
+                      // Ownership can't be granted, but the owner's own row still needs its label
+                      .filter((role) => role !== "owner" || user.role === "owner")
+                      .map((role) => (
+                        <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <TeamSelect
+                  teams={teams}
+                  value={user.teamId}
+                  onChange={(teamId) => updateUserMutation.mutate({ id: user.id, teamId })}
+                  disabled={updateUserMutation.isPending || user.role !== "supervisor"}
+                  testId={`select-user-team-${user.id}`}
+                />
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base font-medium flex items-center gap-2">
+            <Users className="w-4 h-4" />
+            Agent Assignments
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {agents.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No agents registered yet.</p>
+          ) : (
+            agents.map((agent) => (
+              <div
+                key={agent.id}
+                className="flex items-center justify-between gap-2 p-2 rounded-md border"
+                data-testid={`agent-assignment-${agent.id}`}
+              >
+                <span className="text-sm font-medium truncate">{agent.name}</span>
+                <TeamSelect
+                  teams={teams}
+                  value={agent.teamId}
+                  onChange={(teamId) => assignAgentMutation.mutate({ agentId: agent.id, teamId })}
+                  disabled={assignAgentMutation.isPending}
+                  testId={`select-agent-team-${agent.id}`}
+                />
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
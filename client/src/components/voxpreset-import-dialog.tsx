@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, Check, Upload, XCircle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { voxPresetBundleSchema } from "@shared/schema";
+import type { VoxPresetConflictMode, VoxPresetFieldError, VoxPresetImportReport } from "@shared/schema";
+
+function FieldErrors({ fields }: { fields: VoxPresetFieldError[] }) {
+  return (
+    <ul className="text-xs text-muted-foreground space-y-0.5 pl-6">
+      {fields.map((field, i) => (
+        <li key={i}>
+          <span className="font-mono">{field.path}</span>: {field.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface VoxPresetImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  // e.g. "/api/team-presets/import"; `extraBody` is sent along with the bundle
+  importUrl: string;
+  extraBody?: Record<string, unknown>;
+  onImported?: () => void;
+}
+
+/**
+ * Import a .voxpreset file. The bundle's envelope is checked here first; the server then reports
+ * per entry what was imported, which names were taken and which fields failed validation.
+ */
+export function VoxPresetImportDialog({
+  open,
+  onOpenChange,
+  title,
+  importUrl,
+  extraBody,
+  onImported,
+}: VoxPresetImportDialogProps) {
+  const { toast } = useToast();
+  const [bundle, setBundle] = useState<unknown>(null);
+  const [entryCount, setEntryCount] = useState(0);
+  const [fileErrors, setFileErrors] = useState<VoxPresetFieldError[]>([]);
+  const [onConflict, setOnConflict] = useState<VoxPresetConflictMode>("skip");
+  const [report, setReport] = useState<VoxPresetImportReport | null>(null);
+
+  const reset = () => {
+    setBundle(null);
+    setFileErrors([]);
+    setReport(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    reset();
+    if (!file) return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      setFileErrors([{ path: "(file)", message: "Not a JSON file" }]);
+      return;
+    }
+    const result = voxPresetBundleSchema.safeParse(parsed);
+    if (!result.success) {
+      setFileErrors(result.error.errors.map((issue) => ({
+        path: issue.path.join(".") || "(file)",
+        message: issue.message,
+      })));
+      return;
+    }
+    setBundle(parsed);
+    setEntryCount(result.data.presets.length);
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", importUrl, { ...extraBody, bundle, onConflict });
+      return (await res.json()) as VoxPresetImportReport;
+    },
+    onSuccess: (result) => {
+      setReport(result);
+      if (result.imported.length > 0) {
+        onImported?.();
+      }
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to import presets. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Choose a .voxpreset file exported from VoxFilter. Audio devices are never imported.
+          </DialogDescription>
+        </DialogHeader>
+
+        {report ? (
+          <div className="space-y-3 text-sm" data-testid="voxpreset-import-report">
+            <p className="flex items-center gap-2">
+              <Check className="w-4 h-4 text-green-600" />
+              Imported {report.imported.length} of {entryCount}
+            </p>
+            {report.conflicts.length > 0 && (
+              <div className="space-y-1">
+                <p className="flex items-center gap-2 font-medium">
+                  <AlertTriangle className="w-4 h-4 text-yellow-600" />
+                  Name conflicts
+                </p>
+                <ul className="text-xs text-muted-foreground space-y-0.5 pl-6">
+                  {report.conflicts.map((conflict) => (
+                    <li key={conflict.index}>
+                      "{conflict.name}" already exists
+                      {conflict.renamedTo ? ` — imported as "${conflict.renamedTo}"` : " — skipped"}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {report.errors.map((error) => (
+              <div key={error.index} className="space-y-1">
+                <p className="flex items-center gap-2 font-medium">
+                  <XCircle className="w-4 h-4 text-destructive" />
+                  Entry {error.index + 1}{error.name ? ` ("${error.name}")` : ""} is invalid
+                </p>
+                <FieldErrors fields={error.fields} />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="voxpreset-file">File</Label>
+              <Input
+                id="voxpreset-file"
+                type="file"
+                accept=".voxpreset,application/json"
+                onChange={(e) => handleFileChange(e.target.files?.[0])}
+                data-testid="input-voxpreset-file"
+              />
+              {fileErrors.length > 0 && (
+                <div className="space-y-1">
+                  <p className="flex items-center gap-2 text-sm font-medium">
+                    <XCircle className="w-4 h-4 text-destructive" />
+                    This isn't a valid .voxpreset file
+                  </p>
+                  <FieldErrors fields={fileErrors} />
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>When a name is already taken</Label>
+              <Select value={onConflict} onValueChange={(value: VoxPresetConflictMode) => setOnConflict(value)}>
+                <SelectTrigger data-testid="select-voxpreset-conflict">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="skip">Skip it</SelectItem>
+                  <SelectItem value="rename">Import it under a new name</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {report ? (
+            <Button onClick={() => handleOpenChange(false)} data-testid="button-voxpreset-done">
+              Done
+            </Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => importMutation.mutate()}
+                disabled={!bundle || importMutation.isPending}
+                data-testid="button-confirm-voxpreset-import"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                {importMutation.isPending ? "Importing..." : "Import"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,43 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { isAutomatedBrowser } from "@/lib/utils";
+import { builtInAccentPresets } from "@shared/schema";
+import type { AccentPresetDefinition, AccentPresetFields } from "@shared/schema";
+
+const builtIns = builtInAccentPresets();
+// The built-in categories keep their usual order; admins' own categories follow alphabetically
+const categoryOrder = Array.from(new Set(builtIns.map((preset) => preset.category)));
+
+function compareCategories(a: string, b: string): number {
+  const rank = (category: string) => {
+    const index = categoryOrder.indexOf(category);
+    return index === -1 ? categoryOrder.length : index;
+  };
+  return rank(a) - rank(b) || a.localeCompare(b);
+}
+
+/**
+ * The organization's accent presets, grouped by category for pickers. Until they load (and in
+ * automated runs, which skip the API) the built-ins stand in, so a preset always resolves.
+ */
+export function useAccentPresets() {
+  const { data } = useQuery<AccentPresetDefinition[]>({
+    queryKey: ["/api/accent-presets"],
+    enabled: !isAutomatedBrowser,
+  });
+  const presets: AccentPresetFields[] = data && data.length > 0 ? data : builtIns;
+
+  return useMemo(() => {
+    const groups = new Map<string, AccentPresetFields[]>();
+    presets.forEach((preset) => {
+      groups.set(preset.category, [...(groups.get(preset.category) ?? []), preset]);
+    });
+    const labels = Object.fromEntries(presets.map((preset) => [preset.key, preset.name]));
+    return {
+      presets,
+      groups: Array.from(groups.entries()).sort(([a], [b]) => compareCategories(a, b)),
+      find: (key: string) => presets.find((preset) => preset.key === key),
+      labelFor: (key: string) => labels[key] ?? key.replace(/_/g, " "),
+    };
+  }, [presets]);
+}
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState } from "react";
+import type { RoutingState, RoutingStatus, UpdateState } from "@/hooks/use-electron";
+
+const ROUTING_STATUSES: readonly RoutingStatus[] = ["starting", "active", "device-lost"];
+
+/**
+ * The desktop app's update state, pushed by the main process as it checks, downloads and verifies.
+ * `updateState` stays null in the browser and in desktop builds without the updater. The main
+ * process refuses to install while audio is routed, so `isRouting` tracks that too.
+ */
+export function useAppUpdate() {
+  const [updateState, setUpdateState] = useState<UpdateState | null>(null);
+  const [isRouting, setIsRouting] = useState(false);
+
+  useEffect(() => {
+    const electronApp = window.electronAPI?.app;
+    if (!electronApp?.getUpdateState) return;
+    let cancelled = false;
+    electronApp.getUpdateState()
+      .then((state) => {
+        if (!cancelled) setUpdateState(state);
+      })
+      .catch((error) => console.error("Failed to read update state:", error));
+    const unsubscribe = electronApp.onUpdateStateChange?.(setUpdateState);
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, []);
+
+  useEffect(() => {
+    const audio = window.electronAPI?.audio;
+    if (!audio?.onRoutingStateChange) return;
+    let cancelled = false;
+    // A pushed state is newer than the one asked for below
+    let pushed = false;
+    const track = (state: RoutingState | null) => setIsRouting(!!state && ROUTING_STATUSES.includes(state.status));
+    const unsubscribe = audio.onRoutingStateChange((state) => {
+      pushed = true;
+      track(state);
+    });
+    audio.getRoutingState?.()
+      .then((state) => {
+        if (!cancelled && !pushed) track(state);
+      })
+      .catch((error) => console.error("Failed to read routing state:", error));
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  const checkForUpdates = useCallback(async () => {
+    const state = await window.electronAPI?.app.checkForUpdates?.();
+    if (state) setUpdateState(state);
+    return state ?? null;
+  }, []);
+
+  const installUpdate = useCallback(async () => {
+    return (await window.electronAPI?.app.installUpdate?.()) ?? false;
+  }, []);
+
+  return { updateState, isRouting, checkForUpdates, installUpdate };
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef, useCallback } from "react";
-import type { AudioSettings, AccentPresetType } from "@shared/schema";
-import { accentPresetConfigs } from "@shared/schema";
+import type { AudioSettings, AccentPresetFields } from "@shared/schema";
+import { accentFormantBands, defaultAudioSettings, resolveAccentPreset } from "@shared/schema";
+import { findDevice, pickPreferredDevice } from "@/lib/device-fallback";
 
 interface AudioDevice {
   deviceId: string;
@@ -8,6 +9,47 @@ interface AudioDevice {
   kind: MediaDeviceKind;
 }
 
+// What the hook did about a device being unplugged (or a preferred one coming back), for a toast
+export interface DeviceFallbackEvent {
+  kind: "input" | "output";
+  reason: "lost" | "restored";
+  fromLabel: string | null;
+  // null when nothing was left to switch to
+  toLabel: string | null;
+}
+
+export interface AudioProcessorOptions {
+  onDeviceFallback?: (event: DeviceFallbackEvent) => void;
+}
+
+// Virtual cable patterns to AVOID as input sources
+const virtualInputPatterns = [
+  /cable\s*output/i,
+  /vb-audio/i,
+  /virtual\s*cable/i,
+  /blackhole/i,
+  /soundflower/i,
+  /voicemeeter/i,
+];
+
+const isVirtualInputLabel = (label: string) => virtualInputPatterns.some((pattern) => pattern.test(label));
+
+const MICROPHONE_LOST_ERROR = "Microphone disconnected. Plug in a microphone to continue.";
+
+function inputConstraints(deviceId: string | undefined, noiseSuppression: boolean): MediaStreamConstraints {
+  return {
+    audio: {
+      deviceId: deviceId ? { exact: deviceId } : undefined,
+      echoCancellation: true,
+      // Let the browser do its best (AEC/NS) and then apply our own gating/EQ.
+      // This helps a lot with steady ambient noise.
+      noiseSuppression,
+      autoGainControl: false, // We handle this ourselves
+      sampleRate: 48000,
+    },
+  };
+}
+
 export type OutputRouteStatus =
   | "inactive"
   | "active"
@@ -65,6 +107,18 @@ interface AudioProcessorState {
   virtualError: string | null;
   inputLevel: number;
   outputLevel: number;
+  // Short-term loudness (LUFS) leaving the AGC, null until the first 100ms block; agcGain is what
+  // the AGC currently applies, in dB
+  loudnessLufs: number | null;
+  agcGain: number;
+  // Current gain reduction in dB (0 = none) of the normalizer's compressor and of the peak limiter
+  compressorReduction: number;
+  limiterReduction: number;
+  // The VAD currently hears speech; isTransmitting is false while push-to-talk, auto-mute or the
+  // manual mute (isMuted) holds the voice back
+  isSpeaking: boolean;
+  isTransmitting: boolean;
+  isMuted: boolean;
   latency: number;
   error: string | null;
   processedStreamId: string | null;
@@ -77,7 +131,12 @@ interface AudioProcessorState {
   isAbComparing: boolean;
 }
 
-export function useAudioProcessor(settings: AudioSettings) {
+// `accentPresets` are the organization's; settings.accentPreset is looked up in them whenever the accent is applied
+export function useAudioProcessor(
+  settings: AudioSettings,
+  accentPresets: readonly AccentPresetFields[] = [],
+  options: AudioProcessorOptions = {},
+) {
   const [state, setState] = useState<AudioProcessorState>({
     isInitialized: false,
     isProcessing: false,
@@ -92,6 +151,13 @@ export function useAudioProcessor(settings: AudioSettings) {
     virtualError: null,
     inputLevel: 0,
     outputLevel: 0,
+    loudnessLufs: null,
+    agcGain: 0,
+    compressorReduction: 0,
+    limiterReduction: 0,
+    isSpeaking: false,
+    isTransmitting: true,
+    isMuted: false,
     latency: 0,
     error: null,
     processedStreamId: null,
@@ -115,9 +181,13 @@ export function useAudioProcessor(settings: AudioSettings) {
   const analyserNodeRef = useRef<AnalyserNode | null>(null);
   const noiseGateNodeRef = useRef<AudioWorkletNode | null>(null);
   const noiseGateLoadedRef = useRef<boolean>(false);
+  // Spectral noise suppressor (AudioWorklet); swapped in place of the noise gate when enabled.
+  const spectralSuppressorNodeRef = useRef<AudioWorkletNode | null>(null);
+  const spectralSuppressorLoadedRef = useRef<boolean>(false);
+  const noiseStageRef = useRef<"gate" | "spectral" | "none">("none");
   // Electron low-latency output path (avoids HTMLAudioElement buffering).
   const electronOutGainRef = useRef<GainNode | null>(null);
-  // Accent EQ (driven by accentPresetConfigs). This is separate from noise reduction EQ.
+  // Accent EQ (driven by the selected accent preset). This is separate from noise reduction EQ.
   const accentHighPassRef = useRef<BiquadFilterNode | null>(null);
   const accentLowPassRef = useRef<BiquadFilterNode | null>(null);
   const accentResonanceRef = useRef<BiquadFilterNode | null>(null);
@@ -130,13 +200,50 @@ export function useAudioProcessor(settings: AudioSettings) {
   const formantFilter3Ref = useRef<BiquadFilterNode | null>(null);
   // Voice body filter for warmth/brightness
   const voiceBodyFilterRef = useRef<BiquadFilterNode | null>(null);
+  // De-esser / plosive suppressor worklet between the formant filters and the clarity filter
+  const deEsserNodeRef = useRef<AudioWorkletNode | null>(null);
+  const deEsserLoadedRef = useRef<boolean>(false);
   const clarityFilterRef = useRef<BiquadFilterNode | null>(null);
+  // User EQ: a fixed entry node, then one filter per band (rebuilt when the band count changes)
+  const eqInputRef = useRef<GainNode | null>(null);
+  const eqFiltersRef = useRef<BiquadFilterNode[]>([]);
+  const agcNodeRef = useRef<AudioWorkletNode | null>(null);
+  const agcLoadedRef = useRef<boolean>(false);
+  // Latest meter reading from the AGC worklet; the level loop copies it into state
+  const agcMeterRef = useRef<{ lufs: number | null; gainDb: number }>({ lufs: null, gainDb: 0 });
   const normalizerRef = useRef<DynamicsCompressorNode | null>(null);
+  const makeupGainRef = useRef<GainNode | null>(null);
+  const limiterNodeRef = useRef<AudioWorkletNode | null>(null);
+  const limiterLoadedRef = useRef<boolean>(false);
+  // Latest reduction the limiter worklet reported; the level loop copies it into state
+  const limiterReductionRef = useRef<number>(0);
+  // Voice activity detector (after the noise stage) and the gate that applies the processing mode
+  const vadNodeRef = useRef<AudioWorkletNode | null>(null);
+  const vadLoadedRef = useRef<boolean>(false);
+  const talkGateRef = useRef<GainNode | null>(null);
+  const isSpeakingRef = useRef<boolean>(false);
+  const pushToTalkRef = useRef<boolean>(false);
+  const mutedRef = useRef<boolean>(false);
+  const autoMutedRef = useRef<boolean>(false);
+  const autoMuteTimerRef = useRef<number | null>(null);
   const pitchShifterNodeRef = useRef<AudioWorkletNode | null>(null);
   const pitchShifterLoadedRef = useRef<boolean>(false);
   const destinationRef = useRef<MediaStreamAudioDestinationNode | null>(null);
   const animationFrameRef = useRef<number>(0);
   const settingsRef = useRef<AudioSettings>(settings);
+  const accentPresetsRef = useRef(accentPresets);
+  const onDeviceFallbackRef = useRef(options.onDeviceFallback);
+  onDeviceFallbackRef.current = options.onDeviceFallback;
+
+  // Hot-plug tracking: the microphone being captured, the output the user routed to, and the one
+  // actually in use (which differs after a fallback; null while nothing is left to route to)
+  const devicesRef = useRef<AudioDevice[]>([]);
+  const inputDeviceRef = useRef<{ deviceId: string; label: string } | null>(null);
+  const wantedOutputRef = useRef<{ deviceId: string; label: string } | null>(null);
+  const routedOutputRef = useRef<string | null>(null);
+  const isFallbackRoutingRef = useRef<boolean>(false);
+  const deviceCheckRef = useRef<{ running: boolean; again: boolean }>({ running: false, again: false });
+  const checkDevicesRef = useRef<() => Promise<void>>(async () => {});
   
   // Audio output element for routing to a virtual cable (for any call app)
   const audioOutputRef = useRef<HTMLAudioElement | null>(null);
@@ -156,8 +263,12 @@ export function useAudioProcessor(settings: AudioSettings) {
     settingsRef.current = settings;
   }, [settings]);
 
-  // Get available audio devices
-  const refreshDevices = useCallback(async () => {
+  useEffect(() => {
+    accentPresetsRef.current = accentPresets;
+  }, [accentPresets]);
+
+  // Get available audio devices (null when they can't be listed)
+  const enumerateAudioDevices = useCallback(async (): Promise<AudioDevice[] | null> => {
     try {
       const deviceList = await navigator.mediaDevices.enumerateDevices();
       const audioDevices = deviceList.filter(
@@ -170,16 +281,23 @@ export function useAudioProcessor(settings: AudioSettings) {
         label: device.label || `${device.kind} (${device.deviceId.slice(0, 8)})`,
         kind: device.kind,
       }));
+      devicesRef.current = audioDevices;
       setDevices(audioDevices);
+      return audioDevices;
     } catch (err) {
       console.error("VoxFilter: enumerateDevices failed:", err);
       setState((prev) => ({ 
         ...prev, 
         error: "Could not access audio devices. Please check permissions." 
       }));
+      return null;
     }
   }, []);
 
+  const refreshDevices = useCallback(async () => {
+    await enumerateAudioDevices();
+  }, [enumerateAudioDevices]);
+
   // Stop audio processing (hard cleanup; safe to call after partial init failures)
   const stop = useCallback((errorOverride?: string | null) => {
     // Stop recording if active
@@ -204,6 +322,14 @@ export function useAudioProcessor(settings: AudioSettings) {
       recordingIntervalRef.current = null;
     }
 
+    if (autoMuteTimerRef.current) {
+      clearTimeout(autoMuteTimerRef.current);
+      autoMuteTimerRef.current = null;
+    }
+    isSpeakingRef.current = false;
+    autoMutedRef.current = false;
+    mutedRef.current = false;
+
     // Stop audio outputs (both monitor and virtual cable)
     if (monitorOutputRef.current) {
       monitorOutputRef.current.pause();
@@ -220,6 +346,9 @@ export function useAudioProcessor(settings: AudioSettings) {
       streamRef.current.getTracks().forEach((track) => track.stop());
       streamRef.current = null;
     }
+    inputDeviceRef.current = null;
+    wantedOutputRef.current = null;
+    routedOutputRef.current = null;
 
     if (processedStreamRef.current) {
       processedStreamRef.current.getTracks().forEach((track) => track.stop());
@@ -252,6 +381,11 @@ export function useAudioProcessor(settings: AudioSettings) {
         noiseGateNodeRef.current.disconnect();
         noiseGateNodeRef.current = null;
       }
+      if (spectralSuppressorNodeRef.current) {
+        spectralSuppressorNodeRef.current.disconnect();
+        spectralSuppressorNodeRef.current = null;
+      }
+      noiseStageRef.current = "none";
       if (electronOutGainRef.current) {
         electronOutGainRef.current.disconnect();
         electronOutGainRef.current = null;
@@ -288,6 +422,31 @@ export function useAudioProcessor(settings: AudioSettings) {
         clarityFilterRef.current.disconnect();
         clarityFilterRef.current = null;
       }
+      if (eqInputRef.current) {
+        eqInputRef.current.disconnect();
+        eqInputRef.current = null;
+      }
+      eqFiltersRef.current.forEach((filter) => filter.disconnect());
+      eqFiltersRef.current = [];
+      if (vadNodeRef.current) {
+        vadNodeRef.current.port.onmessage = null;
+        vadNodeRef.current.disconnect();
+        vadNodeRef.current = null;
+      }
+      if (talkGateRef.current) {
+        talkGateRef.current.disconnect();
+        talkGateRef.current = null;
+      }
+      if (deEsserNodeRef.current) {
+        deEsserNodeRef.current.disconnect();
+        deEsserNodeRef.current = null;
+      }
+      if (agcNodeRef.current) {
+        agcNodeRef.current.port.onmessage = null;
+        agcNodeRef.current.disconnect();
+        agcNodeRef.current = null;
+      }
+      agcMeterRef.current = { lufs: null, gainDb: 0 };
       if (normalizerRef.current) {
         normalizerRef.current.disconnect();
         normalizerRef.current = null;
@@ -296,6 +455,16 @@ export function useAudioProcessor(settings: AudioSettings) {
         pitchShifterNodeRef.current.disconnect();
         pitchShifterNodeRef.current = null;
       }
+      if (makeupGainRef.current) {
+        makeupGainRef.current.disconnect();
+        makeupGainRef.current = null;
+      }
+      if (limiterNodeRef.current) {
+        limiterNodeRef.current.port.onmessage = null;
+        limiterNodeRef.current.disconnect();
+        limiterNodeRef.current = null;
+      }
+      limiterReductionRef.current = 0;
       if (outputGainNodeRef.current) {
         outputGainNodeRef.current.disconnect();
         outputGainNodeRef.current = null;
@@ -360,6 +529,13 @@ export function useAudioProcessor(settings: AudioSettings) {
       outputDeviceId: null,
       inputLevel: 0,
       outputLevel: 0,
+      loudnessLufs: null,
+      agcGain: 0,
+      compressorReduction: 0,
+      limiterReduction: 0,
+      isSpeaking: false,
+      isTransmitting: true,
+      isMuted: false,
       processedStreamId: null,
       recordingDuration: 0,
       selfTestReport: null,
@@ -389,19 +565,22 @@ export function useAudioProcessor(settings: AudioSettings) {
       
       // Smart input device selection: avoid virtual cable devices as input
       let selectedInputDeviceId = settingsRef.current.inputDeviceId;
-      
-      // Virtual cable patterns to AVOID as input sources
-      const virtualCablePatterns = [
-        /cable\s*output/i,
-        /vb-audio/i,
-        /virtual\s*cable/i,
-        /blackhole/i,
-        /soundflower/i,
-        /voicemeeter/i,
-      ];
-
-      const isVirtualDevice = (label: string) =>
-        virtualCablePatterns.some((pattern) => pattern.test(label));
+      const isVirtualDevice = isVirtualInputLabel;
+
+      // The selected microphone may be unplugged: take the first preferred one that's present instead
+      const preferredInputs = settingsRef.current.preferredInputDevices ?? [];
+      if (preferredInputs.length > 0) {
+        const available = (await navigator.mediaDevices.enumerateDevices())
+          .filter((d) => d.kind === "audioinput");
+        const chain = selectedInputDeviceId
+          ? [{ deviceId: selectedInputDeviceId, label: "" }, ...preferredInputs]
+          : preferredInputs;
+        const preferred = pickPreferredDevice(available, chain);
+        if (preferred && preferred.deviceId !== selectedInputDeviceId) {
+          console.log("VoxFilter: Using preferred microphone:", preferred.label);
+          selectedInputDeviceId = preferred.deviceId;
+        }
+      }
 
       if (!selectedInputDeviceId) {
         // No device explicitly selected - try to find the real physical microphone
@@ -432,17 +611,7 @@ export function useAudioProcessor(settings: AudioSettings) {
       }
       
       // Request microphone access with noise suppression handled by Web Audio
-      const constraints: MediaStreamConstraints = {
-        audio: {
-          deviceId: selectedInputDeviceId ? { exact: selectedInputDeviceId } : undefined,
-          echoCancellation: true,
-          // Let the browser do its best (AEC/NS) and then apply our own gating/EQ.
-          // This helps a lot with steady ambient noise.
-          noiseSuppression: Boolean(settingsRef.current.noiseReductionEnabled),
-          autoGainControl: false, // We handle this ourselves
-          sampleRate: 48000,
-        },
-      };
+      const constraints = inputConstraints(selectedInputDeviceId, Boolean(settingsRef.current.noiseReductionEnabled));
 
       let stream = await navigator.mediaDevices.getUserMedia(constraints);
 
@@ -486,6 +655,12 @@ export function useAudioProcessor(settings: AudioSettings) {
       }
 
       streamRef.current = stream;
+      const inputTrack = stream.getAudioTracks()[0];
+      inputDeviceRef.current = inputTrack
+        ? { deviceId: inputTrack.getSettings().deviceId ?? selectedInputDeviceId ?? "default", label: inputTrack.label }
+        : null;
+      // An unplugged microphone ends its track, sometimes before any devicechange event
+      inputTrack?.addEventListener("ended", () => void checkDevicesRef.current());
 
       // Create audio context with low latency
       const audioContext = new AudioContext({ 
@@ -546,6 +721,26 @@ export function useAudioProcessor(settings: AudioSettings) {
         }
       }
 
+      // Spectral suppressor (AudioWorklet): learns the noise floor during pauses and removes it per band
+      let spectralSuppressorNode: AudioWorkletNode | null = null;
+      if (!spectralSuppressorLoadedRef.current) {
+        try {
+          await audioContext.audioWorklet.addModule("/spectral-suppressor-processor.js");
+          spectralSuppressorLoadedRef.current = true;
+          console.log("VoxFilter: AudioWorklet spectral-suppressor loaded");
+        } catch (err) {
+          console.warn("VoxFilter: AudioWorklet spectral-suppressor failed to load (continuing):", err);
+        }
+      }
+      if (spectralSuppressorLoadedRef.current) {
+        try {
+          spectralSuppressorNode = new AudioWorkletNode(audioContext, "spectral-suppressor-processor");
+          spectralSuppressorNodeRef.current = spectralSuppressorNode;
+        } catch (err) {
+          console.warn("VoxFilter: spectral-suppressor node creation failed (continuing):", err);
+        }
+      }
+
       // Accent EQ (preset-driven)
       // These nodes are always present; when accent is disabled, they are set to neutral.
       const accentResonance = audioContext.createBiquadFilter();
@@ -610,6 +805,10 @@ export function useAudioProcessor(settings: AudioSettings) {
       clarityFilter.gain.value = 0;
       clarityFilterRef.current = clarityFilter;
 
+      // Parametric EQ entry; applyEqSettings puts the bands between it and the AGC (or the normalizer)
+      const eqInput = audioContext.createGain();
+      eqInputRef.current = eqInput;
+
       // Volume normalization compressor
       const normalizer = audioContext.createDynamicsCompressor();
       normalizer.threshold.value = -24;
@@ -619,6 +818,14 @@ export function useAudioProcessor(settings: AudioSettings) {
       normalizer.release.value = 0.25;
       normalizerRef.current = normalizer;
 
+      // Makeup gain after the compressor (on top of its automatic makeup)
+      const makeupGain = audioContext.createGain();
+      makeupGainRef.current = makeupGain;
+
+      // Talk gate: closed while push-to-talk isn't held or auto-mute has kicked in
+      const talkGate = audioContext.createGain();
+      talkGateRef.current = talkGate;
+
       // Output gain node
       const outputGain = audioContext.createGain();
       outputGain.gain.value = settingsRef.current.outputGain / 100;
@@ -665,25 +872,113 @@ export function useAudioProcessor(settings: AudioSettings) {
         }
       }
 
+      // Brickwall true-peak limiter (AudioWorklet) after the output gain
+      let limiterNode: AudioWorkletNode | null = null;
+      if (!limiterLoadedRef.current) {
+        try {
+          await audioContext.audioWorklet.addModule("/true-peak-limiter-processor.js");
+          limiterLoadedRef.current = true;
+          console.log("VoxFilter: AudioWorklet true-peak-limiter loaded");
+        } catch (err) {
+          console.warn("VoxFilter: AudioWorklet true-peak-limiter failed to load (continuing):", err);
+        }
+      }
+      if (limiterLoadedRef.current) {
+        try {
+          limiterNode = new AudioWorkletNode(audioContext, "true-peak-limiter-processor");
+          limiterNode.port.onmessage = (event) => {
+            if (event.data?.type === "meter") limiterReductionRef.current = event.data.reductionDb;
+          };
+          limiterNodeRef.current = limiterNode;
+        } catch (err) {
+          console.warn("VoxFilter: true-peak-limiter node creation failed (continuing):", err);
+        }
+      }
+
+      // Voice activity detector (AudioWorklet, passes audio through) after the noise stage and accent EQ
+      let vadNode: AudioWorkletNode | null = null;
+      if (!vadLoadedRef.current) {
+        try {
+          await audioContext.audioWorklet.addModule("/vad-processor.js");
+          vadLoadedRef.current = true;
+          console.log("VoxFilter: AudioWorklet vad loaded");
+        } catch (err) {
+          console.warn("VoxFilter: AudioWorklet vad failed to load (continuing):", err);
+        }
+      }
+      if (vadLoadedRef.current) {
+        try {
+          vadNode = new AudioWorkletNode(audioContext, "vad-processor");
+          vadNode.port.onmessage = (event) => {
+            if (event.data?.type === "vad") handleVoiceActivity(event.data.speaking);
+          };
+          vadNodeRef.current = vadNode;
+        } catch (err) {
+          console.warn("VoxFilter: vad node creation failed (continuing):", err);
+        }
+      }
+
+      // De-esser and plosive suppressor (AudioWorklet) right after the formant stage
+      let deEsserNode: AudioWorkletNode | null = null;
+      if (!deEsserLoadedRef.current) {
+        try {
+          await audioContext.audioWorklet.addModule("/de-esser-processor.js");
+          deEsserLoadedRef.current = true;
+          console.log("VoxFilter: AudioWorklet de-esser loaded");
+        } catch (err) {
+          console.warn("VoxFilter: AudioWorklet de-esser failed to load (continuing):", err);
+        }
+      }
+      if (deEsserLoadedRef.current) {
+        try {
+          deEsserNode = new AudioWorkletNode(audioContext, "de-esser-processor");
+          deEsserNodeRef.current = deEsserNode;
+        } catch (err) {
+          console.warn("VoxFilter: de-esser node creation failed (continuing):", err);
+        }
+      }
+
+      // Loudness AGC (AudioWorklet) between the EQ and the normalizer
+      let agcNode: AudioWorkletNode | null = null;
+      if (!agcLoadedRef.current) {
+        try {
+          await audioContext.audioWorklet.addModule("/agc-processor.js");
+          agcLoadedRef.current = true;
+          console.log("VoxFilter: AudioWorklet agc loaded");
+        } catch (err) {
+          console.warn("VoxFilter: AudioWorklet agc failed to load (continuing):", err);
+        }
+      }
+      if (agcLoadedRef.current) {
+        try {
+          agcNode = new AudioWorkletNode(audioContext, "agc-processor");
+          agcNode.port.onmessage = (event) => {
+            if (event.data?.type === "meter") agcMeterRef.current = { lufs: event.data.lufs, gainDb: event.data.gainDb };
+          };
+          agcNodeRef.current = agcNode;
+        } catch (err) {
+          console.warn("VoxFilter: agc node creation failed (continuing):", err);
+        }
+      }
+
       // Connect the full audio processing chain
-      // Source -> Input Gain -> High Pass -> Notch -> Low Pass -> Noise Gate ->
-      // Pitch Shifter -> Voice Body -> F1 -> F2 -> F3 -> Clarity Filter -> Normalizer -> Output Gain -> Analyser -> Destination
+      // Source -> Input Gain -> High Pass -> Notch -> Low Pass -> Noise Gate | Spectral Suppressor -> Accent EQ -> VAD ->
+      // Pitch Shifter -> Voice Body -> F1 -> F2 -> F3 -> De-esser -> Clarity Filter -> EQ bands -> Loudness AGC ->
+      // Normalizer -> Makeup Gain -> Talk Gate -> Output Gain -> True-Peak Limiter -> Analyser -> Destination
       source.connect(gainNode);
       gainNode.connect(highPass);
       highPass.connect(notchFilter);
       notchFilter.connect(lowPass);
-      // Insert: noise gate (optional) -> accent EQ (always) -> voice chain
+      // Insert: noise stage (gate or spectral, wired by applyNoiseReductionSettings) -> accent EQ (always) -> voice chain
       const voiceStart = pitchShifterNode ?? voiceBodyFilter;
-      const preAccent = noiseGateNode ? noiseGateNode : null;
-      if (preAccent) {
-        lowPass.connect(preAccent);
-        preAccent.connect(accentResonance);
-      } else {
-        lowPass.connect(accentResonance);
-      }
       accentResonance.connect(accentHighPass);
       accentHighPass.connect(accentLowPass);
-      accentLowPass.connect(voiceStart);
+      if (vadNode) {
+        accentLowPass.connect(vadNode);
+        vadNode.connect(voiceStart);
+      } else {
+        accentLowPass.connect(voiceStart);
+      }
 
       if (pitchShifterNode) {
         pitchShifterNode.connect(voiceBodyFilter);
@@ -692,18 +987,37 @@ export function useAudioProcessor(settings: AudioSettings) {
       voiceBodyFilter.connect(formantFilter1);
       formantFilter1.connect(formantFilter2);
       formantFilter2.connect(formantFilter3);
-      formantFilter3.connect(clarityFilter);
-      clarityFilter.connect(normalizer);
-      normalizer.connect(outputGain);
+      if (deEsserNode) {
+        formantFilter3.connect(deEsserNode);
+        deEsserNode.connect(clarityFilter);
+      } else {
+        formantFilter3.connect(clarityFilter);
+      }
+      clarityFilter.connect(eqInput);
+      if (agcNode) {
+        eqInput.connect(agcNode);
+        agcNode.connect(normalizer);
+      } else {
+        eqInput.connect(normalizer);
+      }
+      normalizer.connect(makeupGain);
+      makeupGain.connect(talkGate);
+      talkGate.connect(outputGain);
+      const chainEnd = limiterNode ?? outputGain;
+      if (limiterNode) {
+        outputGain.connect(limiterNode);
+      }
       // Split: meter via analyser, stream via destination, and optional low-latency Electron output via electronOutGain.
-      outputGain.connect(analyser);
+      chainEnd.connect(analyser);
       analyser.connect(destination);
-      outputGain.connect(electronOutGain);
+      chainEnd.connect(electronOutGain);
 
       // Apply initial settings
       applyNoiseReductionSettings(settingsRef.current);
       applyAccentSettings(settingsRef.current);
       applyEnhancementSettings(settingsRef.current);
+      applyEqSettings(settingsRef.current);
+      applyProcessingMode(settingsRef.current);
 
       // Start level monitoring
       const updateLevels = () => {
@@ -716,6 +1030,10 @@ export function useAudioProcessor(settings: AudioSettings) {
             ...prev, 
             inputLevel: normalizedLevel,
             outputLevel: normalizedLevel * (settingsRef.current.outputGain / 100),
+            loudnessLufs: agcMeterRef.current.lufs,
+            agcGain: agcMeterRef.current.gainDb,
+            compressorReduction: -(normalizerRef.current?.reduction ?? 0),
+            limiterReduction: limiterReductionRef.current,
           }));
         }
         animationFrameRef.current = requestAnimationFrame(updateLevels);
@@ -777,9 +1095,43 @@ export function useAudioProcessor(settings: AudioSettings) {
     }
   }, [refreshDevices, stop]);
 
+  // Wire the noise stage between the low-pass and the accent EQ.
+  // Only one of gate/spectral is in the graph at a time so the gate never double-processes.
+  const routeNoiseStage = useCallback((useSpectral: boolean) => {
+    const lp = lowPassRef.current;
+    const next = accentResonanceRef.current;
+    if (!lp || !next) return;
+
+    const gate = noiseGateNodeRef.current;
+    const spectral = spectralSuppressorNodeRef.current;
+    const wanted: "gate" | "spectral" | "none" =
+      useSpectral && spectral ? "spectral" : gate ? "gate" : "none";
+    if (wanted === noiseStageRef.current) return;
+
+    try {
+      lp.disconnect();
+      gate?.disconnect();
+      spectral?.disconnect();
+
+      const stage = wanted === "spectral" ? spectral : wanted === "gate" ? gate : null;
+      if (stage) {
+        lp.connect(stage);
+        stage.connect(next);
+      } else {
+        lp.connect(next);
+      }
+      noiseStageRef.current = wanted;
+    } catch (error) {
+      console.error("VoxFilter: Error routing noise stage:", error);
+    }
+  }, []);
+
   // Apply noise reduction settings
   const applyNoiseReductionSettings = useCallback((s: AudioSettings) => {
     if (highPassRef.current && lowPassRef.current && notchFilterRef.current) {
+      const useSpectral = Boolean(s.noiseReductionEnabled && s.spectralSuppressionEnabled);
+      routeNoiseStage(useSpectral);
+
       // Best-effort: toggle browser-level noise suppression at the capture layer.
       // This can significantly reduce steady ambient noise; support varies by OS/driver.
       try {
@@ -804,8 +1156,18 @@ export function useAudioProcessor(settings: AudioSettings) {
         // Low-pass: only shave off hiss (keep speech brightness).
         lowPassRef.current.frequency.value = 16000 - intensity * 4000; // 16000-12000 Hz
         
+        // Configure spectral suppressor (removes steady noise per band, even while talking)
+        if (spectralSuppressorNodeRef.current) {
+          spectralSuppressorNodeRef.current.port.postMessage({
+            type: "set",
+            enabled: useSpectral,
+            overSubtraction: 1 + intensity * 3, // 1..4 (higher = more aggressive)
+            floorDb: -10 - intensity * 20, // -10..-30 dB residual noise floor
+          });
+        }
+
         // Configure noise gate (reduces background noise between speech)
-        if (noiseGateNodeRef.current) {
+        if (noiseGateNodeRef.current && !useSpectral) {
           // Soft expander: avoid "voice breaking" while still reducing room noise.
           const thresholdDb = -68 + intensity * 12; // -68..-56 dBFS (low threshold to avoid chopping speech)
           const reductionDb = 6 + intensity * 18; // 6..24 dB max attenuation
@@ -834,6 +1196,9 @@ export function useAudioProcessor(settings: AudioSettings) {
         if (noiseGateNodeRef.current) {
           noiseGateNodeRef.current.port.postMessage({ type: "set", enabled: false });
         }
+        if (spectralSuppressorNodeRef.current) {
+          spectralSuppressorNodeRef.current.port.postMessage({ type: "set", enabled: false });
+        }
         notchFilterRef.current.Q.value = 0.01;
       }
 
@@ -844,10 +1209,11 @@ export function useAudioProcessor(settings: AudioSettings) {
         hpHz: Math.round(highPassRef.current.frequency.value),
         lpHz: Math.round(lowPassRef.current.frequency.value),
         gate: noiseGateNodeRef.current ? "audioWorklet" : "unavailable",
+        stage: noiseStageRef.current,
         notchQ: Number(notchFilterRef.current.Q.value.toFixed(2)),
       });
     }
-  }, []);
+  }, [routeNoiseStage]);
 
   // Apply accent/voice modification settings - EXTREME effects for obvious change
   const applyAccentSettings = useCallback((s: AudioSettings) => {
@@ -867,7 +1233,7 @@ export function useAudioProcessor(settings: AudioSettings) {
     }
     
     if (s.accentModifierEnabled) {
-      const preset = accentPresetConfigs[s.accentPreset as AccentPresetType] || accentPresetConfigs.neutral;
+      const preset = resolveAccentPreset(accentPresetsRef.current, s.accentPreset);
       const formantShift = s.formantShift !== undefined ? s.formantShift : preset.formantShift;
       const pitchShift = s.pitchShift !== undefined ? s.pitchShift : preset.pitchShift;
       
@@ -892,32 +1258,23 @@ export function useAudioProcessor(settings: AudioSettings) {
         });
       }
       
-      // Formant shifting via EQ filters
+      // Formant bands F1-F3 come from the preset (scaled with the formant shift); see accentFormantBands
+      const bands = accentFormantBands(preset, formantShift);
+      ([[f1, bands.f1], [f2, bands.f2], [f3, bands.f3]] as const).forEach(([node, band]) => {
+        node.type = band.type;
+        node.frequency.value = band.frequency;
+        node.Q.value = band.Q;
+        node.gain.value = band.gain;
+      });
+
       // formantShift ranges from -50 to +50
-      
-      // For "deeper" voice (negative shift): Boost bass, cut highs, lower formants
-      // For "higher" voice (positive shift): Cut bass, boost highs, raise formants
+      // For "deeper" voice (negative shift): Boost bass, cut highs
+      // For "higher" voice (positive shift): Cut bass, boost highs
       
       if (formantShift < 0) {
         // DEEPER VOICE - make it sound like a big guy/monster
         const intensity = Math.abs(formantShift) / 50; // 0 to 1
         
-        // Massive bass boost at 200Hz
-        f1.type = "lowshelf";
-        f1.frequency.value = 200;
-        f1.gain.value = intensity * 15; // Up to +15dB bass boost!
-        
-        // Cut the mid frequencies to remove nasality
-        f2.type = "peaking";
-        f2.frequency.value = 1200;
-        f2.Q.value = 1;
-        f2.gain.value = -intensity * 8; // Cut mids
-        
-        // Cut highs for darker sound
-        f3.type = "highshelf";
-        f3.frequency.value = 3000;
-        f3.gain.value = -intensity * 12; // Cut highs significantly
-        
         // Additional low boost
         vb.type = "lowshelf";
         vb.frequency.value = 300;
@@ -931,22 +1288,6 @@ export function useAudioProcessor(settings: AudioSettings) {
         // HIGHER VOICE - make it sound thinner/brighter
         const intensity = formantShift / 50; // 0 to 1
         
-        // Cut bass significantly
-        f1.type = "lowshelf";
-        f1.frequency.value = 300;
-        f1.gain.value = -intensity * 15; // Cut bass hard
-        
-        // Boost upper mids for presence
-        f2.type = "peaking";
-        f2.frequency.value = 2500;
-        f2.Q.value = 1;
-        f2.gain.value = intensity * 8;
-        
-        // Boost highs for brightness
-        f3.type = "highshelf";
-        f3.frequency.value = 4000;
-        f3.gain.value = intensity * 10;
-        
         // Cut lows more
         vb.type = "highpass";
         vb.frequency.value = 200 + intensity * 200;
@@ -958,21 +1299,6 @@ export function useAudioProcessor(settings: AudioSettings) {
         
       } else {
         // Neutral - minimal effect
-        f1.type = "peaking";
-        f1.frequency.value = 500;
-        f1.Q.value = 1;
-        f1.gain.value = 0;
-        
-        f2.type = "peaking";
-        f2.frequency.value = 1500;
-        f2.Q.value = 1;
-        f2.gain.value = 0;
-        
-        f3.type = "peaking";
-        f3.frequency.value = 2800;
-        f3.Q.value = 1;
-        f3.gain.value = 0;
-        
         vb.type = "lowshelf";
         vb.frequency.value = 250;
         vb.gain.value = 0;
@@ -1041,24 +1367,153 @@ export function useAudioProcessor(settings: AudioSettings) {
     }
   }, []);
 
-  // Apply voice enhancement settings (clarity boost, volume normalization)
+  // Apply voice enhancement settings (de-esser, clarity boost, loudness AGC, volume normalization, peak limiter)
   const applyEnhancementSettings = useCallback((s: AudioSettings) => {
-    if (clarityFilterRef.current && normalizerRef.current) {
+    if (clarityFilterRef.current && normalizerRef.current && makeupGainRef.current) {
+      // Settings saved before a stage became configurable fall back to its defaults
+      const c = { ...defaultAudioSettings, ...s };
+
+      deEsserNodeRef.current?.port.postMessage({
+        type: "set",
+        deEsserEnabled: c.deEsserEnabled,
+        deEsserThresholdDb: c.deEsserThreshold,
+        deEsserMaxReductionDb: c.deEsserReduction,
+        plosiveEnabled: c.plosiveSuppressionEnabled,
+        // Same mapping as deriveChainParams: sensitivity 0-100 -> -12 to -48 dBFS
+        plosiveThresholdDb: -12 - c.plosiveSensitivity * 0.36,
+      });
+
       // Apply clarity boost
       const clarityBoost = s.clarityBoost || 0;
       clarityFilterRef.current.gain.value = (clarityBoost / 100) * 6; // Up to 6dB boost
       
       // Apply volume normalization
+      const normalizer = normalizerRef.current;
       if (s.volumeNormalization) {
-        normalizerRef.current.threshold.value = -24;
-        normalizerRef.current.ratio.value = 4;
+        normalizer.threshold.value = c.compressorThreshold;
+        normalizer.ratio.value = c.compressorRatio;
+        normalizer.knee.value = c.compressorKnee;
+        normalizer.attack.value = c.compressorAttack / 1000;
+        normalizer.release.value = c.compressorRelease / 1000;
+        makeupGainRef.current.gain.value = Math.pow(10, c.compressorMakeupGain / 20);
       } else {
-        normalizerRef.current.threshold.value = 0;
-        normalizerRef.current.ratio.value = 1; // Bypass
+        normalizer.threshold.value = 0;
+        normalizer.ratio.value = 1; // Bypass
+        makeupGainRef.current.gain.value = 1;
       }
+
+      agcNodeRef.current?.port.postMessage({
+        type: "set",
+        enabled: c.agcEnabled,
+        targetLufs: c.agcTargetLufs,
+        maxGainDb: c.agcMaxGain,
+        gateLufs: c.agcGateLufs,
+      });
+      limiterNodeRef.current?.port.postMessage({ type: "set", enabled: c.limiterEnabled, ceilingDb: c.limiterCeiling });
     }
   }, []);
 
+  // Apply the parametric EQ. Filters are only rebuilt when the number of bands changes; otherwise
+  // they are retuned in place so dragging a band on the curve doesn't interrupt the audio.
+  const applyEqSettings = useCallback((s: AudioSettings) => {
+    const audioContext = audioContextRef.current;
+    const eqInput = eqInputRef.current;
+    // The bands feed the AGC when its worklet loaded, the normalizer otherwise
+    const eqEnd = agcNodeRef.current ?? normalizerRef.current;
+    if (!audioContext || !eqInput || !eqEnd) return;
+
+    const bands = s.eqBands ?? [];
+    if (eqFiltersRef.current.length !== bands.length) {
+      eqInput.disconnect();
+      eqFiltersRef.current.forEach((filter) => filter.disconnect());
+      eqFiltersRef.current = bands.map(() => audioContext.createBiquadFilter());
+      const chain: AudioNode[] = [eqInput, ...eqFiltersRef.current, eqEnd];
+      chain.slice(0, -1).forEach((node, i) => node.connect(chain[i + 1]));
+    }
+
+    const now = audioContext.currentTime;
+    bands.forEach((band, i) => {
+      const filter = eqFiltersRef.current[i];
+      filter.type = band.type;
+      filter.frequency.setTargetAtTime(band.frequency, now, 0.01);
+      filter.gain.setTargetAtTime(band.gain, now, 0.01);
+      filter.Q.setTargetAtTime(band.Q, now, 0.01);
+    });
+  }, []);
+
+  // Open or close the talk gate for the current processing mode. Opening is quick so the first
+  // syllable isn't clipped; closing fades out over ~50ms.
+  const updateTalkGate = useCallback(() => {
+    const mode = settingsRef.current.processingMode ?? "always-on";
+    const open = !mutedRef.current && (
+      mode === "always-on" ||
+      (mode === "push-to-talk" && pushToTalkRef.current) ||
+      (mode === "auto-mute" && !autoMutedRef.current));
+
+    const audioContext = audioContextRef.current;
+    if (audioContext && talkGateRef.current) {
+      talkGateRef.current.gain.setTargetAtTime(open ? 1 : 0, audioContext.currentTime, open ? 0.005 : 0.05);
+    }
+    setState((prev) => (prev.isTransmitting === open ? prev : { ...prev, isTransmitting: open }));
+  }, []);
+
+  const scheduleAutoMute = useCallback(() => {
+    if (autoMuteTimerRef.current) clearTimeout(autoMuteTimerRef.current);
+    const delay = settingsRef.current.autoMuteDelay ?? defaultAudioSettings.autoMuteDelay;
+    autoMuteTimerRef.current = window.setTimeout(() => {
+      autoMuteTimerRef.current = null;
+      autoMutedRef.current = true;
+      updateTalkGate();
+    }, delay * 1000);
+  }, [updateTalkGate]);
+
+  // Speech start/stop from the VAD worklet
+  const handleVoiceActivity = useCallback((speaking: boolean) => {
+    isSpeakingRef.current = speaking;
+    setState((prev) => ({ ...prev, isSpeaking: speaking }));
+
+    if (speaking) {
+      if (autoMuteTimerRef.current) {
+        clearTimeout(autoMuteTimerRef.current);
+        autoMuteTimerRef.current = null;
+      }
+      autoMutedRef.current = false;
+      updateTalkGate();
+    } else if (settingsRef.current.processingMode === "auto-mute") {
+      scheduleAutoMute();
+    }
+  }, [scheduleAutoMute, updateTalkGate]);
+
+  // Apply the processing mode (always-on / push-to-talk / auto-mute) and the VAD sensitivity
+  const applyProcessingMode = useCallback((s: AudioSettings) => {
+    const c = { ...defaultAudioSettings, ...s };
+    vadNodeRef.current?.port.postMessage({ type: "set", sensitivity: c.vadSensitivity });
+
+    // A mode change starts from an open gate; auto-mute then waits for the next stretch of silence
+    if (autoMuteTimerRef.current) {
+      clearTimeout(autoMuteTimerRef.current);
+      autoMuteTimerRef.current = null;
+    }
+    autoMutedRef.current = false;
+    if (c.processingMode === "auto-mute" && !isSpeakingRef.current) {
+      scheduleAutoMute();
+    }
+    updateTalkGate();
+  }, [scheduleAutoMute, updateTalkGate]);
+
+  // Push-to-talk: hold (in-window hotkey) or latch (desktop global shortcut) the talk gate open
+  const setPushToTalk = useCallback((active: boolean) => {
+    pushToTalkRef.current = active;
+    updateTalkGate();
+  }, [updateTalkGate]);
+
+  // Manual mute (desktop tray or the Talk Mode card) closes the gate whatever the mode; cleared on stop
+  const setMuted = useCallback((muted: boolean) => {
+    mutedRef.current = muted;
+    setState((prev) => (prev.isMuted === muted ? prev : { ...prev, isMuted: muted }));
+    updateTalkGate();
+  }, [updateTalkGate]);
+
   // Start recording
   const startRecording = useCallback(() => {
     try {
@@ -1193,21 +1648,57 @@ export function useAudioProcessor(settings: AudioSettings) {
     if (audioContextRef.current && state.isProcessing) {
       applyNoiseReductionSettings(settings);
     }
-  }, [settings.noiseReductionEnabled, settings.noiseReductionLevel, applyNoiseReductionSettings, state.isProcessing]);
+  }, [settings.noiseReductionEnabled, settings.noiseReductionLevel, settings.spectralSuppressionEnabled, applyNoiseReductionSettings, state.isProcessing]);
 
-  // Update accent settings when they change - ONLY if processing is active
+  // Update accent settings when they (or the presets they refer to) change - ONLY if processing is active
   useEffect(() => {
     if (audioContextRef.current && state.isProcessing) {
       applyAccentSettings(settings);
     }
-  }, [settings.accentModifierEnabled, settings.accentPreset, settings.formantShift, applyAccentSettings, state.isProcessing]);
+  }, [settings.accentModifierEnabled, settings.accentPreset, settings.formantShift, accentPresets, applyAccentSettings, state.isProcessing]);
 
   // Update enhancement settings when they change - ONLY if processing is active
   useEffect(() => {
     if (audioContextRef.current && state.isProcessing) {
       applyEnhancementSettings(settings);
     }
-  }, [settings.clarityBoost, settings.volumeNormalization, applyEnhancementSettings, state.isProcessing]);
+  }, [
+    settings.clarityBoost,
+    settings.volumeNormalization,
+    settings.compressorThreshold,
+    settings.compressorRatio,
+    settings.compressorKnee,
+    settings.compressorAttack,
+    settings.compressorRelease,
+    settings.compressorMakeupGain,
+    settings.limiterEnabled,
+    settings.limiterCeiling,
+    settings.agcEnabled,
+    settings.agcTargetLufs,
+    settings.agcMaxGain,
+    settings.agcGateLufs,
+    settings.deEsserEnabled,
+    settings.deEsserThreshold,
+    settings.deEsserReduction,
+    settings.plosiveSuppressionEnabled,
+    settings.plosiveSensitivity,
+    applyEnhancementSettings,
+    state.isProcessing,
+  ]);
+
+  // Update the processing mode and VAD sensitivity - ONLY if processing is active
+  useEffect(() => {
+    if (audioContextRef.current && state.isProcessing) {
+      applyProcessingMode(settings);
+    }
+  }, [settings.processingMode, settings.autoMuteDelay, settings.vadSensitivity, applyProcessingMode, state.isProcessing]);
+
+  // Update the EQ live as bands are edited - ONLY if processing is active
+  useEffect(() => {
+    if (audioContextRef.current && state.isProcessing) {
+      applyEqSettings(settings);
+    }
+  }, [settings.eqBands, applyEqSettings, state.isProcessing]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -1229,7 +1720,8 @@ export function useAudioProcessor(settings: AudioSettings) {
       l.includes("blackhole") ||
       l.includes("black hole") ||
       l.includes("loopback") ||
-      l.includes("virtual")
+      l.includes("virtual") ||
+      l.includes("voxfilter")
     );
   }, []);
 
@@ -1495,6 +1987,14 @@ export function useAudioProcessor(settings: AudioSettings) {
         outputDeviceId: targetDeviceId,
       }));
 
+      if (virtualEnabled && targetDeviceId) {
+        routedOutputRef.current = targetDeviceId;
+        if (!isFallbackRoutingRef.current) {
+          const label = devicesRef.current.find((d) => d.deviceId === targetDeviceId)?.label ?? "";
+          wantedOutputRef.current = { deviceId: targetDeviceId, label };
+        }
+      }
+
       console.log("VoxFilter: enableOutput() result", {
         monitor: { enabled: monitorEnabled, status: monitorStatus },
         virtual: { enabled: virtualEnabled, status: virtualStatus, deviceId: targetDeviceId, routingMode },
@@ -1537,6 +2037,8 @@ export function useAudioProcessor(settings: AudioSettings) {
     if (electronOutGainRef.current) {
       electronOutGainRef.current.gain.value = 0;
     }
+    wantedOutputRef.current = null;
+    routedOutputRef.current = null;
     
     setState((prev) => ({
       ...prev,
@@ -1563,6 +2065,8 @@ export function useAudioProcessor(settings: AudioSettings) {
           // ignore
         }
       }
+      wantedOutputRef.current = null;
+      routedOutputRef.current = null;
       setState((prev) => ({
         ...prev,
         outputDeviceId: null,
@@ -1609,6 +2113,180 @@ export function useAudioProcessor(settings: AudioSettings) {
     return false;
   }, []);
 
+  // Capture from `device` instead, swapping only the source node so the rest of the chain (and
+  // every setting on it) stays as it is
+  const switchInputDevice = useCallback(async (device: AudioDevice): Promise<boolean> => {
+    const audioContext = audioContextRef.current;
+    const gainNode = gainNodeRef.current;
+    if (!audioContext || !gainNode) return false;
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia(
+        inputConstraints(device.deviceId, Boolean(settingsRef.current.noiseReductionEnabled))
+      );
+      if (audioContextRef.current !== audioContext) {
+        // Stopped while the device was opening
+        stream.getTracks().forEach((t) => t.stop());
+        return false;
+      }
+
+      const source = audioContext.createMediaStreamSource(stream);
+      sourceNodeRef.current?.disconnect();
+      streamRef.current?.getTracks().forEach((t) => t.stop());
+      source.connect(gainNode);
+      sourceNodeRef.current = source;
+      streamRef.current = stream;
+
+      const track = stream.getAudioTracks()[0];
+      track?.addEventListener("ended", () => void checkDevicesRef.current());
+      inputDeviceRef.current = { deviceId: device.deviceId, label: track?.label || device.label };
+      console.log("VoxFilter: switched microphone", { deviceId: device.deviceId, label: device.label });
+      return true;
+    } catch (err) {
+      console.error("VoxFilter: switching microphone failed:", err);
+      return false;
+    }
+  }, []);
+
+  const fallBackInput = useCallback(async (list: AudioDevice[]) => {
+    const s = settingsRef.current;
+    const inputs = list.filter((d) => d.kind === "audioinput" && !isVirtualInputLabel(d.label));
+    const current = inputDeviceRef.current;
+    const track = streamRef.current?.getAudioTracks()[0];
+    // The OS default isn't listed; it follows whatever is plugged in, so only its track can die
+    const followsDefault = current?.deviceId === "default" || current?.deviceId === "communications";
+    const currentAlive = Boolean(
+      current && track?.readyState === "live" && (followsDefault || findDevice(inputs, current))
+    );
+
+    const chain = [
+      ...(s.inputDeviceId ? [{ deviceId: s.inputDeviceId, label: "" }] : []),
+      ...(s.preferredInputDevices ?? []),
+    ];
+    let next = pickPreferredDevice(inputs, chain);
+    if (!next && !currentAlive) next = inputs[0] ?? null;
+
+    if (currentAlive && (!next || findDevice([next], current!))) return;
+    // The loss was already reported and nothing has come back since
+    if (!next && !current) return;
+
+    const event: DeviceFallbackEvent = {
+      kind: "input",
+      reason: current && !currentAlive ? "lost" : "restored",
+      fromLabel: current?.label || null,
+      toLabel: next?.label ?? null,
+    };
+
+    if (next && await switchInputDevice(next)) {
+      setState((prev) => ({ ...prev, error: prev.error === MICROPHONE_LOST_ERROR ? null : prev.error }));
+      onDeviceFallbackRef.current?.(event);
+    } else if (!currentAlive) {
+      inputDeviceRef.current = null;
+      setState((prev) => ({ ...prev, error: MICROPHONE_LOST_ERROR }));
+      onDeviceFallbackRef.current?.({ ...event, toLabel: null });
+    }
+  }, [switchInputDevice]);
+
+  const fallBackOutput = useCallback(async (list: AudioDevice[], previous: AudioDevice[]) => {
+    const wanted = wantedOutputRef.current;
+    // Only a virtual output the user routed is followed
+    if (!wanted) return;
+
+    const outputs = list.filter((d) => d.kind === "audiooutput");
+    const routed = routedOutputRef.current;
+    const routedDevice = routed
+      ? { deviceId: routed, label: previous.find((d) => d.deviceId === routed)?.label ?? "" }
+      : null;
+    const routedAlive = Boolean(routedDevice && findDevice(outputs, routedDevice));
+    const next = pickPreferredDevice(outputs, [wanted, ...(settingsRef.current.preferredOutputDevices ?? [])]);
+
+    if (routedAlive && (!next || findDevice([next], routedDevice!))) return;
+    if (!next && !routedDevice) return;
+
+    const event: DeviceFallbackEvent = {
+      kind: "output",
+      reason: routedDevice && !routedAlive ? "lost" : "restored",
+      fromLabel: routedDevice?.label || null,
+      toLabel: next?.label ?? null,
+    };
+
+    if (next) {
+      isFallbackRoutingRef.current = true;
+      try {
+        if (await enableOutput(next.deviceId)) {
+          onDeviceFallbackRef.current?.(event);
+          return;
+        }
+      } finally {
+        isFallbackRoutingRef.current = false;
+      }
+    }
+    if (routedAlive) return;
+
+    // Left alone, the browser would play the processed voice on the default device instead
+    audioOutputRef.current?.pause();
+    if (electronOutGainRef.current) {
+      electronOutGainRef.current.gain.value = 0;
+    }
+    routedOutputRef.current = null;
+    setState((prev) => ({
+      ...prev,
+      isOutputEnabled: false,
+      isVirtualOutputEnabled: false,
+      virtualStatus: "failed",
+      virtualError: "The output device was disconnected. Routing resumes when it is plugged back in.",
+    }));
+    onDeviceFallbackRef.current?.({ ...event, toLabel: null });
+  }, [enableOutput]);
+
+  // Re-list devices after a hot-plug and, while processing, move the microphone and any routed
+  // virtual output to the best one available in the agent's preferred order
+  const checkDevices = useCallback(async () => {
+    const check = deviceCheckRef.current;
+    if (check.running) {
+      check.again = true;
+      return;
+    }
+    check.running = true;
+    try {
+      do {
+        check.again = false;
+        const previous = devicesRef.current;
+        const list = await enumerateAudioDevices();
+        if (!list || !audioContextRef.current) continue;
+        await fallBackInput(list);
+        await fallBackOutput(list, previous);
+      } while (check.again);
+    } catch (err) {
+      console.error("VoxFilter: device check failed:", err);
+    } finally {
+      check.running = false;
+    }
+  }, [enumerateAudioDevices, fallBackInput, fallBackOutput]);
+
+  useEffect(() => {
+    checkDevicesRef.current = checkDevices;
+  }, [checkDevices]);
+
+  // Picking another microphone while processing switches to it straight away
+  useEffect(() => {
+    const wanted = settings.inputDeviceId;
+    if (!state.isProcessing || !wanted || inputDeviceRef.current?.deviceId === wanted) return;
+    const device = devicesRef.current.find((d) => d.kind === "audioinput" && d.deviceId === wanted);
+    if (device) void switchInputDevice(device);
+  }, [settings.inputDeviceId, state.isProcessing, switchInputDevice]);
+
+  // The desktop app also reports native device changes, which Chromium can miss
+  useEffect(() => {
+    const handleChange = () => void checkDevicesRef.current();
+    navigator.mediaDevices?.addEventListener?.("devicechange", handleChange);
+    const unsubscribe = window.electronAPI?.audio.onDevicesChanged?.(handleChange);
+    return () => {
+      navigator.mediaDevices?.removeEventListener?.("devicechange", handleChange);
+      unsubscribe?.();
+    };
+  }, []);
+
   const runSelfTest = useCallback(
     async (opts?: { outputDeviceId?: string | null }) => {
       const createdAt = new Date().toISOString();
@@ -1904,6 +2582,8 @@ export function useAudioProcessor(settings: AudioSettings) {
     setOutputDevice,
     runSelfTest,
     runAbCompare,
+    setPushToTalk,
+    setMuted,
     startRecording,
     stopRecording,
     downloadRecording,
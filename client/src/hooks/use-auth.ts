@@ -0,0 +1,66 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient, setSessionToken } from "@/lib/queryClient";
+import { getPermissionScope } from "@shared/schema";
+import type { PermissionType, PublicUser } from "@shared/schema";
+
+export const CURRENT_USER_QUERY_KEY = ["/api/auth/me"];
+
+export interface LoginResponse {
+  sessionId: string;
+  user: PublicUser;
+  expiresAt: number;
+}
+
+/**
+ * The signed-in user, or null when there is no valid session.
+ */
+export function useCurrentUser(enabled = true) {
+  return useQuery<PublicUser | null>({
+    queryKey: CURRENT_USER_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    enabled,
+  });
+}
+
+/**
+ * Permission check against the shared role matrix, for hiding controls the server would reject.
+ */
+export function usePermissions() {
+  const { data: user } = useCurrentUser();
+  return {
+    user: user ?? null,
+    can: (permission: PermissionType) => !!user && getPermissionScope(user.role, permission) !== null,
+  };
+}
+
+/**
+ * Store a session returned by login or first-run setup and mark its user as signed in.
+ */
+export function applySession(session: LoginResponse) {
+  setSessionToken(session.sessionId);
+  queryClient.setQueryData<PublicUser | null>(CURRENT_USER_QUERY_KEY, session.user);
+}
+
+export function useLogin() {
+  return useMutation({
+    mutationFn: async (credentials: { username: string; password: string }) => {
+      const res = await apiRequest("POST", "/api/auth/login", credentials);
+      return (await res.json()) as LoginResponse;
+    },
+    onSuccess: applySession,
+  });
+}
+
+export function useLogout() {
+  return useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    // Drop the local session even if the server call failed (e.g. it had already expired).
+    onSettled: () => {
+      setSessionToken(null);
+      queryClient.clear();
+      queryClient.setQueryData<PublicUser | null>(CURRENT_USER_QUERY_KEY, null);
+    },
+  });
+}
@@ -0,0 +1,96 @@
+import { useEffect, useRef } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import type { AudioSettings, CallSession, EndCallUsage } from "@shared/schema";
+
+const CALL_SAMPLE_INTERVAL_MS = 1000;
+
+export interface CallUsageSample {
+  isProcessingActive: boolean;
+  // The VAD hears speech and it is being sent (not muted by push-to-talk or auto-mute)
+  isTalking: boolean;
+  latency: number;
+  settings: AudioSettings;
+}
+
+/**
+ * Track each call on the server while `isOnCall` is true: the call is started when it turns on and,
+ * when it turns off (or the dashboard unmounts), ended with the usage sampled in between.
+ * `getSample` is read once per second; time only counts while processing is actually running.
+ */
+export function useCallTracking(agentId: string | null, isOnCall: boolean, getSample: () => CallUsageSample) {
+  const getSampleRef = useRef(getSample);
+  getSampleRef.current = getSample;
+
+  useEffect(() => {
+    if (!agentId || !isOnCall) return;
+
+    const sampleSeconds = CALL_SAMPLE_INTERVAL_MS / 1000;
+    let noiseReductionSeconds = 0;
+    let accentModifierSeconds = 0;
+    let latencyTotal = 0;
+    let latencySamples = 0;
+    let talkSeconds = 0;
+    let silenceSeconds = 0;
+    const presetSeconds = new Map<string, number>();
+
+    const callId = apiRequest("POST", "/api/calls/start", { agentId })
+      .then(async (res) => ((await res.json()) as CallSession).id)
+      .catch((error) => {
+        console.error("Failed to start call tracking:", error);
+        return null;
+      });
+
+    const interval = window.setInterval(() => {
+      const { isProcessingActive, isTalking, latency, settings } = getSampleRef.current();
+      if (!isProcessingActive) return;
+
+      if (isTalking) {
+        talkSeconds += sampleSeconds;
+      } else {
+        silenceSeconds += sampleSeconds;
+      }
+
+      if (settings.noiseReductionEnabled) {
+        noiseReductionSeconds += sampleSeconds;
+      }
+      if (settings.accentModifierEnabled) {
+        accentModifierSeconds += sampleSeconds;
+        presetSeconds.set(settings.accentPreset, (presetSeconds.get(settings.accentPreset) ?? 0) + sampleSeconds);
+      }
+      if (latency > 0) {
+        latencyTotal += latency;
+        latencySamples++;
+      }
+    }, CALL_SAMPLE_INTERVAL_MS);
+
+    return () => {
+      window.clearInterval(interval);
+
+      // The preset the accent modifier ran with for longest
+      let accentPresetUsed: string | null = null;
+      presetSeconds.forEach((seconds, preset) => {
+        if (accentPresetUsed === null || seconds > presetSeconds.get(accentPresetUsed)!) {
+          accentPresetUsed = preset;
+        }
+      });
+
+      const usage: EndCallUsage = {
+        noiseReductionSeconds: Math.round(noiseReductionSeconds),
+        accentModifierSeconds: Math.round(accentModifierSeconds),
+        accentPresetUsed,
+        avgLatency: latencySamples > 0 ? Math.round(latencyTotal / latencySamples) : 0,
+        talkSeconds: Math.round(talkSeconds),
+        silenceSeconds: Math.round(silenceSeconds),
+      };
+
+      void callId.then(async (id) => {
+        if (!id) return;
+        try {
+          await apiRequest("POST", `/api/calls/${id}/end`, usage);
+        } catch (error) {
+          console.error("Failed to record call usage:", error);
+        }
+      });
+    };
+  }, [agentId, isOnCall]);
+}
@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { GlobalShortcutStatus, GlobalShortcuts, TrayState } from "@/hooks/use-electron";
+
+const SHORTCUTS_STORAGE_KEY = "voxfilter-desktop-shortcuts";
+// How often the tray's input-level indicator is refreshed while processing
+const TRAY_LEVEL_INTERVAL_MS = 250;
+
+// Shortcuts belong to the machine (another app may own a combination here but not there), so they
+// are kept in the desktop app's storage rather than in the synced audio settings
+export const defaultGlobalShortcuts: GlobalShortcuts = {
+  toggleProcessing: "CommandOrControl+Alt+V",
+  cyclePreset: "CommandOrControl+Alt+P",
+};
+
+function loadGlobalShortcuts(): GlobalShortcuts {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SHORTCUTS_STORAGE_KEY) ?? "null");
+    if (stored && typeof stored === "object") {
+      const pick = (value: unknown, fallback: string | null) =>
+        typeof value === "string" || value === null ? value : fallback;
+      return {
+        toggleProcessing: pick(stored.toggleProcessing, defaultGlobalShortcuts.toggleProcessing),
+        cyclePreset: pick(stored.cyclePreset, defaultGlobalShortcuts.cyclePreset),
+      };
+    }
+  } catch {
+    // ignore
+  }
+  return defaultGlobalShortcuts;
+}
+
+/** The global shortcuts configured on this machine (null = off), and a setter that saves them. */
+export function useGlobalShortcuts() {
+  const [shortcuts, setShortcutsState] = useState<GlobalShortcuts>(loadGlobalShortcuts);
+  const setShortcuts = useCallback((changes: Partial<GlobalShortcuts>) => {
+    setShortcutsState((prev) => {
+      const next = { ...prev, ...changes };
+      localStorage.setItem(SHORTCUTS_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+  return [shortcuts, setShortcuts] as const;
+}
+
+export interface DesktopTrayHandlers {
+  onToggleProcessing: () => void;
+  onToggleMute: () => void;
+  onSelectPreset: (presetId: string) => void;
+}
+
+/**
+ * Keep the desktop tray in step with `state` and run its quick controls through `handlers`. The
+ * global `shortcuts` trigger the same actions; cycling moves to the preset after the active one.
+ * Returns whether each shortcut could be registered (null outside the desktop app).
+ */
+export function useDesktopTray(state: TrayState, handlers: DesktopTrayHandlers, shortcuts: GlobalShortcuts) {
+  const tray = window.electronAPI?.tray;
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const [shortcutStatus, setShortcutStatus] = useState<GlobalShortcutStatus | null>(null);
+
+  // Everything but the level goes out as soon as it changes...
+  const presetsKey = JSON.stringify(state.presets);
+  useEffect(() => {
+    tray?.update(stateRef.current);
+  }, [tray, state.isProcessing, state.isMuted, state.activePresetId, presetsKey]);
+
+  // ...while the level, which changes every frame, is sampled
+  useEffect(() => {
+    if (!tray || !state.isProcessing) return;
+    const interval = window.setInterval(() => tray.update(stateRef.current), TRAY_LEVEL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [tray, state.isProcessing]);
+
+  useEffect(() => {
+    if (!tray) return;
+    return tray.onAction((action) => {
+      const current = handlersRef.current;
+      switch (action.type) {
+        case "toggleProcessing":
+          current.onToggleProcessing();
+          break;
+        case "toggleMute":
+          current.onToggleMute();
+          break;
+        case "selectPreset":
+          current.onSelectPreset(action.presetId);
+          break;
+        case "cyclePreset": {
+          const { presets, activePresetId } = stateRef.current;
+          if (presets.length === 0) return;
+          const index = presets.findIndex((preset) => preset.id === activePresetId);
+          current.onSelectPreset(presets[(index + 1) % presets.length].id);
+          break;
+        }
+      }
+    });
+  }, [tray]);
+
+  useEffect(() => {
+    if (!tray) return;
+    let cancelled = false;
+    tray.setShortcuts({
+      toggleProcessing: shortcuts.toggleProcessing || null,
+      cyclePreset: shortcuts.cyclePreset || null,
+    })
+      .then((status) => {
+        if (!cancelled) setShortcutStatus(status);
+      })
+      .catch((error) => {
+        console.error("Failed to register global shortcuts:", error);
+        if (!cancelled) setShortcutStatus({ toggleProcessing: false, cyclePreset: false });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [tray, shortcuts.toggleProcessing, shortcuts.cyclePreset]);
+
+  // Leaving the dashboard (signing out) stops processing, so the tray goes idle and the shortcuts go
+  useEffect(() => {
+    if (!tray) return;
+    return () => {
+      tray.update({ isProcessing: false, isMuted: false, inputLevel: 0, presets: [], activePresetId: null });
+      void tray.setShortcuts({ toggleProcessing: null, cyclePreset: null });
+    };
+  }, [tray]);
+
+  return shortcutStatus;
+}
@@ -12,21 +12,90 @@ export interface AudioDevices {
   outputs: AudioDevice[];
 }
 
+// Mirrors the main process's routing state machine (electron/audio/device-manager.ts)
+export type RoutingStatus = 'stopped' | 'starting' | 'active' | 'device-lost' | 'error';
+
+export interface RoutingState {
+  status: RoutingStatus;
+  inputDeviceId: string | null;
+  outputDeviceId: string | null;
+  missingDevices: Array<'input' | 'output'>;
+  reconnects: number;
+  error: string | null;
+  updatedAt: number;
+}
+
+// The desktop app's updater (electron/main/updater.ts)
+export type UpdateStatus = 'disabled' | 'idle' | 'checking' | 'up-to-date' | 'downloading' | 'ready' | 'error';
+
+export interface UpdateState {
+  status: UpdateStatus;
+  currentVersion: string;
+  availableVersion: string | null;
+  releaseNotes: string | null;
+  progress: number;
+  installMode: 'silent' | 'manual' | null;
+  error: string | null;
+  checkedAt: number | null;
+}
+
+// Tray quick controls and global shortcuts (electron/main/tray.ts)
+export interface TrayPreset {
+  id: string;
+  name: string;
+  kind: 'team' | 'profile';
+}
+
+export interface TrayState {
+  isProcessing: boolean;
+  isMuted: boolean;
+  inputLevel: number;
+  presets: TrayPreset[];
+  activePresetId: string | null;
+}
+
+export type TrayAction =
+  | { type: 'toggleProcessing' }
+  | { type: 'toggleMute' }
+  | { type: 'selectPreset'; presetId: string }
+  | { type: 'cyclePreset' };
+
+export interface GlobalShortcuts {
+  toggleProcessing: string | null;
+  cyclePreset: string | null;
+}
+
+export type GlobalShortcutStatus = Record<keyof GlobalShortcuts, boolean>;
+
 interface ElectronAPI {
   audio: {
     getDevices: () => Promise<AudioDevices>;
     getVirtualCableDevice: () => Promise<AudioDevice | null>;
     setOutputDevice: (deviceId: string) => Promise<boolean>;
     setAppOutputDevice?: (deviceId: string) => Promise<boolean>;
-    startRouting: (inputDeviceId: string, outputDeviceId: string) => Promise<boolean>;
+    startRouting: (inputDeviceId: string, outputDeviceId: string, inputLabel?: string) => Promise<boolean>;
     stopRouting: () => Promise<boolean>;
     isRouting: () => Promise<boolean>;
+    getRoutingState?: () => Promise<RoutingState | null>;
+    onRoutingStateChange?: (callback: (state: RoutingState) => void) => () => void;
+    onDevicesChanged?: (callback: (devices: AudioDevices) => void) => () => void;
   };
   app: {
     getPlatform: () => Promise<NodeJS.Platform>;
     getVersion: () => Promise<string>;
     openSoundSettings?: () => Promise<boolean>;
     openExternal?: (url: string) => Promise<boolean>;
+    setPushToTalkHotkey?: (accelerator: string | null) => Promise<boolean>;
+    onPushToTalk?: (callback: () => void) => () => void;
+    checkForUpdates?: () => Promise<UpdateState | null>;
+    getUpdateState?: () => Promise<UpdateState | null>;
+    installUpdate?: () => Promise<boolean>;
+    onUpdateStateChange?: (callback: (state: UpdateState) => void) => () => void;
+  };
+  tray?: {
+    update: (state: TrayState) => void;
+    onAction: (callback: (action: TrayAction) => void) => () => void;
+    setShortcuts: (shortcuts: GlobalShortcuts) => Promise<GlobalShortcutStatus>;
   };
 }
 
@@ -36,13 +105,18 @@ declare global {
   }
 }
 
+// Older desktop builds don't push routing state, so start/stop results stand in for it
+function legacyRoutingState(status: RoutingStatus, inputDeviceId: string | null, outputDeviceId: string | null): RoutingState {
+  return { status, inputDeviceId, outputDeviceId, missingDevices: [], reconnects: 0, error: null, updatedAt: Date.now() };
+}
+
 export function useElectron() {
   const [isElectron, setIsElectron] = useState(false);
   const [platform, setPlatform] = useState<string | null>(null);
   const [appVersion, setAppVersion] = useState<string | null>(null);
   const [nativeDevices, setNativeDevices] = useState<AudioDevices>({ inputs: [], outputs: [] });
   const [virtualCableDevice, setVirtualCableDevice] = useState<AudioDevice | null>(null);
-  const [isNativeRouting, setIsNativeRouting] = useState(false);
+  const [routingState, setRoutingState] = useState<RoutingState | null>(null);
   const [selectedOutputDevice, setSelectedOutputDevice] = useState<string | null>(null);
 
   useEffect(() => {
@@ -70,10 +144,9 @@ export function useElectron() {
     if (!isElectron || !window.electronAPI) return;
 
     try {
-      const [devices, virtualCable] = await Promise.all([
-        window.electronAPI.audio.getDevices(),
-        window.electronAPI.audio.getVirtualCableDevice(),
-      ]);
+      // Looked up first: on Linux it creates the VoxFilter sink, which the device list should include
+      const virtualCable = await window.electronAPI.audio.getVirtualCableDevice();
+      const devices = await window.electronAPI.audio.getDevices();
       setNativeDevices(devices);
       setVirtualCableDevice(virtualCable);
     } catch (error) {
@@ -87,6 +160,29 @@ export function useElectron() {
     }
   }, [isElectron, refreshNativeDevices]);
 
+  // The main process pushes every routing transition, including device loss and reconnects
+  useEffect(() => {
+    const audio = window.electronAPI?.audio;
+    if (!isElectron || !audio?.onRoutingStateChange) return;
+
+    const unsubscribe = audio.onRoutingStateChange(setRoutingState);
+    audio.getRoutingState?.()
+      .then((state) => {
+        if (state) setRoutingState((current) => current ?? state);
+      })
+      .catch((error) => console.error('Error getting routing state:', error));
+    return unsubscribe;
+  }, [isElectron]);
+
+  // Hot-plugged devices show up without a manual refresh
+  useEffect(() => {
+    if (!isElectron) return;
+    return window.electronAPI?.audio.onDevicesChanged?.(setNativeDevices);
+  }, [isElectron]);
+
+  const isNativeRouting = routingState !== null &&
+    (routingState.status === 'starting' || routingState.status === 'active' || routingState.status === 'device-lost');
+
   const setOutputDevice = useCallback(async (deviceId: string): Promise<boolean> => {
     if (!isElectron || !window.electronAPI) return false;
 
@@ -102,14 +198,16 @@ export function useElectron() {
     }
   }, [isElectron]);
 
-  const startNativeRouting = useCallback(async (inputDeviceId: string, outputDeviceId: string): Promise<boolean> => {
+  const startNativeRouting = useCallback(async (inputDeviceId: string, outputDeviceId: string, inputLabel?: string): Promise<boolean> => {
     if (!isElectron || !window.electronAPI) return false;
 
     try {
-      const success = await window.electronAPI.audio.startRouting(inputDeviceId, outputDeviceId);
+      const success = await window.electronAPI.audio.startRouting(inputDeviceId, outputDeviceId, inputLabel);
       if (success) {
-        setIsNativeRouting(true);
         setSelectedOutputDevice(outputDeviceId);
+        if (!window.electronAPI.audio.onRoutingStateChange) {
+          setRoutingState(legacyRoutingState('active', inputDeviceId, outputDeviceId));
+        }
       }
       return success;
     } catch (error) {
@@ -123,8 +221,8 @@ export function useElectron() {
 
     try {
       const success = await window.electronAPI.audio.stopRouting();
-      if (success) {
-        setIsNativeRouting(false);
+      if (success && !window.electronAPI.audio.onRoutingStateChange) {
+        setRoutingState(legacyRoutingState('stopped', null, null));
       }
       return success;
     } catch (error) {
@@ -138,13 +236,14 @@ export function useElectron() {
 
     await refreshNativeDevices();
 
-    const virtualOutput = nativeDevices.outputs.find(d => d.isVirtualCable);
+    // On Linux this is the VoxFilter sink, which the desktop app creates itself
+    const virtualOutput = virtualCableDevice ?? nativeDevices.outputs.find(d => d.isVirtualCable);
     if (virtualOutput) {
       return await setOutputDevice(virtualOutput.deviceId);
     }
 
     return false;
-  }, [isElectron, nativeDevices, refreshNativeDevices, setOutputDevice]);
+  }, [isElectron, nativeDevices, virtualCableDevice, refreshNativeDevices, setOutputDevice]);
 
   return {
     isElectron,
@@ -152,6 +251,7 @@ export function useElectron() {
     appVersion,
     nativeDevices,
     virtualCableDevice,
+    routingState,
     isNativeRouting,
     selectedOutputDevice,
     refreshNativeDevices,
@@ -0,0 +1,153 @@
+import { useState, useEffect, useRef } from "react";
+import { PRESENCE_WS_PATH, PRESENCE_HEARTBEAT_INTERVAL_MS } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import type { PresenceClientMessage, PresenceServerMessage, PresenceUpdate } from "@shared/schema";
+
+const RECONNECT_DELAY_MS = 3000;
+
+// Browsers can't set headers on a WebSocket upgrade, so a short-lived presence token (never the
+// session token) rides in the query string. Each connection attempt fetches a fresh one.
+async function presenceUrl(): Promise<string> {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const res = await apiRequest("GET", "/api/auth/presence-token");
+  const { token } = (await res.json()) as { token: string };
+  return `${protocol}//${window.location.host}${PRESENCE_WS_PATH}?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Keeps a presence socket open (reconnecting after drops) and hands each
+ * parsed server message to `onMessage`. Returns whether the socket is open.
+ */
+function usePresenceSocket(
+  enabled: boolean,
+  onOpen: (ws: WebSocket) => void,
+  onMessage?: (message: PresenceServerMessage) => void,
+) {
+  const [connected, setConnected] = useState(false);
+  const onOpenRef = useRef(onOpen);
+  const onMessageRef = useRef(onMessage);
+  onOpenRef.current = onOpen;
+  onMessageRef.current = onMessage;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let ws: WebSocket | null = null;
+    let reconnectTimer: number | undefined;
+    let disposed = false;
+
+    const scheduleReconnect = () => {
+      if (!disposed) {
+        reconnectTimer = window.setTimeout(connect, RECONNECT_DELAY_MS);
+      }
+    };
+
+    const connect = async () => {
+      let url: string;
+      try {
+        url = await presenceUrl();
+      } catch {
+        return scheduleReconnect();
+      }
+      if (disposed) return;
+      ws = new WebSocket(url);
+      ws.onopen = () => {
+        setConnected(true);
+        if (ws) onOpenRef.current(ws);
+      };
+      ws.onmessage = (event) => {
+        try {
+          onMessageRef.current?.(JSON.parse(event.data) as PresenceServerMessage);
+        } catch {
+          // ignore malformed frames
+        }
+      };
+      ws.onclose = () => {
+        setConnected(false);
+        scheduleReconnect();
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      window.clearTimeout(reconnectTimer);
+      ws?.close();
+      setConnected(false);
+    };
+  }, [enabled]);
+
+  return connected;
+}
+
+export interface PresenceHeartbeat {
+  status: "online" | "away" | "busy";
+  isProcessingActive: boolean;
+  latency: number;
+  inputLevel: number;
+}
+
+/**
+ * Agent side: publish a heartbeat every PRESENCE_HEARTBEAT_INTERVAL_MS.
+ * `getHeartbeat` is read at send time so callers don't restart the socket on every level change.
+ * `onMessage` receives what the server pushes to this agent (e.g. mandatory preset changes).
+ */
+export function usePresenceHeartbeat(
+  agentId: string | null,
+  getHeartbeat: () => PresenceHeartbeat,
+  onMessage?: (message: PresenceServerMessage) => void,
+) {
+  const getHeartbeatRef = useRef(getHeartbeat);
+  getHeartbeatRef.current = getHeartbeat;
+  const socketRef = useRef<WebSocket | null>(null);
+
+  const connected = usePresenceSocket(!!agentId, (ws) => {
+    socketRef.current = ws;
+  }, onMessage);
+
+  useEffect(() => {
+    if (!agentId || !connected) return;
+
+    const sendHeartbeat = () => {
+      const ws = socketRef.current;
+      if (!ws || ws.readyState !== WebSocket.OPEN) return;
+      const heartbeat = getHeartbeatRef.current();
+      const message: PresenceClientMessage = {
+        type: "heartbeat",
+        agentId,
+        ...heartbeat,
+        latency: Math.max(0, Math.round(heartbeat.latency)),
+        inputLevel: Math.max(0, Math.min(100, heartbeat.inputLevel)),
+      };
+      ws.send(JSON.stringify(message));
+    };
+
+    sendHeartbeat();
+    const interval = window.setInterval(sendHeartbeat, PRESENCE_HEARTBEAT_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [agentId, connected]);
+
+  return connected;
+}
+
+/**
+ * Admin side: subscribe to presence pushes. `onUpdate` receives every update,
+ * including those replayed from the initial snapshot.
+ */
+export function usePresenceSubscription(onUpdate: (update: PresenceUpdate) => void) {
+  return usePresenceSocket(
+    true,
+    (ws) => {
+      const message: PresenceClientMessage = { type: "subscribe" };
+      ws.send(JSON.stringify(message));
+    },
+    (message) => {
+      if (message.type === "snapshot") {
+        message.agents.forEach(onUpdate);
+      } else if (message.type === "presence") {
+        onUpdate(message.update);
+      }
+    },
+  );
+}
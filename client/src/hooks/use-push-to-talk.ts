@@ -0,0 +1,77 @@
+import { useEffect, useRef, useState } from "react";
+import { isAcceleratorKey, matchesAccelerator } from "@/lib/hotkeys";
+
+/**
+ * Drive push-to-talk from `hotkey` while `enabled`: holding it in this window talks, and in the
+ * desktop app its global shortcut toggles talking from any app (global shortcuts can't see the key
+ * being released). `setActive` is told every change; it is also told `false` when disabled.
+ * Returns whether the desktop shortcut could be registered (null outside the desktop app).
+ */
+export function usePushToTalk(hotkey: string, enabled: boolean, setActive: (active: boolean) => void) {
+  const setActiveRef = useRef(setActive);
+  setActiveRef.current = setActive;
+  const [globalRegistered, setGlobalRegistered] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      setActiveRef.current(false);
+      return;
+    }
+
+    let active = false;
+    // Only a hold started in this window ends on key release or blur, not a global-shortcut latch
+    let holding = false;
+    const set = (next: boolean) => {
+      if (next === active) return;
+      active = next;
+      setActiveRef.current(next);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || !matchesAccelerator(e, hotkey)) return;
+      e.preventDefault();
+      holding = true;
+      set(true);
+    };
+    const release = () => {
+      if (!holding) return;
+      holding = false;
+      set(false);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (isAcceleratorKey(e, hotkey)) release();
+    };
+    // A key released while another window has focus never reaches us
+    const handleBlur = () => release();
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", handleBlur);
+
+    const electronApp = window.electronAPI?.app;
+    const unsubscribe = electronApp?.onPushToTalk?.(() => {
+      holding = false;
+      set(!active);
+    });
+    if (electronApp?.setPushToTalkHotkey) {
+      electronApp.setPushToTalkHotkey(hotkey)
+        .then(setGlobalRegistered)
+        .catch((error) => {
+          console.error("Failed to register push-to-talk shortcut:", error);
+          setGlobalRegistered(false);
+        });
+    }
+
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", handleBlur);
+      unsubscribe?.();
+      void electronApp?.setPushToTalkHotkey?.(null);
+      setGlobalRegistered(null);
+      set(false);
+    };
+  }, [hotkey, enabled]);
+
+  return globalRegistered;
+}
@@ -0,0 +1,33 @@
+// The preferred-device fallback chain: which microphone or output to use from whatever is
+// plugged in right now, given the agent's ordered preferences.
+
+import { MAX_PREFERRED_DEVICES, type PreferredDevice } from "@shared/schema";
+
+interface DeviceLike {
+  deviceId: string;
+  label: string;
+}
+
+// By id, or by label when the browser re-issued the id (common after re-plugging a USB headset)
+export function findDevice<T extends DeviceLike>(available: readonly T[], wanted: DeviceLike): T | undefined {
+  return available.find((d) => d.deviceId === wanted.deviceId) ??
+    (wanted.label ? available.find((d) => d.label === wanted.label) : undefined);
+}
+
+/** The first device of `chain` (most preferred first) that is available, or null. */
+export function pickPreferredDevice<T extends DeviceLike>(
+  available: readonly T[],
+  chain: readonly DeviceLike[],
+): T | null {
+  for (const wanted of chain) {
+    const match = findDevice(available, wanted);
+    if (match) return match;
+  }
+  return null;
+}
+
+/** `preferred` with `device` moved to the front, capped at MAX_PREFERRED_DEVICES. */
+export function promotePreferredDevice(preferred: readonly PreferredDevice[], device: DeviceLike): PreferredDevice[] {
+  const rest = preferred.filter((d) => d.deviceId !== device.deviceId && !(device.label && d.label === device.label));
+  return [{ deviceId: device.deviceId, label: device.label }, ...rest].slice(0, MAX_PREFERRED_DEVICES);
+}
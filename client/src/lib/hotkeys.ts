@@ -0,0 +1,100 @@
+// Matching Electron accelerator strings ("CommandOrControl+Shift+Space") against DOM keyboard
+// events, so the same hotkey setting drives the desktop global shortcut and the in-window one.
+
+interface ParsedAccelerator {
+  ctrl: boolean;
+  meta: boolean;
+  // CommandOrControl: either Ctrl or Cmd satisfies it
+  ctrlOrMeta: boolean;
+  alt: boolean;
+  shift: boolean;
+  key: string;
+}
+
+const isMac = typeof navigator !== "undefined" && /Mac/i.test(navigator.platform);
+
+// Accelerator key names that differ from KeyboardEvent.key
+const keyAliases: Record<string, string> = {
+  space: " ",
+  plus: "+",
+  esc: "escape",
+  return: "enter",
+  up: "arrowup",
+  down: "arrowdown",
+  left: "arrowleft",
+  right: "arrowright",
+};
+
+export function parseAccelerator(accelerator: string): ParsedAccelerator | null {
+  const parts = accelerator.split("+").map((part) => part.trim().toLowerCase()).filter(Boolean);
+  const key = parts.pop();
+  if (!key) return null;
+
+  const parsed: ParsedAccelerator = {
+    ctrl: false,
+    meta: false,
+    ctrlOrMeta: false,
+    alt: false,
+    shift: false,
+    key: keyAliases[key] ?? key,
+  };
+  for (const modifier of parts) {
+    switch (modifier) {
+      case "commandorcontrol":
+      case "cmdorctrl":
+        parsed.ctrlOrMeta = true;
+        break;
+      case "control":
+      case "ctrl":
+        parsed.ctrl = true;
+        break;
+      case "command":
+      case "cmd":
+      case "meta":
+      case "super":
+        parsed.meta = true;
+        break;
+      case "alt":
+      case "option":
+        parsed.alt = true;
+        break;
+      case "shift":
+        parsed.shift = true;
+        break;
+      default:
+        return null;
+    }
+  }
+  return parsed;
+}
+
+export function matchesAccelerator(event: KeyboardEvent, accelerator: string): boolean {
+  const parsed = parseAccelerator(accelerator);
+  if (!parsed || event.key.toLowerCase() !== parsed.key) return false;
+  const wantCtrl = parsed.ctrl || (parsed.ctrlOrMeta && !isMac);
+  const wantMeta = parsed.meta || (parsed.ctrlOrMeta && isMac);
+  return (
+    event.ctrlKey === wantCtrl &&
+    event.metaKey === wantMeta &&
+    event.altKey === parsed.alt &&
+    event.shiftKey === parsed.shift
+  );
+}
+
+// Releasing the main key ends a hold, whatever happened to the modifiers first
+export function isAcceleratorKey(event: KeyboardEvent, accelerator: string): boolean {
+  const parsed = parseAccelerator(accelerator);
+  return !!parsed && event.key.toLowerCase() === parsed.key;
+}
+
+// "CommandOrControl+Shift+Space" -> "Ctrl+Shift+Space" (or "Cmd+Shift+Space" on a Mac)
+export function formatAccelerator(accelerator: string): string {
+  return accelerator
+    .split("+")
+    .map((part) => {
+      const lower = part.trim().toLowerCase();
+      if (lower === "commandorcontrol" || lower === "cmdorctrl") return isMac ? "Cmd" : "Ctrl";
+      return part.trim();
+    })
+    .join("+");
+}
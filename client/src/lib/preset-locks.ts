@@ -0,0 +1,88 @@
+import type { EqBand, PresetLockMode, PresetLocks, TeamPreset } from "@shared/schema";
+
+export type LockableSetting = keyof PresetLocks;
+
+// Settings a mandatory preset can lock, in the order the editors list them
+export const lockableSettingLabels: Record<LockableSetting, string> = {
+  noiseReductionEnabled: "Noise Reduction",
+  noiseReductionLevel: "Noise Reduction Level",
+  spectralSuppressionEnabled: "Spectral Suppression",
+  accentModifierEnabled: "Voice Modifier",
+  accentPreset: "Voice Preset",
+  pitchShiftEnabled: "Pitch Shift",
+  pitchShift: "Pitch",
+  formantShift: "Formant Shift",
+  deEsserEnabled: "De-esser",
+  deEsserThreshold: "De-esser Threshold",
+  deEsserReduction: "De-esser Reduction",
+  plosiveSuppressionEnabled: "Plosive Suppression",
+  plosiveSensitivity: "Plosive Sensitivity",
+  clarityBoost: "Clarity Boost",
+  volumeNormalization: "Volume Normalization",
+  compressorThreshold: "Compressor Threshold",
+  compressorRatio: "Compressor Ratio",
+  compressorKnee: "Compressor Knee",
+  compressorAttack: "Compressor Attack",
+  compressorRelease: "Compressor Release",
+  compressorMakeupGain: "Makeup Gain",
+  limiterEnabled: "Peak Limiter",
+  limiterCeiling: "Limiter Ceiling",
+  agcEnabled: "Loudness AGC",
+  agcTargetLufs: "Target Loudness",
+  agcMaxGain: "AGC Max Gain",
+  agcGateLufs: "AGC Speech Gate",
+  eqBands: "Equalizer",
+  processingMode: "Processing Mode",
+  pushToTalkHotkey: "Push-to-Talk Hotkey",
+  autoMuteDelay: "Auto-Mute Delay",
+  vadSensitivity: "Voice Detection Sensitivity",
+  inputGain: "Input Gain",
+  outputGain: "Output Gain",
+};
+
+export const lockModeLabels: Record<PresetLockMode, string> = {
+  exact: "Locked",
+  min: "Minimum",
+  max: "Maximum",
+};
+
+export function getLock(preset: TeamPreset | null | undefined, field: LockableSetting): PresetLockMode | undefined {
+  return preset?.lockedFields[field];
+}
+
+// Slider bounds for a setting once the preset's min/max lock (if any) is applied
+export function getLockedRange(
+  preset: TeamPreset | null | undefined,
+  field: LockableSetting,
+  min: number,
+  max: number,
+): { min: number; max: number } {
+  const lock = getLock(preset, field);
+  const bound = preset?.audioSettings[field];
+  if (typeof bound !== "number") return { min, max };
+  if (lock === "min") return { min: Math.max(min, bound), max };
+  if (lock === "max") return { min, max: Math.min(max, bound) };
+  return { min, max };
+}
+
+// e.g. "3 bands", or "flat" without any
+export function describeEqBands(bands: EqBand[]): string {
+  if (bands.length === 0) return "flat";
+  return bands.length === 1 ? "1 band" : `${bands.length} bands`;
+}
+
+// e.g. "Noise Reduction Level: at least 60"
+export function describeLock(preset: TeamPreset, field: LockableSetting): string {
+  const label = lockableSettingLabels[field];
+  const value = preset.audioSettings[field];
+  switch (getLock(preset, field)) {
+    case "min":
+      return `${label}: at least ${value}`;
+    case "max":
+      return `${label}: at most ${value}`;
+    default:
+      if (typeof value === "boolean") return `${label}: ${value ? "on" : "off"}`;
+      if (Array.isArray(value)) return `${label}: ${describeEqBands(value)}`;
+      return `${label}: ${String(value).replace(/_/g, " ")}`;
+  }
+}
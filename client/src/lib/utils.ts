@@ -1,6 +1,22 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
 
+// Playwright sets navigator.webdriver=true. Automated runs skip sign-in and avoid hammering the
+// local API, which can trip server-side rate limiting and make E2E tests flaky.
+export const isAutomatedBrowser = typeof navigator !== "undefined" && (navigator as any).webdriver === true
+
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Save a blob through a temporary <a download> link
+export function downloadFile(contents: Blob, fileName: string) {
+  const url = URL.createObjectURL(contents)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
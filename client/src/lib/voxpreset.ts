@@ -0,0 +1,9 @@
+import { apiRequest } from "@/lib/queryClient";
+import { downloadFile } from "@/lib/utils";
+
+// Fetch a .voxpreset export and save it under the file name the server picked
+export async function downloadVoxPreset(url: string): Promise<void> {
+  const res = await apiRequest("GET", url);
+  const fileName = /filename="([^"]+)"/.exec(res.headers.get("Content-Disposition") ?? "")?.[1] ?? "export.voxpreset";
+  downloadFile(await res.blob(), fileName);
+}
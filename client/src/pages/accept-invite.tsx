@@ -0,0 +1,156 @@
+import { useState, type FormEvent } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { UserPlus } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { applySession, type LoginResponse } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { UserRoleType } from "@shared/schema";
+
+interface InvitePreview {
+  organizationName: string;
+  role: UserRoleType;
+  expiresAt: string;
+}
+
+/**
+ * Landing page for invite links: choose a username and password to join the organization.
+ */
+export default function AcceptInvite() {
+  const { token = "" } = useParams<{ token: string }>();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const { data: invite, isLoading, isError } = useQuery<InvitePreview>({
+    queryKey: ["/api/auth/invite", token],
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (data: { username: string; password: string }) => {
+      const res = await apiRequest("POST", "/api/auth/invite/accept", { token, ...data });
+      return (await res.json()) as LoginResponse;
+    },
+    onSuccess: (session) => {
+      applySession(session);
+      toast({
+        title: `Welcome to ${invite?.organizationName ?? "VoxFilter"}`,
+        description: `Signed in as ${session.user.username}.`,
+      });
+      navigate(session.user.role === "agent" ? "/" : "/admin");
+    },
+    onError: (error) => {
+      setFormError(
+        error instanceof Error && error.message.startsWith("400")
+          ? "That username is taken. Please choose another."
+          : "Failed to create your account. The invite may have expired.",
+      );
+    },
+  });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (username.trim().length < 3) {
+      setFormError("Username must be at least 3 characters.");
+      return;
+    }
+    if (password.length < 8) {
+      setFormError("Password must be at least 8 characters.");
+      return;
+    }
+    if (password !== confirmPassword) {
+      setFormError("Passwords do not match.");
+      return;
+    }
+    setFormError(null);
+    acceptMutation.mutate({ username: username.trim(), password });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <Skeleton className="h-64 w-full max-w-md mx-auto" />
+      </div>
+    );
+  }
+
+  if (isError || !invite) {
+    return (
+      <div className="p-6 text-center text-sm text-muted-foreground" data-testid="text-invite-invalid">
+        This invite link is invalid, has already been used, or has expired. Ask your administrator for a new one.
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 flex justify-center">
+      <Card className="w-full max-w-md" data-testid="card-accept-invite">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserPlus className="w-5 h-5" />
+            Join {invite.organizationName}
+          </CardTitle>
+          <CardDescription>
+            You've been invited as {invite.role === "admin" ? "an" : "a"} {invite.role}. Choose your sign-in details.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="invite-username">Username</Label>
+              <Input
+                id="invite-username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoComplete="username"
+                data-testid="input-invite-username"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-password">Password</Label>
+              <Input
+                id="invite-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="new-password"
+                data-testid="input-invite-password"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-confirm-password">Confirm Password</Label>
+              <Input
+                id="invite-confirm-password"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                autoComplete="new-password"
+                data-testid="input-invite-confirm-password"
+              />
+            </div>
+            {formError && (
+              <p className="text-sm text-destructive" data-testid="text-invite-error">{formError}</p>
+            )}
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={acceptMutation.isPending}
+              data-testid="button-accept-invite"
+            >
+              {acceptMutation.isPending ? "Creating account..." : "Create Account"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,7 +1,16 @@
-import { useState, useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState, useMemo, useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { AgentCard } from "@/components/agent-card";
 import { TeamPresetsManager } from "@/components/team-presets-manager";
+import { AccentPresetsManager } from "@/components/accent-presets-manager";
+import { CreateUserDialog } from "@/components/create-user-dialog";
+import { TeamsManager } from "@/components/teams-manager";
+import { OrganizationsManager } from "@/components/organizations-manager";
+import { AnalyticsTrends } from "@/components/analytics-trends";
+import { AuditLogViewer } from "@/components/audit-log-viewer";
+import { usePermissions } from "@/hooks/use-auth";
+import { usePresenceSubscription } from "@/hooks/use-presence";
+import { useAccentPresets } from "@/hooks/use-accent-presets";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -27,9 +36,12 @@ import {
   BarChart3,
   PieChart,
   Sparkles,
-  Settings
+  Settings,
+  Network,
+  Building2,
+  ScrollText
 } from "lucide-react";
-import type { Agent, AgentStatusType } from "@shared/schema";
+import type { Agent, AgentStatusType, Organization, PresenceUpdate } from "@shared/schema";
 
 interface TeamStats {
   total: number;
@@ -46,32 +58,43 @@ interface TeamStats {
   volumeNormalizationCount: number;
 }
 
-const presetLabels: Record<string, string> = {
-  neutral: "Neutral",
-  deeper: "Deeper Voice",
-  higher: "Higher Voice",
-  warm: "Warm Tone",
-  clear: "Clear Tone",
-  british: "British",
-  australian: "Australian",
-  southern_us: "Southern US",
-  midwest_us: "Midwest US",
-  new_york: "New York",
-};
-
 export default function AdminPanel() {
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<AgentStatusType | "all">("all");
   const [activeTab, setActiveTab] = useState("agents");
+  const [inputLevels, setInputLevels] = useState<Record<string, number>>({});
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const { labelFor } = useAccentPresets();
+  // Supervisors only get their own team back from the API; admins see everyone.
+  const isTeamScoped = !can("teams:manage");
+
+  // Push updates replace polling; the REST queries only poll while the socket is down.
+  const handlePresenceUpdate = useCallback((update: PresenceUpdate) => {
+    setInputLevels((prev) => ({ ...prev, [update.agentId]: update.inputLevel }));
+    if (!update.changed) return;
+    queryClient.setQueryData<Agent[]>(["/api/agents"], (prev) =>
+      prev?.map((agent) =>
+        agent.id === update.agentId
+          ? { ...agent, status: update.status, isProcessingActive: update.isProcessingActive, latency: update.latency }
+          : agent
+      )
+    );
+    queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+  }, [queryClient]);
+
+  const isPresenceConnected = usePresenceSubscription(handlePresenceUpdate);
 
   const { data: agents = [], isLoading, refetch, isRefetching } = useQuery<Agent[]>({
     queryKey: ["/api/agents"],
-    refetchInterval: 5000,
+    refetchInterval: isPresenceConnected ? false : 5000,
   });
 
+  const { data: organization } = useQuery<Organization>({ queryKey: ["/api/orgs/current"] });
+
   const { data: teamStats, isLoading: statsLoading } = useQuery<TeamStats>({
     queryKey: ["/api/stats"],
-    refetchInterval: 10000,
+    refetchInterval: isPresenceConnected ? false : 10000,
   });
 
   const filteredAgents = useMemo(() => {
@@ -107,20 +130,32 @@ export default function AdminPanel() {
       <div className="max-w-7xl mx-auto p-6 space-y-6">
         <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
           <div>
-            <h1 className="text-2xl font-semibold">Team Monitor</h1>
+            <h1 className="text-2xl font-semibold">
+              Team Monitor
+              {organization && (
+                <span className="text-muted-foreground font-normal" data-testid="text-organization-name">
+                  {" "}· {organization.name}
+                </span>
+              )}
+            </h1>
             <p className="text-sm text-muted-foreground mt-1">
-              Monitor audio processing status and analytics for all agents
+              {isTeamScoped
+                ? "Monitor audio processing status and analytics for your team"
+                : "Monitor audio processing status and analytics for all agents"}
             </p>
           </div>
-          <Button 
-            variant="outline" 
-            onClick={() => refetch()}
-            disabled={isRefetching}
-            data-testid="button-refresh-agents"
-          >
-            <RefreshCw className={`w-4 h-4 mr-2 ${isRefetching ? "animate-spin" : ""}`} />
-            Refresh
-          </Button>
+          <div className="flex items-center gap-2">
+            {can("users:manage") && <CreateUserDialog />}
+            <Button 
+              variant="outline" 
+              onClick={() => refetch()}
+              disabled={isRefetching}
+              data-testid="button-refresh-agents"
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${isRefetching ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+          </div>
         </div>
 
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -191,10 +226,30 @@ export default function AdminPanel() {
               <BarChart3 className="w-4 h-4 mr-2" />
               Analytics
             </TabsTrigger>
-            <TabsTrigger value="settings" data-testid="tab-settings">
-              <Settings className="w-4 h-4 mr-2" />
-              Team Presets
-            </TabsTrigger>
+            {can("presets:manage") && (
+              <TabsTrigger value="settings" data-testid="tab-settings">
+                <Settings className="w-4 h-4 mr-2" />
+                Team Presets
+              </TabsTrigger>
+            )}
+            {can("teams:manage") && (
+              <TabsTrigger value="teams" data-testid="tab-teams">
+                <Network className="w-4 h-4 mr-2" />
+                Teams
+              </TabsTrigger>
+            )}
+            {can("orgs:manage") && (
+              <TabsTrigger value="organizations" data-testid="tab-organizations">
+                <Building2 className="w-4 h-4 mr-2" />
+                Organizations
+              </TabsTrigger>
+            )}
+            {can("audit:view") && (
+              <TabsTrigger value="audit" data-testid="tab-audit">
+                <ScrollText className="w-4 h-4 mr-2" />
+                Audit Log
+              </TabsTrigger>
+            )}
           </TabsList>
 
           <TabsContent value="agents" className="space-y-4">
@@ -263,7 +318,7 @@ export default function AdminPanel() {
             ) : (
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
                 {filteredAgents.map((agent) => (
-                  <AgentCard key={agent.id} agent={agent} />
+                  <AgentCard key={agent.id} agent={agent} inputLevel={inputLevels[agent.id]} />
                 ))}
               </div>
             )}
@@ -276,6 +331,7 @@ export default function AdminPanel() {
           </TabsContent>
 
           <TabsContent value="analytics" className="space-y-4">
+            <AnalyticsTrends />
             {statsLoading ? (
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 {Array.from({ length: 4 }).map((_, i) => (
@@ -366,7 +422,7 @@ export default function AdminPanel() {
                         sortedPresetUsage.map(([preset, count]) => (
                           <div key={preset} className="space-y-1" data-testid={`preset-usage-${preset}`}>
                             <div className="flex items-center justify-between text-sm">
-                              <span>{presetLabels[preset] || preset}</span>
+                              <span>{labelFor(preset)}</span>
                               <span className="text-muted-foreground">{count} agents</span>
                             </div>
                             <Progress 
@@ -472,9 +528,30 @@ export default function AdminPanel() {
             ) : null}
           </TabsContent>
 
-          <TabsContent value="settings" className="space-y-4">
-            <TeamPresetsManager />
-          </TabsContent>
+          {can("presets:manage") && (
+            <TabsContent value="settings" className="space-y-4">
+              <TeamPresetsManager />
+              <AccentPresetsManager />
+            </TabsContent>
+          )}
+
+          {can("teams:manage") && (
+            <TabsContent value="teams" className="space-y-4">
+              <TeamsManager />
+            </TabsContent>
+          )}
+
+          {can("orgs:manage") && (
+            <TabsContent value="organizations" className="space-y-4">
+              <OrganizationsManager />
+            </TabsContent>
+          )}
+
+          {can("audit:view") && (
+            <TabsContent value="audit" className="space-y-4">
+              <AuditLogViewer />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </div>
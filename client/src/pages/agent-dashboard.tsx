@@ -2,21 +2,33 @@ import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { AudioControls } from "@/components/audio-controls";
 import { CustomProfiles } from "@/components/custom-profiles";
+import { DesktopShortcuts } from "@/components/desktop-shortcuts";
+import { DesktopUpdates } from "@/components/desktop-updates";
+import { RecordingsList } from "@/components/recordings-list";
 import { CallTimer } from "@/components/call-timer";
 import { StatusBadge } from "@/components/status-badge";
-import { useAudioProcessor } from "@/hooks/use-audio-processor";
-import { isRunningInElectron } from "@/hooks/use-electron";
+import { useAudioProcessor, type DeviceFallbackEvent } from "@/hooks/use-audio-processor";
+import { useAccentPresets } from "@/hooks/use-accent-presets";
+import { isRunningInElectron, type TrayPreset } from "@/hooks/use-electron";
+import { useDesktopTray, useGlobalShortcuts } from "@/hooks/use-desktop-tray";
 import { useToast } from "@/hooks/use-toast";
+import { usePresenceHeartbeat } from "@/hooks/use-presence";
+import { useCallTracking } from "@/hooks/use-call-tracking";
+import { usePushToTalk } from "@/hooks/use-push-to-talk";
+import { useLogout } from "@/hooks/use-auth";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Headphones, Info, Keyboard, User, Monitor } from "lucide-react";
+import { Headphones, Info, Keyboard, User, Monitor, LogOut, Lock } from "lucide-react";
 import { SetupWizard } from "@/components/setup-wizard";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, apiUpload } from "@/lib/queryClient";
+import { isAutomatedBrowser } from "@/lib/utils";
 import { Link } from "wouter";
-import type { AudioSettings, AgentStatusType, Agent } from "@shared/schema";
-import { defaultAudioSettings } from "@shared/schema";
+import type { AudioSettings, AgentStatusType, Agent, CustomProfile, PresenceServerMessage, TeamPreset } from "@shared/schema";
+import { defaultAudioSettings, enforcePresetLocks, resolveMandatoryPreset } from "@shared/schema";
+import { describeLock, type LockableSetting } from "@/lib/preset-locks";
+import { promotePreferredDevice } from "@/lib/device-fallback";
 import { debounce } from "lodash-es";
 import {
   Tooltip,
@@ -33,31 +45,98 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 
-const AGENT_ID_KEY = "voicepro-agent-id";
-const AGENT_NAME_KEY = "voicepro-agent-name";
-
 const DESKTOP_DOWNLOAD_URL = "https://github.com/herrychokshi-ops/VoxFilter-Downloads/releases/latest";
 
 export default function AgentDashboard() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // Avoid hammering the local API during automated browser runs (Playwright sets navigator.webdriver=true),
-  // which can trip server-side rate limiting and make E2E tests flaky.
-  const isAutomatedBrowser = typeof navigator !== "undefined" && (navigator as any).webdriver === true;
-  
-  const [agentId, setAgentId] = useState<string | null>(() => localStorage.getItem(AGENT_ID_KEY));
-  const [agentName, setAgentName] = useState(() => localStorage.getItem(AGENT_NAME_KEY) || "");
+  const logoutMutation = useLogout();
+
+  // The agent is whichever one is linked to the signed-in account (null until they register).
+  const { data: myAgent, isFetched: isMyAgentFetched } = useQuery<Agent | null>({
+    queryKey: ["/api/agents/me"],
+    enabled: !isAutomatedBrowser,
+  });
+  const agentId = myAgent?.id ?? null;
+  const [agentName, setAgentName] = useState("");
   const [settings, setSettings] = useState<AudioSettings>(defaultAudioSettings);
   const [isOnCall, setIsOnCall] = useState(false);
   const [callStartTime, setCallStartTime] = useState<number | undefined>();
   const [agentStatus, setAgentStatus] = useState<AgentStatusType>("online");
-  const [showSetupDialog, setShowSetupDialog] = useState(!agentId && !isAutomatedBrowser);
+  const [showSetupDialog, setShowSetupDialog] = useState(false);
   const [setupName, setSetupName] = useState("");
+  // The team preset or profile last applied, which the desktop tray shows as selected
+  const [appliedPresetId, setAppliedPresetId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isMyAgentFetched && myAgent === null) {
+      setShowSetupDialog(true);
+    }
+  }, [isMyAgentFetched, myAgent]);
+
+  const { presets: accentPresets } = useAccentPresets();
 
-  const audioProcessor = useAudioProcessor(settings);
+  // Hot-plug fallbacks happen on their own; tell the agent what moved where
+  const handleDeviceFallback = useCallback((event: DeviceFallbackEvent) => {
+    const what = event.kind === "input" ? "microphone" : "output device";
+    if (!event.toLabel) {
+      toast({
+        title: event.kind === "input" ? "Microphone disconnected" : "Output device disconnected",
+        description: event.kind === "input"
+          ? `${event.fromLabel ?? "Your microphone"} was unplugged and no other microphone is available. Plug one in to continue.`
+          : `${event.fromLabel ?? "The output"} was unplugged; your call app won't hear you until a preferred output is back.`,
+        variant: "destructive",
+      });
+    } else if (event.reason === "lost") {
+      toast({
+        title: event.kind === "input" ? "Microphone disconnected" : "Output device disconnected",
+        description: `${event.fromLabel ?? `Your ${what}`} was unplugged, so VoxFilter switched to ${event.toLabel}. Your settings are unchanged.`,
+      });
+    } else {
+      toast({
+        title: `Switched to ${event.toLabel}`,
+        description: `A preferred ${what} is connected again.`,
+      });
+    }
+  }, [toast]);
+
+  const audioProcessor = useAudioProcessor(settings, accentPresets, { onDeviceFallback: handleDeviceFallback });
   const isElectron = isRunningInElectron();
 
+  // The server pushes mandatory preset changes down the presence socket; switch to them straight away.
+  const handlePresenceMessage = useCallback((message: PresenceServerMessage) => {
+    if (message.type !== "mandatoryPreset" || message.agentId !== agentId) return;
+    setSettings(message.audioSettings);
+    queryClient.invalidateQueries({ queryKey: ["/api/agents", agentId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/team-presets/active"] });
+    toast(message.preset
+      ? { title: "Team preset applied", description: `Your administrator applied "${message.preset.name}".` }
+      : { title: "Team preset lifted", description: "Your settings are no longer locked." });
+  }, [agentId, queryClient, toast]);
+
+  // Live presence for the admin panel (status, processing state, latency and input level).
+  usePresenceHeartbeat(isAutomatedBrowser ? null : agentId, () => ({
+    status: agentStatus === "offline" ? "online" : agentStatus,
+    isProcessingActive: audioProcessor.isProcessing,
+    latency: audioProcessor.latency,
+    inputLevel: audioProcessor.inputLevel,
+  }), handlePresenceMessage);
+
+  const pushToTalkRegistered = usePushToTalk(
+    settings.pushToTalkHotkey ?? defaultAudioSettings.pushToTalkHotkey,
+    settings.processingMode === "push-to-talk",
+    audioProcessor.setPushToTalk,
+  );
+
+  // Per-call usage (processing minutes, accent preset, latency) is rolled into analytics when the call ends.
+  useCallTracking(isAutomatedBrowser ? null : agentId, isOnCall, () => ({
+    isProcessingActive: audioProcessor.isProcessing,
+    isTalking: audioProcessor.isSpeaking && audioProcessor.isTransmitting,
+    latency: audioProcessor.latency,
+    settings,
+  }));
+
   // Fetch current agent data if we have an ID
   const { data: agentData } = useQuery<Agent>({
     queryKey: ["/api/agents", agentId],
@@ -75,6 +154,12 @@ export default function AgentDashboard() {
     }
   }, [agentData]);
 
+  const { data: activePresets = [] } = useQuery<TeamPreset[]>({
+    queryKey: ["/api/team-presets/active"],
+    enabled: !!agentId && !isAutomatedBrowser,
+  });
+  const mandatoryPreset = resolveMandatoryPreset(activePresets, agentData?.teamId ?? null) ?? null;
+
   // Create agent mutation
   const createAgentMutation = useMutation({
     mutationFn: async (name: string) => {
@@ -87,10 +172,8 @@ export default function AgentDashboard() {
       return (await response.json()) as Agent;
     },
     onSuccess: (agent) => {
-      setAgentId(agent.id);
+      queryClient.setQueryData<Agent | null>(["/api/agents/me"], agent);
       setAgentName(agent.name);
-      localStorage.setItem(AGENT_ID_KEY, agent.id);
-      localStorage.setItem(AGENT_NAME_KEY, agent.name);
       setShowSetupDialog(false);
       toast({
         title: "Welcome to VoxFilter",
@@ -178,8 +261,17 @@ export default function AgentDashboard() {
     };
   }, [debouncedUpdateSettings]);
 
-  const handleSettingsChange = useCallback((newSettings: Partial<AudioSettings>) => {
+  const handleSettingsChange = useCallback((requested: Partial<AudioSettings>) => {
+    // The server clamps to the mandatory preset's locks as well; doing it here keeps the controls in step
+    const lockedSettings = mandatoryPreset ? enforcePresetLocks(requested, mandatoryPreset).settings : requested;
     setSettings((prev) => {
+      // Picking a microphone puts it at the top of the fallback order
+      const picked = lockedSettings.inputDeviceId
+        ? audioProcessor.devices.find((d) => d.kind === "audioinput" && d.deviceId === lockedSettings.inputDeviceId)
+        : undefined;
+      const newSettings = picked
+        ? { ...lockedSettings, preferredInputDevices: promotePreferredDevice(prev.preferredInputDevices ?? [], picked) }
+        : lockedSettings;
       const updated = { ...prev, ...newSettings };
       // Debounced sync to server - FIXED!
       if (!isAutomatedBrowser) {
@@ -187,7 +279,19 @@ export default function AgentDashboard() {
       }
       return updated;
     });
-  }, [debouncedUpdateSettings, isAutomatedBrowser]);
+  }, [debouncedUpdateSettings, isAutomatedBrowser, mandatoryPreset, audioProcessor.devices]);
+
+  // Likewise for the output the processed voice is routed to
+  const { setOutputDevice: setProcessorOutputDevice, devices: processorDevices } = audioProcessor;
+  const handleSetOutputDevice = useCallback(async (deviceId: string) => {
+    const picked = processorDevices.find((d) => d.kind === "audiooutput" && d.deviceId === deviceId);
+    if (picked) {
+      handleSettingsChange({
+        preferredOutputDevices: promotePreferredDevice(settings.preferredOutputDevices ?? [], picked),
+      });
+    }
+    return setProcessorOutputDevice(deviceId);
+  }, [processorDevices, setProcessorOutputDevice, handleSettingsChange, settings.preferredOutputDevices]);
 
   const handleStartCall = useCallback(() => {
     setIsOnCall(true);
@@ -245,12 +349,79 @@ export default function AgentDashboard() {
     }
   };
 
-  const handleApplyProfile = useCallback((profileSettings: AudioSettings) => {
+  // Upload finished recordings so they can be played back (and reviewed) from the server.
+  const uploadRecordingMutation = useMutation({
+    mutationFn: async (data: { blob: Blob; duration: number }) => {
+      if (!agentId) throw new Error("No agent ID");
+      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+      const formData = new FormData();
+      formData.append("audio", data.blob, `voicepro-recording-${timestamp}.webm`);
+      formData.append("agentId", agentId);
+      formData.append("duration", String(data.duration));
+      formData.append("audioSettings", JSON.stringify(settings));
+      const response = await apiUpload("/api/recordings/upload", formData);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/agents", agentId, "recordings"] });
+    },
+    onError: (error) => {
+      console.error("Recording upload error:", error);
+      toast({
+        title: "Upload failed",
+        description: "The recording was downloaded but could not be saved to the server.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleStopRecording = useCallback(async () => {
+    const duration = audioProcessor.recordingDuration;
+    const blob = await audioProcessor.downloadRecording();
+    if (blob && agentId && !isAutomatedBrowser) {
+      uploadRecordingMutation.mutate({ blob, duration });
+    }
+    return blob;
+  }, [audioProcessor, agentId, uploadRecordingMutation, isAutomatedBrowser]);
+
+  const handleApplyProfile = useCallback((requested: AudioSettings, sourceId?: string) => {
+    const profileSettings = mandatoryPreset ? enforcePresetLocks(requested, mandatoryPreset).settings : requested;
     setSettings(profileSettings);
+    setAppliedPresetId(sourceId ?? null);
     if (agentId) {
       updateSettingsMutation.mutate({ audioSettings: profileSettings });
     }
-  }, [agentId, updateSettingsMutation]);
+  }, [agentId, updateSettingsMutation, mandatoryPreset]);
+
+  // Desktop tray: quick controls for running in the background, with the active team presets and
+  // the agent's own profiles to switch between
+  const { data: myProfiles = [] } = useQuery<CustomProfile[]>({
+    queryKey: ["/api/agents", agentId, "profiles"],
+    enabled: !!agentId && isElectron && !isAutomatedBrowser,
+  });
+  const trayPresets = useMemo<TrayPreset[]>(() => [
+    ...activePresets.map((preset) => ({ id: preset.id, name: preset.name, kind: "team" as const })),
+    ...myProfiles.map((profile) => ({ id: profile.id, name: profile.name, kind: "profile" as const })),
+  ], [activePresets, myProfiles]);
+  const [globalShortcuts, setGlobalShortcuts] = useGlobalShortcuts();
+  const globalShortcutStatus = useDesktopTray(
+    {
+      isProcessing: audioProcessor.isProcessing,
+      isMuted: audioProcessor.isMuted,
+      inputLevel: audioProcessor.inputLevel,
+      presets: trayPresets,
+      activePresetId: appliedPresetId,
+    },
+    {
+      onToggleProcessing: () => (audioProcessor.isProcessing ? handleStop() : void handleInitialize()),
+      onToggleMute: () => audioProcessor.setMuted(!audioProcessor.isMuted),
+      onSelectPreset: (presetId) => {
+        const source = activePresets.find((p) => p.id === presetId) ?? myProfiles.find((p) => p.id === presetId);
+        if (source) handleApplyProfile(source.audioSettings, source.id);
+      },
+    },
+    globalShortcuts,
+  );
 
   // Expose a tiny test harness for Playwright/E2E runs.
   // This avoids brittle "download" flows and makes audio automation deterministic.
@@ -363,13 +534,29 @@ export default function AgentDashboard() {
               virtualError={audioProcessor.virtualError}
               onInitialize={handleInitialize}
               onRefreshDevices={audioProcessor.refreshDevices}
-              onSetOutputDevice={audioProcessor.setOutputDevice}
+              onSetOutputDevice={handleSetOutputDevice}
               onEnableOutput={audioProcessor.enableOutput}
               onRunSelfTest={audioProcessor.runSelfTest}
               selfTestReport={audioProcessor.selfTestReport}
               isSelfTesting={audioProcessor.isSelfTesting}
             />
             <StatusBadge status={agentStatus} size="md" />
+            {!isAutomatedBrowser && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => logoutMutation.mutate()}
+                    disabled={logoutMutation.isPending}
+                    data-testid="button-logout"
+                  >
+                    <LogOut className="w-4 h-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>Sign out</TooltipContent>
+              </Tooltip>
+            )}
           </div>
         </div>
 
@@ -468,6 +655,29 @@ export default function AgentDashboard() {
           </Card>
         )}
 
+        {/* Mandatory team preset */}
+        {mandatoryPreset && (
+          <Card className="border-primary/30 bg-primary/5" data-testid="card-mandatory-preset">
+            <CardContent className="py-3">
+              <div className="flex items-start gap-2 text-sm">
+                <Lock className="w-4 h-4 mt-0.5 text-primary" />
+                <div>
+                  <p>
+                    <span className="font-medium">{mandatoryPreset.name}</span> is required by your administrator.
+                  </p>
+                  {Object.keys(mandatoryPreset.lockedFields).length > 0 && (
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      {(Object.keys(mandatoryPreset.lockedFields) as LockableSetting[])
+                        .map((field) => describeLock(mandatoryPreset, field))
+                        .join(" · ")}
+                    </p>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Keyboard Shortcuts Info */}
         <Card className="bg-muted/30">
           <CardContent className="py-3">
@@ -497,13 +707,22 @@ export default function AgentDashboard() {
           outputDeviceId={audioProcessor.outputDeviceId}
           inputLevel={audioProcessor.inputLevel}
           outputLevel={audioProcessor.outputLevel}
+          loudnessLufs={audioProcessor.loudnessLufs}
+          agcGain={audioProcessor.agcGain}
+          compressorReduction={audioProcessor.compressorReduction}
+          limiterReduction={audioProcessor.limiterReduction}
+          isSpeaking={audioProcessor.isSpeaking}
+          isTransmitting={audioProcessor.isTransmitting}
+          pushToTalkRegistered={pushToTalkRegistered}
+          isMuted={audioProcessor.isMuted}
+          onToggleMute={() => audioProcessor.setMuted(!audioProcessor.isMuted)}
           latency={audioProcessor.latency}
           devices={audioProcessor.devices}
           onInitialize={handleInitialize}
           onStop={handleStop}
           onEnableOutput={audioProcessor.enableOutput}
           onDisableOutput={audioProcessor.disableOutput}
-          onSetOutputDevice={audioProcessor.setOutputDevice}
+          onSetOutputDevice={handleSetOutputDevice}
           onRunSelfTest={audioProcessor.runSelfTest}
           onRunAbCompare={audioProcessor.runAbCompare}
           selfTestReport={audioProcessor.selfTestReport}
@@ -513,9 +732,10 @@ export default function AgentDashboard() {
           isAbComparing={audioProcessor.isAbComparing}
           onStartRecording={audioProcessor.startRecording}
           onStopRecording={audioProcessor.stopRecording}
-          onDownloadRecording={audioProcessor.downloadRecording}
+          onDownloadRecording={handleStopRecording}
           getAnalyserData={audioProcessor.getAnalyserData}
           error={audioProcessor.error}
+          mandatoryPreset={mandatoryPreset}
         />
 
         {/* Desktop App Banner (when in browser) */}
@@ -534,6 +754,18 @@ export default function AgentDashboard() {
           </Card>
         )}
 
+        {/* Global shortcuts (desktop app) */}
+        {isElectron && (
+          <DesktopShortcuts
+            shortcuts={globalShortcuts}
+            onShortcutsChange={setGlobalShortcuts}
+            status={globalShortcutStatus}
+          />
+        )}
+
+        {/* Updates (desktop app) */}
+        {isElectron && <DesktopUpdates isOnCall={isOnCall} />}
+
         {/* Custom Profiles */}
         {agentId && (
           <CustomProfiles
@@ -542,6 +774,9 @@ export default function AgentDashboard() {
             onApplyProfile={handleApplyProfile}
           />
         )}
+
+        {/* Recordings */}
+        {agentId && <RecordingsList agentId={agentId} />}
       </div>
     </div>
   );
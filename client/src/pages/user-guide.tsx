@@ -144,16 +144,17 @@ export default function UserGuide() {
             <h4 className="font-medium">First-Time Setup</h4>
             <ol className="text-sm text-muted-foreground space-y-2 list-decimal pl-5">
               <li>Open VoxFilter in your web browser (Chrome recommended)</li>
+              <li>Sign in with the account your administrator created for you</li>
               <li>Enter your name in the welcome dialog to register</li>
               <li>Click <strong>"Get Started"</strong> to access your dashboard</li>
               <li>Allow microphone access when your browser asks</li>
             </ol>
             <p className="text-sm text-muted-foreground">
-              <strong>Returning users:</strong> VoxFilter remembers you automatically. Your browser stores your agent ID locally, so you'll go straight to your dashboard with saved settings.
+              <strong>Returning users:</strong> Sign in with the same account on any computer and you'll go straight to your dashboard with your saved settings. Your agent can only be changed by you or an administrator.
             </p>
             <h4 className="font-medium pt-2">Quick Start Checklist</h4>
             <ul className="text-sm text-muted-foreground space-y-1.5">
-              <li className="flex items-start gap-2"><span className="w-4 h-4 border rounded flex items-center justify-center shrink-0 mt-0.5 text-xs">1</span> Register with your name (first time only)</li>
+              <li className="flex items-start gap-2"><span className="w-4 h-4 border rounded flex items-center justify-center shrink-0 mt-0.5 text-xs">1</span> Sign in and register with your name (first time only)</li>
               <li className="flex items-start gap-2"><span className="w-4 h-4 border rounded flex items-center justify-center shrink-0 mt-0.5 text-xs">2</span> Click "Start Audio Processing" to enable your microphone</li>
               <li className="flex items-start gap-2"><span className="w-4 h-4 border rounded flex items-center justify-center shrink-0 mt-0.5 text-xs">3</span> Enable Noise Reduction (recommended)</li>
               <li className="flex items-start gap-2"><span className="w-4 h-4 border rounded flex items-center justify-center shrink-0 mt-0.5 text-xs">4</span> Choose a Voice Preset for your calling style</li>
@@ -257,6 +258,15 @@ export default function UserGuide() {
                 <tbody className="text-muted-foreground">
                   <tr className="border-b"><td className="py-2 pr-4">Clarity Boost</td><td className="py-2 pr-4">0-100%</td><td className="py-2">Enhances vocal frequencies. Start at 25-50%</td></tr>
                   <tr className="border-b"><td className="py-2 pr-4">Volume Normalization</td><td className="py-2 pr-4">On/Off</td><td className="py-2">Maintains consistent volume. Recommended: On</td></tr>
+                  <tr className="border-b"><td className="py-2 pr-4">Compressor</td><td className="py-2 pr-4">Threshold, ratio, knee, attack, release, makeup</td><td className="py-2">Shown while Volume Normalization is on. Lower the threshold or raise the ratio to even out loud talkers; add makeup gain to lift quiet ones</td></tr>
+                  <tr className="border-b"><td className="py-2 pr-4">Peak Limiter</td><td className="py-2 pr-4">On/Off, ceiling -12 to 0 dBTP</td><td className="py-2">Catches peaks at the very end of the chain so the softphone never clips. Default: Off; -1 dBTP when turned on. The Gain Reduction meters show how hard each stage is working</td></tr>
+                  <tr className="border-b"><td className="py-2 pr-4">De-esser</td><td className="py-2 pr-4">On/Off, threshold, max reduction</td><td className="py-2">Turns down harsh "s" sounds (4-9 kHz) only while they happen. Worth enabling with bright presets such as British, Clear Tone or Energetic</td></tr>
+                  <tr className="border-b"><td className="py-2 pr-4">Plosive Suppression</td><td className="py-2 pr-4">On/Off, sensitivity 0-100%</td><td className="py-2">Ducks the low-frequency thump of "p" and "b" on a close headset mic. Raise the sensitivity if softer pops still get through</td></tr>
+                  <tr className="border-b"><td className="py-2 pr-4">Loudness AGC</td><td className="py-2 pr-4">On/Off, target -36 to -10 LUFS, max gain 0-30 dB, speech gate</td><td className="py-2">Slowly steers your voice toward the target loudness so every agent sounds equally loud. Pauses below the speech gate leave the gain alone. The Loudness readout under the meters shows the current level</td></tr>
+                  <tr className="border-b"><td className="py-2 pr-4">Talk Mode</td><td className="py-2 pr-4">Always on, push to talk, auto-mute</td><td className="py-2">Push to talk sends your voice only while you hold the hotkey (in the desktop app, pressing it in another app toggles talking). Auto-mute mutes after the chosen seconds of silence and unmutes as soon as you speak</td></tr>
+                  <tr className="border-b"><td className="py-2 pr-4">Voice Detection Sensitivity</td><td className="py-2 pr-4">0-100%</td><td className="py-2">How easily speech is detected for auto-mute and the talk-time analytics. Raise it for soft voices, lower it in noisy rooms</td></tr>
+                  <tr className="border-b"><td className="py-2 pr-4">Equalizer</td><td className="py-2 pr-4">Up to 8 bands</td><td className="py-2">Double-click the curve to add a band, drag it to set frequency and gain, scroll over it for Q. Useful for thin or boomy headsets</td></tr>
+                  <tr className="border-b"><td className="py-2 pr-4">Preferred Devices</td><td className="py-2 pr-4">Ordered lists, one per input and output</td><td className="py-2">Every microphone or output you pick goes to the top of its list. If the one in use is unplugged mid-call, VoxFilter moves to the next one that is connected without losing any settings, and moves back when a higher one returns. A notification says what happened</td></tr>
                   <tr className="border-b"><td className="py-2 pr-4">Input Gain</td><td className="py-2 pr-4">0-200%</td><td className="py-2">Microphone sensitivity. Default: 100%</td></tr>
                   <tr><td className="py-2 pr-4">Output Gain</td><td className="py-2 pr-4">0-200%</td><td className="py-2">Final output volume. Default: 100%</td></tr>
                 </tbody>
@@ -396,6 +406,7 @@ export default function UserGuide() {
               <li>Name profiles descriptively ("Enterprise - Calm" vs "Startup - Energetic")</li>
               <li>Share profiles that work well so teammates can benefit</li>
               <li>Regularly update profiles as you refine your settings</li>
+              <li>Use the download icon to export a profile (or all of yours) as a <strong>.voxpreset</strong> file, and the upload icon to import one; entries with a name you already use are skipped or renamed, and invalid settings are listed field by field</li>
             </ul>
           </CardContent>
         </Card>
@@ -418,6 +429,8 @@ export default function UserGuide() {
             </ul>
             <h4 className="font-medium pt-2">Analytics Tab</h4>
             <ul className="text-sm text-muted-foreground space-y-1.5 list-disc pl-5">
+              <li>Usage trends: processing minutes, calls and latency (p50/p95) per hour, day or week, recorded automatically when agents start and end calls</li>
+              <li>Filter trends by date range, agent, team and voice preset, and export them as <strong>CSV</strong> or <strong>JSON</strong></li>
               <li>Feature adoption rates (noise reduction, accent modifier, clarity boost, volume normalization)</li>
               <li>Voice preset popularity with progress bars</li>
               <li>Agent status distribution chart</li>
@@ -428,7 +441,32 @@ export default function UserGuide() {
               <li>Configure all audio settings for the preset</li>
               <li>Toggle <strong>Active</strong> to make it visible to agents</li>
               <li>Edit or delete presets at any time</li>
+              <li>Click the <strong>History</strong> icon to see who changed a preset, when, and which settings moved; <strong>Restore</strong> puts an earlier version back</li>
+              <li>Turn on <strong>Mandatory</strong> and choose the whole organization or one team to apply the preset to every agent in scope at once; a team's mandatory preset takes precedence over the organization's</li>
+              <li>On a mandatory preset, lock individual settings to its value, or set them as a minimum or maximum (for example, noise reduction at least 60%); agents can't move past a lock</li>
+              <li><strong>Export All</strong> (or a preset's download icon) saves presets as a <strong>.voxpreset</strong> file; <strong>Import</strong> adds the presets from such a file as active, non-mandatory presets</li>
             </ol>
+            <h4 className="font-medium pt-2">Accent Presets</h4>
+            <ul className="text-sm text-muted-foreground space-y-1.5 list-disc pl-5">
+              <li>Below the team presets, <strong>Create Accent</strong> adds your own voice modifier preset with its pitch and formant shift, filters and F1–F3 formant bands; it appears in every agent's preset list under its category</li>
+              <li>Built-in accents can be tuned but not deleted; an agent whose accent is deleted plays as Neutral</li>
+            </ul>
+            <h4 className="font-medium pt-2">Teams Tab (admins only)</h4>
+            <ul className="text-sm text-muted-foreground space-y-1.5 list-disc pl-5">
+              <li>Create teams and move agents between them</li>
+              <li>Give an account the <strong>Supervisor</strong> role and pick the team they supervise</li>
+              <li>Supervisors see the monitor and analytics for their own team only, and can adjust those agents' settings; deleting agents and managing presets stays with admins</li>
+            </ul>
+            <h4 className="font-medium pt-2">Audit Log Tab (admins only)</h4>
+            <ul className="text-sm text-muted-foreground space-y-1.5 list-disc pl-5">
+              <li>Every change made through VoxFilter is listed with who made it and when: agents, presets, profiles, teams, users, invites, calls and recordings, plus sign-ins</li>
+              <li>Filter by entity, user or date range; click a row to compare the entity before and after the change (passwords and tokens are never recorded)</li>
+            </ul>
+            <h4 className="font-medium pt-2">Organizations Tab (owner only)</h4>
+            <ul className="text-sm text-muted-foreground space-y-1.5 list-disc pl-5">
+              <li>Each organization is a separate call center: its agents, teams, presets and analytics are invisible to every other organization</li>
+              <li>Create an organization, then click <strong>Invite</strong> to generate a single-use sign-up link for its first admin</li>
+            </ul>
           </CardContent>
         </Card>
       </section>
@@ -525,6 +563,46 @@ export default function UserGuide() {
             </div>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader><CardTitle className="text-base">Linux Setup (Desktop App)</CardTitle></CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-3">
+              <div>
+                <h4 className="font-medium text-sm">Step 1: Nothing to install</h4>
+                <p className="text-sm text-muted-foreground">The desktop app creates a <strong>VoxFilter Sink</strong> and a <strong>VoxFilter Microphone</strong> with <code>pactl</code> when it starts, and removes them when it quits. PulseAudio, or PipeWire with pipewire-pulse, must be running.</p>
+              </div>
+              <div>
+                <h4 className="font-medium text-sm">Step 2: Configure VoxFilter Output Routing</h4>
+                <p className="text-sm text-muted-foreground">Start audio processing, then in <strong>Audio Output Routing</strong> select <strong>VoxFilter Sink</strong> and click <strong>Enable Audio Output</strong>.</p>
+              </div>
+              <div>
+                <h4 className="font-medium text-sm">Step 3: Configure your call app</h4>
+                <p className="text-sm text-muted-foreground">Set <strong>Microphone</strong> to <strong>VoxFilter Microphone</strong>. Keep <strong>Speaker</strong> as your headphones/speakers.</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader><CardTitle className="text-base">Tray, Shortcuts and Updates (Desktop App)</CardTitle></CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-3">
+              <div>
+                <h4 className="font-medium text-sm">System tray</h4>
+                <p className="text-sm text-muted-foreground">Closing the window keeps VoxFilter processing behind your softphone. The tray icon turns green while processing and red while muted, and its bar shows your input level. Its menu toggles <strong>Voice Processing</strong> and <strong>Mute Microphone</strong>, switches between your team's active presets and your own profiles, and has <strong>Quit VoxFilter</strong> to stop for good.</p>
+              </div>
+              <div>
+                <h4 className="font-medium text-sm">Global shortcuts</h4>
+                <p className="text-sm text-muted-foreground">By default <strong>Ctrl+Alt+V</strong> (Cmd+Option+V on a Mac) toggles processing and <strong>Ctrl+Alt+P</strong> switches to the next preset, from any app. Change or clear them under <strong>Desktop Shortcuts</strong> on the dashboard; they are saved on this computer only.</p>
+              </div>
+              <div>
+                <h4 className="font-medium text-sm">Updates</h4>
+                <p className="text-sm text-muted-foreground">When your IT team has set up an update feed, new versions download in the background and are checked before anything is installed. You are asked to restart once you are off a call and VoxFilter is no longer routing audio to your call app; choose <strong>Later</strong> and you are asked again after your next call. <strong>App Updates</strong> on the dashboard shows your version and checks on demand.</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
       </section>
 
       <Separator />
@@ -618,7 +696,7 @@ export default function UserGuide() {
               </AccordionItem>
               <AccordionItem value="onboard">
                 <AccordionTrigger className="text-sm" data-testid="accordion-faq-onboard">How do I onboard 50 agents quickly?</AccordionTrigger>
-                <AccordionContent className="text-sm text-muted-foreground">Create standard Team Presets, then share the link. Agents register themselves and apply team presets.</AccordionContent>
+                <AccordionContent className="text-sm text-muted-foreground">Create standard Team Presets and an account for each agent (Add Account in Team Monitor), then share the link. Agents sign in, register themselves and apply team presets.</AccordionContent>
               </AccordionItem>
             </Accordion>
           </CardContent>
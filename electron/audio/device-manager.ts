@@ -1,7 +1,78 @@
-import { exec } from 'child_process';
+import { exec, execFile } from 'child_process';
+import { EventEmitter } from 'events';
 import { promisify } from 'util';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+/**
+ * Runs a command without a shell and resolves with its stdout; rejects when it can't be started
+ * or exits non-zero. Injected so the pactl handling can be exercised against a fake.
+ */
+export type CommandRunner = (command: string, args: string[]) => Promise<string>;
+
+const defaultRunner: CommandRunner = async (command, args) => {
+  const { stdout } = await execFileAsync(command, args, { timeout: 5000 });
+  return stdout;
+};
+
+// The Linux virtual microphone: processed audio is played into the null sink, and call apps
+// record from a source remapped from the sink's monitor (monitors are hidden from most apps).
+export const LINUX_VIRTUAL_SINK = 'voxfilter_sink';
+export const LINUX_VIRTUAL_SOURCE = 'voxfilter_mic';
+const LINUX_VIRTUAL_SINK_DESCRIPTION = 'VoxFilter Sink';
+const LINUX_VIRTUAL_SOURCE_DESCRIPTION = 'VoxFilter Microphone';
+
+/**
+ * stopped -> starting -> active. While routing, a monitored device that disappears moves it to
+ * device-lost; when the device is back it goes through starting to active again. A route that
+ * can't be set up at all ends in error.
+ */
+export type RoutingStatus = 'stopped' | 'starting' | 'active' | 'device-lost' | 'error';
+
+export interface RoutingState {
+  status: RoutingStatus;
+  inputDeviceId: string | null;
+  outputDeviceId: string | null;
+  // Which ends of the route are currently missing (only while device-lost)
+  missingDevices: Array<'input' | 'output'>;
+  // How many times the route was restored after a device came back
+  reconnects: number;
+  error: string | null;
+  updatedAt: number;
+}
+
+interface RouteEndpoint {
+  deviceId: string;
+  label: string | null;
+}
+
+interface Route {
+  input: RouteEndpoint;
+  output: RouteEndpoint;
+  // Renderer (browser) input ids often have no native counterpart; those inputs can't be watched
+  monitorInput: boolean;
+}
+
+export interface AudioDeviceManagerOptions {
+  platform?: NodeJS.Platform;
+  runCommand?: CommandRunner;
+  // How often the device watch polls the system's devices
+  deviceWatchIntervalMs?: number;
+}
+
+const DEFAULT_DEVICE_WATCH_INTERVAL_MS = 5000;
+
+// Identity of a device list, to tell when it changed
+function devicesSignature(devices: AudioDevices): string {
+  return [...devices.inputs, ...devices.outputs].map(d => `${d.kind}:${d.deviceId}:${d.label}`).join('|');
+}
+
+function findEndpoint(devices: AudioDevice[], endpoint: RouteEndpoint): AudioDevice | undefined {
+  // Reconnected devices may come back under a new id, so fall back to the label
+  return devices.find(d => d.deviceId === endpoint.deviceId) ??
+    (endpoint.label ? devices.find(d => d.label === endpoint.label) : undefined);
+}
 
 export interface AudioDevice {
   deviceId: string;
@@ -15,13 +86,40 @@ export interface AudioDevices {
   outputs: AudioDevice[];
 }
 
-export class AudioDeviceManager {
+/**
+ * Emits 'routingState' with a RoutingState on every routing transition, and 'devicesChanged' with
+ * the AudioDevices whenever the device watch sees a device appear or disappear.
+ */
+export class AudioDeviceManager extends EventEmitter {
   private currentOutputDevice: string | null = null;
-  private isRoutingActive: boolean = false;
+  private routingState: RoutingState = {
+    status: 'stopped',
+    inputDeviceId: null,
+    outputDeviceId: null,
+    missingDevices: [],
+    reconnects: 0,
+    error: null,
+    updatedAt: Date.now(),
+  };
+  private route: Route | null = null;
+  // Bumped on every start/stop so checks still in flight for an older route are dropped
+  private routeGeneration = 0;
+  private watchTimer: NodeJS.Timeout | null = null;
+  private lastDevicesSignature: string | null = null;
+  private pollRunning = false;
+  private healthCheckRunning = false;
+  private deviceWatchIntervalMs: number;
   private platform: NodeJS.Platform;
-
-  constructor() {
-    this.platform = process.platform;
+  private runCommand: CommandRunner;
+  // pactl module indices backing the Linux virtual microphone, in load order
+  private linuxModuleIds: number[] = [];
+  private linuxVirtualMicPromise: Promise<AudioDevice | null> | null = null;
+
+  constructor(options: AudioDeviceManagerOptions = {}) {
+    super();
+    this.platform = options.platform ?? process.platform;
+    this.runCommand = options.runCommand ?? defaultRunner;
+    this.deviceWatchIntervalMs = options.deviceWatchIntervalMs ?? DEFAULT_DEVICE_WATCH_INTERVAL_MS;
   }
 
   async getAudioDevices(): Promise<AudioDevices> {
@@ -183,15 +281,17 @@ export class AudioDeviceManager {
     const devices: AudioDevices = { inputs: [], outputs: [] };
 
     try {
-      const { stdout } = await execAsync('pactl list sources short 2>/dev/null || arecord -l 2>/dev/null', { timeout: 5000 });
+      const stdout = await this.runCommand('pactl', ['list', 'sources', 'short'])
+        .catch(() => this.runCommand('arecord', ['-l']));
       const lines = stdout.split('\n').filter(l => l.trim());
       
       for (const line of lines) {
         const parts = line.split(/\s+/);
         if (parts.length >= 2) {
           const name = parts[1] || parts[0];
+          // pactl names are stable across restarts, unlike its indices
           devices.inputs.push({
-            deviceId: parts[0],
+            deviceId: name,
             label: name,
             kind: 'audioinput',
             isVirtualCable: this.isVirtualCableDevice(name),
@@ -202,7 +302,8 @@ export class AudioDeviceManager {
     }
 
     try {
-      const { stdout } = await execAsync('pactl list sinks short 2>/dev/null || aplay -l 2>/dev/null', { timeout: 5000 });
+      const stdout = await this.runCommand('pactl', ['list', 'sinks', 'short'])
+        .catch(() => this.runCommand('aplay', ['-l']));
       const lines = stdout.split('\n').filter(l => l.trim());
       
       for (const line of lines) {
@@ -210,7 +311,7 @@ export class AudioDeviceManager {
         if (parts.length >= 2) {
           const name = parts[1] || parts[0];
           devices.outputs.push({
-            deviceId: parts[0],
+            deviceId: name,
             label: name,
             kind: 'audiooutput',
             isVirtualCable: this.isVirtualCableDevice(name),
@@ -233,14 +334,119 @@ export class AudioDeviceManager {
       'loopback',
       'voicemeeter',
       'soundflower',
+      'voxfilter',
     ];
     return virtualCablePatterns.some(pattern => lowerName.includes(pattern));
   }
 
-  findVirtualCableDevice(): AudioDevice | null {
+  async findVirtualCableDevice(): Promise<AudioDevice | null> {
+    if (this.platform === 'linux') {
+      return this.ensureLinuxVirtualMic();
+    }
+    const { outputs } = await this.getAudioDevices();
+    return outputs.find(d => d.isVirtualCable) ?? null;
+  }
+
+  /**
+   * Load the null sink and the remapped microphone source unless they already exist. Modules
+   * left behind by a session that crashed are adopted so cleanup() still removes them.
+   */
+  private ensureLinuxVirtualMic(): Promise<AudioDevice | null> {
+    if (!this.linuxVirtualMicPromise) {
+      this.linuxVirtualMicPromise = this.loadLinuxVirtualMic().then((device) => {
+        // Let the next call retry, e.g. after PulseAudio/PipeWire comes up
+        if (!device) this.linuxVirtualMicPromise = null;
+        return device;
+      });
+    }
+    return this.linuxVirtualMicPromise;
+  }
+
+  private async loadLinuxVirtualMic(): Promise<AudioDevice | null> {
+    // Modules this attempt loaded, unloaded again if it fails halfway
+    const loaded: number[] = [];
+    try {
+      const modules = await this.runCommand('pactl', ['list', 'short', 'modules']);
+      let sinkModule = this.findLinuxModule(modules, 'module-null-sink', `sink_name=${LINUX_VIRTUAL_SINK}`);
+      let sourceModule = this.findLinuxModule(modules, 'module-remap-source', `source_name=${LINUX_VIRTUAL_SOURCE}`);
+
+      if (sinkModule === null) {
+        sinkModule = await this.loadLinuxModule([
+          'module-null-sink',
+          `sink_name=${LINUX_VIRTUAL_SINK}`,
+          `sink_properties='device.description="${LINUX_VIRTUAL_SINK_DESCRIPTION}"'`,
+        ]);
+        loaded.push(sinkModule);
+      }
+      if (!this.linuxModuleIds.includes(sinkModule)) this.linuxModuleIds.push(sinkModule);
+
+      if (sourceModule === null) {
+        sourceModule = await this.loadLinuxModule([
+          'module-remap-source',
+          `master=${LINUX_VIRTUAL_SINK}.monitor`,
+          `source_name=${LINUX_VIRTUAL_SOURCE}`,
+          `source_properties='device.description="${LINUX_VIRTUAL_SOURCE_DESCRIPTION}"'`,
+        ]);
+        loaded.push(sourceModule);
+      }
+      if (!this.linuxModuleIds.includes(sourceModule)) this.linuxModuleIds.push(sourceModule);
+
+      return {
+        deviceId: LINUX_VIRTUAL_SINK,
+        label: LINUX_VIRTUAL_SINK_DESCRIPTION,
+        kind: 'audiooutput',
+        isVirtualCable: true,
+      };
+    } catch (error) {
+      console.error('Error creating Linux virtual microphone (is pactl installed?):', error);
+      this.linuxModuleIds = this.linuxModuleIds.filter((id) => !loaded.includes(id));
+      await this.unloadLinuxModules(loaded.reverse());
+      return null;
+    }
+  }
+
+  // `pactl list short modules` lines are "<index>\t<name>\t<arguments>"
+  private findLinuxModule(modules: string, name: string, argument: string): number | null {
+    for (const line of modules.split('\n')) {
+      const [index, moduleName, args = ''] = line.split('\t');
+      if (moduleName === name && args.split(/\s+/).includes(argument)) {
+        const id = Number.parseInt(index, 10);
+        if (Number.isFinite(id)) return id;
+      }
+    }
     return null;
   }
 
+  private async loadLinuxModule(args: string[]): Promise<number> {
+    const stdout = await this.runCommand('pactl', ['load-module', ...args]);
+    const id = Number.parseInt(stdout.trim(), 10);
+    if (!Number.isFinite(id)) {
+      throw new Error(`pactl load-module ${args[0]} returned "${stdout.trim()}"`);
+    }
+    return id;
+  }
+
+  private async unloadLinuxVirtualMic(): Promise<void> {
+    // Wait out a load in progress so its modules aren't left behind
+    await this.linuxVirtualMicPromise?.catch(() => null);
+    this.linuxVirtualMicPromise = null;
+
+    // Source first: it depends on the sink's monitor
+    const ids = this.linuxModuleIds.reverse();
+    this.linuxModuleIds = [];
+    await this.unloadLinuxModules(ids);
+  }
+
+  private async unloadLinuxModules(ids: number[]): Promise<void> {
+    for (const id of ids) {
+      try {
+        await this.runCommand('pactl', ['unload-module', String(id)]);
+      } catch (error) {
+        console.error(`Error unloading pactl module ${id}:`, error);
+      }
+    }
+  }
+
   async setOutputDevice(deviceId: string): Promise<boolean> {
     try {
       if (this.platform === 'win32') {
@@ -265,6 +471,10 @@ export class AudioDeviceManager {
         } catch {
           console.log('Note: SwitchAudioSource not installed, using system default');
         }
+      } else if (deviceId === LINUX_VIRTUAL_SINK) {
+        // The system default sink is left alone: only the renderer's processed output goes into
+        // the sink (via setAppOutputDevice), so the agent still hears their calls
+        if (!(await this.ensureLinuxVirtualMic())) return false;
       }
       
       this.currentOutputDevice = deviceId;
@@ -275,34 +485,186 @@ export class AudioDeviceManager {
     }
   }
 
-  async startAudioRouting(inputDeviceId: string, outputDeviceId: string): Promise<boolean> {
+  getRoutingState(): RoutingState {
+    return { ...this.routingState, missingDevices: [...this.routingState.missingDevices] };
+  }
+
+  private setRoutingState(patch: Partial<Omit<RoutingState, 'updatedAt'>>): void {
+    this.routingState = { ...this.routingState, ...patch, updatedAt: Date.now() };
+    this.emit('routingState', this.getRoutingState());
+  }
+
+  /**
+   * Route `inputDeviceId` to the virtual output `outputDeviceId` and watch both until stopped.
+   * `inputLabel` lets a renderer input id be matched against the native device list.
+   */
+  async startAudioRouting(inputDeviceId: string, outputDeviceId: string, inputLabel?: string): Promise<boolean> {
+    const generation = ++this.routeGeneration;
+    this.route = null;
+    this.setRoutingState({
+      status: 'starting',
+      inputDeviceId,
+      outputDeviceId,
+      missingDevices: [],
+      reconnects: 0,
+      error: null,
+    });
+
     try {
-      await this.setOutputDevice(outputDeviceId);
-      this.isRoutingActive = true;
+      const devices = await this.getAudioDevices();
+      if (generation !== this.routeGeneration) return false;
+
+      const output = devices.outputs.find(d => d.deviceId === outputDeviceId);
+      if (!output) {
+        this.setRoutingState({ status: 'error', error: `Output device "${outputDeviceId}" not found` });
+        return false;
+      }
+      const input: RouteEndpoint = { deviceId: inputDeviceId, label: inputLabel ?? null };
+      const route: Route = {
+        input,
+        output: { deviceId: output.deviceId, label: output.label },
+        monitorInput: findEndpoint(devices.inputs, input) !== undefined,
+      };
+
+      if (!(await this.setOutputDevice(outputDeviceId))) {
+        if (generation === this.routeGeneration) {
+          this.setRoutingState({ status: 'error', error: `Could not switch output to "${output.label}"` });
+        }
+        return false;
+      }
+      if (generation !== this.routeGeneration) return false;
+
+      this.route = route;
+      this.setRoutingState({ status: 'active' });
+      // The device watch is what notices the route's devices going away
+      this.startDeviceWatch();
       console.log(`Audio routing started: ${inputDeviceId} -> ${outputDeviceId}`);
       return true;
     } catch (error) {
       console.error('Error starting audio routing:', error);
+      if (generation === this.routeGeneration) {
+        this.setRoutingState({ status: 'error', error: error instanceof Error ? error.message : String(error) });
+      }
       return false;
     }
   }
 
   async stopAudioRouting(): Promise<boolean> {
-    try {
-      this.isRoutingActive = false;
+    this.routeGeneration++;
+    this.route = null;
+    if (this.routingState.status !== 'stopped') {
+      this.setRoutingState({ status: 'stopped', missingDevices: [], error: null });
       console.log('Audio routing stopped');
-      return true;
-    } catch (error) {
-      console.error('Error stopping audio routing:', error);
-      return false;
     }
+    return true;
   }
 
   isRouting(): boolean {
-    return this.isRoutingActive;
+    const { status } = this.routingState;
+    return status === 'starting' || status === 'active' || status === 'device-lost';
+  }
+
+  /**
+   * Poll the system's devices until stopDeviceWatch(), emitting 'devicesChanged' when the list
+   * changes and checking the active route against every poll. Calling it again is a no-op.
+   */
+  startDeviceWatch(): void {
+    if (this.watchTimer) return;
+    this.watchTimer = setInterval(() => {
+      void this.pollDevices();
+    }, this.deviceWatchIntervalMs);
+  }
+
+  stopDeviceWatch(): void {
+    if (this.watchTimer) {
+      clearInterval(this.watchTimer);
+      this.watchTimer = null;
+    }
+    this.lastDevicesSignature = null;
+  }
+
+  async pollDevices(): Promise<void> {
+    if (this.pollRunning) return;
+    this.pollRunning = true;
+    try {
+      const devices = await this.getAudioDevices();
+      const signature = devicesSignature(devices);
+      // The first poll only sets the baseline
+      if (this.lastDevicesSignature !== null && signature !== this.lastDevicesSignature) {
+        this.emit('devicesChanged', devices);
+      }
+      this.lastDevicesSignature = signature;
+      await this.checkRoutingHealth(devices);
+    } catch (error) {
+      console.error('Error polling audio devices:', error);
+    } finally {
+      this.pollRunning = false;
+    }
+  }
+
+  /**
+   * Compare the route against the current devices (listed afresh unless given): report devices
+   * that disappeared, and re-route once they are all back. Safe to call any time.
+   */
+  async checkRoutingHealth(current?: AudioDevices): Promise<void> {
+    const route = this.route;
+    if (!route || this.healthCheckRunning) return;
+    const generation = this.routeGeneration;
+    this.healthCheckRunning = true;
+
+    try {
+      const devices = current ?? await this.getAudioDevices();
+      if (generation !== this.routeGeneration) return;
+      // Nothing listed at all means enumeration failed, not that every device was unplugged
+      if (devices.inputs.length === 0 && devices.outputs.every(d => d.deviceId === 'default')) return;
+
+      const input = route.monitorInput ? findEndpoint(devices.inputs, route.input) : undefined;
+      const output = findEndpoint(devices.outputs, route.output);
+      const missingDevices: Array<'input' | 'output'> = [];
+      if (route.monitorInput && !input) missingDevices.push('input');
+      if (!output) missingDevices.push('output');
+
+      if (missingDevices.length > 0) {
+        const changed = this.routingState.status !== 'device-lost' ||
+          missingDevices.join() !== this.routingState.missingDevices.join();
+        if (changed) {
+          console.warn(`Audio routing lost its ${missingDevices.join(' and ')} device`);
+          this.setRoutingState({ status: 'device-lost', missingDevices, error: null });
+        }
+        return;
+      }
+      if (this.routingState.status !== 'device-lost' || !output) return;
+
+      // Everything is back (possibly under new ids): route again
+      if (input) route.input.deviceId = input.deviceId;
+      route.output.deviceId = output.deviceId;
+      this.setRoutingState({
+        status: 'starting',
+        inputDeviceId: route.input.deviceId,
+        outputDeviceId: route.output.deviceId,
+        missingDevices: [],
+      });
+      const ok = await this.setOutputDevice(route.output.deviceId);
+      if (generation !== this.routeGeneration) return;
+      if (ok) {
+        console.log(`Audio routing restored: ${route.input.deviceId} -> ${route.output.deviceId}`);
+        this.setRoutingState({ status: 'active', reconnects: this.routingState.reconnects + 1 });
+      } else {
+        // Stay lost and try again on the next check
+        this.setRoutingState({ status: 'device-lost', missingDevices: ['output'], error: 'Could not re-route to the output device' });
+      }
+    } catch (error) {
+      console.error('Error checking audio routing:', error);
+    } finally {
+      this.healthCheckRunning = false;
+    }
   }
 
-  cleanup(): void {
-    this.stopAudioRouting();
+  async cleanup(): Promise<void> {
+    this.stopDeviceWatch();
+    await this.stopAudioRouting();
+    if (this.platform === 'linux') {
+      await this.unloadLinuxVirtualMic();
+    }
   }
 }
@@ -1,7 +1,10 @@
-import { app, BrowserWindow, ipcMain, session, shell } from 'electron';
+import { app, BrowserWindow, globalShortcut, ipcMain, Notification, session, shell } from 'electron';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
-import { AudioDeviceManager } from '../audio/device-manager.js';
+import { AudioDeviceManager, type AudioDevices, type RoutingState } from '../audio/device-manager.js';
+import { TrayController, type GlobalShortcuts, type TrayState } from './tray.js';
+import { UpdateManager, type UpdateState } from './updater.js';
+import { UPDATE_PUBLIC_KEY_FILE } from './update-feed.js';
 import * as fs from 'fs';
 import { createRequire } from 'module';
 import * as net from 'net';
@@ -15,6 +18,13 @@ let mainWindow: BrowserWindow | null = null;
 let audioManager: AudioDeviceManager | null = null;
 let serverStarted = false;
 let serverPort: number | null = null;
+let pushToTalkHotkey: string | null = null;
+let audioCleanedUp = false;
+let trayController: TrayController | null = null;
+let updateManager: UpdateManager | null = null;
+// Closing the window only hides it to the tray; a real quit (tray menu, Cmd+Q) sets this first
+let isQuitting = false;
+let hiddenToTrayNotified = false;
 
 const isDev = process.env.NODE_ENV === 'development' || !app.isPackaged;
 const SERVER_PORT = 5000;
@@ -97,6 +107,8 @@ function createWindow(baseUrl: string): void {
       contextIsolation: true,
       nodeIntegration: false,
       webSecurity: true,
+      // Processing keeps running while the window is hidden to the tray, and so must the level meter
+      backgroundThrottling: false,
     },
     icon,
     title: 'VoxFilter - Audio Processing for Sales Teams',
@@ -111,13 +123,85 @@ function createWindow(baseUrl: string): void {
   mainWindow.loadURL(baseUrl);
   if (isDev) mainWindow.webContents.openDevTools();
 
+  mainWindow.on('close', (event) => {
+    if (isQuitting || !trayController?.isActive()) return;
+    event.preventDefault();
+    mainWindow?.hide();
+    if (!hiddenToTrayNotified) {
+      hiddenToTrayNotified = true;
+      trayController.notifyHidden();
+    }
+  });
+
   mainWindow.on('closed', () => {
     mainWindow = null;
-    audioManager?.cleanup();
+    // Nothing feeds the route without the renderer; the virtual microphone stays until quit
+    void audioManager?.stopAudioRouting();
   });
+}
 
+// One manager for the app's lifetime: windows come and go on macOS, the device watch doesn't
+function createAudioManager(): void {
   audioManager = new AudioDeviceManager();
-  setupIpcHandlers();
+  audioManager.on('routingState', (state: RoutingState) => {
+    mainWindow?.webContents.send('audio:routingState', state);
+  });
+  audioManager.on('devicesChanged', (devices: AudioDevices) => {
+    mainWindow?.webContents.send('audio:devicesChanged', devices);
+  });
+  audioManager.startDeviceWatch();
+}
+
+function showMainWindow(): void {
+  if (!mainWindow) return;
+  if (mainWindow.isMinimized()) mainWindow.restore();
+  mainWindow.show();
+  mainWindow.focus();
+}
+
+function createTray(): void {
+  trayController = new TrayController({
+    onAction: (action) => mainWindow?.webContents.send('tray:action', action),
+    onShowWindow: showMainWindow,
+    onQuit: () => app.quit(),
+  });
+  trayController.create();
+}
+
+// The key feeds are checked against is built into the app, so an edited .env can't swap it
+function readUpdatePublicKey(): string | null {
+  try {
+    return fs.readFileSync(path.join(__dirname, UPDATE_PUBLIC_KEY_FILE), 'utf-8').trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+// The feed comes from the environment, so IT can set it in the external .env
+function createUpdater(): void {
+  updateManager = new UpdateManager({
+    // Only packaged builds update themselves; an installer would not replace a dev checkout
+    feedUrl: app.isPackaged ? process.env.VOXFILTER_UPDATE_URL || null : null,
+    publicKey: readUpdatePublicKey(),
+    currentVersion: app.getVersion(),
+    downloadDir: path.join(app.getPath('userData'), 'updates'),
+    appImagePath: process.env.APPIMAGE ?? null,
+  });
+  let notifiedVersion: string | null = null;
+  updateManager.on('state', (state: UpdateState) => {
+    mainWindow?.webContents.send('app:updateState', state);
+    // The restart prompt lives in the window, which may be hidden in the tray
+    if (state.status === 'ready' && state.availableVersion !== notifiedVersion && Notification.isSupported()) {
+      notifiedVersion = state.availableVersion;
+      const notification = new Notification({
+        title: `VoxFilter ${state.availableVersion} is ready`,
+        body: 'Open VoxFilter to restart into the update when you are off your call.',
+      });
+      notification.on('click', showMainWindow);
+      notification.show();
+    }
+  });
+  updateManager.startAutoCheck();
 }
 
 function setupIpcHandlers(): void {
@@ -147,8 +231,8 @@ function setupIpcHandlers(): void {
     }
   });
 
-  ipcMain.handle('audio:startRouting', async (_event, inputDeviceId: string, outputDeviceId: string) => {
-    return audioManager?.startAudioRouting(inputDeviceId, outputDeviceId) ?? false;
+  ipcMain.handle('audio:startRouting', async (_event, inputDeviceId: string, outputDeviceId: string, inputLabel?: string) => {
+    return audioManager?.startAudioRouting(inputDeviceId, outputDeviceId, inputLabel) ?? false;
   });
 
   ipcMain.handle('audio:stopRouting', async () => {
@@ -159,6 +243,11 @@ function setupIpcHandlers(): void {
     return audioManager?.isRouting() ?? false;
   });
 
+  // Changes are also pushed on 'audio:routingState'; this is for the renderer's first render
+  ipcMain.handle('audio:getRoutingState', async () => {
+    return audioManager?.getRoutingState() ?? null;
+  });
+
   ipcMain.handle('app:getPlatform', async () => {
     return process.platform;
   });
@@ -182,6 +271,82 @@ function setupIpcHandlers(): void {
     }
   });
 
+  // Global push-to-talk shortcut. Global shortcuts only report key presses (no release), so each
+  // press toggles talking; the renderer keeps hold-to-talk for its own window.
+  ipcMain.handle('app:setPushToTalkHotkey', async (_event, accelerator: string | null) => {
+    if (pushToTalkHotkey) {
+      globalShortcut.unregister(pushToTalkHotkey);
+      pushToTalkHotkey = null;
+    }
+    if (!accelerator) return true;
+    try {
+      const registered = globalShortcut.register(accelerator, () => {
+        mainWindow?.webContents.send('app:pushToTalk');
+      });
+      if (registered) pushToTalkHotkey = accelerator;
+      return registered;
+    } catch (error) {
+      // Malformed accelerators throw instead of returning false
+      console.error('app:setPushToTalkHotkey failed:', { accelerator, error });
+      return false;
+    }
+  });
+
+  // The renderer reports processing, mute, level and presets; sent (not invoked) since level
+  // updates arrive several times a second
+  ipcMain.on('tray:update', (_event, state: TrayState) => {
+    trayController?.update(state);
+  });
+
+  ipcMain.handle('tray:setShortcuts', async (_event, shortcuts: GlobalShortcuts) => {
+    return trayController?.setShortcuts(shortcuts) ?? { toggleProcessing: false, cyclePreset: false };
+  });
+
+  // Resolves once the feed is checked; a newer version then downloads in the background and its
+  // progress arrives on 'app:updateState'
+  ipcMain.handle('app:checkForUpdates', async () => {
+    return updateManager ? updateManager.checkForUpdates() : null;
+  });
+
+  ipcMain.handle('app:getUpdateState', async () => {
+    return updateManager?.getState() ?? null;
+  });
+
+  // Restart into the downloaded update. The renderer only offers this while the agent is off a call,
+  // but quitting mid-route would still cut the call app's microphone, so that is checked here.
+  ipcMain.handle('app:installUpdate', async () => {
+    if (audioManager?.isRouting()) {
+      console.warn('app:installUpdate refused: audio is being routed', audioManager.getRoutingState());
+      return false;
+    }
+    const plan = updateManager?.getInstallPlan();
+    if (!plan) return false;
+    if (plan.kind === 'reveal') {
+      shell.showItemInFolder(plan.file);
+      return true;
+    }
+    if (plan.kind === 'open') {
+      const error = await shell.openPath(plan.file);
+      if (error) {
+        console.error('app:installUpdate failed to open the installer:', { file: plan.file, error });
+        return false;
+      }
+    } else {
+      app.once('quit', () => {
+        try {
+          updateManager?.applyInstallPlan(plan);
+        } catch (error) {
+          console.error('app:installUpdate failed:', { plan, error });
+        }
+      });
+      // The NSIS installer starts the app again itself once it's done
+      if (plan.kind === 'appimage') app.relaunch({ execPath: plan.target });
+    }
+    isQuitting = true;
+    app.quit();
+    return true;
+  });
+
   ipcMain.handle('app:openExternal', async (_event, url: string) => {
     try {
       const u = new URL(url);
@@ -296,11 +461,17 @@ app.whenReady().then(async () => {
   const url = isDev
     ? 'http://localhost:5000'
     : `http://${SERVER_HOST}:${serverPort ?? SERVER_PORT}`;
+  createAudioManager();
+  createUpdater();
+  setupIpcHandlers();
   createWindow(url);
+  createTray();
 
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
       createWindow(url);
+    } else {
+      showMainWindow();
     }
   });
 });
@@ -311,7 +482,20 @@ app.on('window-all-closed', () => {
   }
 });
 
-app.on('before-quit', () => {
-  audioManager?.cleanup();
+app.on('will-quit', () => {
+  updateManager?.stopAutoCheck();
+  trayController?.destroy();
+  globalShortcut.unregisterAll();
+});
+
+app.on('before-quit', (event) => {
+  isQuitting = true;
   stopServer();
+  if (audioCleanedUp || !audioManager) return;
+  // Cleanup unloads the Linux virtual microphone through pactl, so hold the quit until it's done
+  event.preventDefault();
+  audioManager.cleanup().finally(() => {
+    audioCleanedUp = true;
+    app.quit();
+  });
 });
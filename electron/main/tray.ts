@@ -0,0 +1,244 @@
+import { globalShortcut, Menu, nativeImage, Tray, type MenuItemConstructorOptions } from 'electron';
+
+export interface TrayPreset {
+  id: string;
+  name: string;
+  kind: 'team' | 'profile';
+}
+
+// Pushed by the renderer, which owns processing, mute and the preset list
+export interface TrayState {
+  isProcessing: boolean;
+  isMuted: boolean;
+  // 0-100
+  inputLevel: number;
+  presets: TrayPreset[];
+  activePresetId: string | null;
+}
+
+// Sent back to the renderer for tray clicks and global shortcut presses
+export type TrayAction =
+  | { type: 'toggleProcessing' }
+  | { type: 'toggleMute' }
+  | { type: 'selectPreset'; presetId: string }
+  | { type: 'cyclePreset' };
+
+// Electron accelerators; null leaves that shortcut off
+export interface GlobalShortcuts {
+  toggleProcessing: string | null;
+  cyclePreset: string | null;
+}
+
+// Per shortcut: whether it is registered (true when it is off)
+export type GlobalShortcutStatus = Record<keyof GlobalShortcuts, boolean>;
+
+export interface TrayHandlers {
+  onAction: (action: TrayAction) => void;
+  onShowWindow: () => void;
+  onQuit: () => void;
+}
+
+const ICON_SIZE = 32;
+// The level bar is drawn in this many steps, so the icon is only redrawn when it visibly moves
+const LEVEL_STEPS = 8;
+
+const initialState: TrayState = {
+  isProcessing: false,
+  isMuted: false,
+  inputLevel: 0,
+  presets: [],
+  activePresetId: null,
+};
+
+type Rgb = [number, number, number];
+
+const statusColors: Record<'stopped' | 'processing' | 'muted', Rgb> = {
+  stopped: [156, 163, 175],
+  processing: [34, 197, 94],
+  muted: [239, 68, 68],
+};
+
+/**
+ * Draw the tray icon: a status dot (grey stopped, green processing, red muted) beside a bar
+ * showing the input level. Drawn at 2x so it stays sharp on high-DPI displays.
+ */
+function drawIcon(status: keyof typeof statusColors, levelStep: number): Electron.NativeImage {
+  const pixels = Buffer.alloc(ICON_SIZE * ICON_SIZE * 4);
+  const put = (x: number, y: number, [r, g, b]: Rgb) => {
+    const i = (y * ICON_SIZE + x) * 4;
+    // Native bitmaps are BGRA
+    pixels[i] = b;
+    pixels[i + 1] = g;
+    pixels[i + 2] = r;
+    pixels[i + 3] = 255;
+  };
+
+  const color = statusColors[status];
+  const cx = 11;
+  const cy = 16;
+  for (let y = 0; y < ICON_SIZE; y++) {
+    for (let x = 0; x < 24; x++) {
+      if ((x - cx) ** 2 + (y - cy) ** 2 <= 100) put(x, y, color);
+    }
+  }
+
+  const barHeight = Math.round((levelStep / LEVEL_STEPS) * (ICON_SIZE - 4));
+  for (let y = ICON_SIZE - 2 - barHeight; y < ICON_SIZE - 2; y++) {
+    for (let x = 25; x < 30; x++) put(x, y, color);
+  }
+
+  return nativeImage.createFromBitmap(pixels, { width: ICON_SIZE, height: ICON_SIZE, scaleFactor: 2 });
+}
+
+function levelStepOf(state: TrayState): number {
+  if (!state.isProcessing || state.isMuted) return 0;
+  return Math.round((Math.min(100, Math.max(0, state.inputLevel)) / 100) * LEVEL_STEPS);
+}
+
+/**
+ * The system-tray icon with quick controls (processing, mute, preset switcher) and the global
+ * shortcuts for toggling processing and cycling presets. Every control is forwarded to the
+ * renderer as a TrayAction; the tray itself only reflects the state the renderer reports.
+ */
+export class TrayController {
+  private tray: Tray | null = null;
+  private state: TrayState = initialState;
+  private drawnIcon = '';
+  private registered: Partial<Record<keyof GlobalShortcuts, string>> = {};
+
+  constructor(private readonly handlers: TrayHandlers) {}
+
+  create(): void {
+    if (this.tray) return;
+    this.tray = new Tray(drawIcon('stopped', 0));
+    this.drawnIcon = 'stopped:0';
+    // Windows and most Linux desktops open the window on click; macOS always shows the menu
+    this.tray.on('click', () => this.handlers.onShowWindow());
+    this.render(true);
+  }
+
+  isActive(): boolean {
+    return this.tray !== null;
+  }
+
+  update(state: TrayState): void {
+    const previous = this.state;
+    this.state = state;
+    // Level-only updates arrive several times a second; rebuilding the menu for them would close
+    // it under the user's pointer on some platforms
+    const menuChanged =
+      previous.isProcessing !== state.isProcessing ||
+      previous.isMuted !== state.isMuted ||
+      previous.activePresetId !== state.activePresetId ||
+      JSON.stringify(previous.presets) !== JSON.stringify(state.presets);
+    this.render(menuChanged);
+  }
+
+  // Windows only: a one-off hint that closing the window left the app running
+  notifyHidden(): void {
+    if (process.platform !== 'win32' || !this.tray) return;
+    this.tray.displayBalloon({
+      title: 'VoxFilter is still running',
+      content: 'Processing continues in the background. Use the tray icon to open or quit VoxFilter.',
+    });
+  }
+
+  setShortcuts(shortcuts: GlobalShortcuts): GlobalShortcutStatus {
+    return {
+      toggleProcessing: this.registerShortcut('toggleProcessing', shortcuts.toggleProcessing, { type: 'toggleProcessing' }),
+      cyclePreset: this.registerShortcut('cyclePreset', shortcuts.cyclePreset, { type: 'cyclePreset' }),
+    };
+  }
+
+  destroy(): void {
+    for (const accelerator of Object.values(this.registered)) {
+      if (accelerator) globalShortcut.unregister(accelerator);
+    }
+    this.registered = {};
+    this.tray?.destroy();
+    this.tray = null;
+  }
+
+  private registerShortcut(name: keyof GlobalShortcuts, accelerator: string | null, action: TrayAction): boolean {
+    const current = this.registered[name];
+    if (current === accelerator) return true;
+    if (current) {
+      globalShortcut.unregister(current);
+      delete this.registered[name];
+    }
+    if (!accelerator) return true;
+    try {
+      const registered = globalShortcut.register(accelerator, () => this.handlers.onAction(action));
+      if (registered) this.registered[name] = accelerator;
+      return registered;
+    } catch (error) {
+      // Malformed accelerators throw instead of returning false
+      console.error('Failed to register global shortcut:', { name, accelerator, error });
+      return false;
+    }
+  }
+
+  private render(rebuildMenu: boolean): void {
+    if (!this.tray) return;
+    const { isProcessing, isMuted, inputLevel } = this.state;
+    const status = !isProcessing ? 'stopped' : isMuted ? 'muted' : 'processing';
+    const levelStep = levelStepOf(this.state);
+
+    const iconKey = `${status}:${levelStep}`;
+    if (iconKey !== this.drawnIcon) {
+      this.tray.setImage(drawIcon(status, levelStep));
+      this.drawnIcon = iconKey;
+    }
+    this.tray.setToolTip(
+      !isProcessing ? 'VoxFilter - Processing off'
+        : isMuted ? 'VoxFilter - Muted'
+        : `VoxFilter - Processing (input ${Math.round(inputLevel)}%)`,
+    );
+    if (rebuildMenu) this.tray.setContextMenu(Menu.buildFromTemplate(this.menuTemplate()));
+  }
+
+  private menuTemplate(): MenuItemConstructorOptions[] {
+    const { isProcessing, isMuted, presets, activePresetId } = this.state;
+    const presetItems = (kind: TrayPreset['kind']): MenuItemConstructorOptions[] =>
+      presets
+        .filter((preset) => preset.kind === kind)
+        .map((preset) => ({
+          label: preset.name,
+          type: 'radio' as const,
+          checked: preset.id === activePresetId,
+          click: () => this.handlers.onAction({ type: 'selectPreset', presetId: preset.id }),
+        }));
+    const teamItems = presetItems('team');
+    const profileItems = presetItems('profile');
+    const presetMenu: MenuItemConstructorOptions[] = [
+      ...(teamItems.length ? [{ label: 'Team Presets', enabled: false }, ...teamItems] : []),
+      ...(teamItems.length && profileItems.length ? [{ type: 'separator' as const }] : []),
+      ...(profileItems.length ? [{ label: 'My Profiles', enabled: false }, ...profileItems] : []),
+    ];
+
+    return [
+      { label: 'Show VoxFilter', click: () => this.handlers.onShowWindow() },
+      { type: 'separator' },
+      {
+        label: 'Voice Processing',
+        type: 'checkbox',
+        checked: isProcessing,
+        click: () => this.handlers.onAction({ type: 'toggleProcessing' }),
+      },
+      {
+        label: 'Mute Microphone',
+        type: 'checkbox',
+        checked: isMuted,
+        enabled: isProcessing,
+        click: () => this.handlers.onAction({ type: 'toggleMute' }),
+      },
+      {
+        label: 'Preset',
+        enabled: presetMenu.length > 0,
+        submenu: presetMenu.length > 0 ? presetMenu : undefined,
+      },
+      { type: 'separator' },
+      { label: 'Quit VoxFilter', click: () => this.handlers.onQuit() },
+    ];
+  }
+}
@@ -0,0 +1,142 @@
+// The update feed: one JSON manifest (update-feed.json) next to the installers, on any HTTP server
+// or file share. script/build-update-feed.ts writes it from the electron-builder output.
+//
+// {
+//   "version": "1.0.6",
+//   "releaseDate": "2026-10-18T09:00:00.000Z",
+//   "notes": "Fixes clipping in the de-esser",
+//   "files": { "win32-x64": { "url": "VoxFilter-1.0.6-Windows.exe", "sha512": "<base64>", "size": 91234567 } },
+//   "signature": "<base64 Ed25519 signature of everything above>"
+// }
+
+import * as crypto from 'crypto';
+import { z } from 'zod';
+
+export const UPDATE_FEED_FILE = 'update-feed.json';
+// The public key the app checks feeds against, written next to the compiled main process by
+// script/build-electron.ts when it builds with a signing key
+export const UPDATE_PUBLIC_KEY_FILE = 'update-public-key.txt';
+
+export interface UpdateFile {
+  // Relative to the feed, or absolute
+  url: string;
+  // Base64 SHA-512 of the file, as electron-builder writes it
+  sha512: string;
+  size: number;
+}
+
+export interface UpdateFeed {
+  version: string;
+  releaseDate: string;
+  notes: string | null;
+  // Keyed by platformKey()
+  files: Record<string, UpdateFile>;
+  signature: string | null;
+}
+
+export class UpdateFeedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UpdateFeedError';
+  }
+}
+
+const VERSION_PATTERN = /^\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?$/;
+const SHA512_BASE64_LENGTH = 88;
+
+// "win32-x64", "darwin-arm64", "linux-x64"
+export function platformKey(platform: NodeJS.Platform, arch: string): string {
+  return `${platform}-${arch}`;
+}
+
+const updateFileSchema = z.object({
+  url: z.string().min(1),
+  sha512: z.string().length(SHA512_BASE64_LENGTH),
+  size: z.number().int().positive().safe(),
+});
+
+// Unknown fields are dropped, so the parsed feed is exactly what signedPayload() covers
+const updateFeedSchema = z.object({
+  version: z.string().regex(VERSION_PATTERN, 'not a valid version'),
+  releaseDate: z.string().catch(''),
+  notes: z.string().nullable().catch(null),
+  files: z.record(updateFileSchema),
+  signature: z.string().nullable().catch(null),
+});
+
+export function parseUpdateFeed(json: string): UpdateFeed {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new UpdateFeedError('Update feed is not valid JSON');
+  }
+
+  const result = updateFeedSchema.safeParse(raw);
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    const field = issue.path.length > 0 ? ` field "${issue.path.join('.')}"` : '';
+    throw new UpdateFeedError(`Update feed${field} is invalid: ${issue.message}`);
+  }
+  return result.data;
+}
+
+// What the signature covers: the feed without its signature, with keys sorted at every level so
+// reformatting the file doesn't invalidate it
+export function signedPayload(feed: UpdateFeed): Buffer {
+  const canonical = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(canonical);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.keys(value).sort().map((key) => [key, canonical((value as Record<string, unknown>)[key])]),
+      );
+    }
+    return value;
+  };
+  const { signature: _signature, ...unsigned } = feed;
+  return Buffer.from(JSON.stringify(canonical(unsigned)), 'utf-8');
+}
+
+export function signUpdateFeed(feed: UpdateFeed, privateKeyPem: string): string {
+  return crypto.sign(null, signedPayload(feed), crypto.createPrivateKey(privateKeyPem)).toString('base64');
+}
+
+// The base64 DER (SPKI) public half of an Ed25519 private key, as verifyUpdateFeed() takes it
+export function updatePublicKey(privateKeyPem: string): string {
+  return crypto.createPublicKey(privateKeyPem).export({ type: 'spki', format: 'der' }).toString('base64');
+}
+
+/**
+ * Check the feed's Ed25519 signature. `publicKey` is the base64 DER (SPKI) public key, i.e.
+ * `openssl pkey -in key.pem -pubout -outform DER | base64`.
+ */
+export function verifyUpdateFeed(feed: UpdateFeed, publicKey: string): boolean {
+  if (!feed.signature) return false;
+  try {
+    const key = crypto.createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' });
+    return crypto.verify(null, signedPayload(feed), key, Buffer.from(feed.signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
+
+function splitVersion(version: string): [core: string, prerelease: string | undefined] {
+  const dash = version.indexOf('-');
+  return dash < 0 ? [version, undefined] : [version.slice(0, dash), version.slice(dash + 1)];
+}
+
+// Semver order: numeric parts first, then a release sorts after its own pre-releases
+export function compareVersions(a: string, b: string): number {
+  const [coreA, preA] = splitVersion(a);
+  const [coreB, preB] = splitVersion(b);
+  const partsA = coreA.split('.').map(Number);
+  const partsB = coreB.split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) return Math.sign(diff);
+  }
+  if (preA === preB) return 0;
+  if (preA === undefined) return 1;
+  if (preB === undefined) return -1;
+  return preA.localeCompare(preB, undefined, { numeric: true });
+}
@@ -0,0 +1,322 @@
+import { EventEmitter } from 'events';
+import { spawn } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream } from 'stream/web';
+import { fileURLToPath } from 'url';
+import {
+  UPDATE_FEED_FILE,
+  compareVersions,
+  parseUpdateFeed,
+  platformKey,
+  verifyUpdateFeed,
+  type UpdateFeed,
+  type UpdateFile,
+} from './update-feed.js';
+
+export type UpdateStatus = 'disabled' | 'idle' | 'checking' | 'up-to-date' | 'downloading' | 'ready' | 'error';
+
+export interface UpdateState {
+  status: UpdateStatus;
+  currentVersion: string;
+  availableVersion: string | null;
+  releaseNotes: string | null;
+  // 0-100 while downloading
+  progress: number;
+  // 'silent' installs on restart; 'manual' opens the installer for the agent to finish
+  installMode: 'silent' | 'manual' | null;
+  error: string | null;
+  checkedAt: number | null;
+}
+
+// How a downloaded update is put in place: silently as the app quits (nsis, appimage), or by the
+// agent from the opened disk image (open) or the folder it was downloaded to (reveal)
+export type InstallPlan =
+  | { kind: 'nsis'; file: string }
+  | { kind: 'appimage'; file: string; target: string }
+  | { kind: 'open'; file: string }
+  | { kind: 'reveal'; file: string };
+
+export interface UpdateManagerOptions {
+  // An http(s) URL, file:// URL or path (e.g. a UNC share) of the feed or of the folder holding
+  // update-feed.json; null turns updates off
+  feedUrl: string | null;
+  // Base64 DER Ed25519 public key built into the app. With it, unsigned or mis-signed feeds are
+  // refused and installs are silent; without it, feeds must come over HTTPS or from a file share
+  // and the installer is left for the agent to run.
+  publicKey?: string | null;
+  currentVersion: string;
+  // Where installers are downloaded to
+  downloadDir: string;
+  platform?: NodeJS.Platform;
+  arch?: string;
+  // Set when running as an AppImage, which is updated by replacing this file
+  appImagePath?: string | null;
+  checkIntervalMs?: number;
+}
+
+// The first check waits for startup to settle; later ones follow the interval
+const FIRST_CHECK_DELAY_MS = 30_000;
+const DEFAULT_CHECK_INTERVAL_MS = 4 * 60 * 60 * 1000;
+
+function isHttpUrl(location: string): boolean {
+  return /^https?:\/\//i.test(location);
+}
+
+function isPlainHttpUrl(location: string): boolean {
+  return /^http:\/\//i.test(location);
+}
+
+function toPath(location: string): string {
+  return location.startsWith('file:') ? fileURLToPath(location) : location;
+}
+
+/**
+ * Checks the update feed, downloads a newer installer in the background and verifies it against
+ * the feed's SHA-512 (and, with a public key built in, the feed's signature). Only signed updates
+ * install silently. Emits 'state' on every change; the renderer decides when to restart, so nobody
+ * is cut off mid-call.
+ */
+export class UpdateManager extends EventEmitter {
+  private readonly options: UpdateManagerOptions;
+  private readonly platform: NodeJS.Platform;
+  private readonly arch: string;
+  private state: UpdateState;
+  private checking: Promise<UpdateState> | null = null;
+  private downloadedFile: string | null = null;
+  private timers: { first: NodeJS.Timeout | null; interval: NodeJS.Timeout | null } = { first: null, interval: null };
+
+  constructor(options: UpdateManagerOptions) {
+    super();
+    this.options = options;
+    this.platform = options.platform ?? process.platform;
+    this.arch = options.arch ?? process.arch;
+    this.state = {
+      status: options.feedUrl ? 'idle' : 'disabled',
+      currentVersion: options.currentVersion,
+      availableVersion: null,
+      releaseNotes: null,
+      progress: 0,
+      installMode: null,
+      error: null,
+      checkedAt: null,
+    };
+  }
+
+  getState(): UpdateState {
+    return this.state;
+  }
+
+  startAutoCheck(): void {
+    if (!this.options.feedUrl || this.timers.first || this.timers.interval) return;
+    const run = () => {
+      void this.checkForUpdates().catch(() => undefined);
+    };
+    this.timers.first = setTimeout(() => {
+      this.timers.first = null;
+      run();
+    }, FIRST_CHECK_DELAY_MS);
+    this.timers.interval = setInterval(run, this.options.checkIntervalMs ?? DEFAULT_CHECK_INTERVAL_MS);
+  }
+
+  stopAutoCheck(): void {
+    if (this.timers.first) clearTimeout(this.timers.first);
+    if (this.timers.interval) clearInterval(this.timers.interval);
+    this.timers = { first: null, interval: null };
+  }
+
+  /**
+   * Fetch the feed and, when it offers a newer version for this platform, start downloading it.
+   * Resolves once the feed has been checked, without waiting for the download.
+   */
+  checkForUpdates(): Promise<UpdateState> {
+    if (!this.options.feedUrl) return Promise.resolve(this.state);
+    // A download in progress or waiting for a restart stays put until the app restarts
+    if (this.state.status === 'downloading' || this.state.status === 'ready') {
+      return Promise.resolve(this.state);
+    }
+    if (!this.checking) {
+      this.checking = this.check(this.options.feedUrl).finally(() => {
+        this.checking = null;
+      });
+    }
+    return this.checking;
+  }
+
+  getInstallPlan(): InstallPlan | null {
+    if (this.state.status !== 'ready' || !this.downloadedFile) return null;
+    const file = this.downloadedFile;
+    const silent = this.canInstallSilently();
+    if (this.platform === 'win32') return silent ? { kind: 'nsis', file } : { kind: 'open', file };
+    if (this.platform === 'linux') {
+      // A .deb install needs the package manager (and root)
+      return silent && this.options.appImagePath
+        ? { kind: 'appimage', file, target: this.options.appImagePath }
+        : { kind: 'reveal', file };
+    }
+    return { kind: 'open', file };
+  }
+
+  // Only an installer from a signed feed runs without the agent seeing it
+  private canInstallSilently(): boolean {
+    if (!this.options.publicKey) return false;
+    return this.platform === 'win32' || (this.platform === 'linux' && Boolean(this.options.appImagePath));
+  }
+
+  /**
+   * Put a silent install in place; called as the app quits. The NSIS installer runs detached
+   * (and relaunches the app); an AppImage is swapped for the new one.
+   */
+  applyInstallPlan(plan: InstallPlan): void {
+    if (plan.kind === 'nsis') {
+      const child = spawn(plan.file, ['/S', '--updated', '--force-run'], { detached: true, stdio: 'ignore' });
+      child.unref();
+    } else if (plan.kind === 'appimage') {
+      // Copy next to the target first so the swap is a single rename, even across devices
+      const staged = `${plan.target}.update`;
+      fs.copyFileSync(plan.file, staged);
+      fs.chmodSync(staged, 0o755);
+      fs.renameSync(staged, plan.target);
+    }
+  }
+
+  private setState(changes: Partial<UpdateState>): void {
+    this.state = { ...this.state, ...changes };
+    this.emit('state', this.state);
+  }
+
+  private async check(feedUrl: string): Promise<UpdateState> {
+    this.setState({ status: 'checking', error: null });
+    try {
+      const feedLocation = feedUrl.toLowerCase().endsWith('.json')
+        ? feedUrl
+        : isHttpUrl(feedUrl)
+          ? new URL(UPDATE_FEED_FILE, feedUrl.endsWith('/') ? feedUrl : `${feedUrl}/`).toString()
+          : path.join(toPath(feedUrl), UPDATE_FEED_FILE);
+      const feed = parseUpdateFeed(await this.readText(feedLocation));
+
+      if (this.options.publicKey) {
+        if (!verifyUpdateFeed(feed, this.options.publicKey)) {
+          throw new Error('The update feed signature is missing or invalid');
+        }
+      } else if (isPlainHttpUrl(feedLocation)) {
+        // Without a signature the hashes are only as trustworthy as the connection they came over
+        throw new Error('Unsigned update feeds must be served over HTTPS or from a file share');
+      }
+
+      const file = feed.files[platformKey(this.platform, this.arch)];
+      if (compareVersions(feed.version, this.options.currentVersion) <= 0 || !file) {
+        this.setState({ status: 'up-to-date', availableVersion: null, releaseNotes: null, checkedAt: Date.now() });
+        return this.state;
+      }
+      const location = this.resolveFile(feedLocation, file.url);
+      if (!this.options.publicKey && isPlainHttpUrl(location)) {
+        throw new Error('Unsigned updates must be downloaded over HTTPS or from a file share');
+      }
+
+      this.setState({
+        status: 'downloading',
+        availableVersion: feed.version,
+        releaseNotes: feed.notes,
+        progress: 0,
+        installMode: this.canInstallSilently() ? 'silent' : 'manual',
+        checkedAt: Date.now(),
+      });
+      void this.download(feed, file, location);
+      return this.state;
+    } catch (error) {
+      console.error('Update check failed:', error);
+      this.setState({
+        status: 'error',
+        error: error instanceof Error ? error.message : String(error),
+        checkedAt: Date.now(),
+      });
+      return this.state;
+    }
+  }
+
+  private async download(feed: UpdateFeed, file: UpdateFile, location: string): Promise<void> {
+    const name = path.basename(isHttpUrl(location) ? new URL(location).pathname : location);
+    const target = path.join(this.options.downloadDir, `${feed.version}-${name}`);
+    const partial = `${target}.partial`;
+
+    try {
+      await fs.promises.mkdir(this.options.downloadDir, { recursive: true });
+      // Installers of older updates are never needed again
+      for (const entry of await fs.promises.readdir(this.options.downloadDir)) {
+        if (entry !== path.basename(target)) {
+          await fs.promises.rm(path.join(this.options.downloadDir, entry), { force: true, recursive: true });
+        }
+      }
+      // Already fetched by an earlier run that never restarted
+      if (!(await this.matchesHash(target, file))) {
+        const hash = crypto.createHash('sha512');
+        let received = 0;
+        const meter = new Transform({
+          transform: (chunk: Buffer, _encoding, callback) => {
+            hash.update(chunk);
+            received += chunk.length;
+            const progress = Math.min(99, Math.floor((received / file.size) * 100));
+            if (progress !== this.state.progress) this.setState({ progress });
+            callback(null, chunk);
+          },
+        });
+        await pipeline(await this.openStream(location), meter, fs.createWriteStream(partial));
+
+        if (received !== file.size || hash.digest('base64') !== file.sha512) {
+          await fs.promises.rm(partial, { force: true });
+          throw new Error('The downloaded update did not match the feed and was discarded');
+        }
+        await fs.promises.rename(partial, target);
+      }
+
+      this.downloadedFile = target;
+      this.setState({ status: 'ready', progress: 100 });
+    } catch (error) {
+      console.error('Update download failed:', error);
+      await fs.promises.rm(partial, { force: true }).catch(() => undefined);
+      this.setState({
+        status: 'error',
+        progress: 0,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async matchesHash(filePath: string, file: UpdateFile): Promise<boolean> {
+    try {
+      const stat = await fs.promises.stat(filePath);
+      if (stat.size !== file.size) return false;
+      const hash = crypto.createHash('sha512');
+      for await (const chunk of fs.createReadStream(filePath)) hash.update(chunk);
+      return hash.digest('base64') === file.sha512;
+    } catch {
+      return false;
+    }
+  }
+
+  // Installer locations in the feed are relative to the feed itself unless absolute
+  private resolveFile(feedLocation: string, url: string): string {
+    if (isHttpUrl(url) || url.startsWith('file:')) return url;
+    if (isHttpUrl(feedLocation)) return new URL(url, feedLocation).toString();
+    return path.isAbsolute(url) ? url : path.join(path.dirname(toPath(feedLocation)), url);
+  }
+
+  private async readText(location: string): Promise<string> {
+    if (!isHttpUrl(location)) return fs.promises.readFile(toPath(location), 'utf-8');
+    const response = await fetch(location);
+    if (!response.ok) throw new Error(`Update feed request failed (${response.status})`);
+    return response.text();
+  }
+
+  private async openStream(location: string): Promise<Readable> {
+    if (!isHttpUrl(location)) return fs.createReadStream(toPath(location));
+    const response = await fetch(location);
+    if (!response.ok || !response.body) throw new Error(`Update download failed (${response.status})`);
+    // fetch's web stream type comes from lib.dom; at runtime it is Node's own
+    return Readable.fromWeb(response.body as ReadableStream<Uint8Array>);
+  }
+}
@@ -12,6 +12,59 @@ export interface AudioDevices {
   outputs: AudioDevice[];
 }
 
+export type RoutingStatus = 'stopped' | 'starting' | 'active' | 'device-lost' | 'error';
+
+export interface RoutingState {
+  status: RoutingStatus;
+  inputDeviceId: string | null;
+  outputDeviceId: string | null;
+  missingDevices: Array<'input' | 'output'>;
+  reconnects: number;
+  error: string | null;
+  updatedAt: number;
+}
+
+export type UpdateStatus = 'disabled' | 'idle' | 'checking' | 'up-to-date' | 'downloading' | 'ready' | 'error';
+
+export interface UpdateState {
+  status: UpdateStatus;
+  currentVersion: string;
+  availableVersion: string | null;
+  releaseNotes: string | null;
+  progress: number;
+  installMode: 'silent' | 'manual' | null;
+  error: string | null;
+  checkedAt: number | null;
+}
+
+export interface TrayPreset {
+  id: string;
+  name: string;
+  kind: 'team' | 'profile';
+}
+
+export interface TrayState {
+  isProcessing: boolean;
+  isMuted: boolean;
+  // 0-100
+  inputLevel: number;
+  presets: TrayPreset[];
+  activePresetId: string | null;
+}
+
+export type TrayAction =
+  | { type: 'toggleProcessing' }
+  | { type: 'toggleMute' }
+  | { type: 'selectPreset'; presetId: string }
+  | { type: 'cyclePreset' };
+
+export interface GlobalShortcuts {
+  toggleProcessing: string | null;
+  cyclePreset: string | null;
+}
+
+export type GlobalShortcutStatus = Record<keyof GlobalShortcuts, boolean>;
+
 export interface ElectronAPI {
   audio: {
     getDevices: () => Promise<AudioDevices>;
@@ -22,15 +75,49 @@ export interface ElectronAPI {
      * navigator.mediaDevices.enumerateDevices().
      */
     setAppOutputDevice: (deviceId: string) => Promise<boolean>;
-    startRouting: (inputDeviceId: string, outputDeviceId: string) => Promise<boolean>;
+    /** `inputLabel` lets the main process find a renderer input in the native device list */
+    startRouting: (inputDeviceId: string, outputDeviceId: string, inputLabel?: string) => Promise<boolean>;
     stopRouting: () => Promise<boolean>;
     isRouting: () => Promise<boolean>;
+    getRoutingState: () => Promise<RoutingState | null>;
+    /** Called on every routing state change; returns an unsubscribe function */
+    onRoutingStateChange: (callback: (state: RoutingState) => void) => () => void;
+    /** Called when a device is plugged in or removed; returns an unsubscribe function */
+    onDevicesChanged: (callback: (devices: AudioDevices) => void) => () => void;
   };
   app: {
     getPlatform: () => Promise<NodeJS.Platform>;
     getVersion: () => Promise<string>;
     openSoundSettings: () => Promise<boolean>;
     openExternal: (url: string) => Promise<boolean>;
+    /**
+     * Register (or, with null, clear) the global push-to-talk shortcut. Resolves false when the
+     * accelerator is invalid or another app already owns it.
+     */
+    setPushToTalkHotkey: (accelerator: string | null) => Promise<boolean>;
+    /** Called on every press of the global push-to-talk shortcut; returns an unsubscribe function */
+    onPushToTalk: (callback: () => void) => () => void;
+    /**
+     * Check the update feed now. Resolves with the state after the check (null when the updater
+     * isn't running); a newer version then downloads in the background.
+     */
+    checkForUpdates: () => Promise<UpdateState | null>;
+    getUpdateState: () => Promise<UpdateState | null>;
+    /** Quit and install the downloaded update; resolves false when there is none */
+    installUpdate: () => Promise<boolean>;
+    /** Called on every update state change; returns an unsubscribe function */
+    onUpdateStateChange: (callback: (state: UpdateState) => void) => () => void;
+  };
+  tray: {
+    /** Report what the tray icon and menu should show; safe to call several times a second */
+    update: (state: TrayState) => void;
+    /** Called on tray menu clicks and global shortcut presses; returns an unsubscribe function */
+    onAction: (callback: (action: TrayAction) => void) => () => void;
+    /**
+     * Register the global shortcuts (null turns one off). Each resolves false when the accelerator
+     * is invalid or another app already owns it.
+     */
+    setShortcuts: (shortcuts: GlobalShortcuts) => Promise<GlobalShortcutStatus>;
   };
 }
 
@@ -40,16 +127,60 @@ const electronAPI: ElectronAPI = {
     getVirtualCableDevice: () => ipcRenderer.invoke('audio:getVirtualCableDevice'),
     setOutputDevice: (deviceId: string) => ipcRenderer.invoke('audio:setOutputDevice', deviceId),
     setAppOutputDevice: (deviceId: string) => ipcRenderer.invoke('audio:setAppOutputDevice', deviceId),
-    startRouting: (inputDeviceId: string, outputDeviceId: string) => 
-      ipcRenderer.invoke('audio:startRouting', inputDeviceId, outputDeviceId),
+    startRouting: (inputDeviceId: string, outputDeviceId: string, inputLabel?: string) => 
+      ipcRenderer.invoke('audio:startRouting', inputDeviceId, outputDeviceId, inputLabel),
     stopRouting: () => ipcRenderer.invoke('audio:stopRouting'),
     isRouting: () => ipcRenderer.invoke('audio:isRouting'),
+    getRoutingState: () => ipcRenderer.invoke('audio:getRoutingState'),
+    onRoutingStateChange: (callback: (state: RoutingState) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, state: RoutingState) => callback(state);
+      ipcRenderer.on('audio:routingState', listener);
+      return () => {
+        ipcRenderer.removeListener('audio:routingState', listener);
+      };
+    },
+    onDevicesChanged: (callback: (devices: AudioDevices) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, devices: AudioDevices) => callback(devices);
+      ipcRenderer.on('audio:devicesChanged', listener);
+      return () => {
+        ipcRenderer.removeListener('audio:devicesChanged', listener);
+      };
+    },
   },
   app: {
     getPlatform: () => ipcRenderer.invoke('app:getPlatform'),
     getVersion: () => ipcRenderer.invoke('app:getVersion'),
     openSoundSettings: () => ipcRenderer.invoke('app:openSoundSettings'),
     openExternal: (url: string) => ipcRenderer.invoke('app:openExternal', url),
+    setPushToTalkHotkey: (accelerator: string | null) => ipcRenderer.invoke('app:setPushToTalkHotkey', accelerator),
+    onPushToTalk: (callback: () => void) => {
+      const listener = () => callback();
+      ipcRenderer.on('app:pushToTalk', listener);
+      return () => {
+        ipcRenderer.removeListener('app:pushToTalk', listener);
+      };
+    },
+    checkForUpdates: () => ipcRenderer.invoke('app:checkForUpdates'),
+    getUpdateState: () => ipcRenderer.invoke('app:getUpdateState'),
+    installUpdate: () => ipcRenderer.invoke('app:installUpdate'),
+    onUpdateStateChange: (callback: (state: UpdateState) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, state: UpdateState) => callback(state);
+      ipcRenderer.on('app:updateState', listener);
+      return () => {
+        ipcRenderer.removeListener('app:updateState', listener);
+      };
+    },
+  },
+  tray: {
+    update: (state: TrayState) => ipcRenderer.send('tray:update', state),
+    onAction: (callback: (action: TrayAction) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, action: TrayAction) => callback(action);
+      ipcRenderer.on('tray:action', listener);
+      return () => {
+        ipcRenderer.removeListener('tray:action', listener);
+      };
+    },
+    setShortcuts: (shortcuts: GlobalShortcuts) => ipcRenderer.invoke('tray:setShortcuts', shortcuts),
   },
 };
 
@@ -2,6 +2,7 @@ import { exec } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs';
 import * as path from 'path';
+import { UPDATE_PUBLIC_KEY_FILE, updatePublicKey } from '../electron/main/update-feed';
 
 const execAsync = promisify(exec);
 
@@ -26,6 +27,15 @@ async function buildElectron() {
     await execAsync('npx tsc -p electron/tsconfig.json');
     // Preload must be CommonJS even when app uses ESM ("type": "module").
     await execAsync('npx esbuild electron/preload/preload.ts --bundle --platform=node --format=cjs --outfile=electron/dist/preload/preload.cjs --external:electron');
+    // Builds only install updates silently from feeds signed with the key they carry
+    const publicKeyFile = path.join('electron/dist/main', UPDATE_PUBLIC_KEY_FILE);
+    const signingKey = process.env.VOXFILTER_UPDATE_SIGNING_KEY;
+    if (signingKey) {
+      fs.writeFileSync(publicKeyFile, updatePublicKey(fs.readFileSync(signingKey, 'utf-8')));
+      console.log('   ✓ Update signing key built in');
+    } else {
+      fs.rmSync(publicKeyFile, { force: true });
+    }
     console.log('   ✓ Electron compiled successfully\n');
   } catch (error) {
     console.error('   ✗ Electron compilation failed:', error);
@@ -43,6 +53,15 @@ async function buildElectron() {
     process.exit(1);
   }
 
+  console.log('4. Writing update feed...');
+  try {
+    const { stdout } = await execAsync('npx tsx script/build-update-feed.ts');
+    console.log(stdout);
+  } catch (error) {
+    // Installers are still usable by hand; only the auto-update feed is missing
+    console.error('   ✗ Update feed failed:', error);
+  }
+
   console.log('✅ Build complete! Check the "release" folder for installers.');
 }
 
@@ -0,0 +1,81 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  UPDATE_FEED_FILE,
+  signUpdateFeed,
+  type UpdateFeed,
+  type UpdateFile,
+} from '../electron/main/update-feed';
+
+// Writes release/update-feed.json for the installers electron-builder produced. Copy it together
+// with the installers to the update server or file share the desktop apps point at.
+//
+//   npx tsx script/build-update-feed.ts [--notes "What changed"]
+//
+// With VOXFILTER_UPDATE_SIGNING_KEY set to an Ed25519 private key (PEM file), the feed is signed.
+// script/build-electron.ts builds the matching public key into the app, which then refuses
+// unsigned feeds.
+
+const RELEASE_DIR = 'release';
+
+function artifactsFor(version: string): Record<string, string> {
+  // Must match the artifactName patterns in electron-builder.config.cjs
+  return {
+    'win32-x64': `VoxFilter-${version}-Windows.exe`,
+    'darwin-x64': `VoxFilter-${version}-Mac-x64.dmg`,
+    'darwin-arm64': `VoxFilter-${version}-Mac-arm64.dmg`,
+    'linux-x64': `VoxFilter-${version}-Linux.AppImage`,
+  };
+}
+
+async function describeFile(filePath: string): Promise<UpdateFile> {
+  const hash = crypto.createHash('sha512');
+  for await (const chunk of fs.createReadStream(filePath)) hash.update(chunk);
+  return {
+    url: path.basename(filePath),
+    sha512: hash.digest('base64'),
+    size: fs.statSync(filePath).size,
+  };
+}
+
+async function buildUpdateFeed() {
+  const { version } = JSON.parse(fs.readFileSync('package.json', 'utf-8'));
+  const notesIndex = process.argv.indexOf('--notes');
+  const notes = notesIndex >= 0 ? process.argv[notesIndex + 1] ?? null : null;
+
+  const files: Record<string, UpdateFile> = {};
+  for (const [platform, name] of Object.entries(artifactsFor(version))) {
+    const filePath = path.join(RELEASE_DIR, name);
+    if (!fs.existsSync(filePath)) continue;
+    files[platform] = await describeFile(filePath);
+    console.log(`   ✓ ${platform}: ${name}`);
+  }
+  if (Object.keys(files).length === 0) {
+    console.error(`   ✗ No installers for ${version} in ${RELEASE_DIR}/`);
+    process.exit(1);
+  }
+
+  const feed: UpdateFeed = {
+    version,
+    releaseDate: new Date().toISOString(),
+    notes,
+    files,
+    signature: null,
+  };
+  const keyPath = process.env.VOXFILTER_UPDATE_SIGNING_KEY;
+  if (keyPath) {
+    feed.signature = signUpdateFeed(feed, fs.readFileSync(keyPath, 'utf-8'));
+    console.log('   ✓ Signed');
+  } else {
+    console.log('   ! Not signed (VOXFILTER_UPDATE_SIGNING_KEY is not set)');
+  }
+
+  fs.writeFileSync(path.join(RELEASE_DIR, UPDATE_FEED_FILE), JSON.stringify(feed, null, 2));
+  console.log(`✅ Wrote ${RELEASE_DIR}/${UPDATE_FEED_FILE} for ${version}`);
+}
+
+buildUpdateFeed().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,75 @@
+import { sql } from "drizzle-orm";
+import { db } from "../server/db";
+
+// Moves a database created before organizations existed (schema v6 or older) into the "Default"
+// organization, so the NOT NULL org_id columns of schema v7 can be applied to it. Run it once,
+// before pushing the new schema:
+//
+//   npm run db:upgrade-orgs && npm run db:push
+//
+// Safe to re-run: it only fills in org_id where it is still missing. Tables that don't exist yet
+// are left to db:push, which creates them with org_id already in place.
+
+// Every table that got an org_id in schema v7
+const ORG_SCOPED_TABLES = [
+  "agents",
+  "custom_profiles",
+  "team_presets",
+  "accent_presets",
+  "settings_revisions",
+  "usage_stats",
+  "call_sessions",
+  "recordings",
+  "teams",
+  "users",
+  "invites",
+  "audit_log",
+];
+
+async function tableExists(table: string): Promise<boolean> {
+  const result = await db.execute(sql`SELECT to_regclass(${`public.${table}`}) AS oid`);
+  return result.rows[0]?.oid != null;
+}
+
+async function upgradeOrgIds() {
+  if (!db) {
+    console.error("DATABASE_URL is not set. Nothing to upgrade.");
+    process.exit(1);
+  }
+
+  // Matches shared/schema.ts, including the constraint name db:push expects
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS organizations (
+      id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+      name text NOT NULL CONSTRAINT organizations_name_unique UNIQUE,
+      created_at timestamp DEFAULT now() NOT NULL,
+      updated_at timestamp DEFAULT now() NOT NULL
+    )
+  `);
+
+  // Same choice as DatabaseStorage.getDefaultOrganization: the oldest organization, else a new "Default"
+  await db.execute(sql`
+    INSERT INTO organizations (name)
+    SELECT 'Default' WHERE NOT EXISTS (SELECT 1 FROM organizations)
+  `);
+  const result = await db.execute(sql`SELECT id FROM organizations ORDER BY created_at LIMIT 1`);
+  const orgId: string = result.rows[0].id;
+
+  for (const table of ORG_SCOPED_TABLES) {
+    if (!(await tableExists(table))) continue;
+    await db.execute(sql`ALTER TABLE ${sql.identifier(table)} ADD COLUMN IF NOT EXISTS org_id uuid`);
+    const updated = await db.execute(
+      sql`UPDATE ${sql.identifier(table)} SET org_id = ${orgId} WHERE org_id IS NULL`
+    );
+    console.log(`${table}: ${updated.rowCount ?? 0} row(s) moved into the default organization`);
+  }
+
+  console.log("Organization backfill complete. Run `npm run db:push` to apply the v7 schema.");
+}
+
+upgradeOrgIds()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Organization backfill failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,160 @@
+// Time-series rollups of usage stats for the analytics API and its CSV export.
+// Buckets are aligned to UTC so every caller sees the same boundaries; weeks start on Monday.
+
+import type { AnalyticsBucket, AnalyticsPoint, AnalyticsTimeSeries, UsageStats } from "@shared/schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const BUCKET_MS: Record<AnalyticsBucket, number> = {
+  hour: HOUR_MS,
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+};
+
+export const DEFAULT_ANALYTICS_RANGE_DAYS = 30;
+// Keeps a year of hourly buckets (or similar) from being requested by accident
+export const MAX_ANALYTICS_BUCKETS = 2000;
+
+export class AnalyticsRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AnalyticsRangeError";
+  }
+}
+
+function bucketStart(date: Date, bucket: AnalyticsBucket): number {
+  const start = new Date(date);
+  if (bucket === "hour") {
+    start.setUTCMinutes(0, 0, 0);
+    return start.getTime();
+  }
+  start.setUTCHours(0, 0, 0, 0);
+  if (bucket === "week") {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  }
+  return start.getTime();
+}
+
+// Nearest-rank percentile of an ascending list
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+interface BucketTotals {
+  calls: number;
+  noiseReductionMinutes: number;
+  accentModifierMinutes: number;
+  talkSeconds: number;
+  silenceSeconds: number;
+  latencies: number[];
+}
+
+function emptyTotals(): BucketTotals {
+  return {
+    calls: 0,
+    noiseReductionMinutes: 0,
+    accentModifierMinutes: 0,
+    talkSeconds: 0,
+    silenceSeconds: 0,
+    latencies: [],
+  };
+}
+
+function addRow(totals: BucketTotals, row: UsageStats) {
+  totals.calls += row.totalCalls;
+  totals.noiseReductionMinutes += row.noiseReductionMinutes;
+  totals.accentModifierMinutes += row.accentModifierMinutes;
+  totals.talkSeconds += row.talkSeconds;
+  totals.silenceSeconds += row.silenceSeconds;
+  // 0 means the call never measured latency, not that it had none
+  if (row.avgLatency > 0) {
+    totals.latencies.push(row.avgLatency);
+  }
+}
+
+function summarize(totals: BucketTotals): Omit<AnalyticsPoint, "bucketStart"> {
+  const latencies = [...totals.latencies].sort((a, b) => a - b);
+  // Calls recorded before the VAD existed carry neither, so they don't skew the ratios
+  const measured = totals.talkSeconds + totals.silenceSeconds;
+  const ratio = (seconds: number) => (measured > 0 ? Math.round((seconds / measured) * 1000) / 1000 : 0);
+  return {
+    calls: totals.calls,
+    noiseReductionMinutes: totals.noiseReductionMinutes,
+    accentModifierMinutes: totals.accentModifierMinutes,
+    talkMinutes: Math.round(totals.talkSeconds / 60),
+    silenceMinutes: Math.round(totals.silenceSeconds / 60),
+    talkRatio: ratio(totals.talkSeconds),
+    silenceRatio: ratio(totals.silenceSeconds),
+    latencyP50: percentile(latencies, 50),
+    latencyP95: percentile(latencies, 95),
+  };
+}
+
+/**
+ * Roll `rows` up into consecutive buckets covering `from`..`to`. Empty buckets are included
+ * (with zeros) so charts get a continuous axis.
+ */
+export function buildTimeSeries(rows: UsageStats[], bucket: AnalyticsBucket, from: Date, to: Date): AnalyticsTimeSeries {
+  if (from.getTime() > to.getTime()) {
+    throw new AnalyticsRangeError("from must be before to");
+  }
+
+  const size = BUCKET_MS[bucket];
+  const first = bucketStart(from, bucket);
+  const last = bucketStart(to, bucket);
+  const count = Math.round((last - first) / size) + 1;
+  if (count > MAX_ANALYTICS_BUCKETS) {
+    throw new AnalyticsRangeError(
+      `Range covers ${count} ${bucket} buckets (max ${MAX_ANALYTICS_BUCKETS}); use a larger bucket or a shorter range`
+    );
+  }
+
+  const buckets = new Map<number, BucketTotals>();
+  for (let start = first; start <= last; start += size) {
+    buckets.set(start, emptyTotals());
+  }
+
+  const overall = emptyTotals();
+  rows.forEach(row => {
+    const totals = buckets.get(bucketStart(row.date, bucket));
+    if (!totals) return;
+    addRow(totals, row);
+    addRow(overall, row);
+  });
+
+  return {
+    bucket,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    points: Array.from(buckets.entries()).map(([start, totals]) => ({
+      bucketStart: new Date(start).toISOString(),
+      ...summarize(totals),
+    })),
+    totals: summarize(overall),
+  };
+}
+
+const CSV_COLUMNS: [keyof AnalyticsPoint, string][] = [
+  ["bucketStart", "bucket_start"],
+  ["calls", "calls"],
+  ["noiseReductionMinutes", "noise_reduction_minutes"],
+  ["accentModifierMinutes", "accent_modifier_minutes"],
+  ["talkMinutes", "talk_minutes"],
+  ["silenceMinutes", "silence_minutes"],
+  ["talkRatio", "talk_ratio"],
+  ["silenceRatio", "silence_ratio"],
+  ["latencyP50", "latency_p50_ms"],
+  ["latencyP95", "latency_p95_ms"],
+];
+
+// Every value is a number or an ISO timestamp, so nothing needs quoting
+export function timeSeriesToCsv(series: AnalyticsTimeSeries): string {
+  const lines = [CSV_COLUMNS.map(([, header]) => header).join(",")];
+  series.points.forEach(point => {
+    lines.push(CSV_COLUMNS.map(([key]) => String(point[key])).join(","));
+  });
+  return lines.join("\r\n") + "\r\n";
+}
@@ -0,0 +1,86 @@
+// Audit trail of mutating API calls. Routes opt in with the `audit()` middleware, placed after their
+// auth checks so only permitted calls are considered; an entry is written once the call succeeds.
+
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import type { AuditEntityType, PublicUser } from "@shared/schema";
+
+// Never copied into a snapshot, at any depth
+const REDACTED_KEYS = new Set(["password", "passwordHash", "sessionId", "token"]);
+
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  if (value === null || typeof value !== "object" || value instanceof Date) return value;
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([key]) => !REDACTED_KEYS.has(key))
+      .map(([key, v]) => [key, redact(v)])
+  );
+}
+
+type AuditedBody = { id?: unknown; user?: PublicUser } | null;
+
+interface AuditOptions {
+  // Loads the entity as it is before the handler runs (for updates and deletes)
+  before?: (req: Request) => Promise<unknown> | unknown;
+  // Defaults to the :id route param, else the id (or user.id) of the response body
+  entityId?: (params: Request["params"], body: AuditedBody, req: Request) => string | null | undefined;
+}
+
+function defaultEntityId(params: Request["params"], body: AuditedBody): string | null {
+  if (params.id) return params.id;
+  if (typeof body?.id === "string") return body.id;
+  return body?.user?.id ?? null;
+}
+
+/**
+ * Record the call in the audit log under `action` ("<entity>.<verb>", e.g. "agent.delete").
+ * The response body is the "after" snapshot; sign-in routes, which run without req.user,
+ * take their actor from the user in that body.
+ */
+export function audit(action: `${AuditEntityType}.${string}`, options: AuditOptions = {}) {
+  const entityType = action.slice(0, action.indexOf(".")) as AuditEntityType;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    // Read now: by the time the response finishes the router may have moved on
+    const params = { ...req.params };
+    let before: unknown = null;
+    try {
+      before = (await options.before?.(req)) ?? null;
+    } catch (error) {
+      // A missing snapshot shouldn't block the call itself
+      console.error("Error loading audit snapshot:", error);
+    }
+
+    let body: AuditedBody = null;
+    const json = res.json.bind(res);
+    res.json = (data: unknown) => {
+      body = data as AuditedBody;
+      return json(data);
+    };
+
+    res.on("finish", () => {
+      if (res.statusCode >= 400) return;
+      const actor = req.user ?? body?.user;
+      if (!actor) return;
+
+      storage.recordAuditEntry({
+        orgId: actor.orgId,
+        actorId: actor.id,
+        actorUsername: actor.username,
+        action,
+        entityType,
+        entityId: (options.entityId ?? defaultEntityId)(params, body, req) ?? null,
+        method: req.method,
+        path: req.originalUrl.split("?")[0],
+        statusCode: res.statusCode,
+        before: redact(before),
+        after: redact(body),
+      }).catch((error) => {
+        console.error("Error recording audit entry:", error);
+      });
+    });
+
+    next();
+  };
+}
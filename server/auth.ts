@@ -1,31 +1,32 @@
 import { Request, Response, NextFunction } from "express";
 import bcrypt from "bcryptjs";
-
-// Simple authentication middleware for development/demo
-// In production, use proper session management, JWT, or OAuth
-
-interface User {
-  id: string;
-  username: string;
-  passwordHash: string;
-  role: "admin" | "agent";
-}
-
-// In-memory user store (replace with database in production)
-const users: Map<string, User> = new Map();
-
-// Default admin user (for demo purposes)
-const DEFAULT_ADMIN = {
-  id: "admin-1",
-  username: "admin",
-  passwordHash: bcrypt.hashSync("admin123", 10), // Change in production!
-  role: "admin" as const,
-};
-
-users.set(DEFAULT_ADMIN.id, DEFAULT_ADMIN);
-
-// Session store (replace with Redis or database in production)
-const sessions: Map<string, { userId: string; expiresAt: number }> = new Map();
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import {
+  loginSchema,
+  registerUserSchema,
+  bootstrapAdminSchema,
+  createInviteSchema,
+  acceptInviteSchema,
+  getPermissionScope,
+  PRESENCE_WS_PATH,
+} from "@shared/schema";
+import type { Agent, User, PublicUser, PermissionType } from "@shared/schema";
+
+// Users and sessions live in storage. There is no default account: on a fresh
+// install the owner is created through the bootstrap endpoints below, and everyone
+// else is registered by an admin or joins an organization through an invite.
+
+const BCRYPT_ROUNDS = 12;
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MEDIA_TOKEN_TTL_MS = 15 * 60 * 1000;
+// Only has to last until the socket connects; every reconnect fetches a new one
+const PRESENCE_TOKEN_TTL_MS = 60 * 1000;
+
+// Signs media tokens. They only live minutes, so a restart invalidating them costs a refetch.
+const mediaTokenKey = randomBytes(32);
 
 // Extend Express Request type
 declare global {
@@ -38,62 +39,265 @@ declare global {
 }
 
 /**
- * Generate a session ID
+ * Generate an opaque token for a new session or invite
  */
-function generateSessionId(): string {
-  return `session_${Date.now()}_${Math.random().toString(36).substring(2)}`;
+function generateToken(): string {
+  return randomBytes(32).toString("base64url");
 }
 
 /**
- * Authentication middleware - checks for valid session
+ * Sessions and invites are stored under a hash of their token, so the raw token only ever exists client-side
  */
-export function requireAuth(req: Request, res: Response, next: NextFunction) {
-  const sessionId = req.headers.authorization?.replace("Bearer ", "") || 
-                    req.cookies?.sessionId;
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
 
-  if (!sessionId) {
-    return res.status(401).json({ error: "Authentication required" });
+function getSessionToken(req: Request): string | undefined {
+  return req.headers.authorization?.replace("Bearer ", "") || req.cookies?.sessionId;
+}
+
+function signMediaToken(userId: string, resourceId: string, expiresAt: number): string {
+  return createHmac("sha256", mediaTokenKey).update(`${userId}.${resourceId}.${expiresAt}`).digest("base64url");
+}
+
+/**
+ * Issue a short-lived token that lets `user` fetch one resource (a recording's audio) by URL,
+ * for media elements that can't send an Authorization header
+ */
+export function issueMediaToken(
+  user: User,
+  resourceId: string,
+  ttlMs = MEDIA_TOKEN_TTL_MS,
+): { token: string; expiresAt: number } {
+  const expiresAt = Date.now() + ttlMs;
+  return { token: `${user.id}.${expiresAt}.${signMediaToken(user.id, resourceId, expiresAt)}`, expiresAt };
+}
+
+/**
+ * The user a media token was issued to, if it is unexpired and was issued for `resourceId`
+ */
+async function resolveMediaToken(token: string, resourceId: string): Promise<User | undefined> {
+  const [userId, expiresAtText, signature] = token.split(".");
+  const expiresAt = Number(expiresAtText);
+  if (!userId || !signature || !Number.isSafeInteger(expiresAt) || expiresAt <= Date.now()) {
+    return undefined;
   }
 
-  const session = sessions.get(sessionId);
-  
+  const expected = Buffer.from(signMediaToken(userId, resourceId, expiresAt));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return undefined;
+  }
+  return storage.getUser(userId);
+}
+
+export function toPublicUser(user: User): PublicUser {
+  return {
+    id: user.id,
+    orgId: user.orgId,
+    username: user.username,
+    role: user.role,
+    teamId: user.teamId,
+  };
+}
+
+/**
+ * Resolve a bearer token to its user, deleting the session if it has expired or is orphaned
+ */
+async function resolveSession(token: string): Promise<
+  { user: User; sessionId: string } | { error: string }
+> {
+  const sessionId = hashToken(token);
+  const session = await storage.getSession(sessionId);
+
   if (!session) {
-    return res.status(401).json({ error: "Invalid session" });
+    return { error: "Invalid session" };
   }
 
-  // Check if session expired
-  if (Date.now() > session.expiresAt) {
-    sessions.delete(sessionId);
-    return res.status(401).json({ error: "Session expired" });
+  if (session.expiresAt.getTime() <= Date.now()) {
+    await storage.deleteSession(sessionId);
+    return { error: "Session expired" };
   }
 
-  // Get user
-  const user = users.get(session.userId);
+  const user = await storage.getUser(session.userId);
   if (!user) {
-    sessions.delete(sessionId);
-    return res.status(401).json({ error: "User not found" });
+    await storage.deleteSession(sessionId);
+    return { error: "User not found" };
   }
 
-  // Attach user to request
-  req.user = user;
-  req.sessionId = sessionId;
+  return { user, sessionId };
+}
 
-  next();
+/**
+ * Issue a token for opening the presence WebSocket. Browsers can't set headers on the upgrade, so
+ * it rides in the URL: a media token for the socket path, which can't be replayed as a session.
+ */
+export function issuePresenceToken(user: User): { token: string; expiresAt: number } {
+  return issueMediaToken(user, PRESENCE_WS_PATH, PRESENCE_TOKEN_TTL_MS);
 }
 
 /**
- * Authorization middleware - checks for admin role
+ * The user a presence token was issued to, if it is still valid
  */
-export function requireAdmin(req: Request, res: Response, next: NextFunction) {
-  if (!req.user) {
+export async function getUserForPresenceToken(token: string): Promise<User | undefined> {
+  return resolveMediaToken(token, PRESENCE_WS_PATH);
+}
+
+/**
+ * Whether `user` holds `permission` for an agent on `teamId`, per the role permission matrix
+ */
+export function hasPermissionFor(user: User, permission: PermissionType, teamId: string | null): boolean {
+  const scope = getPermissionScope(user.role, permission);
+  if (scope === "all") return true;
+  return scope === "team" && user.teamId !== null && teamId === user.teamId;
+}
+
+/**
+ * Users always have access to their own agent; beyond that it depends on the permission matrix.
+ * Agents in another organization are never accessible.
+ */
+export function canAccessAgent(user: User, agent: Agent, permission: PermissionType = "agents:coach"): boolean {
+  if (agent.orgId !== user.orgId) return false;
+  return agent.userId === user.id || hasPermissionFor(user, permission, agent.teamId);
+}
+
+/**
+ * Owners manage every organization; admins only manage the users of their own
+ */
+export function canManageOrganization(user: User, orgId: string): boolean {
+  if (getPermissionScope(user.role, "orgs:manage")) return true;
+  return user.orgId === orgId && getPermissionScope(user.role, "users:manage") !== null;
+}
+
+/**
+ * Create a session for `user` and send the login response
+ */
+async function startSession(res: Response, user: User, status = 200) {
+  const token = generateToken();
+  const expiresAt = Date.now() + SESSION_TTL_MS;
+
+  await storage.createSession({
+    id: hashToken(token),
+    userId: user.id,
+    expiresAt: new Date(expiresAt),
+  });
+
+  res.status(status).json({
+    sessionId: token,
+    user: toPublicUser(user),
+    expiresAt,
+  });
+}
+
+/**
+ * Authentication middleware - checks for valid session
+ */
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const token = getSessionToken(req);
+
+  if (!token) {
     return res.status(401).json({ error: "Authentication required" });
   }
 
-  if (req.user.role !== "admin") {
-    return res.status(403).json({ error: "Admin access required" });
+  try {
+    const result = await resolveSession(token);
+    if ("error" in result) {
+      return res.status(401).json({ error: result.error });
+    }
+
+    // Attach user to request
+    req.user = result.user;
+    req.sessionId = result.sessionId;
+
+    next();
+  } catch (error) {
+    console.error("Session lookup error:", error);
+    res.status(500).json({ error: "Failed to verify session" });
   }
+}
 
-  next();
+/**
+ * Authentication middleware for media URLs - like requireAuth, but without a session header or
+ * cookie it accepts a ?token= media token issued for the resource `getResourceId` names.
+ * Handlers must still check the user's access to that resource.
+ */
+export function requireMediaAuth(getResourceId: (req: Request) => string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (getSessionToken(req)) {
+      return requireAuth(req, res, next);
+    }
+    if (typeof req.query.token !== "string") {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      const user = await resolveMediaToken(req.query.token, getResourceId(req));
+      if (!user) {
+        return res.status(401).json({ error: "Invalid or expired media token" });
+      }
+      req.user = user;
+      next();
+    } catch (error) {
+      console.error("Media token lookup error:", error);
+      res.status(500).json({ error: "Failed to verify media token" });
+    }
+  };
+}
+
+/**
+ * Authorization middleware - checks the role permission matrix (at any scope).
+ * Routes with team-scoped permissions must still filter results by team.
+ */
+export function requirePermission(permission: PermissionType) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    if (!getPermissionScope(req.user.role, permission)) {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+
+    next();
+  };
+}
+
+/**
+ * Ownership middleware - resolves the agent a request targets and rejects it unless the
+ * signed-in user owns that agent or may coach it (admins, or the supervisor of its team).
+ * Must run after requireAuth.
+ * Requests that don't name an agent fall through so the handler can answer 400/404; naming an
+ * agent outside the user's organization is a 404, so handlers never write against it.
+ */
+export function requireAgentOwner(
+  getAgentId: (req: Request) => string | undefined | Promise<string | undefined>
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      const agentId = await getAgentId(req);
+      if (!agentId) {
+        return next();
+      }
+
+      const agent = await storage.getAgent(req.user.orgId, agentId);
+      if (!agent) {
+        return res.status(404).json({ error: "Agent not found" });
+      }
+
+      if (!canAccessAgent(req.user, agent)) {
+        return res.status(403).json({ error: "You don't have permission to modify this agent" });
+      }
+
+      next();
+    } catch (error) {
+      console.error("Ownership check error:", error);
+      res.status(500).json({ error: "Failed to verify agent ownership" });
+    }
+  };
 }
 
 /**
@@ -101,48 +305,26 @@ export function requireAdmin(req: Request, res: Response, next: NextFunction) {
  */
 export async function handleLogin(req: Request, res: Response) {
   try {
-    const { username, password } = req.body;
+    const { username, password } = loginSchema.parse(req.body);
 
-    if (!username || !password) {
-      return res.status(400).json({ error: "Username and password required" });
-    }
+    const user = await storage.getUserByUsername(username);
 
-    // Find user by username
-    const user = Array.from(users.values()).find(u => u.username === username);
-    
     if (!user) {
       return res.status(401).json({ error: "Invalid credentials" });
     }
 
     // Check password
     const passwordValid = await bcrypt.compare(password, user.passwordHash);
-    
+
     if (!passwordValid) {
       return res.status(401).json({ error: "Invalid credentials" });
     }
 
-    // Create session (expires in 24 hours)
-    const sessionId = generateSessionId();
-    const expiresAt = Date.now() + (24 * 60 * 60 * 1000);
-    
-    sessions.set(sessionId, {
-      userId: user.id,
-      expiresAt,
-    });
-
-    // Clean up expired sessions
-    cleanExpiredSessions();
-
-    res.json({
-      sessionId,
-      user: {
-        id: user.id,
-        username: user.username,
-        role: user.role,
-      },
-      expiresAt,
-    });
+    await startSession(res, user);
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Username and password required" });
+    }
     console.error("Login error:", error);
     res.status(500).json({ error: "Login failed" });
   }
@@ -151,14 +333,17 @@ export async function handleLogin(req: Request, res: Response) {
 /**
  * Logout endpoint handler
  */
-export function handleLogout(req: Request, res: Response) {
-  const sessionId = req.sessionId;
-  
-  if (sessionId) {
-    sessions.delete(sessionId);
-  }
+export async function handleLogout(req: Request, res: Response) {
+  try {
+    if (req.sessionId) {
+      await storage.deleteSession(req.sessionId);
+    }
 
-  res.json({ message: "Logged out successfully" });
+    res.json({ message: "Logged out successfully" });
+  } catch (error) {
+    console.error("Logout error:", error);
+    res.status(500).json({ error: "Logout failed" });
+  }
 }
 
 /**
@@ -169,91 +354,229 @@ export function handleGetCurrentUser(req: Request, res: Response) {
     return res.status(401).json({ error: "Not authenticated" });
   }
 
-  res.json({
-    id: req.user.id,
-    username: req.user.username,
-    role: req.user.role,
-  });
+  res.json(toPublicUser(req.user));
 }
 
 /**
  * Clean up expired sessions
  */
-function cleanExpiredSessions() {
-  const now = Date.now();
-  for (const [sessionId, session] of Array.from(sessions.entries())) {
-    if (now > session.expiresAt) {
-      sessions.delete(sessionId);
+async function cleanExpiredSessions() {
+  try {
+    const deleted = await storage.deleteExpiredSessions();
+    if (deleted > 0) {
+      console.log(`Auth: Cleaned up ${deleted} expired sessions`);
     }
+  } catch (error) {
+    console.error("Auth: Failed to clean up expired sessions:", error);
   }
 }
 
 // Run cleanup every hour
-setInterval(cleanExpiredSessions, 60 * 60 * 1000);
+setInterval(cleanExpiredSessions, 60 * 60 * 1000).unref();
 
 /**
  * Optional auth middleware - attaches user if session exists, but allows unauthenticated requests through
  */
-export function optionalAuth(req: Request, res: Response, next: NextFunction) {
-  const sessionId = req.headers.authorization?.replace("Bearer ", "") || 
-                    req.cookies?.sessionId;
+export async function optionalAuth(req: Request, res: Response, next: NextFunction) {
+  const token = getSessionToken(req);
 
-  if (!sessionId) {
+  if (!token) {
     return next();
   }
 
-  const session = sessions.get(sessionId);
-  if (!session || Date.now() > session.expiresAt) {
-    if (session) sessions.delete(sessionId);
-    return next();
-  }
-
-  const user = users.get(session.userId);
-  if (user) {
-    req.user = user;
-    req.sessionId = sessionId;
+  try {
+    const result = await resolveSession(token);
+    if (!("error" in result)) {
+      req.user = result.user;
+      req.sessionId = result.sessionId;
+    }
+  } catch (error) {
+    console.error("Session lookup error:", error);
   }
 
   next();
 }
 
 /**
- * Register a new user (admin only)
+ * Register a new user in the admin's own organization (admin only)
  */
 export async function handleRegisterUser(req: Request, res: Response) {
   try {
-    const { username, password, role } = req.body;
-
-    if (!username || !password) {
-      return res.status(400).json({ error: "Username and password required" });
-    }
+    const { username, password, role, teamId } = registerUserSchema.parse(req.body);
+    const orgId = req.user!.orgId;
 
     // Check if username already exists
-    const existingUser = Array.from(users.values()).find(u => u.username === username);
+    const existingUser = await storage.getUserByUsername(username);
     if (existingUser) {
       return res.status(400).json({ error: "Username already exists" });
     }
 
-    // Hash password
-    const passwordHash = await bcrypt.hash(password, 10);
-
-    // Create user
-    const user: User = {
-      id: `user_${Date.now()}_${Math.random().toString(36).substring(2)}`,
-      username,
-      passwordHash,
-      role: role || "agent",
-    };
+    if (teamId && !(await storage.getTeam(orgId, teamId))) {
+      return res.status(400).json({ error: "Team not found" });
+    }
 
-    users.set(user.id, user);
+    const passwordHash = await bcrypt.hash(password, BCRYPT_ROUNDS);
+    const user = await storage.createUser({ orgId, username, passwordHash, role, teamId: teamId ?? null });
 
-    res.status(201).json({
-      id: user.id,
-      username: user.username,
-      role: user.role,
-    });
+    res.status(201).json(toPublicUser(user));
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid user data", details: error.errors });
+    }
     console.error("Register error:", error);
     res.status(500).json({ error: "Registration failed" });
   }
 }
+
+/**
+ * First-run status - tells the client whether the owner account still needs to be created
+ */
+export async function handleBootstrapStatus(req: Request, res: Response) {
+  try {
+    const userCount = await storage.getUserCount();
+    res.json({ required: userCount === 0 });
+  } catch (error) {
+    console.error("Bootstrap status error:", error);
+    res.status(500).json({ error: "Failed to check setup status" });
+  }
+}
+
+// Guards the window between counting users and creating the first one
+let bootstrapInProgress = false;
+
+/**
+ * First-run setup - creates the owner in the default organization and signs them in.
+ * Refused once any user exists, so this can't be used to mint extra owners.
+ */
+export async function handleBootstrap(req: Request, res: Response) {
+  if (bootstrapInProgress) {
+    return res.status(409).json({ error: "Setup is already in progress" });
+  }
+  bootstrapInProgress = true;
+
+  try {
+    const { username, password } = bootstrapAdminSchema.parse(req.body);
+
+    if (await storage.getUserCount() > 0) {
+      return res.status(409).json({ error: "Setup has already been completed" });
+    }
+
+    const org = await storage.getDefaultOrganization();
+    const passwordHash = await bcrypt.hash(password, BCRYPT_ROUNDS);
+    const user = await storage.createUser({ orgId: org.id, username, passwordHash, role: "owner" });
+    console.log(`Auth: Created owner account "${user.username}" in organization "${org.name}"`);
+
+    await startSession(res, user, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid setup data", details: error.errors });
+    }
+    console.error("Bootstrap error:", error);
+    res.status(500).json({ error: "Setup failed" });
+  } finally {
+    bootstrapInProgress = false;
+  }
+}
+
+/**
+ * Create an invite into organization `:id` (owners: any organization; admins: their own).
+ * The raw token is only returned here; storage keeps its hash.
+ */
+export async function handleCreateInvite(req: Request, res: Response) {
+  try {
+    const orgId = req.params.id;
+    if (!canManageOrganization(req.user!, orgId)) {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+
+    const org = await storage.getOrganization(orgId);
+    if (!org) {
+      return res.status(404).json({ error: "Organization not found" });
+    }
+
+    const { role, teamId } = createInviteSchema.parse(req.body);
+    if (teamId && !(await storage.getTeam(orgId, teamId))) {
+      return res.status(400).json({ error: "Team not found" });
+    }
+
+    const token = generateToken();
+    const invite = await storage.createInvite({
+      id: hashToken(token),
+      orgId,
+      role,
+      teamId: teamId ?? null,
+      createdBy: req.user!.id,
+      expiresAt: new Date(Date.now() + INVITE_TTL_MS),
+    });
+
+    res.status(201).json({ token, invite });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid invite data", details: error.errors });
+    }
+    console.error("Create invite error:", error);
+    res.status(500).json({ error: "Failed to create invite" });
+  }
+}
+
+/**
+ * Preview an invite by token, so the accept page can show which organization it joins
+ */
+export async function handleGetInvite(req: Request, res: Response) {
+  try {
+    const invite = await storage.getInvite(hashToken(req.params.token));
+    const org = invite && invite.expiresAt.getTime() > Date.now()
+      ? await storage.getOrganization(invite.orgId)
+      : undefined;
+    if (!invite || !org) {
+      return res.status(404).json({ error: "Invite not found or expired" });
+    }
+
+    res.json({ organizationName: org.name, role: invite.role, expiresAt: invite.expiresAt });
+  } catch (error) {
+    console.error("Get invite error:", error);
+    res.status(500).json({ error: "Failed to fetch invite" });
+  }
+}
+
+/**
+ * Accept an invite: create the account in the invite's organization and sign it in.
+ * Invites are single-use.
+ */
+export async function handleAcceptInvite(req: Request, res: Response) {
+  try {
+    const { token, username, password } = acceptInviteSchema.parse(req.body);
+
+    const inviteId = hashToken(token);
+    const invite = await storage.getInvite(inviteId);
+    if (!invite || invite.expiresAt.getTime() <= Date.now()) {
+      return res.status(404).json({ error: "Invite not found or expired" });
+    }
+
+    if (await storage.getUserByUsername(username)) {
+      return res.status(400).json({ error: "Username already exists" });
+    }
+
+    // Claim the invite before creating the account so it can't be redeemed twice
+    if (!(await storage.deleteInvite(inviteId))) {
+      return res.status(404).json({ error: "Invite not found or expired" });
+    }
+
+    const passwordHash = await bcrypt.hash(password, BCRYPT_ROUNDS);
+    const user = await storage.createUser({
+      orgId: invite.orgId,
+      username,
+      passwordHash,
+      role: invite.role,
+      teamId: invite.teamId,
+    });
+
+    await startSession(res, user, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid account data", details: error.errors });
+    }
+    console.error("Accept invite error:", error);
+    res.status(500).json({ error: "Failed to accept invite" });
+  }
+}
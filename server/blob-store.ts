@@ -0,0 +1,78 @@
+import fs from "fs";
+import path from "path";
+import type { Readable } from "stream";
+import type { Recording } from "@shared/schema";
+
+/**
+ * Storage for binary payloads (recording audio) referenced by key from the database.
+ * Swap the exported `blobStore` for an object-store backed implementation in production.
+ */
+export interface BlobStore {
+  put(key: string, data: Buffer): Promise<void>;
+  stat(key: string): Promise<{ size: number } | null>;
+  /** Inclusive byte range, as in an HTTP Range header. */
+  createReadStream(key: string, range?: { start: number; end: number }): Readable;
+  delete(key: string): Promise<boolean>;
+}
+
+/**
+ * Blob store backed by a directory on local disk
+ */
+export class LocalDiskBlobStore implements BlobStore {
+  private readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  // Keys are generated server-side, but never let one escape the root directory.
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolveKey(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async stat(key: string): Promise<{ size: number } | null> {
+    try {
+      const stats = await fs.promises.stat(this.resolveKey(key));
+      return { size: stats.size };
+    } catch {
+      return null;
+    }
+  }
+
+  createReadStream(key: string, range?: { start: number; end: number }): Readable {
+    return fs.createReadStream(this.resolveKey(key), range);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      await fs.promises.unlink(this.resolveKey(key));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+      throw error;
+    }
+  }
+}
+
+export const blobStore: BlobStore = new LocalDiskBlobStore(process.env.RECORDINGS_DIR || "./data/recordings");
+
+// Remove a recording's stored audio once its row is gone. A leftover file is only wasted
+// disk, so failures are logged rather than failing the delete.
+export async function deleteRecordingAudio(recording: Recording): Promise<void> {
+  if (!recording.storageKey) return;
+  try {
+    await blobStore.delete(recording.storageKey);
+  } catch (error) {
+    console.error(`Failed to delete audio for recording ${recording.id}:`, error);
+  }
+}
@@ -0,0 +1,149 @@
+// Port of client/public/agc-processor.js (loudness-targeted automatic gain control).
+// Works sample by sample with 100ms loudness blocks, so the result doesn't depend on how the
+// signal is split into render quanta.
+
+export interface AgcParams {
+  enabled: boolean;
+  targetLufs: number;
+  maxGainDb: number;
+  gateLufs: number;
+}
+
+export const AGC_BLOCK_SEC = 0.1;
+// Short-term loudness (BS.1770 / EBU R128) spans 3s; speech activity is judged on the momentary 400ms
+export const AGC_SHORT_TERM_BLOCKS = 30;
+export const AGC_MOMENTARY_BLOCKS = 4;
+export const AGC_MAX_CUT_DB = 24;
+// How fast the gain may move, in dB per second; cutting is quicker than boosting so bursts don't clip
+export const AGC_ATTACK_DB_PER_SEC = 12;
+export const AGC_RELEASE_DB_PER_SEC = 4;
+const GAIN_SMOOTHING_SEC = 0.05;
+
+interface BiquadCoefs {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+// BS.1770 K-weighting for any sample rate: the head-related high shelf, then the RLB high-pass
+export function kWeightingCoefs(sampleRate: number): [BiquadCoefs, BiquadCoefs] {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf = {
+    b0: (Vh + (Vb * K) / Q + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+  return [shelf, highPass];
+}
+
+// Mean square of K-weighted audio -> LUFS
+export function meanSquareToLufs(meanSquare: number): number {
+  return -0.691 + 10 * Math.log10(Math.max(meanSquare, 1e-12));
+}
+
+export class LoudnessAgc {
+  private filters: [BiquadCoefs, BiquadCoefs];
+  private filterState = [0, 0, 0, 0, 0, 0, 0, 0]; // x1, x2, y1, y2 per stage
+  private blockLength: number;
+  private blockSum = 0;
+  private blockCount = 0;
+  private blocks: Float32Array;
+  private blockPos = 0;
+  private speechBlocks: Uint8Array;
+  private gainDb = 0;
+  private targetGain = 1;
+  private gain = 1;
+  private gainCoef: number;
+
+  constructor(private params: AgcParams, sampleRate: number) {
+    this.filters = kWeightingCoefs(sampleRate);
+    this.blockLength = Math.max(1, Math.round(AGC_BLOCK_SEC * sampleRate));
+    this.blocks = new Float32Array(AGC_SHORT_TERM_BLOCKS);
+    this.speechBlocks = new Uint8Array(AGC_SHORT_TERM_BLOCKS);
+    this.gainCoef = Math.exp(-1 / (GAIN_SMOOTHING_SEC * sampleRate));
+  }
+
+  private kWeight(x: number): number {
+    const s = this.filterState;
+    let input = x;
+    for (let stage = 0; stage < 2; stage++) {
+      const c = this.filters[stage];
+      const o = stage * 4;
+      const y = c.b0 * input + c.b1 * s[o] + c.b2 * s[o + 1] - c.a1 * s[o + 2] - c.a2 * s[o + 3];
+      s[o + 1] = s[o];
+      s[o] = input;
+      s[o + 3] = s[o + 2];
+      s[o + 2] = y;
+      input = y;
+    }
+    return input;
+  }
+
+  // Close a 100ms block: gate it as speech or silence and move the gain toward the target
+  private endBlock() {
+    this.blocks[this.blockPos] = this.blockSum / this.blockCount;
+    let momentary = 0;
+    for (let i = 0; i < AGC_MOMENTARY_BLOCKS; i++) {
+      momentary += this.blocks[(this.blockPos - i + AGC_SHORT_TERM_BLOCKS) % AGC_SHORT_TERM_BLOCKS];
+    }
+    const isSpeech = meanSquareToLufs(momentary / AGC_MOMENTARY_BLOCKS) > this.params.gateLufs;
+    this.speechBlocks[this.blockPos] = isSpeech ? 1 : 0;
+    this.blockPos = (this.blockPos + 1) % AGC_SHORT_TERM_BLOCKS;
+    this.blockSum = 0;
+    this.blockCount = 0;
+
+    // Short-term loudness over the speech in the last 3s
+    let speech = 0;
+    let speechCount = 0;
+    for (let i = 0; i < AGC_SHORT_TERM_BLOCKS; i++) {
+      if (this.speechBlocks[i]) {
+        speech += this.blocks[i];
+        speechCount++;
+      }
+    }
+
+    // Silence and pauses hold the gain where it is instead of pumping it up
+    if (isSpeech && speechCount > 0) {
+      const speechLufs = meanSquareToLufs(speech / speechCount);
+      const wanted = Math.max(-AGC_MAX_CUT_DB, Math.min(this.params.maxGainDb, this.params.targetLufs - speechLufs));
+      const step = (wanted < this.gainDb ? AGC_ATTACK_DB_PER_SEC : AGC_RELEASE_DB_PER_SEC) * AGC_BLOCK_SEC;
+      this.gainDb += Math.max(-step, Math.min(step, wanted - this.gainDb));
+    }
+    this.targetGain = Math.pow(10, this.gainDb / 20);
+  }
+
+  // Gain for `x` (the sample being processed); call once per sample
+  nextGain(x: number): number {
+    const k = this.kWeight(x);
+    this.blockSum += k * k;
+    if (++this.blockCount >= this.blockLength) this.endBlock();
+    this.gain = this.targetGain + (this.gain - this.targetGain) * this.gainCoef;
+    return this.gain;
+  }
+
+  process(buf: Float32Array) {
+    if (!this.params.enabled) return;
+    for (let i = 0; i < buf.length; i++) {
+      buf[i] *= this.nextGain(buf[i]);
+    }
+  }
+}
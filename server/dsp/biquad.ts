@@ -0,0 +1,130 @@
+// Biquad filter matching the Web Audio BiquadFilterNode formulas (Audio EQ Cookbook as
+// written in the Web Audio spec), so server-side renders line up with the browser chain.
+
+export type BiquadType = "lowpass" | "highpass" | "notch" | "peaking" | "lowshelf" | "highshelf";
+
+export interface BiquadParams {
+  type: BiquadType;
+  frequency: number;
+  Q: number;
+  gain: number;
+}
+
+export class BiquadFilter {
+  private b0 = 1;
+  private b1 = 0;
+  private b2 = 0;
+  private a1 = 0;
+  private a2 = 0;
+  private x1 = 0;
+  private x2 = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  constructor(params: BiquadParams, sampleRate: number) {
+    this.setParams(params, sampleRate);
+  }
+
+  setParams(params: BiquadParams, sampleRate: number) {
+    const nyquist = sampleRate / 2;
+    const f0 = Math.max(0, Math.min(nyquist, params.frequency));
+    const w0 = (2 * Math.PI * f0) / sampleRate;
+    const cosW = Math.cos(w0);
+    const sinW = Math.sin(w0);
+    const A = Math.pow(10, params.gain / 40);
+
+    let b0: number, b1: number, b2: number, a0: number, a1: number, a2: number;
+
+    switch (params.type) {
+      case "lowpass": {
+        // Web Audio interprets Q for lowpass/highpass in dB.
+        const alpha = sinW / (2 * Math.pow(10, params.Q / 20));
+        b0 = (1 - cosW) / 2;
+        b1 = 1 - cosW;
+        b2 = (1 - cosW) / 2;
+        a0 = 1 + alpha;
+        a1 = -2 * cosW;
+        a2 = 1 - alpha;
+        break;
+      }
+      case "highpass": {
+        const alpha = sinW / (2 * Math.pow(10, params.Q / 20));
+        b0 = (1 + cosW) / 2;
+        b1 = -(1 + cosW);
+        b2 = (1 + cosW) / 2;
+        a0 = 1 + alpha;
+        a1 = -2 * cosW;
+        a2 = 1 - alpha;
+        break;
+      }
+      case "notch": {
+        const alpha = sinW / (2 * Math.max(params.Q, 1e-4));
+        b0 = 1;
+        b1 = -2 * cosW;
+        b2 = 1;
+        a0 = 1 + alpha;
+        a1 = -2 * cosW;
+        a2 = 1 - alpha;
+        break;
+      }
+      case "peaking": {
+        const alpha = sinW / (2 * Math.max(params.Q, 1e-4));
+        b0 = 1 + alpha * A;
+        b1 = -2 * cosW;
+        b2 = 1 - alpha * A;
+        a0 = 1 + alpha / A;
+        a1 = -2 * cosW;
+        a2 = 1 - alpha / A;
+        break;
+      }
+      case "lowshelf": {
+        // Shelf slope S = 1, as in the Web Audio spec.
+        const alpha = (sinW / 2) * Math.SQRT2;
+        const k = 2 * Math.sqrt(A) * alpha;
+        b0 = A * (A + 1 - (A - 1) * cosW + k);
+        b1 = 2 * A * (A - 1 - (A + 1) * cosW);
+        b2 = A * (A + 1 - (A - 1) * cosW - k);
+        a0 = A + 1 + (A - 1) * cosW + k;
+        a1 = -2 * (A - 1 + (A + 1) * cosW);
+        a2 = A + 1 + (A - 1) * cosW - k;
+        break;
+      }
+      case "highshelf": {
+        const alpha = (sinW / 2) * Math.SQRT2;
+        const k = 2 * Math.sqrt(A) * alpha;
+        b0 = A * (A + 1 + (A - 1) * cosW + k);
+        b1 = -2 * A * (A - 1 + (A + 1) * cosW);
+        b2 = A * (A + 1 + (A - 1) * cosW - k);
+        a0 = A + 1 - (A - 1) * cosW + k;
+        a1 = 2 * (A - 1 - (A + 1) * cosW);
+        a2 = A + 1 - (A - 1) * cosW - k;
+        break;
+      }
+    }
+
+    this.b0 = b0 / a0;
+    this.b1 = b1 / a0;
+    this.b2 = b2 / a0;
+    this.a1 = a1 / a0;
+    this.a2 = a2 / a0;
+  }
+
+  // Filters `buf` in place (direct form I; state carries across calls).
+  process(buf: Float32Array) {
+    let { x1, x2, y1, y2 } = this;
+    const { b0, b1, b2, a1, a2 } = this;
+    for (let i = 0; i < buf.length; i++) {
+      const x = buf[i];
+      const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+      x2 = x1;
+      x1 = x;
+      y2 = y1;
+      y1 = y;
+      buf[i] = y;
+    }
+    this.x1 = x1;
+    this.x2 = x2;
+    this.y1 = y1;
+    this.y2 = y2;
+  }
+}
@@ -0,0 +1,60 @@
+// Approximation of the Web Audio DynamicsCompressorNode used as the volume normalizer.
+// Keeps the parts that shape the result audibly: the knee above threshold, attack/release
+// smoothing of the gain reduction, the 6ms look-ahead and the automatic makeup gain.
+
+export interface CompressorParams {
+  threshold: number; // dB
+  knee: number; // dB
+  ratio: number;
+  attack: number; // seconds
+  release: number; // seconds
+}
+
+const PRE_DELAY_SEC = 0.006;
+
+export class Compressor {
+  private attackCoef: number;
+  private releaseCoef: number;
+  private makeupDb: number;
+  private reductionDb = 0;
+  private delay: Float32Array;
+  private delayPos = 0;
+
+  constructor(private params: CompressorParams, sampleRate: number) {
+    this.attackCoef = Math.exp(-1 / (Math.max(params.attack, 1e-4) * sampleRate));
+    this.releaseCoef = Math.exp(-1 / (Math.max(params.release, 1e-4) * sampleRate));
+    // Web Audio makeup: (1 / curve(0dBFS))^0.6, applied as a fixed post-gain.
+    this.makeupDb = -0.6 * this.curveDb(0);
+    this.delay = new Float32Array(Math.max(1, Math.round(PRE_DELAY_SEC * sampleRate)));
+  }
+
+  // Static input -> output level curve in dB (knee spans threshold .. threshold + knee).
+  private curveDb(x: number): number {
+    const { threshold: t, knee: k } = this.params;
+    const slope = 1 / Math.max(1, this.params.ratio);
+    if (x <= t) return x;
+    if (k > 0 && x < t + k) {
+      const d = x - t;
+      return x + ((slope - 1) * d * d) / (2 * k);
+    }
+    const kneeEnd = t + k + ((slope - 1) * k) / 2;
+    return kneeEnd + (x - t - k) * slope;
+  }
+
+  process(buf: Float32Array) {
+    const makeup = Math.pow(10, this.makeupDb / 20);
+    for (let i = 0; i < buf.length; i++) {
+      const x = buf[i];
+      const levelDb = 20 * Math.log10(Math.max(1e-8, Math.abs(x)));
+      const targetDb = levelDb - this.curveDb(levelDb);
+      const coef = targetDb > this.reductionDb ? this.attackCoef : this.releaseCoef;
+      this.reductionDb = targetDb + (this.reductionDb - targetDb) * coef;
+
+      const delayed = this.delay[this.delayPos];
+      this.delay[this.delayPos] = x;
+      this.delayPos = (this.delayPos + 1) % this.delay.length;
+
+      buf[i] = delayed * Math.pow(10, -this.reductionDb / 20) * makeup;
+    }
+  }
+}
@@ -0,0 +1,142 @@
+// Port of client/public/de-esser-processor.js (split-band de-esser and plosive suppressor).
+// Works sample by sample, so the result doesn't depend on how the signal is split into blocks.
+
+export interface DeEsserParams {
+  deEsserEnabled: boolean;
+  deEsserThresholdDb: number;
+  deEsserMaxReductionDb: number;
+  plosiveEnabled: boolean;
+  // Low-band level (dBFS) a burst must pass to be treated as a pop
+  plosiveThresholdDb: number;
+}
+
+// Sibilance sidechain: a band-pass spanning 4-9 kHz
+export const SIBILANCE_LOW_HZ = 4000;
+export const SIBILANCE_HIGH_HZ = 9000;
+const DE_ESSER_RATIO = 4;
+// Pops live below the voice's fundamental
+export const PLOSIVE_CUTOFF_HZ = 150;
+export const PLOSIVE_MAX_REDUCTION_DB = 18;
+// Share of the full-band level the low band must carry: voiced speech stays under it, pops don't
+const PLOSIVE_DOMINANCE = 0.6;
+const DETECTOR_ATTACK_MS = 0.5;
+const DETECTOR_RELEASE_MS = 60;
+const GAIN_ATTACK_MS = 1;
+const GAIN_RELEASE_MS = 80;
+
+interface Band {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+  x1: number;
+  x2: number;
+  y1: number;
+  y2: number;
+}
+
+function makeBand(type: "bandpass" | "lowpass", frequency: number, Q: number, sampleRate: number): Band {
+  // Keep the centre under Nyquist at narrowband rates (e.g. 8-16 kHz telephony captures)
+  const w0 = (2 * Math.PI * Math.min(frequency, sampleRate * 0.45)) / sampleRate;
+  const cosW = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * Q);
+  const a0 = 1 + alpha;
+  const b =
+    type === "bandpass"
+      ? [alpha, 0, -alpha]
+      : [(1 - cosW) / 2, 1 - cosW, (1 - cosW) / 2];
+  return {
+    b0: b[0] / a0,
+    b1: b[1] / a0,
+    b2: b[2] / a0,
+    a1: (-2 * cosW) / a0,
+    a2: (1 - alpha) / a0,
+    x1: 0,
+    x2: 0,
+    y1: 0,
+    y2: 0,
+  };
+}
+
+function runBand(f: Band, x: number): number {
+  const y = f.b0 * x + f.b1 * f.x1 + f.b2 * f.x2 - f.a1 * f.y1 - f.a2 * f.y2;
+  f.x2 = f.x1;
+  f.x1 = x;
+  f.y2 = f.y1;
+  f.y1 = y;
+  return y;
+}
+
+const toDb = (x: number) => 20 * Math.log10(Math.max(x, 1e-9));
+
+/**
+ * Both stages cut their band subtractively (out = x - (1 - gain) * band), so with nothing to
+ * catch the signal passes through untouched.
+ */
+export class DeEsser {
+  private sibilance: Band;
+  private lowBand: Band;
+  private sibilanceEnv = 0;
+  private lowEnv = 0;
+  private fullEnv = 0;
+  private sibilanceGain = 1;
+  private plosiveGain = 1;
+  private detectorAttack: number;
+  private detectorRelease: number;
+  private gainAttack: number;
+  private gainRelease: number;
+
+  constructor(private params: DeEsserParams, sampleRate: number) {
+    const center = Math.sqrt(SIBILANCE_LOW_HZ * SIBILANCE_HIGH_HZ);
+    this.sibilance = makeBand("bandpass", center, center / (SIBILANCE_HIGH_HZ - SIBILANCE_LOW_HZ), sampleRate);
+    this.lowBand = makeBand("lowpass", PLOSIVE_CUTOFF_HZ, Math.SQRT1_2, sampleRate);
+    const coef = (ms: number) => Math.exp(-1 / ((ms / 1000) * sampleRate));
+    this.detectorAttack = coef(DETECTOR_ATTACK_MS);
+    this.detectorRelease = coef(DETECTOR_RELEASE_MS);
+    this.gainAttack = coef(GAIN_ATTACK_MS);
+    this.gainRelease = coef(GAIN_RELEASE_MS);
+  }
+
+  private follow(env: number, x: number): number {
+    const level = Math.abs(x);
+    return level + (env - level) * (level > env ? this.detectorAttack : this.detectorRelease);
+  }
+
+  private smooth(gain: number, target: number): number {
+    return target + (gain - target) * (target < gain ? this.gainAttack : this.gainRelease);
+  }
+
+  processSample(x: number): number {
+    const p = this.params;
+    const sibilant = runBand(this.sibilance, x);
+    const low = runBand(this.lowBand, x);
+    this.sibilanceEnv = this.follow(this.sibilanceEnv, sibilant);
+    this.lowEnv = this.follow(this.lowEnv, low);
+    this.fullEnv = this.follow(this.fullEnv, x);
+
+    let sibilanceTarget = 1;
+    if (p.deEsserEnabled) {
+      const over = toDb(this.sibilanceEnv) - p.deEsserThresholdDb;
+      if (over > 0) {
+        const reductionDb = Math.min(p.deEsserMaxReductionDb, over * (1 - 1 / DE_ESSER_RATIO));
+        sibilanceTarget = Math.pow(10, -reductionDb / 20);
+      }
+    }
+
+    let plosiveTarget = 1;
+    if (p.plosiveEnabled && this.lowEnv > this.fullEnv * PLOSIVE_DOMINANCE) {
+      const over = toDb(this.lowEnv) - p.plosiveThresholdDb;
+      if (over > 0) plosiveTarget = Math.pow(10, -Math.min(PLOSIVE_MAX_REDUCTION_DB, over * 1.5) / 20);
+    }
+
+    this.sibilanceGain = this.smooth(this.sibilanceGain, sibilanceTarget);
+    this.plosiveGain = this.smooth(this.plosiveGain, plosiveTarget);
+    return x - (1 - this.sibilanceGain) * sibilant - (1 - this.plosiveGain) * low;
+  }
+
+  process(buf: Float32Array) {
+    if (!this.params.deEsserEnabled && !this.params.plosiveEnabled) return;
+    for (let i = 0; i < buf.length; i++) buf[i] = this.processSample(buf[i]);
+  }
+}
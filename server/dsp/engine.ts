@@ -0,0 +1,238 @@
+import type { AudioSettings, AccentVoicing } from "@shared/schema";
+import { accentFormantBands, audioSettingsSchema, resolveAccentPreset } from "@shared/schema";
+import { BiquadFilter, type BiquadParams } from "./biquad";
+import { NoiseGate, defaultNoiseGateParams, type NoiseGateParams } from "./noise-gate";
+import { SpectralSuppressor, type SpectralSuppressorParams } from "./spectral-suppressor";
+import { PitchShifter } from "./pitch-shifter";
+import { Compressor, type CompressorParams } from "./compressor";
+import { TruePeakLimiter, type LimiterParams } from "./limiter";
+import { LoudnessAgc, type AgcParams } from "./agc";
+import { DeEsser, type DeEsserParams } from "./de-esser";
+
+// Web Audio render quantum; block-based stages (gate, suppressor, pitch) must use the same size.
+const RENDER_QUANTUM = 128;
+
+// Every parameter of the browser graph after settings are applied.
+export interface ChainParams {
+  inputGain: number;
+  highPass: BiquadParams;
+  notch: BiquadParams;
+  lowPass: BiquadParams;
+  noiseStage: "gate" | "spectral";
+  noiseGate: NoiseGateParams;
+  spectral: SpectralSuppressorParams;
+  accentResonance: BiquadParams;
+  accentHighPass: BiquadParams;
+  accentLowPass: BiquadParams;
+  pitchRatio: number;
+  voiceBody: BiquadParams;
+  formant1: BiquadParams;
+  formant2: BiquadParams;
+  formant3: BiquadParams;
+  deEsser: DeEsserParams;
+  clarity: BiquadParams;
+  eq: BiquadParams[];
+  agc: AgcParams;
+  normalizer: CompressorParams;
+  makeupGain: number;
+  outputGain: number;
+  limiter: LimiterParams;
+}
+
+// Mirrors useAudioProcessor: node defaults from initialize(), then applyNoiseReductionSettings,
+// applyAccentSettings, applyEnhancementSettings and applyEqSettings in that order (accent may override HP/LP).
+// `accent` is the organization's preset for settings.accentPreset; the built-in is used without one.
+export function deriveChainParams(
+  settings: AudioSettings,
+  accent: AccentVoicing = resolveAccentPreset([], settings.accentPreset),
+): ChainParams {
+  const p: ChainParams = {
+    inputGain: settings.inputGain / 100,
+    highPass: { type: "highpass", frequency: 80, Q: 0.7, gain: 0 },
+    notch: { type: "notch", frequency: 60, Q: 30, gain: 0 },
+    lowPass: { type: "lowpass", frequency: 8000, Q: 0.7, gain: 0 },
+    noiseStage: "gate",
+    noiseGate: { ...defaultNoiseGateParams },
+    spectral: { enabled: false, overSubtraction: 1.5, floorDb: -18 },
+    accentResonance: { type: "peaking", frequency: 1800, Q: 0.7, gain: 0 },
+    accentHighPass: { type: "highpass", frequency: 20, Q: 0.7, gain: 0 },
+    accentLowPass: { type: "lowpass", frequency: 20000, Q: 0.7, gain: 0 },
+    pitchRatio: 1.0,
+    voiceBody: { type: "lowshelf", frequency: 300, Q: 1, gain: 0 },
+    formant1: { type: "peaking", frequency: 500, Q: 2, gain: 0 },
+    formant2: { type: "peaking", frequency: 1500, Q: 2, gain: 0 },
+    formant3: { type: "peaking", frequency: 2800, Q: 2, gain: 0 },
+    deEsser: {
+      deEsserEnabled: settings.deEsserEnabled,
+      deEsserThresholdDb: settings.deEsserThreshold,
+      deEsserMaxReductionDb: settings.deEsserReduction,
+      plosiveEnabled: settings.plosiveSuppressionEnabled,
+      // Sensitivity 0-100 maps to a -12 to -48 dBFS low-band threshold
+      plosiveThresholdDb: -12 - settings.plosiveSensitivity * 0.36,
+    },
+    clarity: { type: "peaking", frequency: 4000, Q: 1.5, gain: 0 },
+    eq: settings.eqBands.map(band => ({ ...band })),
+    agc: {
+      enabled: settings.agcEnabled,
+      targetLufs: settings.agcTargetLufs,
+      maxGainDb: settings.agcMaxGain,
+      gateLufs: settings.agcGateLufs,
+    },
+    normalizer: { threshold: -24, knee: 30, ratio: 4, attack: 0.003, release: 0.25 },
+    makeupGain: 1,
+    outputGain: settings.outputGain / 100,
+    limiter: { enabled: settings.limiterEnabled, ceilingDb: settings.limiterCeiling },
+  };
+
+  // === Noise reduction ===
+  const useSpectral = Boolean(settings.noiseReductionEnabled && settings.spectralSuppressionEnabled);
+  p.noiseStage = useSpectral ? "spectral" : "gate";
+  if (settings.noiseReductionEnabled) {
+    const intensity = settings.noiseReductionLevel / 100;
+    p.highPass.frequency = 60 + intensity * 60;
+    p.lowPass.frequency = 16000 - intensity * 4000;
+    p.spectral = {
+      enabled: useSpectral,
+      overSubtraction: 1 + intensity * 3,
+      floorDb: -10 - intensity * 20,
+    };
+    if (!useSpectral) {
+      p.noiseGate = {
+        enabled: true,
+        thresholdDb: -68 + intensity * 12,
+        ratio: 1.6 + intensity * 1.8,
+        kneeDb: 10 + intensity * 6,
+        reductionDb: 6 + intensity * 18,
+        attackMs: 6 + intensity * 8,
+        releaseMs: 160 + intensity * 200,
+      };
+    }
+    p.notch.Q = 30;
+  } else {
+    p.highPass.frequency = 20;
+    p.lowPass.frequency = 20000;
+    p.noiseGate.enabled = false;
+    p.notch.Q = 0.01;
+  }
+
+  // === Accent / voice modification ===
+  if (settings.accentModifierEnabled) {
+    const formantShift = settings.formantShift !== undefined ? settings.formantShift : accent.formantShift;
+    const pitchShift = settings.pitchShift !== undefined ? settings.pitchShift : accent.pitchShift;
+
+    p.accentHighPass.frequency = Math.max(20, Math.min(300, accent.highPassFreq));
+    p.accentLowPass.frequency = Math.max(4000, Math.min(20000, accent.lowPassFreq));
+    p.accentResonance.Q = Math.max(0.2, Math.min(6, accent.resonanceQ));
+    p.accentResonance.gain = Math.max(-6, Math.min(6, (formantShift / 15) * 4));
+
+    const effectivePitchShift = settings.pitchShiftEnabled ? pitchShift : 0;
+    p.pitchRatio = Math.pow(2, effectivePitchShift / 12);
+
+    const bands = accentFormantBands(accent, formantShift);
+    p.formant1 = { ...bands.f1 };
+    p.formant2 = { ...bands.f2 };
+    p.formant3 = { ...bands.f3 };
+
+    if (formantShift < 0) {
+      const intensity = Math.abs(formantShift) / 50;
+      p.voiceBody = { ...p.voiceBody, type: "lowshelf", frequency: 300, gain: intensity * 12 };
+      p.lowPass.frequency = 4000 + (1 - intensity) * 4000;
+      p.highPass.frequency = 50;
+    } else if (formantShift > 0) {
+      const intensity = formantShift / 50;
+      p.voiceBody = { ...p.voiceBody, type: "highpass", frequency: 200 + intensity * 200, gain: 0 };
+      p.lowPass.frequency = 12000;
+      p.highPass.frequency = 100 + intensity * 150;
+    } else {
+      p.voiceBody = { ...p.voiceBody, type: "lowshelf", frequency: 250, gain: 0 };
+    }
+  } else {
+    p.formant1 = { ...p.formant1, type: "peaking", gain: 0, Q: 1 };
+    p.formant2 = { ...p.formant2, type: "peaking", gain: 0, Q: 1 };
+    p.formant3 = { ...p.formant3, type: "peaking", gain: 0, Q: 1 };
+    p.voiceBody = { ...p.voiceBody, type: "lowshelf", gain: 0 };
+  }
+
+  // === Enhancement ===
+  p.clarity.gain = ((settings.clarityBoost || 0) / 100) * 6;
+  if (settings.volumeNormalization) {
+    p.normalizer = {
+      threshold: settings.compressorThreshold,
+      knee: settings.compressorKnee,
+      ratio: settings.compressorRatio,
+      attack: settings.compressorAttack / 1000,
+      release: settings.compressorRelease / 1000,
+    };
+    p.makeupGain = Math.pow(10, settings.compressorMakeupGain / 20);
+  } else {
+    p.normalizer = { ...p.normalizer, threshold: 0, ratio: 1 };
+  }
+
+  return p;
+}
+
+function runBlocks(
+  buf: Float32Array,
+  processBlock: (input: Float32Array, output: Float32Array) => void,
+) {
+  const input = new Float32Array(RENDER_QUANTUM);
+  const output = new Float32Array(RENDER_QUANTUM);
+  for (let start = 0; start < buf.length; start += RENDER_QUANTUM) {
+    const len = Math.min(RENDER_QUANTUM, buf.length - start);
+    input.fill(0);
+    input.set(buf.subarray(start, start + len));
+    processBlock(input, output);
+    buf.set(output.subarray(0, len), start);
+  }
+}
+
+// Renders mono PCM through the same chain the browser builds in useAudioProcessor:
+// Input Gain -> HP -> Notch -> LP -> Noise Gate | Spectral Suppressor -> Accent EQ ->
+// Pitch Shifter -> Voice Body -> F1 -> F2 -> F3 -> De-esser -> Clarity -> EQ bands -> Loudness AGC ->
+// Normalizer -> Makeup Gain -> Output Gain -> True-Peak Limiter
+export function processAudio(
+  samples: Float32Array,
+  sampleRate: number,
+  settings: Partial<AudioSettings>,
+  accent?: AccentVoicing,
+): Float32Array {
+  const p = deriveChainParams(audioSettingsSchema.parse(settings), accent);
+  const buf = Float32Array.from(samples);
+
+  for (let i = 0; i < buf.length; i++) buf[i] *= p.inputGain;
+
+  new BiquadFilter(p.highPass, sampleRate).process(buf);
+  new BiquadFilter(p.notch, sampleRate).process(buf);
+  new BiquadFilter(p.lowPass, sampleRate).process(buf);
+
+  if (p.noiseStage === "spectral") {
+    const suppressor = new SpectralSuppressor(p.spectral);
+    runBlocks(buf, (input, output) => suppressor.processBlock(input, output));
+  } else {
+    const gate = new NoiseGate(p.noiseGate, sampleRate);
+    runBlocks(buf, (input, output) => gate.processBlock(input, output));
+  }
+
+  new BiquadFilter(p.accentResonance, sampleRate).process(buf);
+  new BiquadFilter(p.accentHighPass, sampleRate).process(buf);
+  new BiquadFilter(p.accentLowPass, sampleRate).process(buf);
+
+  const pitchShifter = new PitchShifter(p.pitchRatio);
+  runBlocks(buf, (input, output) => pitchShifter.processBlock(input, output));
+
+  new BiquadFilter(p.voiceBody, sampleRate).process(buf);
+  new BiquadFilter(p.formant1, sampleRate).process(buf);
+  new BiquadFilter(p.formant2, sampleRate).process(buf);
+  new BiquadFilter(p.formant3, sampleRate).process(buf);
+  new DeEsser(p.deEsser, sampleRate).process(buf);
+  new BiquadFilter(p.clarity, sampleRate).process(buf);
+  p.eq.forEach(band => new BiquadFilter(band, sampleRate).process(buf));
+  new LoudnessAgc(p.agc, sampleRate).process(buf);
+  new Compressor(p.normalizer, sampleRate).process(buf);
+
+  for (let i = 0; i < buf.length; i++) buf[i] *= p.makeupGain * p.outputGain;
+
+  new TruePeakLimiter(p.limiter, sampleRate).process(buf);
+
+  return buf;
+}
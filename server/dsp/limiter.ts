@@ -0,0 +1,91 @@
+// Port of client/public/true-peak-limiter-processor.js (brickwall true-peak limiter).
+// Works sample by sample, so the result doesn't depend on how the signal is split into blocks.
+
+export interface LimiterParams {
+  enabled: boolean;
+  ceilingDb: number; // dBTP
+}
+
+export const LIMITER_LOOKAHEAD_MS = 1.5;
+export const LIMITER_RELEASE_MS = 50;
+const OVERSAMPLE_POINTS = [0.25, 0.5, 0.75];
+
+// Catmull-Rom through p0..p3, evaluated between p1 and p2 at 1/4, 1/2 and 3/4: a 4x oversampled
+// estimate of the peak the DAC will reconstruct between two samples.
+function interSamplePeak(p0: number, p1: number, p2: number, p3: number): number {
+  let peak = 0;
+  for (const t of OVERSAMPLE_POINTS) {
+    const t2 = t * t;
+    const v = 0.5 * (2 * p1 + (p2 - p0) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2 + (3 * p1 - p0 - 3 * p2 + p3) * t2 * t);
+    peak = Math.max(peak, Math.abs(v));
+  }
+  return peak;
+}
+
+/**
+ * The gain each sample needs is held for the look-ahead (plus the two samples the inter-sample
+ * estimate spans), released exponentially and smoothed with a box filter as long as the look-ahead.
+ * Delaying the audio by look-ahead + 1 samples lines the fully reduced gain up with the peak.
+ */
+export class TruePeakLimiter {
+  private ceiling: number;
+  private releaseCoef: number;
+  private boxLength: number;
+  private required: Float32Array;
+  private requiredPos = 0;
+  private box: Float32Array;
+  private boxPos = 0;
+  private boxSum: number;
+  private delay: Float32Array;
+  private delayPos = 0;
+  // The three previous input samples, oldest first
+  private x3 = 0;
+  private x2 = 0;
+  private x1 = 0;
+  private gain = 1;
+
+  constructor(private params: LimiterParams, sampleRate: number) {
+    this.ceiling = Math.pow(10, params.ceilingDb / 20);
+    this.releaseCoef = Math.exp(-1 / ((LIMITER_RELEASE_MS / 1000) * sampleRate));
+    this.boxLength = Math.max(1, Math.round((LIMITER_LOOKAHEAD_MS / 1000) * sampleRate));
+    this.required = new Float32Array(this.boxLength + 2).fill(1);
+    this.box = new Float32Array(this.boxLength).fill(1);
+    this.boxSum = this.boxLength;
+    this.delay = new Float32Array(this.boxLength + 1);
+  }
+
+  // Gain for the sample leaving the delay line now, given the sample `x` entering it
+  nextGain(x: number): number {
+    const peak = Math.max(Math.abs(x), interSamplePeak(this.x3, this.x2, this.x1, x));
+    this.x3 = this.x2;
+    this.x2 = this.x1;
+    this.x1 = x;
+
+    this.required[this.requiredPos] = peak > this.ceiling ? this.ceiling / peak : 1;
+    this.requiredPos = (this.requiredPos + 1) % this.required.length;
+    let held = 1;
+    for (let i = 0; i < this.required.length; i++) held = Math.min(held, this.required[i]);
+
+    // Drops straight to the held gain, recovers towards unity with the release time
+    this.gain = Math.min(held, 1 - (1 - this.gain) * this.releaseCoef);
+
+    this.boxSum += this.gain - this.box[this.boxPos];
+    this.box[this.boxPos] = this.gain;
+    this.boxPos = (this.boxPos + 1) % this.boxLength;
+    // Re-add from scratch once per lap so rounding errors can't accumulate
+    if (this.boxPos === 0) this.boxSum = this.box.reduce((sum, g) => sum + g, 0);
+    return this.boxSum / this.boxLength;
+  }
+
+  process(buf: Float32Array) {
+    if (!this.params.enabled) return;
+    for (let i = 0; i < buf.length; i++) {
+      const gain = this.nextGain(buf[i]);
+      const delayed = this.delay[this.delayPos];
+      this.delay[this.delayPos] = buf[i];
+      this.delayPos = (this.delayPos + 1) % this.delay.length;
+      // The gain already keeps reconstructed peaks under the ceiling; the clamp only catches rounding
+      buf[i] = Math.max(-this.ceiling, Math.min(this.ceiling, delayed * gain));
+    }
+  }
+}
@@ -0,0 +1,66 @@
+// Port of client/public/noise-gate-processor.js (soft downward expander).
+// Runs on 128-sample render quanta so the per-block envelope matches the AudioWorklet.
+
+export interface NoiseGateParams {
+  enabled: boolean;
+  thresholdDb: number;
+  kneeDb: number;
+  ratio: number;
+  reductionDb: number;
+  attackMs: number;
+  releaseMs: number;
+}
+
+export const defaultNoiseGateParams: NoiseGateParams = {
+  enabled: false,
+  thresholdDb: -55,
+  kneeDb: 10,
+  ratio: 2.0,
+  reductionDb: 12,
+  attackMs: 10,
+  releaseMs: 200,
+};
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+const clamp = (x: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, x));
+
+export class NoiseGate {
+  private currentGain = 1.0;
+
+  constructor(private params: NoiseGateParams, private sampleRate: number) {}
+
+  processBlock(input: Float32Array, output: Float32Array) {
+    const p = this.params;
+    const blockSize = input.length;
+
+    let sumSq = 0;
+    for (let i = 0; i < blockSize; i++) sumSq += input[i] * input[i];
+    const rms = blockSize > 0 ? Math.sqrt(sumSq / blockSize) : 0;
+    const rmsDb = 20 * Math.log10(Math.max(1e-8, rms));
+
+    const maxReductionDb = Math.abs(p.reductionDb);
+    const knee = Math.max(0, p.kneeDb);
+    const ratio = clamp(p.ratio, 1.0, 8.0);
+
+    let gainDb = 0;
+    if (p.enabled) {
+      const delta = p.thresholdDb - rmsDb;
+      if (delta > 0) {
+        const k = knee > 0 ? clamp(delta / knee, 0, 1) : 1;
+        const kneeScale = knee > 0 ? k * k : 1;
+        gainDb = -Math.min(maxReductionDb, delta * kneeScale * (ratio - 1));
+      }
+    }
+
+    const targetGain = dbToGain(gainDb);
+    const attackSec = Math.max(0.001, p.attackMs / 1000);
+    const releaseSec = Math.max(0.005, p.releaseMs / 1000);
+    const timeConst = targetGain < this.currentGain ? attackSec : releaseSec;
+    const coef = Math.exp(-blockSize / (this.sampleRate * timeConst));
+    this.currentGain = targetGain + (this.currentGain - targetGain) * coef;
+
+    for (let i = 0; i < blockSize; i++) {
+      output[i] = input[i] * this.currentGain;
+    }
+  }
+}
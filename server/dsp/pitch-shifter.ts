@@ -0,0 +1,119 @@
+// Port of client/public/pitch-shifter-processor.js (granular overlap-add pitch shifter).
+// The target ratio is smoothed per 128-sample block, exactly like the AudioWorklet.
+
+const GRAIN_SIZE = 1024;
+const HOP_SIZE = 256;
+const BUF_SIZE = 16384;
+
+export class PitchShifter {
+  private pitchRatio = 1.0;
+  private targetPitchRatio: number;
+
+  private inputRing = new Float32Array(BUF_SIZE);
+  private inputWritePos = 0;
+  private inputReadPos = 0;
+  private inputAvailable = 0;
+
+  private outputRing = new Float32Array(BUF_SIZE);
+  private outputReadPos = 0;
+  private grainWritePos = 0;
+  private outputFrontier = 0;
+
+  private window = new Float32Array(GRAIN_SIZE);
+  private windowSum = new Float32Array(BUF_SIZE);
+
+  constructor(pitchRatio: number) {
+    this.targetPitchRatio = Math.max(0.5, Math.min(2.0, pitchRatio));
+    for (let i = 0; i < GRAIN_SIZE; i++) {
+      this.window[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (GRAIN_SIZE - 1)));
+    }
+  }
+
+  private ringDist(writePos: number, readPos: number) {
+    return (writePos - readPos + BUF_SIZE) % BUF_SIZE;
+  }
+
+  processBlock(input: Float32Array, output: Float32Array) {
+    const blockSize = input.length;
+
+    this.pitchRatio += (this.targetPitchRatio - this.pitchRatio) * 0.05;
+    if (Math.abs(this.pitchRatio - this.targetPitchRatio) < 0.001) {
+      this.pitchRatio = this.targetPitchRatio;
+    }
+
+    if (Math.abs(this.pitchRatio - 1.0) < 0.01) {
+      output.set(input);
+      this.inputAvailable = 0;
+      return;
+    }
+
+    for (let i = 0; i < blockSize; i++) {
+      this.inputRing[this.inputWritePos] = input[i];
+      this.inputWritePos = (this.inputWritePos + 1) % BUF_SIZE;
+      this.inputAvailable++;
+    }
+
+    if (this.inputAvailable > BUF_SIZE - GRAIN_SIZE * 2) {
+      const excess = this.inputAvailable - (BUF_SIZE - GRAIN_SIZE * 2);
+      this.inputReadPos = (this.inputReadPos + excess) % BUF_SIZE;
+      this.inputAvailable -= excess;
+    }
+
+    while (this.inputAvailable >= GRAIN_SIZE) {
+      this.synthesizeGrain();
+    }
+
+    const outputAvailable = this.ringDist(this.outputFrontier, this.outputReadPos);
+    for (let i = 0; i < blockSize; i++) {
+      if (i < outputAvailable) {
+        let sample = this.outputRing[this.outputReadPos];
+        const norm = this.windowSum[this.outputReadPos];
+        if (norm > 0.001) sample /= norm;
+        output[i] = sample;
+        this.outputRing[this.outputReadPos] = 0;
+        this.windowSum[this.outputReadPos] = 0;
+        this.outputReadPos = (this.outputReadPos + 1) % BUF_SIZE;
+      } else {
+        output[i] = 0;
+      }
+    }
+  }
+
+  private synthesizeGrain() {
+    const ratio = this.pitchRatio;
+    const inputSpan = Math.min(Math.round(GRAIN_SIZE * ratio), this.inputAvailable);
+    const inputHop = Math.max(1, Math.round(HOP_SIZE * ratio));
+    if (inputSpan < 2) {
+      this.inputReadPos = (this.inputReadPos + inputHop) % BUF_SIZE;
+      this.inputAvailable = Math.max(0, this.inputAvailable - inputHop);
+      return;
+    }
+
+    for (let i = 0; i < GRAIN_SIZE; i++) {
+      const srcPos = (i / (GRAIN_SIZE - 1)) * (inputSpan - 1);
+      const srcFloor = Math.floor(srcPos);
+      const frac = srcPos - srcFloor;
+
+      const idx0 = (this.inputReadPos + srcFloor) % BUF_SIZE;
+      const idx1 = (this.inputReadPos + Math.min(srcFloor + 1, inputSpan - 1)) % BUF_SIZE;
+      const s0 = this.inputRing[idx0];
+      const s1 = this.inputRing[idx1];
+      const sample = (s0 + frac * (s1 - s0)) * this.window[i];
+
+      const outIdx = (this.grainWritePos + i) % BUF_SIZE;
+      this.outputRing[outIdx] += sample;
+      this.windowSum[outIdx] += this.window[i];
+    }
+
+    const grainEnd = (this.grainWritePos + GRAIN_SIZE) % BUF_SIZE;
+    const currentFrontierDist = this.ringDist(this.outputFrontier, this.outputReadPos);
+    const newEndDist = this.ringDist(grainEnd, this.outputReadPos);
+    if (newEndDist > currentFrontierDist) {
+      this.outputFrontier = grainEnd;
+    }
+
+    this.grainWritePos = (this.grainWritePos + HOP_SIZE) % BUF_SIZE;
+    this.inputReadPos = (this.inputReadPos + inputHop) % BUF_SIZE;
+    this.inputAvailable = Math.max(0, this.inputAvailable - inputHop);
+  }
+}
@@ -0,0 +1,223 @@
+// Port of client/public/spectral-suppressor-processor.js (STFT Wiener suppression).
+// Same frame/hop sizes and noise-floor learning, so output (and its 384-sample delay) match.
+
+export interface SpectralSuppressorParams {
+  enabled: boolean;
+  overSubtraction: number;
+  floorDb: number;
+}
+
+const FFT_SIZE = 512;
+const HOP_SIZE = 256;
+const NUM_BINS = FFT_SIZE / 2 + 1;
+const NOISE_ALPHA = 0.92;
+const DD_ALPHA = 0.98;
+const WARMUP_FRAMES = 20;
+// Minimum statistics (see the worklet): smoothed power, tracked over 8 sub-windows of 36 hops
+const PSD_ALPHA = 0.85;
+const MIN_SUBWINDOWS = 8;
+const MIN_SUBWINDOW_FRAMES = 36;
+const MIN_BIAS = 2.3;
+const QUEUE_LEN = 4096;
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+const clamp = (x: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, x));
+
+export class SpectralSuppressor {
+  private enabled: boolean;
+  private overSubtraction: number;
+  private floorGain: number;
+
+  private window = new Float32Array(FFT_SIZE);
+  private re = new Float32Array(FFT_SIZE);
+  private im = new Float32Array(FFT_SIZE);
+  private bitRev = new Uint16Array(FFT_SIZE);
+  private cosTable = new Float32Array(FFT_SIZE / 2);
+  private sinTable = new Float32Array(FFT_SIZE / 2);
+
+  private inBuf = new Float32Array(FFT_SIZE);
+  private inFill = FFT_SIZE - HOP_SIZE;
+  private olaBuf = new Float32Array(FFT_SIZE);
+  private outQueue = new Float32Array(QUEUE_LEN);
+  private outRead = 0;
+  private outWrite = 0;
+  private outAvailable = 0;
+
+  private noise = new Float32Array(NUM_BINS);
+  private prevGain = new Float32Array(NUM_BINS).fill(1);
+  private prevPostSnr = new Float32Array(NUM_BINS).fill(1);
+  private smoothedPower = new Float32Array(NUM_BINS);
+  private minCurrent = new Float32Array(NUM_BINS).fill(Infinity);
+  private minPast = new Float32Array(NUM_BINS).fill(Infinity);
+  private minHistory = new Float32Array(NUM_BINS * MIN_SUBWINDOWS).fill(Infinity);
+  private minFrame = 0;
+  private minSlot = 0;
+  private framesSeen = 0;
+
+  constructor(params: SpectralSuppressorParams) {
+    this.enabled = params.enabled;
+    this.overSubtraction = clamp(params.overSubtraction, 0.5, 6);
+    this.floorGain = dbToGain(clamp(params.floorDb, -60, 0));
+
+    for (let i = 0; i < FFT_SIZE; i++) {
+      this.window[i] = Math.sqrt(0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FFT_SIZE));
+    }
+    let bits = 0;
+    while ((1 << bits) < FFT_SIZE) bits++;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      let r = 0;
+      for (let b = 0; b < bits; b++) {
+        if (i & (1 << b)) r |= 1 << (bits - 1 - b);
+      }
+      this.bitRev[i] = r;
+    }
+    for (let i = 0; i < FFT_SIZE / 2; i++) {
+      this.cosTable[i] = Math.cos((2 * Math.PI * i) / FFT_SIZE);
+      this.sinTable[i] = Math.sin((2 * Math.PI * i) / FFT_SIZE);
+    }
+  }
+
+  private fft(re: Float32Array, im: Float32Array, inverse: boolean) {
+    const n = FFT_SIZE;
+    for (let i = 0; i < n; i++) {
+      const j = this.bitRev[i];
+      if (j > i) {
+        let t = re[i]; re[i] = re[j]; re[j] = t;
+        t = im[i]; im[i] = im[j]; im[j] = t;
+      }
+    }
+    const sign = inverse ? 1 : -1;
+    for (let size = 2; size <= n; size <<= 1) {
+      const half = size >> 1;
+      const step = n / size;
+      for (let start = 0; start < n; start += size) {
+        for (let k = 0; k < half; k++) {
+          const wr = this.cosTable[k * step];
+          const wi = sign * this.sinTable[k * step];
+          const a = start + k;
+          const b = a + half;
+          const tr = re[b] * wr - im[b] * wi;
+          const ti = re[b] * wi + im[b] * wr;
+          re[b] = re[a] - tr;
+          im[b] = im[a] - ti;
+          re[a] += tr;
+          im[a] += ti;
+        }
+      }
+    }
+  }
+
+  // Close the current sub-window: it replaces the oldest one, and the past minimum is recomputed.
+  private rollMinimumWindow() {
+    this.minHistory.set(this.minCurrent, this.minSlot * NUM_BINS);
+    for (let k = 0; k < NUM_BINS; k++) {
+      let m = Infinity;
+      for (let w = 0; w < MIN_SUBWINDOWS; w++) {
+        const v = this.minHistory[w * NUM_BINS + k];
+        if (v < m) m = v;
+      }
+      this.minPast[k] = m;
+    }
+    this.minCurrent.fill(Infinity);
+    this.minSlot = (this.minSlot + 1) % MIN_SUBWINDOWS;
+    this.minFrame = 0;
+  }
+
+  private processFrame() {
+    const n = FFT_SIZE;
+    const { re, im } = this;
+    for (let i = 0; i < n; i++) {
+      re[i] = this.inBuf[i] * this.window[i];
+      im[i] = 0;
+    }
+    this.fft(re, im, false);
+
+    const warmingUp = this.framesSeen < WARMUP_FRAMES;
+    let snrSum = 0;
+    for (let k = 0; k < NUM_BINS; k++) {
+      const p = re[k] * re[k] + im[k] * im[k];
+      const nz = this.noise[k];
+      snrSum += nz > 1e-12 ? p / nz : 1;
+    }
+    const isPause = warmingUp || snrSum / NUM_BINS < 2.5;
+
+    for (let k = 0; k < NUM_BINS; k++) {
+      const p = re[k] * re[k] + im[k] * im[k];
+      const smoothed = this.framesSeen === 0 ? p : PSD_ALPHA * this.smoothedPower[k] + (1 - PSD_ALPHA) * p;
+      this.smoothedPower[k] = smoothed;
+      if (smoothed < this.minCurrent[k]) this.minCurrent[k] = smoothed;
+      const minPower = Math.min(this.minCurrent[k], this.minPast[k]);
+      const minFloor = MIN_BIAS * minPower;
+
+      if (warmingUp) {
+        this.noise[k] = minFloor;
+      } else {
+        if (isPause) {
+          this.noise[k] = NOISE_ALPHA * this.noise[k] + (1 - NOISE_ALPHA) * p;
+        } else if (p < this.noise[k]) {
+          this.noise[k] = 0.8 * this.noise[k] + 0.2 * p;
+        }
+        if (this.noise[k] > minFloor) this.noise[k] = minFloor;
+        else if (this.noise[k] < minPower) this.noise[k] = minPower;
+      }
+
+      const nz = Math.max(this.noise[k], 1e-12);
+      const postSnr = p / nz;
+      const priorSnr =
+        DD_ALPHA * this.prevGain[k] * this.prevGain[k] * this.prevPostSnr[k] +
+        (1 - DD_ALPHA) * Math.max(postSnr - 1, 0);
+      let gain = priorSnr / (this.overSubtraction + priorSnr);
+      if (gain < this.floorGain) gain = this.floorGain;
+      this.prevGain[k] = gain;
+      this.prevPostSnr[k] = postSnr;
+
+      re[k] *= gain;
+      im[k] *= gain;
+      if (k > 0 && k < n / 2) {
+        re[n - k] = re[k];
+        im[n - k] = -im[k];
+      }
+    }
+    this.framesSeen++;
+    if (++this.minFrame >= MIN_SUBWINDOW_FRAMES) this.rollMinimumWindow();
+
+    this.fft(re, im, true);
+    for (let i = 0; i < n; i++) {
+      this.olaBuf[i] += (re[i] / n) * this.window[i];
+    }
+
+    for (let i = 0; i < HOP_SIZE; i++) {
+      this.outQueue[this.outWrite] = this.olaBuf[i];
+      this.outWrite = (this.outWrite + 1) % QUEUE_LEN;
+    }
+    this.outAvailable = Math.min(QUEUE_LEN, this.outAvailable + HOP_SIZE);
+    this.olaBuf.copyWithin(0, HOP_SIZE);
+    this.olaBuf.fill(0, n - HOP_SIZE);
+  }
+
+  processBlock(input: Float32Array, output: Float32Array) {
+    if (!this.enabled) {
+      output.set(input);
+      return;
+    }
+
+    for (let i = 0; i < input.length; i++) {
+      this.inBuf[this.inFill++] = input[i];
+      if (this.inFill === FFT_SIZE) {
+        this.processFrame();
+        this.inBuf.copyWithin(0, HOP_SIZE);
+        this.inFill = FFT_SIZE - HOP_SIZE;
+      }
+    }
+
+    for (let i = 0; i < output.length; i++) {
+      if (this.outAvailable > 0) {
+        output[i] = this.outQueue[this.outRead];
+        this.outRead = (this.outRead + 1) % QUEUE_LEN;
+        this.outAvailable--;
+      } else {
+        output[i] = 0;
+      }
+    }
+  }
+}
@@ -0,0 +1,136 @@
+// Minimal RIFF/WAVE codec for the processing API.
+// Decodes 8/16/24/32-bit PCM and 32/64-bit float; always encodes 16-bit PCM.
+
+export class WavDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WavDecodeError";
+  }
+}
+
+export interface DecodedWav {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+export function decodeWav(buf: Buffer): DecodedWav {
+  if (buf.length < 12 || buf.toString("ascii", 0, 4) !== "RIFF" || buf.toString("ascii", 8, 12) !== "WAVE") {
+    throw new WavDecodeError("Not a RIFF/WAVE file");
+  }
+
+  let format: number | null = null;
+  let numChannels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let data: Buffer | null = null;
+
+  let offset = 12;
+  while (offset + 8 <= buf.length) {
+    const id = buf.toString("ascii", offset, offset + 4);
+    const size = buf.readUInt32LE(offset + 4);
+    const body = offset + 8;
+    // Streaming writers leave the data size at 0/0xFFFFFFFF; clamp to what we actually have.
+    const end = Math.min(buf.length, body + size);
+
+    if (id === "fmt ") {
+      if (end - body < 16) throw new WavDecodeError("Truncated fmt chunk");
+      format = buf.readUInt16LE(body);
+      numChannels = buf.readUInt16LE(body + 2);
+      sampleRate = buf.readUInt32LE(body + 4);
+      bitsPerSample = buf.readUInt16LE(body + 14);
+      if (format === WAVE_FORMAT_EXTENSIBLE && end - body >= 26) {
+        format = buf.readUInt16LE(body + 24);
+      }
+    } else if (id === "data") {
+      data = buf.subarray(body, end);
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  if (format === null) throw new WavDecodeError("Missing fmt chunk");
+  if (!data) throw new WavDecodeError("Missing data chunk");
+  if (numChannels < 1) throw new WavDecodeError("Invalid channel count");
+  if (sampleRate < 8000 || sampleRate > 192000) throw new WavDecodeError(`Unsupported sample rate: ${sampleRate}`);
+
+  const read = sampleReader(format, bitsPerSample);
+  const bytesPerSample = bitsPerSample / 8;
+  const frameSize = bytesPerSample * numChannels;
+  const frames = Math.floor(data.length / frameSize);
+
+  const channels: Float32Array[] = [];
+  for (let ch = 0; ch < numChannels; ch++) {
+    channels.push(new Float32Array(frames));
+  }
+  for (let i = 0; i < frames; i++) {
+    const base = i * frameSize;
+    for (let ch = 0; ch < numChannels; ch++) {
+      channels[ch][i] = read(data, base + ch * bytesPerSample);
+    }
+  }
+
+  return { sampleRate, channels };
+}
+
+function sampleReader(format: number, bits: number): (b: Buffer, o: number) => number {
+  if (format === WAVE_FORMAT_PCM) {
+    switch (bits) {
+      case 8:
+        return (b, o) => (b.readUInt8(o) - 128) / 128;
+      case 16:
+        return (b, o) => b.readInt16LE(o) / 32768;
+      case 24:
+        return (b, o) => b.readIntLE(o, 3) / 8388608;
+      case 32:
+        return (b, o) => b.readInt32LE(o) / 2147483648;
+    }
+  } else if (format === WAVE_FORMAT_IEEE_FLOAT) {
+    switch (bits) {
+      case 32:
+        return (b, o) => b.readFloatLE(o);
+      case 64:
+        return (b, o) => b.readDoubleLE(o);
+    }
+  }
+  throw new WavDecodeError(`Unsupported WAV encoding (format ${format}, ${bits}-bit)`);
+}
+
+// Averages all channels into one, matching how a mono capture track feeds the browser graph.
+export function downmixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const out = new Float32Array(channels[0].length);
+  for (const ch of channels) {
+    for (let i = 0; i < out.length; i++) out[i] += ch[i];
+  }
+  for (let i = 0; i < out.length; i++) out[i] /= channels.length;
+  return out;
+}
+
+export function encodeWav(samples: Float32Array, sampleRate: number): Buffer {
+  const dataSize = samples.length * 2;
+  const buf = Buffer.alloc(44 + dataSize);
+
+  buf.write("RIFF", 0, "ascii");
+  buf.writeUInt32LE(36 + dataSize, 4);
+  buf.write("WAVE", 8, "ascii");
+  buf.write("fmt ", 12, "ascii");
+  buf.writeUInt32LE(16, 16);
+  buf.writeUInt16LE(WAVE_FORMAT_PCM, 20);
+  buf.writeUInt16LE(1, 22);
+  buf.writeUInt32LE(sampleRate, 24);
+  buf.writeUInt32LE(sampleRate * 2, 28);
+  buf.writeUInt16LE(2, 32);
+  buf.writeUInt16LE(16, 34);
+  buf.write("data", 36, "ascii");
+  buf.writeUInt32LE(dataSize, 40);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    buf.writeInt16LE(Math.round(s < 0 ? s * 32768 : s * 32767), 44 + i * 2);
+  }
+  return buf;
+}
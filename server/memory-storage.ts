@@ -1,4 +1,5 @@
 import type { IStorage } from "./storage";
+import { deleteRecordingAudio } from "./blob-store";
 import type { 
   Agent, 
   InsertAgentInput, 
@@ -7,14 +8,36 @@ import type {
   InsertCustomProfile,
   TeamPreset,
   InsertTeamPreset,
+  AccentPresetDefinition,
+  InsertAccentPresetDefinition,
   UsageStats,
   InsertUsageStats,
+  CallSession,
+  InsertCallSession,
+  SettingsRevision,
+  InsertSettingsRevision,
+  RevisionTargetType,
+  AuditEntry,
+  InsertAuditEntry,
+  AuditQuery,
   Recording,
-  InsertRecording
+  InsertRecording,
+  User,
+  InsertUser,
+  UpdateUser,
+  Team,
+  InsertTeam,
+  Organization,
+  InsertOrganization,
+  Invite,
+  InsertInvite,
+  Session,
+  InsertSession
 } from "@shared/schema";
-import { defaultAudioSettings } from "@shared/schema";
+import { defaultAudioSettings, builtInAccentPresets } from "@shared/schema";
 import fs from "fs";
 import path from "path";
+import { randomUUID } from "crypto";
 
 /**
  * In-memory storage implementation for quick local development
@@ -24,12 +47,22 @@ export class MemoryStorage implements IStorage {
   private agents: Map<string, Agent> = new Map();
   private customProfiles: Map<string, CustomProfile> = new Map();
   private teamPresets: Map<string, TeamPreset> = new Map();
+  private accentPresets: Map<string, AccentPresetDefinition> = new Map();
   private usageStats: Map<string, UsageStats> = new Map();
+  private callSessions: Map<string, CallSession> = new Map();
+  private settingsRevisions: Map<string, SettingsRevision> = new Map();
   private recordings: Map<string, Recording> = new Map();
+  private users: Map<string, User> = new Map();
+  private sessions: Map<string, Session> = new Map();
+  private teams: Map<string, Team> = new Map();
+  private organizations: Map<string, Organization> = new Map();
+  private invites: Map<string, Invite> = new Map();
+  private auditLog: Map<string, AuditEntry> = new Map();
   private idCounter = 0;
 
   private readonly MAX_USAGE_STATS = 10000;
   private readonly MAX_RECORDINGS = 1000;
+  private readonly MAX_AUDIT_ENTRIES = 20000;
   private readonly USAGE_STATS_TTL_DAYS = 90;
 
   private readonly PERSISTENCE_FILE = './data/memory-storage.json';
@@ -56,10 +89,19 @@ export class MemoryStorage implements IStorage {
         agents: Array.from(this.agents.entries()),
         customProfiles: Array.from(this.customProfiles.entries()),
         teamPresets: Array.from(this.teamPresets.entries()),
+        accentPresets: Array.from(this.accentPresets.entries()),
         usageStats: Array.from(this.usageStats.entries()),
+        callSessions: Array.from(this.callSessions.entries()),
+        settingsRevisions: Array.from(this.settingsRevisions.entries()),
         recordings: Array.from(this.recordings.entries()),
+        users: Array.from(this.users.entries()),
+        sessions: Array.from(this.sessions.entries()),
+        teams: Array.from(this.teams.entries()),
+        organizations: Array.from(this.organizations.entries()),
+        invites: Array.from(this.invites.entries()),
+        auditLog: Array.from(this.auditLog.entries()),
         idCounter: this.idCounter,
-        version: 1,
+        version: 2,
         savedAt: new Date().toISOString(),
       };
 
@@ -85,7 +127,7 @@ export class MemoryStorage implements IStorage {
 
       if (data.agents) {
         this.agents = new Map(data.agents.map(([id, agent]: [string, any]) => [
-          id, { ...agent, createdAt: new Date(agent.createdAt), updatedAt: new Date(agent.updatedAt) }
+          id, { ...agent, userId: agent.userId ?? null, teamId: agent.teamId ?? null, createdAt: new Date(agent.createdAt), updatedAt: new Date(agent.updatedAt) }
         ]));
       }
       if (data.customProfiles) {
@@ -95,6 +137,18 @@ export class MemoryStorage implements IStorage {
       }
       if (data.teamPresets) {
         this.teamPresets = new Map(data.teamPresets.map(([id, p]: [string, any]) => [
+          id, {
+            ...p,
+            isMandatory: p.isMandatory ?? false,
+            teamId: p.teamId ?? null,
+            lockedFields: p.lockedFields ?? {},
+            createdAt: new Date(p.createdAt),
+            updatedAt: new Date(p.updatedAt),
+          }
+        ]));
+      }
+      if (data.accentPresets) {
+        this.accentPresets = new Map(data.accentPresets.map(([id, p]: [string, any]) => [
           id, { ...p, createdAt: new Date(p.createdAt), updatedAt: new Date(p.updatedAt) }
         ]));
       }
@@ -103,14 +157,57 @@ export class MemoryStorage implements IStorage {
           id, { ...s, date: new Date(s.date) }
         ]));
       }
+      if (data.callSessions) {
+        this.callSessions = new Map(data.callSessions.map(([id, c]: [string, any]) => [
+          id, { ...c, startedAt: new Date(c.startedAt), endedAt: c.endedAt ? new Date(c.endedAt) : null }
+        ]));
+      }
+      if (data.settingsRevisions) {
+        this.settingsRevisions = new Map(data.settingsRevisions.map(([id, r]: [string, any]) => [
+          id, { ...r, createdAt: new Date(r.createdAt) }
+        ]));
+      }
       if (data.recordings) {
         this.recordings = new Map(data.recordings.map(([id, r]: [string, any]) => [
           id, { ...r, createdAt: new Date(r.createdAt) }
         ]));
       }
+      if (data.users) {
+        this.users = new Map(data.users.map(([id, u]: [string, any]) => [
+          id, { ...u, teamId: u.teamId ?? null, createdAt: new Date(u.createdAt), updatedAt: new Date(u.updatedAt) }
+        ]));
+      }
+      if (data.sessions) {
+        this.sessions = new Map(data.sessions.map(([id, s]: [string, any]) => [
+          id, { ...s, expiresAt: new Date(s.expiresAt), createdAt: new Date(s.createdAt) }
+        ]));
+      }
+      if (data.teams) {
+        this.teams = new Map(data.teams.map(([id, t]: [string, any]) => [
+          id, { ...t, createdAt: new Date(t.createdAt), updatedAt: new Date(t.updatedAt) }
+        ]));
+      }
+      if (data.organizations) {
+        this.organizations = new Map(data.organizations.map(([id, o]: [string, any]) => [
+          id, { ...o, createdAt: new Date(o.createdAt), updatedAt: new Date(o.updatedAt) }
+        ]));
+      }
+      if (data.invites) {
+        this.invites = new Map(data.invites.map(([id, i]: [string, any]) => [
+          id, { ...i, expiresAt: new Date(i.expiresAt), createdAt: new Date(i.createdAt) }
+        ]));
+      }
+      if (data.auditLog) {
+        this.auditLog = new Map(data.auditLog.map(([id, e]: [string, any]) => [
+          id, { ...e, createdAt: new Date(e.createdAt) }
+        ]));
+      }
       if (data.idCounter) {
         this.idCounter = data.idCounter;
       }
+      if ((data.version ?? 1) < 2) {
+        this.assignToDefaultOrganization();
+      }
 
       console.log(`MemoryStorage: Loaded ${this.agents.size} agents from disk`);
     } catch (error) {
@@ -122,6 +219,24 @@ export class MemoryStorage implements IStorage {
     return `id_${++this.idCounter}_${Date.now()}`;
   }
 
+  private createDefaultOrganization(): Organization {
+    const org: Organization = { id: randomUUID(), name: "Default", createdAt: new Date(), updatedAt: new Date() };
+    this.organizations.set(org.id, org);
+    return org;
+  }
+
+  /**
+   * Data saved before organizations existed all belongs to the default organization
+   */
+  private assignToDefaultOrganization(): void {
+    const orgId = this.createDefaultOrganization().id;
+    const stores: Map<string, { orgId: string }>[] = [
+      this.agents, this.customProfiles, this.teamPresets, this.usageStats, this.recordings, this.users, this.teams,
+    ];
+    stores.forEach(store => store.forEach(row => { row.orgId ??= orgId; }));
+    console.log('MemoryStorage: Moved existing data into the "Default" organization');
+  }
+
   /**
    * CRITICAL FIX: Clean up old data to prevent memory leaks
    */
@@ -139,17 +254,34 @@ export class MemoryStorage implements IStorage {
         }
       }
 
+      // Ended calls have already been rolled into usage stats
+      for (const [id, call] of this.callSessions.entries()) {
+        if (call.endedAt && call.endedAt < cutoffDate) {
+          this.callSessions.delete(id);
+        }
+      }
+
       // Limit recordings to MAX_RECORDINGS (keep newest)
       if (this.recordings.size > this.MAX_RECORDINGS) {
         const sorted = Array.from(this.recordings.entries())
           .sort((a, b) => b[1].createdAt.getTime() - a[1].createdAt.getTime());
         
         const toRemove = sorted.slice(this.MAX_RECORDINGS);
-        toRemove.forEach(([id]) => this.recordings.delete(id));
+        toRemove.forEach(([id, recording]) => {
+          this.recordings.delete(id);
+          void deleteRecordingAudio(recording);
+        });
         
         console.log(`MemoryStorage: Cleaned up ${toRemove.length} old recordings`);
       }
 
+      // Limit the audit log to MAX_AUDIT_ENTRIES; entries are appended in time order, so the oldest come first
+      if (this.auditLog.size > this.MAX_AUDIT_ENTRIES) {
+        const toRemove = Array.from(this.auditLog.keys()).slice(0, this.auditLog.size - this.MAX_AUDIT_ENTRIES);
+        toRemove.forEach(id => this.auditLog.delete(id));
+        console.log(`MemoryStorage: Cleaned up ${toRemove.length} old audit entries`);
+      }
+
       // Limit usage stats to MAX_USAGE_STATS (keep newest)
       if (this.usageStats.size > this.MAX_USAGE_STATS) {
         const sorted = Array.from(this.usageStats.entries())
@@ -182,20 +314,37 @@ export class MemoryStorage implements IStorage {
     };
   }
 
+  // Map lookup that hides rows belonging to other organizations
+  private getScoped<T extends { orgId: string }>(store: Map<string, T>, orgId: string, id: string): T | undefined {
+    const row = store.get(id);
+    return row?.orgId === orgId ? row : undefined;
+  }
+
+  private listScoped<T extends { orgId: string }>(store: Map<string, T>, orgId: string): T[] {
+    return Array.from(store.values()).filter(row => row.orgId === orgId);
+  }
+
+  private deleteScoped<T extends { orgId: string }>(store: Map<string, T>, orgId: string, id: string): boolean {
+    return this.getScoped(store, orgId, id) ? store.delete(id) : false;
+  }
+
   // Agent operations
-  async getAgent(id: string): Promise<Agent | undefined> {
-    return this.agents.get(id);
+  async getAgent(orgId: string, id: string): Promise<Agent | undefined> {
+    return this.getScoped(this.agents, orgId, id);
   }
 
-  async getAllAgents(): Promise<Agent[]> {
-    return Array.from(this.agents.values()).sort((a, b) => a.name.localeCompare(b.name));
+  async getAllAgents(orgId: string): Promise<Agent[]> {
+    return this.listScoped(this.agents, orgId).sort((a, b) => a.name.localeCompare(b.name));
   }
 
-  async createAgent(insertAgent: InsertAgentInput): Promise<Agent> {
+  async createAgent(orgId: string, insertAgent: InsertAgentInput, userId: string | null = null): Promise<Agent> {
     const agent: Agent = {
       id: this.generateId(),
+      orgId,
       name: insertAgent.name,
       email: insertAgent.email ?? null,
+      userId,
+      teamId: null,
       status: insertAgent.status ?? "offline",
       isProcessingActive: insertAgent.isProcessingActive ?? false,
       callDuration: 0,
@@ -210,8 +359,8 @@ export class MemoryStorage implements IStorage {
     return agent;
   }
 
-  async updateAgentSettings(id: string, settings: UpdateAgentSettings): Promise<Agent | undefined> {
-    const agent = this.agents.get(id);
+  async updateAgentSettings(orgId: string, id: string, settings: UpdateAgentSettings): Promise<Agent | undefined> {
+    const agent = this.getScoped(this.agents, orgId, id);
     if (!agent) return undefined;
 
     const updatedSettings = settings.audioSettings 
@@ -222,6 +371,7 @@ export class MemoryStorage implements IStorage {
       ...agent,
       status: settings.status ?? agent.status,
       isProcessingActive: settings.isProcessingActive ?? agent.isProcessingActive,
+      latency: settings.latency ?? agent.latency,
       audioSettings: updatedSettings,
       updatedAt: new Date(),
     };
@@ -230,35 +380,53 @@ export class MemoryStorage implements IStorage {
     return updatedAgent;
   }
 
-  async deleteAgent(id: string): Promise<boolean> {
-    return this.agents.delete(id);
+  async deleteAgent(orgId: string, id: string): Promise<boolean> {
+    return this.deleteScoped(this.agents, orgId, id);
   }
 
-  async getAgentCount(): Promise<number> {
-    return this.agents.size;
+  async getAgentCount(orgId: string): Promise<number> {
+    return this.listScoped(this.agents, orgId).length;
+  }
+
+  async getAgentByUserId(userId: string): Promise<Agent | undefined> {
+    return Array.from(this.agents.values()).find(a => a.userId === userId);
+  }
+
+  async getAgentsByTeam(orgId: string, teamId: string): Promise<Agent[]> {
+    return this.listScoped(this.agents, orgId)
+      .filter(a => a.teamId === teamId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async updateAgentTeam(orgId: string, id: string, teamId: string | null): Promise<Agent | undefined> {
+    const agent = this.getScoped(this.agents, orgId, id);
+    if (!agent) return undefined;
+    const updated: Agent = { ...agent, teamId, updatedAt: new Date() };
+    this.agents.set(id, updated);
+    return updated;
   }
 
-  async getActiveAgents(): Promise<Agent[]> {
-    return Array.from(this.agents.values()).filter(a => a.status !== 'offline');
+  async getActiveAgents(orgId: string): Promise<Agent[]> {
+    return this.listScoped(this.agents, orgId).filter(a => a.status !== 'offline');
   }
 
   // Custom profiles
-  async getCustomProfiles(agentId: string): Promise<CustomProfile[]> {
-    return Array.from(this.customProfiles.values())
+  async getCustomProfiles(orgId: string, agentId: string): Promise<CustomProfile[]> {
+    return this.listScoped(this.customProfiles, orgId)
       .filter(p => p.agentId === agentId)
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
-  async getSharedProfiles(): Promise<CustomProfile[]> {
-    return Array.from(this.customProfiles.values())
+  async getSharedProfiles(orgId: string): Promise<CustomProfile[]> {
+    return this.listScoped(this.customProfiles, orgId)
       .filter(p => p.isShared)
       .sort((a, b) => a.name.localeCompare(b.name));
   }
 
-  async createCustomProfile(profile: Omit<InsertCustomProfile, "id" | "createdAt">): Promise<CustomProfile> {
+  async createCustomProfile(profile: Omit<InsertCustomProfile, "createdAt">): Promise<CustomProfile> {
     const newProfile: CustomProfile = {
       ...profile,
-      id: this.generateId(),
+      id: profile.id ?? this.generateId(),
       createdAt: new Date(),
       isShared: profile.isShared ?? false,
     };
@@ -266,36 +434,47 @@ export class MemoryStorage implements IStorage {
     return newProfile;
   }
 
-  async deleteCustomProfile(id: string): Promise<boolean> {
-    return this.customProfiles.delete(id);
+  async getCustomProfile(orgId: string, id: string): Promise<CustomProfile | undefined> {
+    return this.getScoped(this.customProfiles, orgId, id);
+  }
+
+  async deleteCustomProfile(orgId: string, id: string): Promise<boolean> {
+    return this.deleteScoped(this.customProfiles, orgId, id);
   }
 
   // Team presets
-  async getAllTeamPresets(): Promise<TeamPreset[]> {
-    return Array.from(this.teamPresets.values()).sort((a, b) => a.name.localeCompare(b.name));
+  async getAllTeamPresets(orgId: string): Promise<TeamPreset[]> {
+    return this.listScoped(this.teamPresets, orgId).sort((a, b) => a.name.localeCompare(b.name));
   }
 
-  async getActiveTeamPresets(): Promise<TeamPreset[]> {
-    return Array.from(this.teamPresets.values())
+  async getActiveTeamPresets(orgId: string): Promise<TeamPreset[]> {
+    return this.listScoped(this.teamPresets, orgId)
       .filter(p => p.isActive)
       .sort((a, b) => a.name.localeCompare(b.name));
   }
 
-  async createTeamPreset(preset: Omit<InsertTeamPreset, "id" | "createdAt" | "updatedAt">): Promise<TeamPreset> {
+  async getTeamPreset(orgId: string, id: string): Promise<TeamPreset | undefined> {
+    return this.getScoped(this.teamPresets, orgId, id);
+  }
+
+  async createTeamPreset(preset: Omit<InsertTeamPreset, "createdAt" | "updatedAt">): Promise<TeamPreset> {
     const newPreset: TeamPreset = {
       ...preset,
-      id: this.generateId(),
+      id: preset.id ?? this.generateId(),
       createdAt: new Date(),
       updatedAt: new Date(),
       description: preset.description ?? null,
       isActive: preset.isActive ?? true,
+      isMandatory: preset.isMandatory ?? false,
+      teamId: preset.teamId ?? null,
+      lockedFields: preset.lockedFields ?? {},
     };
     this.teamPresets.set(newPreset.id, newPreset);
     return newPreset;
   }
 
-  async updateTeamPreset(id: string, preset: Partial<InsertTeamPreset>): Promise<TeamPreset | undefined> {
-    const existing = this.teamPresets.get(id);
+  async updateTeamPreset(orgId: string, id: string, preset: Partial<InsertTeamPreset>): Promise<TeamPreset | undefined> {
+    const existing = this.getScoped(this.teamPresets, orgId, id);
     if (!existing) return undefined;
 
     // Avoid spreading undefined into required fields under `strict` typing.
@@ -304,6 +483,9 @@ export class MemoryStorage implements IStorage {
       name: preset.name ?? existing.name,
       description: preset.description ?? existing.description ?? null,
       isActive: preset.isActive ?? existing.isActive,
+      isMandatory: preset.isMandatory ?? existing.isMandatory,
+      teamId: preset.teamId !== undefined ? preset.teamId : existing.teamId,
+      lockedFields: preset.lockedFields ?? existing.lockedFields,
       audioSettings: preset.audioSettings ?? existing.audioSettings,
       updatedAt: new Date(),
       createdAt: existing.createdAt,
@@ -313,29 +495,129 @@ export class MemoryStorage implements IStorage {
     return updated;
   }
 
-  async deleteTeamPreset(id: string): Promise<boolean> {
-    return this.teamPresets.delete(id);
+  async deleteTeamPreset(orgId: string, id: string): Promise<boolean> {
+    return this.deleteScoped(this.teamPresets, orgId, id);
+  }
+
+  // Accent presets
+  async getAccentPresets(orgId: string): Promise<AccentPresetDefinition[]> {
+    return this.listScoped(this.accentPresets, orgId).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getAccentPreset(orgId: string, id: string): Promise<AccentPresetDefinition | undefined> {
+    return this.getScoped(this.accentPresets, orgId, id);
+  }
+
+  async createAccentPreset(
+    preset: Omit<InsertAccentPresetDefinition, "id" | "createdAt" | "updatedAt">,
+  ): Promise<AccentPresetDefinition> {
+    const newPreset: AccentPresetDefinition = {
+      ...preset,
+      id: this.generateId(),
+      description: preset.description ?? "",
+      category: preset.category ?? "Custom",
+      pitchShift: preset.pitchShift ?? 0,
+      formantShift: preset.formantShift ?? 0,
+      highPassFreq: preset.highPassFreq ?? 80,
+      lowPassFreq: preset.lowPassFreq ?? 8000,
+      resonanceQ: preset.resonanceQ ?? 0.7,
+      isBuiltIn: preset.isBuiltIn ?? false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.accentPresets.set(newPreset.id, newPreset);
+    return newPreset;
+  }
+
+  async updateAccentPreset(
+    orgId: string,
+    id: string,
+    preset: Partial<Omit<InsertAccentPresetDefinition, "key" | "isBuiltIn">>,
+  ): Promise<AccentPresetDefinition | undefined> {
+    const existing = this.getScoped(this.accentPresets, orgId, id);
+    if (!existing) return undefined;
+
+    const updated: AccentPresetDefinition = {
+      ...existing,
+      name: preset.name ?? existing.name,
+      description: preset.description ?? existing.description,
+      category: preset.category ?? existing.category,
+      pitchShift: preset.pitchShift ?? existing.pitchShift,
+      formantShift: preset.formantShift ?? existing.formantShift,
+      highPassFreq: preset.highPassFreq ?? existing.highPassFreq,
+      lowPassFreq: preset.lowPassFreq ?? existing.lowPassFreq,
+      resonanceQ: preset.resonanceQ ?? existing.resonanceQ,
+      formants: preset.formants ?? existing.formants,
+      updatedAt: new Date(),
+    };
+    this.accentPresets.set(id, updated);
+    return updated;
+  }
+
+  async deleteAccentPreset(orgId: string, id: string): Promise<boolean> {
+    return this.deleteScoped(this.accentPresets, orgId, id);
+  }
+
+  async seedAccentPresets(orgId: string): Promise<void> {
+    const existingKeys = new Set(this.listScoped(this.accentPresets, orgId).map(p => p.key));
+    for (const preset of builtInAccentPresets()) {
+      if (!existingKeys.has(preset.key)) {
+        await this.createAccentPreset({ ...preset, orgId });
+      }
+    }
+  }
+
+  // Settings revisions
+  async getSettingsRevisions(orgId: string, targetType: RevisionTargetType, targetId: string): Promise<SettingsRevision[]> {
+    // Reversed first so revisions made within the same millisecond still list newest first
+    return this.listScoped(this.settingsRevisions, orgId)
+      .filter(r => r.targetType === targetType && r.targetId === targetId)
+      .reverse()
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getSettingsRevision(orgId: string, id: string): Promise<SettingsRevision | undefined> {
+    return this.getScoped(this.settingsRevisions, orgId, id);
+  }
+
+  async createSettingsRevision(revision: Omit<InsertSettingsRevision, "id" | "createdAt">): Promise<SettingsRevision> {
+    const newRevision: SettingsRevision = {
+      ...revision,
+      id: this.generateId(),
+      changes: revision.changes ?? [],
+      userId: revision.userId ?? null,
+      createdAt: new Date(),
+    };
+    this.settingsRevisions.set(newRevision.id, newRevision);
+    return newRevision;
   }
 
   // Usage stats
-  async getAgentStats(agentId: string, days = 30): Promise<UsageStats[]> {
+  async getAgentStats(orgId: string, agentId: string, days = 30): Promise<UsageStats[]> {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - days);
     
-    return Array.from(this.usageStats.values())
+    return this.listScoped(this.usageStats, orgId)
       .filter(s => s.agentId === agentId && s.date >= cutoffDate)
       .sort((a, b) => b.date.getTime() - a.date.getTime());
   }
 
-  async getAllStats(days = 30): Promise<UsageStats[]> {
+  async getAllStats(orgId: string, days = 30): Promise<UsageStats[]> {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - days);
     
-    return Array.from(this.usageStats.values())
+    return this.listScoped(this.usageStats, orgId)
       .filter(s => s.date >= cutoffDate)
       .sort((a, b) => b.date.getTime() - a.date.getTime());
   }
 
+  async getUsageStatsInRange(orgId: string, from: Date, to: Date, agentIds?: string[]): Promise<UsageStats[]> {
+    const scope = agentIds ? new Set(agentIds) : null;
+    return this.listScoped(this.usageStats, orgId)
+      .filter(s => s.date >= from && s.date <= to && (!scope || scope.has(s.agentId)))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
   async recordUsage(stats: Omit<InsertUsageStats, "id">): Promise<UsageStats> {
     const newStats: UsageStats = {
       ...stats,
@@ -345,20 +627,23 @@ export class MemoryStorage implements IStorage {
       accentModifierMinutes: stats.accentModifierMinutes ?? 0,
       totalCalls: stats.totalCalls ?? 0,
       avgLatency: stats.avgLatency ?? 0,
+      talkSeconds: stats.talkSeconds ?? 0,
+      silenceSeconds: stats.silenceSeconds ?? 0,
       accentPresetUsed: stats.accentPresetUsed ?? null,
     };
     this.usageStats.set(newStats.id, newStats);
     return newStats;
   }
 
-  async getAggregatedStats(): Promise<{
+  async getAggregatedStats(orgId: string, agentIds?: string[]): Promise<{
     totalNoiseReductionMinutes: number;
     totalAccentModifierMinutes: number;
     totalCalls: number;
     avgLatency: number;
     presetUsage: Record<string, number>;
   }> {
-    const allStats = await this.getAllStats(30);
+    const scope = agentIds ? new Set(agentIds) : null;
+    const allStats = (await this.getAllStats(orgId, 30)).filter(s => !scope || scope.has(s.agentId));
     
     let totalNoiseReductionMinutes = 0;
     let totalAccentModifierMinutes = 0;
@@ -386,13 +671,53 @@ export class MemoryStorage implements IStorage {
     };
   }
 
+  // Call sessions
+  async getCallSession(orgId: string, id: string): Promise<CallSession | undefined> {
+    return this.getScoped(this.callSessions, orgId, id);
+  }
+
+  async getOpenCallSession(orgId: string, agentId: string): Promise<CallSession | undefined> {
+    return this.listScoped(this.callSessions, orgId)
+      .filter(c => c.agentId === agentId && !c.endedAt)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())[0];
+  }
+
+  async startCallSession(call: Omit<InsertCallSession, "id" | "startedAt" | "endedAt">): Promise<CallSession> {
+    const newCall: CallSession = {
+      ...call,
+      id: this.generateId(),
+      startedAt: new Date(),
+      endedAt: null,
+    };
+    this.callSessions.set(newCall.id, newCall);
+    return newCall;
+  }
+
+  async endCallSession(
+    orgId: string,
+    id: string,
+    endedAt: Date,
+    usage: Omit<InsertUsageStats, "id" | "orgId" | "agentId"> | null
+  ): Promise<{ call: CallSession; usage: UsageStats | null } | undefined> {
+    const call = this.getScoped(this.callSessions, orgId, id);
+    if (!call || call.endedAt) return undefined;
+
+    call.endedAt = endedAt;
+    const stats = usage ? await this.recordUsage({ ...usage, orgId, agentId: call.agentId }) : null;
+    return { call, usage: stats };
+  }
+
   // Recordings
-  async getRecordings(agentId: string): Promise<Recording[]> {
-    return Array.from(this.recordings.values())
+  async getRecordings(orgId: string, agentId: string): Promise<Recording[]> {
+    return this.listScoped(this.recordings, orgId)
       .filter(r => r.agentId === agentId)
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
+  async getRecording(orgId: string, id: string): Promise<Recording | undefined> {
+    return this.getScoped(this.recordings, orgId, id);
+  }
+
   async createRecording(recording: Omit<InsertRecording, "id" | "createdAt">): Promise<Recording> {
     const newRecording: Recording = {
       ...recording,
@@ -400,17 +725,240 @@ export class MemoryStorage implements IStorage {
       createdAt: new Date(),
       duration: recording.duration ?? 0,
       fileSize: recording.fileSize ?? 0,
+      storageKey: recording.storageKey ?? null,
+      mimeType: recording.mimeType ?? null,
     };
     this.recordings.set(newRecording.id, newRecording);
     return newRecording;
   }
 
-  async deleteRecording(id: string): Promise<boolean> {
-    return this.recordings.delete(id);
+  async deleteRecording(orgId: string, id: string): Promise<boolean> {
+    const recording = this.getScoped(this.recordings, orgId, id);
+    if (!recording) return false;
+    this.recordings.delete(id);
+    await deleteRecordingAudio(recording);
+    return true;
+  }
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(u => u.username === username);
+  }
+
+  async getUserCount(): Promise<number> {
+    return this.users.size;
+  }
+
+  async createUser(user: Omit<InsertUser, "id" | "createdAt" | "updatedAt">): Promise<User> {
+    if (await this.getUserByUsername(user.username)) {
+      throw new Error(`Username already exists: ${user.username}`);
+    }
+    const newUser: User = {
+      ...user,
+      id: randomUUID(),
+      role: user.role ?? "agent",
+      teamId: user.teamId ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.users.set(newUser.id, newUser);
+    this.saveToDisk();
+    return newUser;
+  }
+
+  async getAllUsers(orgId: string): Promise<User[]> {
+    return this.listScoped(this.users, orgId).sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async updateUser(orgId: string, id: string, updates: UpdateUser): Promise<User | undefined> {
+    const existing = this.getScoped(this.users, orgId, id);
+    if (!existing) return undefined;
+
+    const updated: User = {
+      ...existing,
+      role: updates.role ?? existing.role,
+      teamId: updates.teamId !== undefined ? updates.teamId : existing.teamId,
+      updatedAt: new Date(),
+    };
+    this.users.set(id, updated);
+    this.saveToDisk();
+    return updated;
+  }
+
+  // Teams
+  async getAllTeams(orgId: string): Promise<Team[]> {
+    return this.listScoped(this.teams, orgId).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getTeam(orgId: string, id: string): Promise<Team | undefined> {
+    return this.getScoped(this.teams, orgId, id);
+  }
+
+  async createTeam(team: Omit<InsertTeam, "id" | "createdAt" | "updatedAt">): Promise<Team> {
+    if (this.listScoped(this.teams, team.orgId).some(t => t.name === team.name)) {
+      throw new Error(`Team name already exists: ${team.name}`);
+    }
+    const newTeam: Team = {
+      ...team,
+      id: randomUUID(),
+      description: team.description ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.teams.set(newTeam.id, newTeam);
+    return newTeam;
+  }
+
+  async updateTeam(orgId: string, id: string, team: Partial<InsertTeam>): Promise<Team | undefined> {
+    const existing = this.getScoped(this.teams, orgId, id);
+    if (!existing) return undefined;
+
+    const updated: Team = {
+      ...existing,
+      name: team.name ?? existing.name,
+      description: team.description !== undefined ? team.description ?? null : existing.description,
+      updatedAt: new Date(),
+    };
+    this.teams.set(id, updated);
+    return updated;
+  }
+
+  // Mirrors the ON DELETE SET NULL foreign keys in the database schema
+  async deleteTeam(orgId: string, id: string): Promise<boolean> {
+    if (!this.deleteScoped(this.teams, orgId, id)) return false;
+    Array.from(this.agents.values())
+      .filter(a => a.teamId === id)
+      .forEach(a => this.agents.set(a.id, { ...a, teamId: null }));
+    Array.from(this.users.values())
+      .filter(u => u.teamId === id)
+      .forEach(u => this.users.set(u.id, { ...u, teamId: null }));
+    Array.from(this.invites.values())
+      .filter(i => i.teamId === id)
+      .forEach(i => this.invites.set(i.id, { ...i, teamId: null }));
+    // A team's mandatory preset must not turn into the organization-wide one
+    Array.from(this.teamPresets.values())
+      .filter(p => p.teamId === id)
+      .forEach(p => this.teamPresets.set(p.id, { ...p, teamId: null, isMandatory: false }));
+    return true;
+  }
+
+  // Organizations
+  async getAllOrganizations(): Promise<Organization[]> {
+    return Array.from(this.organizations.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getOrganization(id: string): Promise<Organization | undefined> {
+    return this.organizations.get(id);
+  }
+
+  async createOrganization(org: Omit<InsertOrganization, "id" | "createdAt" | "updatedAt">): Promise<Organization> {
+    if (Array.from(this.organizations.values()).some(o => o.name === org.name)) {
+      throw new Error(`Organization name already exists: ${org.name}`);
+    }
+    const newOrg: Organization = { ...org, id: randomUUID(), createdAt: new Date(), updatedAt: new Date() };
+    this.organizations.set(newOrg.id, newOrg);
+    this.saveToDisk();
+    return newOrg;
+  }
+
+  async getDefaultOrganization(): Promise<Organization> {
+    const oldest = Array.from(this.organizations.values())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0];
+    return oldest ?? this.createDefaultOrganization();
+  }
+
+  // Invites
+  async getInvites(orgId: string): Promise<Invite[]> {
+    const now = Date.now();
+    return this.listScoped(this.invites, orgId)
+      .filter(i => i.expiresAt.getTime() > now)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getInvite(id: string): Promise<Invite | undefined> {
+    return this.invites.get(id);
+  }
+
+  async createInvite(invite: Omit<InsertInvite, "createdAt">): Promise<Invite> {
+    const newInvite: Invite = {
+      ...invite,
+      role: invite.role ?? "agent",
+      teamId: invite.teamId ?? null,
+      createdBy: invite.createdBy ?? null,
+      createdAt: new Date(),
+    };
+    this.invites.set(newInvite.id, newInvite);
+    this.saveToDisk();
+    return newInvite;
+  }
+
+  async deleteInvite(id: string): Promise<boolean> {
+    return this.invites.delete(id);
+  }
+
+  // Sessions
+  async getSession(id: string): Promise<Session | undefined> {
+    return this.sessions.get(id);
+  }
+
+  async createSession(session: Omit<InsertSession, "createdAt">): Promise<Session> {
+    const newSession: Session = { ...session, createdAt: new Date() };
+    this.sessions.set(newSession.id, newSession);
+    return newSession;
+  }
+
+  async deleteSession(id: string): Promise<boolean> {
+    return this.sessions.delete(id);
+  }
+
+  async deleteExpiredSessions(): Promise<number> {
+    const now = Date.now();
+    let deleted = 0;
+    for (const [id, session] of Array.from(this.sessions.entries())) {
+      if (session.expiresAt.getTime() <= now) {
+        this.sessions.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  // Audit log
+  async recordAuditEntry(entry: Omit<InsertAuditEntry, "id" | "createdAt">): Promise<AuditEntry> {
+    const newEntry: AuditEntry = {
+      ...entry,
+      id: this.generateId(),
+      actorId: entry.actorId ?? null,
+      entityId: entry.entityId ?? null,
+      before: entry.before ?? null,
+      after: entry.after ?? null,
+      createdAt: new Date(),
+    };
+    this.auditLog.set(newEntry.id, newEntry);
+    return newEntry;
+  }
+
+  async getAuditEntries(orgId: string, query: AuditQuery): Promise<AuditEntry[]> {
+    return this.listScoped(this.auditLog, orgId)
+      .filter(e =>
+        (!query.actorId || e.actorId === query.actorId) &&
+        (!query.action || e.action === query.action) &&
+        (!query.entityType || e.entityType === query.entityType) &&
+        (!query.entityId || e.entityId === query.entityId) &&
+        (!query.from || e.createdAt >= query.from) &&
+        (!query.to || e.createdAt <= query.to)
+      )
+      // Insertion order is time order; reversing keeps same-millisecond entries newest first too
+      .reverse()
+      .slice(query.offset, query.offset + query.limit);
   }
 
   // Seed sample agents for demo
-  async seedSampleAgents(): Promise<void> {
+  async seedSampleAgents(orgId: string): Promise<void> {
     if (this.agents.size > 0) {
       console.log(`Memory storage already has ${this.agents.size} agents, skipping seed.`);
       return;
@@ -427,7 +975,7 @@ export class MemoryStorage implements IStorage {
     ];
 
     for (const agent of sampleAgents) {
-      await this.createAgent(agent);
+      await this.createAgent(orgId, agent);
     }
 
     console.log(`Seeded ${sampleAgents.length} sample agents.`);
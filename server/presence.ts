@@ -0,0 +1,222 @@
+import type { IncomingMessage, Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+import { getUserForPresenceToken, canAccessAgent, hasPermissionFor } from "./auth";
+import {
+  getPermissionScope,
+  PRESENCE_WS_PATH,
+  PRESENCE_HEARTBEAT_INTERVAL_MS,
+  PRESENCE_MISSED_HEARTBEATS,
+  presenceClientMessageSchema,
+} from "@shared/schema";
+import type { AgentStatusType, PresenceServerMessage, PresenceUpdate, User } from "@shared/schema";
+
+const OFFLINE_AFTER_MS = PRESENCE_HEARTBEAT_INTERVAL_MS * PRESENCE_MISSED_HEARTBEATS;
+
+// Dashboard sockets by the agent they publish heartbeats for, so the server can push to them
+const agentSockets = new Map<string, Set<WebSocket>>();
+
+/**
+ * Push a message to every dashboard currently publishing presence for `agentId`.
+ */
+export function sendToAgent(agentId: string, message: PresenceServerMessage) {
+  const sockets = agentSockets.get(agentId);
+  if (!sockets) return;
+  const payload = JSON.stringify(message);
+  sockets.forEach((ws) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(payload);
+  });
+}
+
+interface AgentPresence {
+  orgId: string;
+  teamId: string | null;
+  status: AgentStatusType;
+  isProcessingActive: boolean;
+  latency: number;
+  inputLevel: number;
+  lastHeartbeatAt: number;
+}
+
+/**
+ * Real-time agent presence over a WebSocket on the shared HTTP server.
+ * Agent dashboards publish heartbeats; admin panels subscribe for push updates.
+ * Agents that stop sending heartbeats are flipped to offline by a periodic sweep.
+ * Both sides authenticate with a short-lived presence token from /api/auth/presence-token
+ * (`?token=`, since browsers can't set headers on WebSocket upgrades), never the session token. Heartbeats are only accepted for agents the user may modify, and
+ * subscribers only receive agents they may view: their own organization, and for supervisors their own team.
+ */
+export function setupPresence(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: 16 * 1024 });
+  const presence = new Map<string, AgentPresence>();
+  const subscribers = new Map<WebSocket, User>();
+
+  // Only claim our own path; other upgrades (e.g. Vite HMR) must pass through untouched.
+  httpServer.on("upgrade", (req, socket, head) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    if (pathname !== PRESENCE_WS_PATH) return;
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+  });
+
+  const send = (ws: WebSocket, message: PresenceServerMessage) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  };
+
+  const toUpdate = (agentId: string, p: AgentPresence, changed: boolean): PresenceUpdate => ({
+    agentId,
+    status: p.status,
+    isProcessingActive: p.isProcessingActive,
+    latency: p.latency,
+    inputLevel: p.inputLevel,
+    lastHeartbeatAt: new Date(p.lastHeartbeatAt).toISOString(),
+    changed,
+  });
+
+  const canView = (user: User, p: AgentPresence) =>
+    p.orgId === user.orgId && hasPermissionFor(user, "agents:view", p.teamId);
+
+  const broadcast = (agentId: string, p: AgentPresence, changed: boolean) => {
+    const payload = JSON.stringify({ type: "presence", update: toUpdate(agentId, p, changed) } satisfies PresenceServerMessage);
+    subscribers.forEach((user, ws) => {
+      if (ws.readyState === WebSocket.OPEN && canView(user, p)) ws.send(payload);
+    });
+  };
+
+  wss.on("connection", (ws, req: IncomingMessage) => {
+    const token = new URL(req.url || "/", "http://localhost").searchParams.get("token");
+    const userPromise: Promise<User | undefined> = token
+      ? getUserForPresenceToken(token).catch((error) => {
+          console.error("Presence: Token lookup failed:", error);
+          return undefined;
+        })
+      : Promise.resolve(undefined);
+    // Agents this connection has already been cleared to publish for
+    const allowedAgents = new Set<string>();
+
+    ws.on("message", async (raw) => {
+      let parsed;
+      try {
+        parsed = presenceClientMessageSchema.safeParse(JSON.parse(raw.toString()));
+      } catch {
+        return send(ws, { type: "error", error: "Messages must be JSON" });
+      }
+      if (!parsed.success) {
+        return send(ws, { type: "error", error: "Invalid presence message" });
+      }
+      const message = parsed.data;
+
+      if (message.type === "subscribe") {
+        const user = await userPromise;
+        if (!user) {
+          return send(ws, { type: "error", error: "Authentication required" });
+        }
+        if (!getPermissionScope(user.role, "agents:view")) {
+          return send(ws, { type: "error", error: "Insufficient permissions" });
+        }
+        subscribers.set(ws, user);
+        send(ws, {
+          type: "snapshot",
+          agents: Array.from(presence.entries())
+            .filter(([, p]) => canView(user, p))
+            .map(([id, p]) => toUpdate(id, p, false)),
+        });
+        return;
+      }
+
+      try {
+        let previous = presence.get(message.agentId);
+        if (!previous || !allowedAgents.has(message.agentId)) {
+          const user = await userPromise;
+          if (!user) {
+            return send(ws, { type: "error", error: "Authentication required" });
+          }
+          const agent = await storage.getAgent(user.orgId, message.agentId);
+          if (!agent) {
+            return send(ws, { type: "error", error: "Agent not found" });
+          }
+          if (!canAccessAgent(user, agent)) {
+            return send(ws, { type: "error", error: "You can only publish presence for your own agent" });
+          }
+          allowedAgents.add(message.agentId);
+          if (!agentSockets.has(message.agentId)) agentSockets.set(message.agentId, new Set());
+          agentSockets.get(message.agentId)!.add(ws);
+          previous ??= {
+            orgId: agent.orgId,
+            teamId: agent.teamId,
+            status: agent.status as AgentStatusType,
+            isProcessingActive: agent.isProcessingActive,
+            latency: agent.latency,
+            inputLevel: 0,
+            lastHeartbeatAt: 0,
+          };
+        }
+
+        const next: AgentPresence = {
+          orgId: previous.orgId,
+          teamId: previous.teamId,
+          status: message.status,
+          isProcessingActive: message.isProcessingActive,
+          latency: message.latency,
+          inputLevel: message.inputLevel,
+          lastHeartbeatAt: Date.now(),
+        };
+        presence.set(message.agentId, next);
+
+        // Only write through to storage when something persistent changed, not on every level tick.
+        const changed =
+          next.status !== previous.status ||
+          next.isProcessingActive !== previous.isProcessingActive ||
+          next.latency !== previous.latency;
+        if (changed) {
+          const updated = await storage.updateAgentSettings(next.orgId, message.agentId, {
+            status: next.status,
+            isProcessingActive: next.isProcessingActive,
+            latency: next.latency,
+          });
+          // Pick up team reassignments made since this agent's presence was cached
+          if (updated) next.teamId = updated.teamId;
+        }
+
+        broadcast(message.agentId, next, changed);
+      } catch (error) {
+        console.error("Presence: Error handling heartbeat:", error);
+      }
+    });
+
+    ws.on("close", () => {
+      subscribers.delete(ws);
+      allowedAgents.forEach((agentId) => {
+        const sockets = agentSockets.get(agentId);
+        sockets?.delete(ws);
+        if (sockets?.size === 0) agentSockets.delete(agentId);
+      });
+    });
+  });
+
+  // Sweep for agents that have gone quiet and mark them offline.
+  const sweepInterval = setInterval(async () => {
+    const cutoff = Date.now() - OFFLINE_AFTER_MS;
+    for (const [agentId, p] of Array.from(presence.entries())) {
+      if (p.lastHeartbeatAt >= cutoff) continue;
+      presence.delete(agentId);
+      const offline: AgentPresence = { ...p, status: "offline", isProcessingActive: false, inputLevel: 0 };
+      try {
+        await storage.updateAgentSettings(p.orgId, agentId, { status: "offline", isProcessingActive: false });
+      } catch (error) {
+        console.error(`Presence: Failed to mark agent ${agentId} offline:`, error);
+      }
+      console.log(`Presence: Agent ${agentId} missed ${PRESENCE_MISSED_HEARTBEATS} heartbeats, marked offline`);
+      broadcast(agentId, offline, true);
+    }
+  }, PRESENCE_HEARTBEAT_INTERVAL_MS);
+  sweepInterval.unref();
+
+  httpServer.on("close", () => {
+    clearInterval(sweepInterval);
+    wss.close();
+  });
+
+  return wss;
+}
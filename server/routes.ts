@@ -1,55 +1,277 @@
-import type { Express } from "express";
+import express, { type Express, type Request } from "express";
 import { createServer, type Server } from "http";
+import { randomUUID } from "crypto";
+import multer from "multer";
 import { storage } from "./storage";
 import { 
   insertAgentSchema, 
   updateAgentSettingsSchema, 
   insertCustomProfileSchema, 
   insertTeamPresetSchema,
+  insertAccentPresetSchema,
+  updateAccentPresetSchema,
+  resolveAccentPreset,
   teamPresets,
-  audioSettingsSchema
+  audioSettingsSchema,
+  insertTeamSchema,
+  updateTeamSchema,
+  updateUserSchema,
+  assignAgentTeamSchema,
+  insertOrganizationSchema,
+  startCallSchema,
+  endCallSchema,
+  analyticsQuerySchema,
+  auditQuerySchema,
+  importCustomProfilesSchema,
+  importTeamPresetsSchema,
+  getPermissionScope,
+  isAdminRole,
+  resolveMandatoryPreset,
+  applyMandatoryPreset,
+  enforcePresetLocks,
+  diffAudioSettings
+} from "@shared/schema";
+import type {
+  Agent,
+  Recording,
+  User,
+  PermissionType,
+  CustomProfile,
+  TeamPreset,
+  RevisionAction,
+  RevisionSnapshot,
+  RevisionTargetType,
 } from "@shared/schema";
 import { createInsertSchema } from "drizzle-zod";
 import { usageStats, recordings } from "@shared/schema";
 import { z } from "zod";
 import { 
   requireAuth, 
-  requireAdmin, 
-  optionalAuth,
+  requirePermission,
+  requireAgentOwner,
+  requireMediaAuth,
+  issueMediaToken,
+  issuePresenceToken,
+  canAccessAgent,
+  canManageOrganization,
+  toPublicUser,
   handleLogin, 
   handleLogout, 
   handleGetCurrentUser,
-  handleRegisterUser 
+  handleRegisterUser,
+  handleBootstrapStatus,
+  handleBootstrap,
+  handleCreateInvite,
+  handleGetInvite,
+  handleAcceptInvite
 } from "./auth";
+import {
+  buildTimeSeries,
+  timeSeriesToCsv,
+  AnalyticsRangeError,
+  DEFAULT_ANALYTICS_RANGE_DAYS,
+} from "./analytics";
+import { processAudio } from "./dsp/engine";
+import { decodeWav, downmixToMono, encodeWav, WavDecodeError } from "./dsp/wav";
+import { blobStore } from "./blob-store";
+import { sendToAgent } from "./presence";
+import { audit } from "./audit";
+import { importVoxPresetBundle, selectForExport, toVoxPresetBundle, voxPresetFileName } from "./voxpreset";
+
+// orgId always comes from the signed-in user, never from the request body.
+const insertUsageStatsSchema = createInsertSchema(usageStats).omit({ orgId: true });
+// storageKey/mimeType are only ever set by the upload route, never by clients.
+const insertRecordingSchema = createInsertSchema(recordings, { audioSettings: audioSettingsSchema })
+  .omit({ orgId: true, storageKey: true, mimeType: true });
+const uploadRecordingFieldsSchema = z.object({
+  agentId: z.string().min(1),
+  fileName: z.string().min(1).max(255),
+  duration: z.coerce.number().int().min(0).default(0),
+  audioSettings: audioSettingsSchema,
+});
+
+const MAX_RECORDING_UPLOAD_BYTES = 100 * 1024 * 1024;
+const recordingUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_RECORDING_UPLOAD_BYTES, files: 1 },
+  fileFilter: (_req, file, cb) => cb(null, file.mimetype.startsWith("audio/") || file.mimetype === "video/webm"),
+});
 
-const insertUsageStatsSchema = createInsertSchema(usageStats);
-const insertRecordingSchema = createInsertSchema(recordings, { audioSettings: audioSettingsSchema });
+// processAudio runs on the request thread (~50 ms per second of audio), so clips are kept short
+// enough not to stall other requests.
+const MAX_PROCESS_DURATION_SEC = 30;
+
+function recordingExtension(mimeType: string): string {
+  if (mimeType.includes("webm")) return ".webm";
+  if (mimeType.includes("ogg")) return ".ogg";
+  if (mimeType.includes("wav")) return ".wav";
+  if (mimeType.includes("mp4") || mimeType.includes("m4a")) return ".m4a";
+  return ".bin";
+}
 const updateTeamPresetSchema = insertTeamPresetSchema.partial();
 
+// Agents the user may see under `permission`: their whole organization for "all" scope, their team for "team" scope.
+async function getAgentsInScope(user: User, permission: PermissionType): Promise<Agent[]> {
+  const scope = getPermissionScope(user.role, permission);
+  if (scope === "all") return storage.getAllAgents(user.orgId);
+  if (scope === "team" && user.teamId) return storage.getAgentsByTeam(user.orgId, user.teamId);
+  return [];
+}
+
+// A recording whose agent the user may view; recordings of other agents are treated as missing
+async function getViewableRecording(user: User, id: string): Promise<Recording | undefined> {
+  const recording = await storage.getRecording(user.orgId, id);
+  const agent = recording && await storage.getAgent(user.orgId, recording.agentId);
+  return agent && canAccessAgent(user, agent, "agents:view") ? recording : undefined;
+}
+
+// Each agent's governing mandatory preset, snapshotted before a change for pushMandatoryPresets
+async function getMandatoryPresetIds(orgId: string, agents: Agent[]): Promise<Map<string, string | undefined>> {
+  const presets = await storage.getActiveTeamPresets(orgId);
+  return new Map(agents.map((a) => [a.id, resolveMandatoryPreset(presets, a.teamId)?.id]));
+}
+
+/**
+ * Switch agents to the mandatory preset now governing them and tell their dashboards. Agents whose
+ * preset is the same as in `previous` are skipped, unless it is `changedPresetId` (edited in place).
+ */
+async function pushMandatoryPresets(
+  orgId: string,
+  agents: Agent[],
+  previous: Map<string, string | undefined>,
+  changedPresetId?: string,
+) {
+  const presets = await storage.getActiveTeamPresets(orgId);
+  for (const agent of agents) {
+    const preset = resolveMandatoryPreset(presets, agent.teamId);
+    if (preset?.id === previous.get(agent.id) && (!preset || preset.id !== changedPresetId)) continue;
+
+    const updated = preset
+      ? await storage.updateAgentSettings(orgId, agent.id, { audioSettings: applyMandatoryPreset(agent.audioSettings, preset) })
+      : agent;
+    sendToAgent(agent.id, {
+      type: "mandatoryPreset",
+      agentId: agent.id,
+      preset: preset ?? null,
+      audioSettings: (updated ?? agent).audioSettings,
+    });
+  }
+}
+
+function presetSnapshot(preset: TeamPreset): RevisionSnapshot {
+  return {
+    name: preset.name,
+    description: preset.description,
+    audioSettings: preset.audioSettings,
+    teamId: preset.teamId,
+    isMandatory: preset.isMandatory,
+    lockedFields: preset.lockedFields,
+  };
+}
+
+function profileSnapshot(profile: CustomProfile): RevisionSnapshot {
+  return { name: profile.name, audioSettings: profile.audioSettings, agentId: profile.agentId, isShared: profile.isShared };
+}
+
+// Append to a preset's or profile's history. `before` is null on create, `after` on delete.
+async function recordRevision(
+  user: User,
+  targetType: RevisionTargetType,
+  targetId: string,
+  action: RevisionAction,
+  before: RevisionSnapshot | null,
+  after: RevisionSnapshot | null,
+) {
+  await storage.createSettingsRevision({
+    orgId: user.orgId,
+    targetType,
+    targetId,
+    action,
+    snapshot: (after ?? before)!,
+    changes: diffAudioSettings(before?.audioSettings ?? null, after?.audioSettings ?? null),
+    userId: user.id,
+    username: user.username,
+  });
+}
+
+// A profile's owner, read from its history once the profile itself is deleted
+async function getProfileAgentId(orgId: string, profileId: string): Promise<string | undefined> {
+  const profile = await storage.getCustomProfile(orgId, profileId);
+  if (profile) return profile.agentId;
+  const [latest] = await storage.getSettingsRevisions(orgId, "custom_profile", profileId);
+  return latest?.snapshot.agentId;
+}
+
+// "Before" snapshots for the audit log
+const agentBefore = (req: Request) => storage.getAgent(req.user!.orgId, req.params.id);
+const teamBefore = (req: Request) => storage.getTeam(req.user!.orgId, req.params.id);
+const presetBefore = (req: Request) => storage.getTeamPreset(req.user!.orgId, req.params.id);
+const accentBefore = (req: Request) => storage.getAccentPreset(req.user!.orgId, req.params.id);
+const profileBefore = (req: Request) => storage.getCustomProfile(req.user!.orgId, req.params.id);
+const inviteBefore = (req: Request) => storage.getInvite(req.params.inviteId);
+// Users are looked up by id alone, so only report one from the caller's organization
+const userBefore = async (req: Request) => {
+  const user = await storage.getUser(req.params.id);
+  return user?.orgId === req.user!.orgId ? user : undefined;
+};
+
+// Only one preset per scope (a team, or the organization) is mandatory; making one mandatory releases the other
+async function releaseOtherMandatoryPresets(orgId: string, keepId: string, teamId: string | null) {
+  const presets = await storage.getAllTeamPresets(orgId);
+  for (const preset of presets) {
+    if (preset.id !== keepId && preset.isMandatory && preset.teamId === teamId) {
+      await storage.updateTeamPreset(orgId, preset.id, { isMandatory: false });
+    }
+  }
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
   // ===== Authentication Routes (No auth required) =====
-  app.post("/api/auth/login", handleLogin);
-  app.post("/api/auth/logout", requireAuth, handleLogout);
+  app.post("/api/auth/login", audit("user.login"), handleLogin);
+  app.post("/api/auth/logout", requireAuth, audit("user.logout", { entityId: (_params, _body, req) => req.user!.id }), handleLogout);
   app.get("/api/auth/me", requireAuth, handleGetCurrentUser);
-  app.post("/api/auth/register", requireAuth, requireAdmin, handleRegisterUser);
+  app.post("/api/auth/register", requireAuth, requirePermission("users:manage"), audit("user.create"), handleRegisterUser);
+  app.get("/api/auth/bootstrap", handleBootstrapStatus);
+  app.post("/api/auth/bootstrap", audit("user.bootstrap"), handleBootstrap);
+  app.get("/api/auth/invite/:token", handleGetInvite);
+  app.post("/api/auth/invite/accept", audit("user.join"), handleAcceptInvite);
+  app.get("/api/auth/presence-token", requireAuth, (req, res) => res.json(issuePresenceToken(req.user!)));
 
   // Seed database on startup - with error handling
   try {
-    await storage.seedSampleAgents();
+    const defaultOrg = await storage.getDefaultOrganization();
+    await storage.seedSampleAgents(defaultOrg.id);
   } catch (error) {
     console.error("❌ Failed to seed sample agents:", error);
     // Continue startup - don't crash server if seeding fails
   }
 
+  // Organizations from before accent presets were stored (or before a new built-in shipped) get the built-ins
+  try {
+    for (const org of await storage.getAllOrganizations()) {
+      await storage.seedAccentPresets(org.id);
+    }
+  } catch (error) {
+    console.error("❌ Failed to seed accent presets:", error);
+  }
+
+  try {
+    if (await storage.getUserCount() === 0) {
+      console.log("⚠️  No user accounts exist yet. Open /admin to create the initial admin.");
+    }
+  } catch (error) {
+    console.error("❌ Failed to check for user accounts:", error);
+  }
+
   // ===== Agent Routes (Require Authentication) =====
   
   // Get all agents
-  app.get("/api/agents", optionalAuth, async (req, res) => {
+  app.get("/api/agents", requireAuth, requirePermission("agents:view"), async (req, res) => {
     try {
-      const agents = await storage.getAllAgents();
+      const agents = await getAgentsInScope(req.user!, "agents:view");
       res.json(agents);
     } catch (error) {
       console.error("Error fetching agents:", error);
@@ -57,13 +279,27 @@ export async function registerRoutes(
     }
   });
 
+  // Get the agent linked to the signed-in account (null until the user registers one)
+  app.get("/api/agents/me", requireAuth, async (req, res) => {
+    try {
+      const agent = await storage.getAgentByUserId(req.user!.id);
+      res.json(agent ?? null);
+    } catch (error) {
+      console.error("Error fetching own agent:", error);
+      res.status(500).json({ error: "Failed to fetch agent" });
+    }
+  });
+
   // Get a single agent
-  app.get("/api/agents/:id", optionalAuth, async (req, res) => {
+  app.get("/api/agents/:id", requireAuth, async (req, res) => {
     try {
-      const agent = await storage.getAgent(req.params.id);
+      const agent = await storage.getAgent(req.user!.orgId, req.params.id);
       if (!agent) {
         return res.status(404).json({ error: "Agent not found" });
       }
+      if (!canAccessAgent(req.user!, agent, "agents:view")) {
+        return res.status(403).json({ error: "You don't have permission to view this agent" });
+      }
       res.json(agent);
     } catch (error) {
       console.error("Error fetching agent:", error);
@@ -71,11 +307,23 @@ export async function registerRoutes(
     }
   });
 
-  // Create a new agent
-  app.post("/api/agents", optionalAuth, async (req, res) => {
+  // Create a new agent. Agents create their own (linked to their account); admins create unlinked ones.
+  app.post("/api/agents", requireAuth, audit("agent.create"), async (req, res) => {
     try {
       const validatedData = insertAgentSchema.parse(req.body);
-      const agent = await storage.createAgent(validatedData);
+      const user = req.user!;
+      const isAdmin = isAdminRole(user.role);
+      if (!isAdmin && await storage.getAgentByUserId(user.id)) {
+        return res.status(409).json({ error: "This account already has an agent" });
+      }
+      let agent = await storage.createAgent(user.orgId, validatedData, isAdmin ? null : user.id);
+      // New agents have no team yet, so only an organization-wide mandatory preset can apply
+      const preset = resolveMandatoryPreset(await storage.getActiveTeamPresets(user.orgId), agent.teamId);
+      if (preset) {
+        agent = await storage.updateAgentSettings(user.orgId, agent.id, {
+          audioSettings: applyMandatoryPreset(agent.audioSettings, preset),
+        }) ?? agent;
+      }
       res.status(201).json(agent);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -87,10 +335,19 @@ export async function registerRoutes(
   });
 
   // Update agent settings
-  app.patch("/api/agents/:id", optionalAuth, async (req, res) => {
+  app.patch("/api/agents/:id", requireAuth, requireAgentOwner((req) => req.params.id), audit("agent.update", { before: agentBefore }), async (req, res) => {
     try {
       const validatedData = updateAgentSettingsSchema.parse(req.body);
-      const agent = await storage.updateAgentSettings(req.params.id, validatedData);
+      const orgId = req.user!.orgId;
+      // Settings locked by the governing mandatory preset are clamped back into bounds
+      if (validatedData.audioSettings) {
+        const current = await storage.getAgent(orgId, req.params.id);
+        const preset = current && resolveMandatoryPreset(await storage.getActiveTeamPresets(orgId), current.teamId);
+        if (preset) {
+          validatedData.audioSettings = enforcePresetLocks(validatedData.audioSettings, preset).settings;
+        }
+      }
+      const agent = await storage.updateAgentSettings(orgId, req.params.id, validatedData);
       if (!agent) {
         return res.status(404).json({ error: "Agent not found" });
       }
@@ -104,10 +361,38 @@ export async function registerRoutes(
     }
   });
 
+  // Move an agent to another team (or none)
+  app.patch("/api/agents/:id/team", requireAuth, requirePermission("teams:manage"), audit("agent.assignTeam", { before: agentBefore }), async (req, res) => {
+    try {
+      const { teamId } = assignAgentTeamSchema.parse(req.body);
+      const orgId = req.user!.orgId;
+      if (teamId && !(await storage.getTeam(orgId, teamId))) {
+        return res.status(400).json({ error: "Team not found" });
+      }
+      const current = await storage.getAgent(orgId, req.params.id);
+      if (!current) {
+        return res.status(404).json({ error: "Agent not found" });
+      }
+      const previousPresets = await getMandatoryPresetIds(orgId, [current]);
+      const agent = await storage.updateAgentTeam(orgId, req.params.id, teamId);
+      if (!agent) {
+        return res.status(404).json({ error: "Agent not found" });
+      }
+      await pushMandatoryPresets(orgId, [agent], previousPresets);
+      res.json(await storage.getAgent(orgId, agent.id) ?? agent);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid team assignment", details: error.errors });
+      }
+      console.error("Error assigning agent team:", error);
+      res.status(500).json({ error: "Failed to assign team" });
+    }
+  });
+
   // Delete an agent
-  app.delete("/api/agents/:id", requireAuth, requireAdmin, async (req, res) => {
+  app.delete("/api/agents/:id", requireAuth, requirePermission("agents:delete"), audit("agent.delete", { before: agentBefore }), async (req, res) => {
     try {
-      const deleted = await storage.deleteAgent(req.params.id);
+      const deleted = await storage.deleteAgent(req.user!.orgId, req.params.id);
       if (!deleted) {
         return res.status(404).json({ error: "Agent not found" });
       }
@@ -119,9 +404,9 @@ export async function registerRoutes(
   });
 
   // Get agent statistics
-  app.get("/api/stats", optionalAuth, async (req, res) => {
+  app.get("/api/stats", requireAuth, requirePermission("agents:view"), async (req, res) => {
     try {
-      const agents = await storage.getAllAgents();
+      const agents = await getAgentsInScope(req.user!, "agents:view");
       
       // Count preset usage across all agents
       const presetUsage: Record<string, number> = {};
@@ -131,8 +416,10 @@ export async function registerRoutes(
       });
 
       // Calculate average settings
-      const avgNoiseReduction = agents.reduce((sum, a) => sum + (a.audioSettings.noiseReductionLevel || 50), 0) / agents.length;
-      const avgClarityBoost = agents.reduce((sum, a) => sum + (a.audioSettings.clarityBoost || 0), 0) / agents.length;
+      // A supervisor's team can be empty; avoid NaN averages
+      const agentCount = agents.length || 1;
+      const avgNoiseReduction = agents.reduce((sum, a) => sum + (a.audioSettings.noiseReductionLevel || 50), 0) / agentCount;
+      const avgClarityBoost = agents.reduce((sum, a) => sum + (a.audioSettings.clarityBoost || 0), 0) / agentCount;
       const volumeNormalizationCount = agents.filter((a) => a.audioSettings.volumeNormalization).length;
 
       const stats = {
@@ -159,9 +446,16 @@ export async function registerRoutes(
   // ===== Custom Profiles API =====
 
   // Get custom profiles for an agent
-  app.get("/api/agents/:id/profiles", optionalAuth, async (req, res) => {
+  app.get("/api/agents/:id/profiles", requireAuth, async (req, res) => {
     try {
-      const profiles = await storage.getCustomProfiles(req.params.id);
+      const agent = await storage.getAgent(req.user!.orgId, req.params.id);
+      if (!agent) {
+        return res.status(404).json({ error: "Agent not found" });
+      }
+      if (!canAccessAgent(req.user!, agent, "agents:view")) {
+        return res.status(403).json({ error: "You don't have permission to view this agent" });
+      }
+      const profiles = await storage.getCustomProfiles(agent.orgId, agent.id);
       res.json(profiles);
     } catch (error) {
       console.error("Error fetching profiles:", error);
@@ -169,10 +463,34 @@ export async function registerRoutes(
     }
   });
 
-  // Get all shared profiles
-  app.get("/api/profiles/shared", optionalAuth, async (req, res) => {
+  // Download an agent's custom profiles (all, or ?ids=a,b) as a .voxpreset bundle
+  app.get("/api/agents/:id/profiles/export", requireAuth, async (req, res) => {
     try {
-      const profiles = await storage.getSharedProfiles();
+      const agent = await storage.getAgent(req.user!.orgId, req.params.id);
+      if (!agent) {
+        return res.status(404).json({ error: "Agent not found" });
+      }
+      if (!canAccessAgent(req.user!, agent, "agents:view")) {
+        return res.status(403).json({ error: "You don't have permission to view this agent" });
+      }
+      const profiles = selectForExport(await storage.getCustomProfiles(agent.orgId, agent.id), req.query.ids);
+      if (profiles.length === 0) {
+        return res.status(404).json({ error: "No profiles to export" });
+      }
+      const entries = profiles.map((p) => ({ name: p.name, audioSettings: p.audioSettings }));
+      res.setHeader("Content-Type", "application/json; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${voxPresetFileName(entries, "custom-profiles")}"`);
+      res.send(JSON.stringify(toVoxPresetBundle(entries), null, 2));
+    } catch (error) {
+      console.error("Error exporting profiles:", error);
+      res.status(500).json({ error: "Failed to export profiles" });
+    }
+  });
+
+  // Get all shared profiles in the user's organization
+  app.get("/api/profiles/shared", requireAuth, async (req, res) => {
+    try {
+      const profiles = await storage.getSharedProfiles(req.user!.orgId);
       res.json(profiles);
     } catch (error) {
       console.error("Error fetching shared profiles:", error);
@@ -181,10 +499,11 @@ export async function registerRoutes(
   });
 
   // Create a custom profile
-  app.post("/api/profiles", optionalAuth, async (req, res) => {
+  app.post("/api/profiles", requireAuth, requireAgentOwner((req) => req.body?.agentId), audit("profile.create"), async (req, res) => {
     try {
       const validatedData = insertCustomProfileSchema.parse(req.body);
-      const profile = await storage.createCustomProfile(validatedData);
+      const profile = await storage.createCustomProfile({ ...validatedData, orgId: req.user!.orgId });
+      await recordRevision(req.user!, "custom_profile", profile.id, "create", null, profileSnapshot(profile));
       res.status(201).json(profile);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -195,26 +514,355 @@ export async function registerRoutes(
     }
   });
 
+  // Import a .voxpreset bundle as custom profiles of an agent. Invalid entries and name conflicts
+  // are reported per entry (and field) instead of failing the whole import.
+  app.post(
+    "/api/profiles/import",
+    requireAuth,
+    requireAgentOwner((req) => req.body?.agentId),
+    audit("profile.import", { entityId: (_params, _body, req) => req.body?.agentId }),
+    async (req, res) => {
+      try {
+        const { agentId, bundle, onConflict } = importCustomProfilesSchema.parse(req.body);
+        const orgId = req.user!.orgId;
+        const existing = await storage.getCustomProfiles(orgId, agentId);
+        const report = await importVoxPresetBundle(bundle, existing, onConflict, async (entry) => {
+          // Profiles have no description, so a bundle's is dropped
+          const profile = await storage.createCustomProfile({
+            orgId,
+            agentId,
+            name: entry.name,
+            audioSettings: entry.audioSettings,
+            isShared: false,
+          });
+          await recordRevision(req.user!, "custom_profile", profile.id, "create", null, profileSnapshot(profile));
+          return profile.id;
+        });
+        res.json(report);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ error: "Invalid preset bundle", details: error.errors });
+        }
+        console.error("Error importing profiles:", error);
+        res.status(500).json({ error: "Failed to import profiles" });
+      }
+    },
+  );
+
   // Delete a custom profile
-  app.delete("/api/profiles/:id", optionalAuth, async (req, res) => {
+  app.delete(
+    "/api/profiles/:id",
+    requireAuth,
+    requireAgentOwner(async (req) => (await storage.getCustomProfile(req.user!.orgId, req.params.id))?.agentId),
+    audit("profile.delete", { before: profileBefore }),
+    async (req, res) => {
+      try {
+        const profile = await storage.getCustomProfile(req.user!.orgId, req.params.id);
+        if (!profile || !(await storage.deleteCustomProfile(req.user!.orgId, profile.id))) {
+          return res.status(404).json({ error: "Profile not found" });
+        }
+        await recordRevision(req.user!, "custom_profile", profile.id, "delete", profileSnapshot(profile), null);
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error deleting profile:", error);
+        res.status(500).json({ error: "Failed to delete profile" });
+      }
+    },
+  );
+
+  // Revision history of a custom profile (still listed after the profile is deleted)
+  app.get(
+    "/api/profiles/:id/revisions",
+    requireAuth,
+    requireAgentOwner((req) => getProfileAgentId(req.user!.orgId, req.params.id)),
+    async (req, res) => {
+      try {
+        const revisions = await storage.getSettingsRevisions(req.user!.orgId, "custom_profile", req.params.id);
+        if (revisions.length === 0 && !(await storage.getCustomProfile(req.user!.orgId, req.params.id))) {
+          return res.status(404).json({ error: "Profile not found" });
+        }
+        res.json(revisions);
+      } catch (error) {
+        console.error("Error fetching profile revisions:", error);
+        res.status(500).json({ error: "Failed to fetch profile revisions" });
+      }
+    },
+  );
+
+  // Bring a deleted custom profile back as it was at a revision. Profiles can't be edited, so a live one has nothing to roll back.
+  app.post(
+    "/api/profiles/:id/revisions/:revisionId/restore",
+    requireAuth,
+    requireAgentOwner((req) => getProfileAgentId(req.user!.orgId, req.params.id)),
+    audit("profile.restore"),
+    async (req, res) => {
+      try {
+        const orgId = req.user!.orgId;
+        const revision = await storage.getSettingsRevision(orgId, req.params.revisionId);
+        if (!revision || revision.targetType !== "custom_profile" || revision.targetId !== req.params.id) {
+          return res.status(404).json({ error: "Revision not found" });
+        }
+        if (await storage.getCustomProfile(orgId, req.params.id)) {
+          return res.status(409).json({ error: "Profile still exists" });
+        }
+        const { snapshot } = revision;
+        if (!snapshot.agentId || !(await storage.getAgent(orgId, snapshot.agentId))) {
+          return res.status(404).json({ error: "Agent not found" });
+        }
+        const profile = await storage.createCustomProfile({
+          id: revision.targetId,
+          orgId,
+          agentId: snapshot.agentId,
+          name: snapshot.name,
+          audioSettings: snapshot.audioSettings,
+          isShared: snapshot.isShared ?? false,
+        });
+        await recordRevision(req.user!, "custom_profile", profile.id, "restore", null, profileSnapshot(profile));
+        res.status(201).json(profile);
+      } catch (error) {
+        console.error("Error restoring profile:", error);
+        res.status(500).json({ error: "Failed to restore profile" });
+      }
+    },
+  );
+
+  // ===== Teams API =====
+
+  // List teams (supervisors only see their own)
+  app.get("/api/teams", requireAuth, requirePermission("agents:view"), async (req, res) => {
     try {
-      const deleted = await storage.deleteCustomProfile(req.params.id);
+      const user = req.user!;
+      const allTeams = await storage.getAllTeams(user.orgId);
+      const visible = getPermissionScope(user.role, "agents:view") === "all"
+        ? allTeams
+        : allTeams.filter((t) => t.id === user.teamId);
+      res.json(visible);
+    } catch (error) {
+      console.error("Error fetching teams:", error);
+      res.status(500).json({ error: "Failed to fetch teams" });
+    }
+  });
+
+  // Create a team
+  app.post("/api/teams", requireAuth, requirePermission("teams:manage"), audit("team.create"), async (req, res) => {
+    try {
+      const validatedData = insertTeamSchema.parse(req.body);
+      const orgId = req.user!.orgId;
+      const teams = await storage.getAllTeams(orgId);
+      if (teams.some((t) => t.name.toLowerCase() === validatedData.name.toLowerCase())) {
+        return res.status(400).json({ error: "Team name already exists" });
+      }
+      const team = await storage.createTeam({ ...validatedData, orgId });
+      res.status(201).json(team);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid team data", details: error.errors });
+      }
+      console.error("Error creating team:", error);
+      res.status(500).json({ error: "Failed to create team" });
+    }
+  });
+
+  // Update a team
+  app.patch("/api/teams/:id", requireAuth, requirePermission("teams:manage"), audit("team.update", { before: teamBefore }), async (req, res) => {
+    try {
+      const validatedData = updateTeamSchema.parse(req.body);
+      const orgId = req.user!.orgId;
+      if (validatedData.name) {
+        const name = validatedData.name.toLowerCase();
+        const teams = await storage.getAllTeams(orgId);
+        if (teams.some((t) => t.id !== req.params.id && t.name.toLowerCase() === name)) {
+          return res.status(400).json({ error: "Team name already exists" });
+        }
+      }
+      const team = await storage.updateTeam(orgId, req.params.id, validatedData);
+      if (!team) {
+        return res.status(404).json({ error: "Team not found" });
+      }
+      res.json(team);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid team data", details: error.errors });
+      }
+      console.error("Error updating team:", error);
+      res.status(500).json({ error: "Failed to update team" });
+    }
+  });
+
+  // Delete a team (its agents and supervisors become unassigned)
+  app.delete("/api/teams/:id", requireAuth, requirePermission("teams:manage"), audit("team.delete", { before: teamBefore }), async (req, res) => {
+    try {
+      const orgId = req.user!.orgId;
+      const members = await storage.getAgentsByTeam(orgId, req.params.id);
+      const previousPresets = await getMandatoryPresetIds(orgId, members);
+      const deleted = await storage.deleteTeam(orgId, req.params.id);
       if (!deleted) {
-        return res.status(404).json({ error: "Profile not found" });
+        return res.status(404).json({ error: "Team not found" });
       }
+      // Former members fall back to the organization-wide mandatory preset, if any
+      const unassigned = await Promise.all(members.map((a) => storage.getAgent(orgId, a.id)));
+      await pushMandatoryPresets(orgId, unassigned.filter((a): a is Agent => !!a), previousPresets);
       res.status(204).send();
     } catch (error) {
-      console.error("Error deleting profile:", error);
-      res.status(500).json({ error: "Failed to delete profile" });
+      console.error("Error deleting team:", error);
+      res.status(500).json({ error: "Failed to delete team" });
+    }
+  });
+
+  // ===== Users API =====
+
+  // List login accounts in the admin's organization
+  app.get("/api/users", requireAuth, requirePermission("users:manage"), async (req, res) => {
+    try {
+      const users = await storage.getAllUsers(req.user!.orgId);
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
+  // Change a user's role or team
+  app.patch("/api/users/:id", requireAuth, requirePermission("users:manage"), audit("user.update", { before: userBefore }), async (req, res) => {
+    try {
+      const validatedData = updateUserSchema.parse(req.body);
+      const orgId = req.user!.orgId;
+      if (validatedData.teamId && !(await storage.getTeam(orgId, validatedData.teamId))) {
+        return res.status(400).json({ error: "Team not found" });
+      }
+      if (validatedData.role) {
+        // Don't let an admin lock everyone out by demoting themselves
+        if (req.params.id === req.user!.id && validatedData.role !== req.user!.role) {
+          return res.status(400).json({ error: "You can't change your own role" });
+        }
+        const target = await storage.getUser(req.params.id);
+        if (target?.role === "owner") {
+          return res.status(400).json({ error: "The owner's role can't be changed" });
+        }
+      }
+      const user = await storage.updateUser(orgId, req.params.id, validatedData);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid user data", details: error.errors });
+      }
+      console.error("Error updating user:", error);
+      res.status(500).json({ error: "Failed to update user" });
+    }
+  });
+
+  // ===== Organizations API =====
+
+  // The signed-in user's organization
+  app.get("/api/orgs/current", requireAuth, async (req, res) => {
+    try {
+      const org = await storage.getOrganization(req.user!.orgId);
+      if (!org) {
+        return res.status(404).json({ error: "Organization not found" });
+      }
+      res.json(org);
+    } catch (error) {
+      console.error("Error fetching organization:", error);
+      res.status(500).json({ error: "Failed to fetch organization" });
+    }
+  });
+
+  // List all organizations (owner only)
+  app.get("/api/orgs", requireAuth, requirePermission("orgs:manage"), async (req, res) => {
+    try {
+      const orgs = await storage.getAllOrganizations();
+      res.json(orgs);
+    } catch (error) {
+      console.error("Error fetching organizations:", error);
+      res.status(500).json({ error: "Failed to fetch organizations" });
+    }
+  });
+
+  // Create an organization (owner only). Its first admin joins through an invite.
+  app.post("/api/orgs", requireAuth, requirePermission("orgs:manage"), audit("organization.create"), async (req, res) => {
+    try {
+      const validatedData = insertOrganizationSchema.parse(req.body);
+      const orgs = await storage.getAllOrganizations();
+      if (orgs.some((o) => o.name.toLowerCase() === validatedData.name.toLowerCase())) {
+        return res.status(400).json({ error: "Organization name already exists" });
+      }
+      const org = await storage.createOrganization(validatedData);
+      await storage.seedAccentPresets(org.id);
+      res.status(201).json(org);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid organization data", details: error.errors });
+      }
+      console.error("Error creating organization:", error);
+      res.status(500).json({ error: "Failed to create organization" });
+    }
+  });
+
+  // Pending invites for an organization
+  app.get("/api/orgs/:id/invites", requireAuth, async (req, res) => {
+    try {
+      if (!canManageOrganization(req.user!, req.params.id)) {
+        return res.status(403).json({ error: "Insufficient permissions" });
+      }
+      const invites = await storage.getInvites(req.params.id);
+      res.json(invites);
+    } catch (error) {
+      console.error("Error fetching invites:", error);
+      res.status(500).json({ error: "Failed to fetch invites" });
+    }
+  });
+
+  // Invite a user into an organization
+  app.post(
+    "/api/orgs/:id/invites",
+    requireAuth,
+    audit("invite.create", { entityId: (_params, body) => (body as { invite?: { id: string } } | null)?.invite?.id }),
+    handleCreateInvite,
+  );
+
+  // Revoke a pending invite
+  app.delete("/api/orgs/:id/invites/:inviteId", requireAuth, audit("invite.revoke", { before: inviteBefore, entityId: (params) => params.inviteId }), async (req, res) => {
+    try {
+      if (!canManageOrganization(req.user!, req.params.id)) {
+        return res.status(403).json({ error: "Insufficient permissions" });
+      }
+      const invite = await storage.getInvite(req.params.inviteId);
+      if (!invite || invite.orgId !== req.params.id || !(await storage.deleteInvite(invite.id))) {
+        return res.status(404).json({ error: "Invite not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking invite:", error);
+      res.status(500).json({ error: "Failed to revoke invite" });
+    }
+  });
+
+  // ===== Audit Log API =====
+
+  // Who changed what in the organization, newest first
+  app.get("/api/audit", requireAuth, requirePermission("audit:view"), async (req, res) => {
+    try {
+      const query = auditQuerySchema.parse(req.query);
+      const entries = await storage.getAuditEntries(req.user!.orgId, query);
+      res.json(entries);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid audit query", details: error.errors });
+      }
+      console.error("Error fetching audit log:", error);
+      res.status(500).json({ error: "Failed to fetch audit log" });
     }
   });
 
   // ===== Team Presets API =====
 
   // Get all team presets
-  app.get("/api/team-presets", optionalAuth, async (req, res) => {
+  app.get("/api/team-presets", requireAuth, async (req, res) => {
     try {
-      const presets = await storage.getAllTeamPresets();
+      const presets = await storage.getAllTeamPresets(req.user!.orgId);
       res.json(presets);
     } catch (error) {
       console.error("Error fetching team presets:", error);
@@ -222,10 +870,27 @@ export async function registerRoutes(
     }
   });
 
+  // Download team presets (all, or ?ids=a,b) as a .voxpreset bundle. Locks and scope stay behind.
+  app.get("/api/team-presets/export", requireAuth, async (req, res) => {
+    try {
+      const presets = selectForExport(await storage.getAllTeamPresets(req.user!.orgId), req.query.ids);
+      if (presets.length === 0) {
+        return res.status(404).json({ error: "No presets to export" });
+      }
+      const entries = presets.map((p) => ({ name: p.name, description: p.description, audioSettings: p.audioSettings }));
+      res.setHeader("Content-Type", "application/json; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${voxPresetFileName(entries, "team-presets")}"`);
+      res.send(JSON.stringify(toVoxPresetBundle(entries), null, 2));
+    } catch (error) {
+      console.error("Error exporting presets:", error);
+      res.status(500).json({ error: "Failed to export presets" });
+    }
+  });
+
   // Get active team presets
-  app.get("/api/team-presets/active", optionalAuth, async (req, res) => {
+  app.get("/api/team-presets/active", requireAuth, async (req, res) => {
     try {
-      const presets = await storage.getActiveTeamPresets();
+      const presets = await storage.getActiveTeamPresets(req.user!.orgId);
       res.json(presets);
     } catch (error) {
       console.error("Error fetching active presets:", error);
@@ -234,10 +899,21 @@ export async function registerRoutes(
   });
 
   // Create a team preset
-  app.post("/api/team-presets", requireAuth, requireAdmin, async (req, res) => {
+  app.post("/api/team-presets", requireAuth, requirePermission("presets:manage"), audit("preset.create"), async (req, res) => {
     try {
       const validatedData = insertTeamPresetSchema.parse(req.body);
-      const preset = await storage.createTeamPreset(validatedData);
+      const orgId = req.user!.orgId;
+      if (validatedData.teamId && !(await storage.getTeam(orgId, validatedData.teamId))) {
+        return res.status(400).json({ error: "Team not found" });
+      }
+      const agents = await storage.getAllAgents(orgId);
+      const previousPresets = await getMandatoryPresetIds(orgId, agents);
+      const preset = await storage.createTeamPreset({ ...validatedData, orgId });
+      await recordRevision(req.user!, "team_preset", preset.id, "create", null, presetSnapshot(preset));
+      if (preset.isMandatory) {
+        await releaseOtherMandatoryPresets(orgId, preset.id, preset.teamId);
+      }
+      await pushMandatoryPresets(orgId, agents, previousPresets, preset.id);
       res.status(201).json(preset);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -248,14 +924,55 @@ export async function registerRoutes(
     }
   });
 
+  // Import a .voxpreset bundle as team presets; they arrive active but not mandatory
+  app.post("/api/team-presets/import", requireAuth, requirePermission("presets:manage"), audit("preset.import"), async (req, res) => {
+    try {
+      const { bundle, onConflict } = importTeamPresetsSchema.parse(req.body);
+      const orgId = req.user!.orgId;
+      const existing = await storage.getAllTeamPresets(orgId);
+      const report = await importVoxPresetBundle(bundle, existing, onConflict, async (entry) => {
+        const preset = await storage.createTeamPreset({
+          orgId,
+          name: entry.name,
+          description: entry.description ?? null,
+          audioSettings: entry.audioSettings,
+        });
+        await recordRevision(req.user!, "team_preset", preset.id, "create", null, presetSnapshot(preset));
+        return preset.id;
+      });
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid preset bundle", details: error.errors });
+      }
+      console.error("Error importing presets:", error);
+      res.status(500).json({ error: "Failed to import presets" });
+    }
+  });
+
   // Update a team preset - NOW WITH VALIDATION
-  app.patch("/api/team-presets/:id", requireAuth, requireAdmin, async (req, res) => {
+  app.patch("/api/team-presets/:id", requireAuth, requirePermission("presets:manage"), audit("preset.update", { before: presetBefore }), async (req, res) => {
     try {
       const validatedData = updateTeamPresetSchema.parse(req.body);
-      const preset = await storage.updateTeamPreset(req.params.id, validatedData);
+      const orgId = req.user!.orgId;
+      if (validatedData.teamId && !(await storage.getTeam(orgId, validatedData.teamId))) {
+        return res.status(400).json({ error: "Team not found" });
+      }
+      const existing = await storage.getTeamPreset(orgId, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Preset not found" });
+      }
+      const agents = await storage.getAllAgents(orgId);
+      const previousPresets = await getMandatoryPresetIds(orgId, agents);
+      const preset = await storage.updateTeamPreset(orgId, existing.id, validatedData);
       if (!preset) {
         return res.status(404).json({ error: "Preset not found" });
       }
+      await recordRevision(req.user!, "team_preset", preset.id, "update", presetSnapshot(existing), presetSnapshot(preset));
+      if (preset.isMandatory) {
+        await releaseOtherMandatoryPresets(orgId, preset.id, preset.teamId);
+      }
+      await pushMandatoryPresets(orgId, agents, previousPresets, preset.id);
       res.json(preset);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -267,12 +984,17 @@ export async function registerRoutes(
   });
 
   // Delete a team preset
-  app.delete("/api/team-presets/:id", requireAuth, requireAdmin, async (req, res) => {
+  app.delete("/api/team-presets/:id", requireAuth, requirePermission("presets:manage"), audit("preset.delete", { before: presetBefore }), async (req, res) => {
     try {
-      const deleted = await storage.deleteTeamPreset(req.params.id);
-      if (!deleted) {
+      const orgId = req.user!.orgId;
+      const agents = await storage.getAllAgents(orgId);
+      const previousPresets = await getMandatoryPresetIds(orgId, agents);
+      const preset = await storage.getTeamPreset(orgId, req.params.id);
+      if (!preset || !(await storage.deleteTeamPreset(orgId, preset.id))) {
         return res.status(404).json({ error: "Preset not found" });
       }
+      await recordRevision(req.user!, "team_preset", preset.id, "delete", presetSnapshot(preset), null);
+      await pushMandatoryPresets(orgId, agents, previousPresets);
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting preset:", error);
@@ -280,12 +1002,169 @@ export async function registerRoutes(
     }
   });
 
+  // Revision history of a team preset (still listed after the preset is deleted)
+  app.get("/api/team-presets/:id/revisions", requireAuth, requirePermission("presets:manage"), async (req, res) => {
+    try {
+      const revisions = await storage.getSettingsRevisions(req.user!.orgId, "team_preset", req.params.id);
+      if (revisions.length === 0 && !(await storage.getTeamPreset(req.user!.orgId, req.params.id))) {
+        return res.status(404).json({ error: "Preset not found" });
+      }
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching preset revisions:", error);
+      res.status(500).json({ error: "Failed to fetch preset revisions" });
+    }
+  });
+
+  // Roll a team preset back to a revision's name, settings, scope and locks, recreating it if it
+  // was deleted. Revisions recorded before scope and locks were kept leave those as they are.
+  app.post(
+    "/api/team-presets/:id/revisions/:revisionId/restore",
+    requireAuth,
+    requirePermission("presets:manage"),
+    audit("preset.restore", { before: presetBefore }),
+    async (req, res) => {
+      try {
+        const orgId = req.user!.orgId;
+        const revision = await storage.getSettingsRevision(orgId, req.params.revisionId);
+        if (!revision || revision.targetType !== "team_preset" || revision.targetId !== req.params.id) {
+          return res.status(404).json({ error: "Revision not found" });
+        }
+
+        const { snapshot } = revision;
+        const restored = {
+          name: snapshot.name,
+          description: snapshot.description ?? null,
+          audioSettings: snapshot.audioSettings,
+          ...(snapshot.teamId !== undefined && { teamId: snapshot.teamId }),
+          ...(snapshot.isMandatory !== undefined && { isMandatory: snapshot.isMandatory }),
+          ...(snapshot.lockedFields !== undefined && { lockedFields: snapshot.lockedFields }),
+        };
+        if (restored.teamId && !(await storage.getTeam(orgId, restored.teamId))) {
+          return res.status(400).json({ error: "The revision's team no longer exists" });
+        }
+        const agents = await storage.getAllAgents(orgId);
+        const previousPresets = await getMandatoryPresetIds(orgId, agents);
+        const existing = await storage.getTeamPreset(orgId, revision.targetId);
+        const preset = existing
+          ? await storage.updateTeamPreset(orgId, existing.id, restored)
+          : await storage.createTeamPreset({ ...restored, id: revision.targetId, orgId });
+        if (!preset) {
+          return res.status(404).json({ error: "Preset not found" });
+        }
+
+        await recordRevision(
+          req.user!,
+          "team_preset",
+          preset.id,
+          "restore",
+          existing ? presetSnapshot(existing) : null,
+          presetSnapshot(preset),
+        );
+        if (preset.isMandatory) {
+          await releaseOtherMandatoryPresets(orgId, preset.id, preset.teamId);
+        }
+        await pushMandatoryPresets(orgId, agents, previousPresets, preset.id);
+        res.status(existing ? 200 : 201).json(preset);
+      } catch (error) {
+        console.error("Error restoring preset:", error);
+        res.status(500).json({ error: "Failed to restore preset" });
+      }
+    },
+  );
+
+  // ===== Accent Presets API =====
+
+  // Every agent's browser resolves its accentPreset key against this list
+  app.get("/api/accent-presets", requireAuth, async (req, res) => {
+    try {
+      const presets = await storage.getAccentPresets(req.user!.orgId);
+      res.json(presets);
+    } catch (error) {
+      console.error("Error fetching accent presets:", error);
+      res.status(500).json({ error: "Failed to fetch accent presets" });
+    }
+  });
+
+  // Create an accent preset; its key comes from the name unless one is given
+  app.post("/api/accent-presets", requireAuth, requirePermission("presets:manage"), audit("accent.create"), async (req, res) => {
+    try {
+      const validatedData = insertAccentPresetSchema.parse(req.body);
+      const orgId = req.user!.orgId;
+      const key = validatedData.key ?? (validatedData.name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "custom");
+      const existing = await storage.getAccentPresets(orgId);
+      if (existing.some((p) => p.key === key)) {
+        return res.status(400).json({ error: "Accent preset key already exists" });
+      }
+      const preset = await storage.createAccentPreset({ ...validatedData, key, orgId, isBuiltIn: false });
+      res.status(201).json(preset);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid accent preset data", details: error.errors });
+      }
+      console.error("Error creating accent preset:", error);
+      res.status(500).json({ error: "Failed to create accent preset" });
+    }
+  });
+
+  // Update an accent preset (built-ins included); agents using it pick the change up on their next refresh
+  app.patch(
+    "/api/accent-presets/:id",
+    requireAuth,
+    requirePermission("presets:manage"),
+    audit("accent.update", { before: accentBefore }),
+    async (req, res) => {
+      try {
+        const validatedData = updateAccentPresetSchema.parse(req.body);
+        const preset = await storage.updateAccentPreset(req.user!.orgId, req.params.id, validatedData);
+        if (!preset) {
+          return res.status(404).json({ error: "Accent preset not found" });
+        }
+        res.json(preset);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ error: "Invalid accent preset data", details: error.errors });
+        }
+        console.error("Error updating accent preset:", error);
+        res.status(500).json({ error: "Failed to update accent preset" });
+      }
+    },
+  );
+
+  // Delete an admin's own accent preset. Agents still set to it play neutral.
+  app.delete(
+    "/api/accent-presets/:id",
+    requireAuth,
+    requirePermission("presets:manage"),
+    audit("accent.delete", { before: accentBefore }),
+    async (req, res) => {
+      try {
+        const preset = await storage.getAccentPreset(req.user!.orgId, req.params.id);
+        if (!preset) {
+          return res.status(404).json({ error: "Accent preset not found" });
+        }
+        if (preset.isBuiltIn) {
+          return res.status(400).json({ error: "Built-in accent presets can't be deleted" });
+        }
+        await storage.deleteAccentPreset(req.user!.orgId, preset.id);
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error deleting accent preset:", error);
+        res.status(500).json({ error: "Failed to delete accent preset" });
+      }
+    },
+  );
+
   // ===== Usage Analytics API =====
 
   // Get aggregated stats
-  app.get("/api/analytics/summary", optionalAuth, async (req, res) => {
+  app.get("/api/analytics/summary", requireAuth, requirePermission("analytics:view"), async (req, res) => {
     try {
-      const stats = await storage.getAggregatedStats();
+      const scope = getPermissionScope(req.user!.role, "analytics:view");
+      const agentIds = scope === "all"
+        ? undefined
+        : (await getAgentsInScope(req.user!, "analytics:view")).map((a) => a.id);
+      const stats = await storage.getAggregatedStats(req.user!.orgId, agentIds);
       res.json(stats);
     } catch (error) {
       console.error("Error fetching analytics:", error);
@@ -293,11 +1172,65 @@ export async function registerRoutes(
     }
   });
 
+  // Bucketed usage over time, filtered by agent, team, preset and date range (JSON or CSV)
+  app.get("/api/analytics/timeseries", requireAuth, requirePermission("analytics:view"), async (req, res) => {
+    try {
+      const query = analyticsQuerySchema.parse(req.query);
+      const orgId = req.user!.orgId;
+
+      if (query.teamId && !(await storage.getTeam(orgId, query.teamId))) {
+        return res.status(404).json({ error: "Team not found" });
+      }
+
+      // Unfiltered org-wide queries also keep stats of agents that have since been deleted
+      let agentIds: string[] | undefined;
+      if (query.agentId || query.teamId || getPermissionScope(req.user!.role, "analytics:view") !== "all") {
+        const agents = (await getAgentsInScope(req.user!, "analytics:view"))
+          .filter((a) => !query.agentId || a.id === query.agentId)
+          .filter((a) => !query.teamId || a.teamId === query.teamId);
+        if (query.agentId && agents.length === 0) {
+          return res.status(404).json({ error: "Agent not found" });
+        }
+        agentIds = agents.map((a) => a.id);
+      }
+
+      const to = query.to ?? new Date();
+      const from = query.from ?? new Date(to.getTime() - DEFAULT_ANALYTICS_RANGE_DAYS * 24 * 60 * 60 * 1000);
+      const rows = (await storage.getUsageStatsInRange(orgId, from, to, agentIds))
+        .filter((row) => !query.preset || row.accentPresetUsed === query.preset);
+      const series = buildTimeSeries(rows, query.bucket, from, to);
+
+      if (query.format === "csv") {
+        const fileName = `analytics-${query.bucket}-${from.toISOString().slice(0, 10)}-${to.toISOString().slice(0, 10)}.csv`;
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+        return res.send(timeSeriesToCsv(series));
+      }
+      res.json(series);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid analytics query", details: error.errors });
+      }
+      if (error instanceof AnalyticsRangeError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error fetching analytics time series:", error);
+      res.status(500).json({ error: "Failed to fetch analytics" });
+    }
+  });
+
   // Get stats for a specific agent
-  app.get("/api/analytics/agent/:id", optionalAuth, async (req, res) => {
+  app.get("/api/analytics/agent/:id", requireAuth, async (req, res) => {
     try {
+      const agent = await storage.getAgent(req.user!.orgId, req.params.id);
+      if (!agent) {
+        return res.status(404).json({ error: "Agent not found" });
+      }
+      if (!canAccessAgent(req.user!, agent, "analytics:view")) {
+        return res.status(403).json({ error: "You don't have permission to view this agent's analytics" });
+      }
       const days = parseInt(req.query.days as string) || 30;
-      const stats = await storage.getAgentStats(req.params.id, days);
+      const stats = await storage.getAgentStats(agent.orgId, agent.id, days);
       res.json(stats);
     } catch (error) {
       console.error("Error fetching agent stats:", error);
@@ -306,10 +1239,10 @@ export async function registerRoutes(
   });
 
   // Record usage - NOW WITH VALIDATION
-  app.post("/api/analytics/record", optionalAuth, async (req, res) => {
+  app.post("/api/analytics/record", requireAuth, requireAgentOwner((req) => req.body?.agentId), audit("usage.record"), async (req, res) => {
     try {
       const validatedData = insertUsageStatsSchema.parse(req.body);
-      const stats = await storage.recordUsage(validatedData);
+      const stats = await storage.recordUsage({ ...validatedData, orgId: req.user!.orgId });
       res.status(201).json(stats);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -320,12 +1253,91 @@ export async function registerRoutes(
     }
   });
 
+  // ===== Call Tracking API =====
+
+  // Start tracking a call for an agent
+  app.post("/api/calls/start", requireAuth, requireAgentOwner((req) => req.body?.agentId), audit("call.start"), async (req, res) => {
+    try {
+      const { agentId } = startCallSchema.parse(req.body);
+      const orgId = req.user!.orgId;
+
+      // A call still open here was abandoned (e.g. the dashboard closed mid-call) and never reported its usage
+      const abandoned = await storage.getOpenCallSession(orgId, agentId);
+      if (abandoned) {
+        await storage.endCallSession(orgId, abandoned.id, new Date(), null);
+      }
+
+      const call = await storage.startCallSession({ orgId, agentId });
+      res.status(201).json(call);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid call data", details: error.errors });
+      }
+      console.error("Error starting call:", error);
+      res.status(500).json({ error: "Failed to start call" });
+    }
+  });
+
+  // End a call and roll its measured usage into the agent's usage stats
+  app.post(
+    "/api/calls/:id/end",
+    requireAuth,
+    requireAgentOwner(async (req) => (await storage.getCallSession(req.user!.orgId, req.params.id))?.agentId),
+    audit("call.end", { before: (req) => storage.getCallSession(req.user!.orgId, req.params.id) }),
+    async (req, res) => {
+      try {
+        const usage = endCallSchema.parse(req.body);
+        const orgId = req.user!.orgId;
+        const call = await storage.getCallSession(orgId, req.params.id);
+        if (!call) {
+          return res.status(404).json({ error: "Call not found" });
+        }
+        if (call.endedAt) {
+          return res.status(409).json({ error: "Call has already ended" });
+        }
+
+        const endedAt = new Date();
+        const callSeconds = Math.max(0, (endedAt.getTime() - call.startedAt.getTime()) / 1000);
+        const clampSeconds = (seconds: number) => Math.round(Math.min(seconds, callSeconds));
+        const toMinutes = (seconds: number) => Math.round(clampSeconds(seconds) / 60);
+
+        const result = await storage.endCallSession(orgId, call.id, endedAt, {
+          date: endedAt,
+          noiseReductionMinutes: toMinutes(usage.noiseReductionSeconds),
+          accentModifierMinutes: toMinutes(usage.accentModifierSeconds),
+          accentPresetUsed: usage.accentPresetUsed ?? null,
+          totalCalls: 1,
+          avgLatency: usage.avgLatency,
+          talkSeconds: clampSeconds(usage.talkSeconds),
+          silenceSeconds: clampSeconds(usage.silenceSeconds),
+        });
+        if (!result) {
+          return res.status(409).json({ error: "Call has already ended" });
+        }
+        res.json(result);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ error: "Invalid call usage", details: error.errors });
+        }
+        console.error("Error ending call:", error);
+        res.status(500).json({ error: "Failed to end call" });
+      }
+    },
+  );
+
   // ===== Recordings API =====
 
   // Get recordings for an agent
-  app.get("/api/agents/:id/recordings", optionalAuth, async (req, res) => {
+  app.get("/api/agents/:id/recordings", requireAuth, async (req, res) => {
     try {
-      const recordings = await storage.getRecordings(req.params.id);
+      const agent = await storage.getAgent(req.user!.orgId, req.params.id);
+      if (!agent) {
+        return res.status(404).json({ error: "Agent not found" });
+      }
+      if (!canAccessAgent(req.user!, agent, "agents:view")) {
+        return res.status(403).json({ error: "You don't have permission to view this agent" });
+      }
+      const recordings = await storage.getRecordings(agent.orgId, agent.id);
       res.json(recordings);
     } catch (error) {
       console.error("Error fetching recordings:", error);
@@ -334,10 +1346,10 @@ export async function registerRoutes(
   });
 
   // Create a recording - NOW WITH VALIDATION
-  app.post("/api/recordings", optionalAuth, async (req, res) => {
+  app.post("/api/recordings", requireAuth, requireAgentOwner((req) => req.body?.agentId), audit("recording.create"), async (req, res) => {
     try {
       const validatedData = insertRecordingSchema.parse(req.body);
-      const recording = await storage.createRecording(validatedData);
+      const recording = await storage.createRecording({ ...validatedData, orgId: req.user!.orgId });
       res.status(201).json(recording);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -348,19 +1360,225 @@ export async function registerRoutes(
     }
   });
 
-  // Delete a recording
-  app.delete("/api/recordings/:id", optionalAuth, async (req, res) => {
+  // Upload a recording's audio (multipart: "audio" file + agentId, duration, audioSettings JSON)
+  app.post(
+    "/api/recordings/upload",
+    requireAuth,
+    (req, res, next) => {
+      recordingUpload.single("audio")(req, res, (err) => {
+        if (err instanceof multer.MulterError) {
+          const status = err.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+          return res.status(status).json({ error: err.message });
+        }
+        if (err) return next(err);
+        next();
+      });
+    },
+    // Runs after multer so the multipart agentId field is available
+    requireAgentOwner((req) => req.body?.agentId),
+    audit("recording.upload"),
+    async (req, res) => {
+      if (!req.file) {
+        return res.status(400).json({ error: "Missing audio file (field \"audio\")" });
+      }
+
+      let storageKey: string | null = null;
+      try {
+        const fields = uploadRecordingFieldsSchema.parse({
+          agentId: req.body.agentId,
+          fileName: req.body.fileName || req.file.originalname,
+          duration: req.body.duration,
+          audioSettings: req.body.audioSettings ? JSON.parse(req.body.audioSettings) : undefined,
+        });
+
+        const agent = await storage.getAgent(req.user!.orgId, fields.agentId);
+        if (!agent) {
+          return res.status(404).json({ error: "Agent not found" });
+        }
+
+        storageKey = `${randomUUID()}${recordingExtension(req.file.mimetype)}`;
+        await blobStore.put(storageKey, req.file.buffer);
+
+        const recording = await storage.createRecording({
+          ...fields,
+          orgId: agent.orgId,
+          fileSize: req.file.size,
+          storageKey,
+          mimeType: req.file.mimetype,
+        });
+        res.status(201).json(recording);
+      } catch (error) {
+        // Don't leave an orphaned file behind if the row was never written.
+        if (storageKey) {
+          await blobStore.delete(storageKey).catch(() => false);
+        }
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ error: "Invalid recording data", details: error.errors });
+        }
+        if (error instanceof SyntaxError) {
+          return res.status(400).json({ error: "audioSettings must be valid JSON" });
+        }
+        console.error("Error uploading recording:", error);
+        res.status(500).json({ error: "Failed to upload recording" });
+      }
+    },
+  );
+
+  // A URL the player can stream a recording's audio from. <audio> elements can't send headers,
+  // so it carries a short-lived media token that only opens this recording.
+  app.get("/api/recordings/:id/audio-url", requireAuth, async (req, res) => {
     try {
-      const deleted = await storage.deleteRecording(req.params.id);
-      if (!deleted) {
+      const recording = await getViewableRecording(req.user!, req.params.id);
+      if (!recording || !recording.storageKey) {
         return res.status(404).json({ error: "Recording not found" });
       }
-      res.status(204).send();
+      const { token, expiresAt } = issueMediaToken(req.user!, recording.id);
+      res.json({ url: `/api/recordings/${recording.id}/audio?token=${encodeURIComponent(token)}`, expiresAt });
+    } catch (error) {
+      console.error("Error issuing recording audio URL:", error);
+      res.status(500).json({ error: "Failed to issue recording audio URL" });
+    }
+  });
+
+  // Stream a recording's audio (supports HTTP Range for seeking), with the session or the media
+  // token from /audio-url.
+  app.get("/api/recordings/:id/audio", requireMediaAuth((req) => req.params.id), async (req, res) => {
+    try {
+      const recording = await getViewableRecording(req.user!, req.params.id);
+      if (!recording) {
+        return res.status(404).json({ error: "Recording not found" });
+      }
+      if (!recording.storageKey) {
+        return res.status(404).json({ error: "No audio stored for this recording" });
+      }
+
+      const stat = await blobStore.stat(recording.storageKey);
+      if (!stat) {
+        return res.status(404).json({ error: "Recording audio is missing" });
+      }
+
+      res.setHeader("Accept-Ranges", "bytes");
+      res.setHeader("Content-Type", recording.mimeType || "application/octet-stream");
+
+      let range: { start: number; end: number } | undefined;
+      if (req.headers.range) {
+        const ranges = req.range(stat.size);
+        if (ranges === -1) {
+          res.setHeader("Content-Range", `bytes */${stat.size}`);
+          return res.status(416).end();
+        }
+        // Malformed or multi-range requests fall back to the whole file.
+        if (Array.isArray(ranges) && ranges.length === 1 && ranges.type === "bytes") {
+          range = { start: ranges[0].start, end: ranges[0].end };
+        }
+      }
+
+      if (range) {
+        res.status(206);
+        res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${stat.size}`);
+        res.setHeader("Content-Length", range.end - range.start + 1);
+      } else {
+        res.setHeader("Content-Length", stat.size);
+      }
+
+      const stream = blobStore.createReadStream(recording.storageKey, range);
+      stream.on("error", (error) => {
+        console.error("Error streaming recording:", error);
+        if (!res.headersSent) {
+          res.status(500).json({ error: "Failed to stream recording" });
+        } else {
+          res.destroy(error);
+        }
+      });
+      stream.pipe(res);
     } catch (error) {
-      console.error("Error deleting recording:", error);
-      res.status(500).json({ error: "Failed to delete recording" });
+      console.error("Error fetching recording audio:", error);
+      res.status(500).json({ error: "Failed to fetch recording audio" });
     }
   });
 
+  // Delete a recording (and its stored audio)
+  app.delete(
+    "/api/recordings/:id",
+    requireAuth,
+    requireAgentOwner(async (req) => (await storage.getRecording(req.user!.orgId, req.params.id))?.agentId),
+    audit("recording.delete", { before: (req) => storage.getRecording(req.user!.orgId, req.params.id) }),
+    async (req, res) => {
+      try {
+        const deleted = await storage.deleteRecording(req.user!.orgId, req.params.id);
+        if (!deleted) {
+          return res.status(404).json({ error: "Recording not found" });
+        }
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error deleting recording:", error);
+        res.status(500).json({ error: "Failed to delete recording" });
+      }
+    },
+  );
+
+  // ===== Audio Processing API =====
+
+  // Render a WAV upload through the server-side copy of the browser DSP chain.
+  // Settings come from ?agentId= (that agent's saved settings) and/or ?settings=<json> overrides.
+  // Nothing is stored, so unlike the other POST routes this one isn't audited.
+  // Clips longer than MAX_PROCESS_DURATION_SEC are refused with 413.
+  app.post(
+    "/api/process",
+    requireAuth,
+    express.raw({ type: ["audio/wav", "audio/wave", "audio/x-wav", "application/octet-stream"], limit: "25mb" }),
+    async (req, res) => {
+      try {
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ error: "Expected a WAV file body (Content-Type: audio/wav)" });
+        }
+
+        let baseSettings = {};
+        if (typeof req.query.agentId === "string") {
+          const agent = await storage.getAgent(req.user!.orgId, req.query.agentId);
+          if (!agent) {
+            return res.status(404).json({ error: "Agent not found" });
+          }
+          if (!canAccessAgent(req.user!, agent)) {
+            return res.status(403).json({ error: "You can only use your own agent's settings" });
+          }
+          baseSettings = agent.audioSettings;
+        }
+
+        let overrides = {};
+        if (typeof req.query.settings === "string") {
+          try {
+            overrides = audioSettingsSchema.partial().parse(JSON.parse(req.query.settings));
+          } catch (error) {
+            if (error instanceof z.ZodError) {
+              return res.status(400).json({ error: "Invalid settings data", details: error.errors });
+            }
+            return res.status(400).json({ error: "settings must be valid JSON" });
+          }
+        }
+
+        const settings = audioSettingsSchema.parse({ ...baseSettings, ...overrides });
+        const accent = resolveAccentPreset(await storage.getAccentPresets(req.user!.orgId), settings.accentPreset);
+        const wav = decodeWav(req.body);
+        const durationSec = (wav.channels[0]?.length ?? 0) / wav.sampleRate;
+        if (durationSec > MAX_PROCESS_DURATION_SEC) {
+          return res.status(413).json({
+            error: `Audio is ${durationSec.toFixed(1)} s long; the limit is ${MAX_PROCESS_DURATION_SEC} s`,
+          });
+        }
+        const processed = processAudio(downmixToMono(wav.channels), wav.sampleRate, settings, accent);
+
+        res.setHeader("Content-Type", "audio/wav");
+        res.send(encodeWav(processed, wav.sampleRate));
+      } catch (error) {
+        if (error instanceof WavDecodeError) {
+          return res.status(400).json({ error: error.message });
+        }
+        console.error("Error processing audio:", error);
+        res.status(500).json({ error: "Failed to process audio" });
+      }
+    },
+  );
+
   return httpServer;
 }
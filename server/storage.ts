@@ -1,13 +1,24 @@
-import { eq, desc, and, gte, sql } from "drizzle-orm";
+import { eq, desc, and, gte, lt, lte, inArray, isNull, sql } from "drizzle-orm";
 import { db } from "./db";
+import { deleteRecordingAudio } from "./blob-store";
 import { 
   agents, 
   customProfiles, 
   teamPresets, 
+  accentPresets,
   usageStats, 
+  callSessions,
+  settingsRevisions,
   recordings,
+  users,
+  sessions,
+  teams,
+  organizations,
+  invites,
+  auditLog,
   schemaVersions,
   defaultAudioSettings,
+  builtInAccentPresets,
   SCHEMA_VERSION
 } from "@shared/schema";
 import type { 
@@ -18,43 +29,95 @@ import type {
   InsertCustomProfile,
   TeamPreset,
   InsertTeamPreset,
+  AccentPresetDefinition,
+  InsertAccentPresetDefinition,
   UsageStats,
   InsertUsageStats,
+  CallSession,
+  InsertCallSession,
+  SettingsRevision,
+  InsertSettingsRevision,
+  RevisionTargetType,
+  AuditEntry,
+  InsertAuditEntry,
+  AuditQuery,
   Recording,
   InsertRecording,
+  User,
+  InsertUser,
+  UpdateUser,
+  Team,
+  InsertTeam,
+  Organization,
+  InsertOrganization,
+  Invite,
+  InsertInvite,
+  Session,
+  InsertSession,
   AudioSettings 
 } from "@shared/schema";
 
+// Tenant data is always read and written through the caller's organization (taken from the
+// signed-in user's session): rows from another organization behave as if they don't exist.
+// Only users, sessions and organizations themselves are looked up globally.
 export interface IStorage {
   // Agent operations
-  getAgent(id: string): Promise<Agent | undefined>;
-  getAllAgents(): Promise<Agent[]>;
-  createAgent(agent: InsertAgentInput): Promise<Agent>;
-  updateAgentSettings(id: string, settings: UpdateAgentSettings): Promise<Agent | undefined>;
-  deleteAgent(id: string): Promise<boolean>;
+  getAgent(orgId: string, id: string): Promise<Agent | undefined>;
+  getAllAgents(orgId: string): Promise<Agent[]>;
+  createAgent(orgId: string, agent: InsertAgentInput, userId?: string | null): Promise<Agent>;
+  updateAgentSettings(orgId: string, id: string, settings: UpdateAgentSettings): Promise<Agent | undefined>;
+  deleteAgent(orgId: string, id: string): Promise<boolean>;
   
   // Bulk operations
-  getAgentCount(): Promise<number>;
-  getActiveAgents(): Promise<Agent[]>;
+  getAgentCount(orgId: string): Promise<number>;
+  getAgentByUserId(userId: string): Promise<Agent | undefined>;
+  getAgentsByTeam(orgId: string, teamId: string): Promise<Agent[]>;
+  updateAgentTeam(orgId: string, id: string, teamId: string | null): Promise<Agent | undefined>;
+  getActiveAgents(orgId: string): Promise<Agent[]>;
 
   // Custom profiles
-  getCustomProfiles(agentId: string): Promise<CustomProfile[]>;
-  getSharedProfiles(): Promise<CustomProfile[]>;
-  createCustomProfile(profile: Omit<InsertCustomProfile, "id" | "createdAt">): Promise<CustomProfile>;
-  deleteCustomProfile(id: string): Promise<boolean>;
+  getCustomProfiles(orgId: string, agentId: string): Promise<CustomProfile[]>;
+  getSharedProfiles(orgId: string): Promise<CustomProfile[]>;
+  // An id is only passed when restoring a deleted profile from its history
+  createCustomProfile(profile: Omit<InsertCustomProfile, "createdAt">): Promise<CustomProfile>;
+  getCustomProfile(orgId: string, id: string): Promise<CustomProfile | undefined>;
+  deleteCustomProfile(orgId: string, id: string): Promise<boolean>;
 
   // Team presets
-  getAllTeamPresets(): Promise<TeamPreset[]>;
-  getActiveTeamPresets(): Promise<TeamPreset[]>;
-  createTeamPreset(preset: Omit<InsertTeamPreset, "id" | "createdAt" | "updatedAt">): Promise<TeamPreset>;
-  updateTeamPreset(id: string, preset: Partial<InsertTeamPreset>): Promise<TeamPreset | undefined>;
-  deleteTeamPreset(id: string): Promise<boolean>;
+  getAllTeamPresets(orgId: string): Promise<TeamPreset[]>;
+  getActiveTeamPresets(orgId: string): Promise<TeamPreset[]>;
+  getTeamPreset(orgId: string, id: string): Promise<TeamPreset | undefined>;
+  // An id is only passed when restoring a deleted preset from its history
+  createTeamPreset(preset: Omit<InsertTeamPreset, "createdAt" | "updatedAt">): Promise<TeamPreset>;
+  updateTeamPreset(orgId: string, id: string, preset: Partial<InsertTeamPreset>): Promise<TeamPreset | undefined>;
+  deleteTeamPreset(orgId: string, id: string): Promise<boolean>;
+
+  // Accent presets, by name
+  getAccentPresets(orgId: string): Promise<AccentPresetDefinition[]>;
+  getAccentPreset(orgId: string, id: string): Promise<AccentPresetDefinition | undefined>;
+  createAccentPreset(preset: Omit<InsertAccentPresetDefinition, "id" | "createdAt" | "updatedAt">): Promise<AccentPresetDefinition>;
+  updateAccentPreset(
+    orgId: string,
+    id: string,
+    preset: Partial<Omit<InsertAccentPresetDefinition, "key" | "isBuiltIn">>,
+  ): Promise<AccentPresetDefinition | undefined>;
+  deleteAccentPreset(orgId: string, id: string): Promise<boolean>;
+  // Adds whichever built-ins the organization doesn't have yet; tuned built-ins are left alone
+  seedAccentPresets(orgId: string): Promise<void>;
+
+  // Settings revisions (history of team presets and custom profiles), newest first
+  getSettingsRevisions(orgId: string, targetType: RevisionTargetType, targetId: string): Promise<SettingsRevision[]>;
+  getSettingsRevision(orgId: string, id: string): Promise<SettingsRevision | undefined>;
+  createSettingsRevision(revision: Omit<InsertSettingsRevision, "id" | "createdAt">): Promise<SettingsRevision>;
 
   // Usage stats
-  getAgentStats(agentId: string, days?: number): Promise<UsageStats[]>;
-  getAllStats(days?: number): Promise<UsageStats[]>;
+  getAgentStats(orgId: string, agentId: string, days?: number): Promise<UsageStats[]>;
+  getAllStats(orgId: string, days?: number): Promise<UsageStats[]>;
+  // Rows dated within [from, to], oldest first; pass agentIds to restrict to those agents
+  getUsageStatsInRange(orgId: string, from: Date, to: Date, agentIds?: string[]): Promise<UsageStats[]>;
   recordUsage(stats: Omit<InsertUsageStats, "id">): Promise<UsageStats>;
-  getAggregatedStats(): Promise<{
+  // Pass agentIds to aggregate over a subset of agents (e.g. one team)
+  getAggregatedStats(orgId: string, agentIds?: string[]): Promise<{
     totalNoiseReductionMinutes: number;
     totalAccentModifierMinutes: number;
     totalCalls: number;
@@ -62,13 +125,65 @@ export interface IStorage {
     presetUsage: Record<string, number>;
   }>;
 
+  // Call sessions
+  getCallSession(orgId: string, id: string): Promise<CallSession | undefined>;
+  getOpenCallSession(orgId: string, agentId: string): Promise<CallSession | undefined>;
+  startCallSession(call: Omit<InsertCallSession, "id" | "startedAt" | "endedAt">): Promise<CallSession>;
+  // Closes the call and records its usage (if any) together; undefined if it doesn't exist or had already ended
+  endCallSession(
+    orgId: string,
+    id: string,
+    endedAt: Date,
+    usage: Omit<InsertUsageStats, "id" | "orgId" | "agentId"> | null
+  ): Promise<{ call: CallSession; usage: UsageStats | null } | undefined>;
+
   // Recordings
-  getRecordings(agentId: string): Promise<Recording[]>;
+  getRecordings(orgId: string, agentId: string): Promise<Recording[]>;
+  getRecording(orgId: string, id: string): Promise<Recording | undefined>;
   createRecording(recording: Omit<InsertRecording, "id" | "createdAt">): Promise<Recording>;
-  deleteRecording(id: string): Promise<boolean>;
+  deleteRecording(orgId: string, id: string): Promise<boolean>;
+
+  // Users
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getUserCount(): Promise<number>;
+  createUser(user: Omit<InsertUser, "id" | "createdAt" | "updatedAt">): Promise<User>;
+  getAllUsers(orgId: string): Promise<User[]>;
+  updateUser(orgId: string, id: string, updates: UpdateUser): Promise<User | undefined>;
+
+  // Teams
+  getAllTeams(orgId: string): Promise<Team[]>;
+  getTeam(orgId: string, id: string): Promise<Team | undefined>;
+  createTeam(team: Omit<InsertTeam, "id" | "createdAt" | "updatedAt">): Promise<Team>;
+  updateTeam(orgId: string, id: string, team: Partial<InsertTeam>): Promise<Team | undefined>;
+  deleteTeam(orgId: string, id: string): Promise<boolean>;
+
+  // Organizations
+  getAllOrganizations(): Promise<Organization[]>;
+  getOrganization(id: string): Promise<Organization | undefined>;
+  createOrganization(org: Omit<InsertOrganization, "id" | "createdAt" | "updatedAt">): Promise<Organization>;
+  // The oldest organization, created as "Default" on first use; hosts the owner and sample data
+  getDefaultOrganization(): Promise<Organization>;
+
+  // Invites
+  getInvites(orgId: string): Promise<Invite[]>;
+  getInvite(id: string): Promise<Invite | undefined>;
+  createInvite(invite: Omit<InsertInvite, "createdAt">): Promise<Invite>;
+  deleteInvite(id: string): Promise<boolean>;
+
+  // Sessions
+  getSession(id: string): Promise<Session | undefined>;
+  createSession(session: Omit<InsertSession, "createdAt">): Promise<Session>;
+  deleteSession(id: string): Promise<boolean>;
+  deleteExpiredSessions(): Promise<number>;
+
+  // Audit log
+  recordAuditEntry(entry: Omit<InsertAuditEntry, "id" | "createdAt">): Promise<AuditEntry>;
+  // Newest first, filtered and paged by `query`
+  getAuditEntries(orgId: string, query: AuditQuery): Promise<AuditEntry[]>;
 
   // Seed sample data
-  seedSampleAgents(): Promise<void>;
+  seedSampleAgents(orgId: string): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -89,7 +204,8 @@ export class DatabaseStorage implements IStorage {
         const currentDbVersion = result[0].version;
         if (currentDbVersion !== SCHEMA_VERSION) {
           console.warn(
-            `Schema version mismatch: database has v${currentDbVersion}, code expects v${SCHEMA_VERSION}. Run migrations.`
+            `Schema version mismatch: database has v${currentDbVersion}, code expects v${SCHEMA_VERSION}. Run migrations.` +
+              (currentDbVersion < 7 ? " To add organizations, run `npm run db:upgrade-orgs` and then `npm run db:push`." : "")
           );
         } else {
           console.log(`Schema version ${SCHEMA_VERSION} verified`);
@@ -100,19 +216,21 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getAgent(id: string): Promise<Agent | undefined> {
-    const result = await db.select().from(agents).where(eq(agents.id, id));
+  async getAgent(orgId: string, id: string): Promise<Agent | undefined> {
+    const result = await db.select().from(agents).where(and(eq(agents.orgId, orgId), eq(agents.id, id)));
     return result[0];
   }
 
-  async getAllAgents(): Promise<Agent[]> {
-    return await db.select().from(agents).orderBy(agents.name);
+  async getAllAgents(orgId: string): Promise<Agent[]> {
+    return await db.select().from(agents).where(eq(agents.orgId, orgId)).orderBy(agents.name);
   }
 
-  async createAgent(insertAgent: InsertAgentInput): Promise<Agent> {
+  async createAgent(orgId: string, insertAgent: InsertAgentInput, userId: string | null = null): Promise<Agent> {
     const result = await db.insert(agents).values({
+      orgId,
       name: insertAgent.name,
       email: insertAgent.email,
+      userId,
       status: insertAgent.status || "offline",
       isProcessingActive: insertAgent.isProcessingActive || false,
       audioSettings: insertAgent.audioSettings || defaultAudioSettings,
@@ -120,11 +238,11 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
-  async updateAgentSettings(id: string, settings: UpdateAgentSettings): Promise<Agent | undefined> {
+  async updateAgentSettings(orgId: string, id: string, settings: UpdateAgentSettings): Promise<Agent | undefined> {
     return await db.transaction(async (tx: any) => {
-      await tx.execute(sql`SELECT 1 FROM agents WHERE id = ${id} FOR UPDATE`);
+      await tx.execute(sql`SELECT 1 FROM agents WHERE id = ${id} AND org_id = ${orgId} FOR UPDATE`);
 
-      const [agent] = await tx.select().from(agents).where(eq(agents.id, id));
+      const [agent] = await tx.select().from(agents).where(and(eq(agents.orgId, orgId), eq(agents.id, id)));
       if (!agent) return undefined;
 
       const updatedSettings = settings.audioSettings 
@@ -135,6 +253,7 @@ export class DatabaseStorage implements IStorage {
         .set({
           status: settings.status ?? agent.status,
           isProcessingActive: settings.isProcessingActive ?? agent.isProcessingActive,
+          latency: settings.latency ?? agent.latency,
           audioSettings: updatedSettings,
           updatedAt: new Date(),
         })
@@ -145,109 +264,224 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
-  async deleteAgent(id: string): Promise<boolean> {
-    const result = await db.delete(agents).where(eq(agents.id, id)).returning();
+  async deleteAgent(orgId: string, id: string): Promise<boolean> {
+    const result = await db.delete(agents).where(and(eq(agents.orgId, orgId), eq(agents.id, id))).returning();
     return result.length > 0;
   }
 
-  async getAgentCount(): Promise<number> {
-    const result = await db.select({ count: sql<number>`count(*)` }).from(agents);
+  async getAgentCount(orgId: string): Promise<number> {
+    const result = await db.select({ count: sql<number>`count(*)` }).from(agents).where(eq(agents.orgId, orgId));
     return Number(result[0]?.count || 0);
   }
 
-  async getActiveAgents(): Promise<Agent[]> {
+  async getAgentByUserId(userId: string): Promise<Agent | undefined> {
+    const result = await db.select().from(agents).where(eq(agents.userId, userId));
+    return result[0];
+  }
+
+  async getAgentsByTeam(orgId: string, teamId: string): Promise<Agent[]> {
+    return await db.select().from(agents)
+      .where(and(eq(agents.orgId, orgId), eq(agents.teamId, teamId)))
+      .orderBy(agents.name);
+  }
+
+  async updateAgentTeam(orgId: string, id: string, teamId: string | null): Promise<Agent | undefined> {
+    const result = await db.update(agents)
+      .set({ teamId, updatedAt: new Date() })
+      .where(and(eq(agents.orgId, orgId), eq(agents.id, id)))
+      .returning();
+    return result[0];
+  }
+
+  async getActiveAgents(orgId: string): Promise<Agent[]> {
     return await db.select().from(agents).where(
-      sql`${agents.status} != 'offline'`
+      and(eq(agents.orgId, orgId), sql`${agents.status} != 'offline'`)
     );
   }
 
   // Custom Profiles
-  async getCustomProfiles(agentId: string): Promise<CustomProfile[]> {
+  async getCustomProfiles(orgId: string, agentId: string): Promise<CustomProfile[]> {
     return await db.select().from(customProfiles)
-      .where(eq(customProfiles.agentId, agentId))
+      .where(and(eq(customProfiles.orgId, orgId), eq(customProfiles.agentId, agentId)))
       .orderBy(desc(customProfiles.createdAt));
   }
 
-  async getSharedProfiles(): Promise<CustomProfile[]> {
+  async getSharedProfiles(orgId: string): Promise<CustomProfile[]> {
     return await db.select().from(customProfiles)
-      .where(eq(customProfiles.isShared, true))
+      .where(and(eq(customProfiles.orgId, orgId), eq(customProfiles.isShared, true)))
       .orderBy(customProfiles.name);
   }
 
-  async createCustomProfile(profile: Omit<InsertCustomProfile, "id" | "createdAt">): Promise<CustomProfile> {
+  async createCustomProfile(profile: Omit<InsertCustomProfile, "createdAt">): Promise<CustomProfile> {
     const result = await db.insert(customProfiles).values(profile).returning();
     return result[0];
   }
 
-  async deleteCustomProfile(id: string): Promise<boolean> {
-    const result = await db.delete(customProfiles).where(eq(customProfiles.id, id)).returning();
+  async getCustomProfile(orgId: string, id: string): Promise<CustomProfile | undefined> {
+    const result = await db.select().from(customProfiles)
+      .where(and(eq(customProfiles.orgId, orgId), eq(customProfiles.id, id)));
+    return result[0];
+  }
+
+  async deleteCustomProfile(orgId: string, id: string): Promise<boolean> {
+    const result = await db.delete(customProfiles)
+      .where(and(eq(customProfiles.orgId, orgId), eq(customProfiles.id, id)))
+      .returning();
     return result.length > 0;
   }
 
   // Team Presets
-  async getAllTeamPresets(): Promise<TeamPreset[]> {
-    return await db.select().from(teamPresets).orderBy(teamPresets.name);
+  async getAllTeamPresets(orgId: string): Promise<TeamPreset[]> {
+    return await db.select().from(teamPresets).where(eq(teamPresets.orgId, orgId)).orderBy(teamPresets.name);
   }
 
-  async getActiveTeamPresets(): Promise<TeamPreset[]> {
+  async getActiveTeamPresets(orgId: string): Promise<TeamPreset[]> {
     return await db.select().from(teamPresets)
-      .where(eq(teamPresets.isActive, true))
+      .where(and(eq(teamPresets.orgId, orgId), eq(teamPresets.isActive, true)))
       .orderBy(teamPresets.name);
   }
 
-  async createTeamPreset(preset: Omit<InsertTeamPreset, "id" | "createdAt" | "updatedAt">): Promise<TeamPreset> {
+  async getTeamPreset(orgId: string, id: string): Promise<TeamPreset | undefined> {
+    const result = await db.select().from(teamPresets)
+      .where(and(eq(teamPresets.orgId, orgId), eq(teamPresets.id, id)));
+    return result[0];
+  }
+
+  async createTeamPreset(preset: Omit<InsertTeamPreset, "createdAt" | "updatedAt">): Promise<TeamPreset> {
     const result = await db.insert(teamPresets).values(preset).returning();
     return result[0];
   }
 
-  async updateTeamPreset(id: string, preset: Partial<InsertTeamPreset>): Promise<TeamPreset | undefined> {
+  async updateTeamPreset(orgId: string, id: string, preset: Partial<InsertTeamPreset>): Promise<TeamPreset | undefined> {
     const result = await db.update(teamPresets)
-      .set({ ...preset, updatedAt: new Date() })
-      .where(eq(teamPresets.id, id))
+      .set({ ...preset, orgId, updatedAt: new Date() })
+      .where(and(eq(teamPresets.orgId, orgId), eq(teamPresets.id, id)))
       .returning();
     return result[0];
   }
 
-  async deleteTeamPreset(id: string): Promise<boolean> {
-    const result = await db.delete(teamPresets).where(eq(teamPresets.id, id)).returning();
+  async deleteTeamPreset(orgId: string, id: string): Promise<boolean> {
+    const result = await db.delete(teamPresets)
+      .where(and(eq(teamPresets.orgId, orgId), eq(teamPresets.id, id)))
+      .returning();
     return result.length > 0;
   }
 
+  // Accent Presets
+  async getAccentPresets(orgId: string): Promise<AccentPresetDefinition[]> {
+    return await db.select().from(accentPresets).where(eq(accentPresets.orgId, orgId)).orderBy(accentPresets.name);
+  }
+
+  async getAccentPreset(orgId: string, id: string): Promise<AccentPresetDefinition | undefined> {
+    const result = await db.select().from(accentPresets)
+      .where(and(eq(accentPresets.orgId, orgId), eq(accentPresets.id, id)));
+    return result[0];
+  }
+
+  async createAccentPreset(
+    preset: Omit<InsertAccentPresetDefinition, "id" | "createdAt" | "updatedAt">,
+  ): Promise<AccentPresetDefinition> {
+    const result = await db.insert(accentPresets).values(preset).returning();
+    return result[0];
+  }
+
+  async updateAccentPreset(
+    orgId: string,
+    id: string,
+    preset: Partial<Omit<InsertAccentPresetDefinition, "key" | "isBuiltIn">>,
+  ): Promise<AccentPresetDefinition | undefined> {
+    const result = await db.update(accentPresets)
+      .set({ ...preset, orgId, updatedAt: new Date() })
+      .where(and(eq(accentPresets.orgId, orgId), eq(accentPresets.id, id)))
+      .returning();
+    return result[0];
+  }
+
+  async deleteAccentPreset(orgId: string, id: string): Promise<boolean> {
+    const result = await db.delete(accentPresets)
+      .where(and(eq(accentPresets.orgId, orgId), eq(accentPresets.id, id)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async seedAccentPresets(orgId: string): Promise<void> {
+    await db.insert(accentPresets)
+      .values(builtInAccentPresets().map(preset => ({ ...preset, orgId })))
+      .onConflictDoNothing({ target: [accentPresets.orgId, accentPresets.key] });
+  }
+
+  // Settings Revisions
+  async getSettingsRevisions(orgId: string, targetType: RevisionTargetType, targetId: string): Promise<SettingsRevision[]> {
+    return await db.select().from(settingsRevisions)
+      .where(and(
+        eq(settingsRevisions.orgId, orgId),
+        eq(settingsRevisions.targetType, targetType),
+        eq(settingsRevisions.targetId, targetId),
+      ))
+      .orderBy(desc(settingsRevisions.createdAt));
+  }
+
+  async getSettingsRevision(orgId: string, id: string): Promise<SettingsRevision | undefined> {
+    const result = await db.select().from(settingsRevisions)
+      .where(and(eq(settingsRevisions.orgId, orgId), eq(settingsRevisions.id, id)));
+    return result[0];
+  }
+
+  async createSettingsRevision(revision: Omit<InsertSettingsRevision, "id" | "createdAt">): Promise<SettingsRevision> {
+    const result = await db.insert(settingsRevisions).values(revision).returning();
+    return result[0];
+  }
+
   // Usage Stats
-  async getAgentStats(agentId: string, days = 30): Promise<UsageStats[]> {
+  async getAgentStats(orgId: string, agentId: string, days = 30): Promise<UsageStats[]> {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - days);
     
     return await db.select().from(usageStats)
       .where(and(
+        eq(usageStats.orgId, orgId),
         eq(usageStats.agentId, agentId),
         gte(usageStats.date, cutoffDate)
       ))
       .orderBy(desc(usageStats.date));
   }
 
-  async getAllStats(days = 30): Promise<UsageStats[]> {
+  async getAllStats(orgId: string, days = 30): Promise<UsageStats[]> {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - days);
     
     return await db.select().from(usageStats)
-      .where(gte(usageStats.date, cutoffDate))
+      .where(and(eq(usageStats.orgId, orgId), gte(usageStats.date, cutoffDate)))
       .orderBy(desc(usageStats.date));
   }
 
+  async getUsageStatsInRange(orgId: string, from: Date, to: Date, agentIds?: string[]): Promise<UsageStats[]> {
+    if (agentIds && agentIds.length === 0) return [];
+
+    return await db.select().from(usageStats)
+      .where(and(
+        eq(usageStats.orgId, orgId),
+        gte(usageStats.date, from),
+        lte(usageStats.date, to),
+        agentIds ? inArray(usageStats.agentId, agentIds) : undefined
+      ))
+      .orderBy(usageStats.date);
+  }
+
   async recordUsage(stats: Omit<InsertUsageStats, "id">): Promise<UsageStats> {
     const result = await db.insert(usageStats).values(stats).returning();
     return result[0];
   }
 
-  async getAggregatedStats(): Promise<{
+  async getAggregatedStats(orgId: string, agentIds?: string[]): Promise<{
     totalNoiseReductionMinutes: number;
     totalAccentModifierMinutes: number;
     totalCalls: number;
     avgLatency: number;
     presetUsage: Record<string, number>;
   }> {
-    const allStats = await this.getAllStats(30);
+    const scope = agentIds ? new Set(agentIds) : null;
+    const allStats = (await this.getAllStats(orgId, 30)).filter(stat => !scope || scope.has(stat.agentId));
     
     let totalNoiseReductionMinutes = 0;
     let totalAccentModifierMinutes = 0;
@@ -275,26 +509,235 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  // Call sessions
+  async getCallSession(orgId: string, id: string): Promise<CallSession | undefined> {
+    const result = await db.select().from(callSessions)
+      .where(and(eq(callSessions.orgId, orgId), eq(callSessions.id, id)));
+    return result[0];
+  }
+
+  async getOpenCallSession(orgId: string, agentId: string): Promise<CallSession | undefined> {
+    const result = await db.select().from(callSessions)
+      .where(and(eq(callSessions.orgId, orgId), eq(callSessions.agentId, agentId), isNull(callSessions.endedAt)))
+      .orderBy(desc(callSessions.startedAt))
+      .limit(1);
+    return result[0];
+  }
+
+  async startCallSession(call: Omit<InsertCallSession, "id" | "startedAt" | "endedAt">): Promise<CallSession> {
+    const result = await db.insert(callSessions).values(call).returning();
+    return result[0];
+  }
+
+  async endCallSession(
+    orgId: string,
+    id: string,
+    endedAt: Date,
+    usage: Omit<InsertUsageStats, "id" | "orgId" | "agentId"> | null
+  ): Promise<{ call: CallSession; usage: UsageStats | null } | undefined> {
+    return await db.transaction(async (tx: any) => {
+      // Only an open call can be ended, so a repeated end request can't record the usage twice
+      const [call] = await tx.update(callSessions)
+        .set({ endedAt })
+        .where(and(eq(callSessions.orgId, orgId), eq(callSessions.id, id), isNull(callSessions.endedAt)))
+        .returning();
+      if (!call) return undefined;
+
+      if (!usage) return { call, usage: null };
+      const [stats] = await tx.insert(usageStats)
+        .values({ ...usage, orgId, agentId: call.agentId })
+        .returning();
+      return { call, usage: stats };
+    });
+  }
+
   // Recordings
-  async getRecordings(agentId: string): Promise<Recording[]> {
+  async getRecordings(orgId: string, agentId: string): Promise<Recording[]> {
     return await db.select().from(recordings)
-      .where(eq(recordings.agentId, agentId))
+      .where(and(eq(recordings.orgId, orgId), eq(recordings.agentId, agentId)))
       .orderBy(desc(recordings.createdAt));
   }
 
+  async getRecording(orgId: string, id: string): Promise<Recording | undefined> {
+    const result = await db.select().from(recordings)
+      .where(and(eq(recordings.orgId, orgId), eq(recordings.id, id)));
+    return result[0];
+  }
+
   async createRecording(recording: Omit<InsertRecording, "id" | "createdAt">): Promise<Recording> {
     const result = await db.insert(recordings).values(recording).returning();
     return result[0];
   }
 
-  async deleteRecording(id: string): Promise<boolean> {
-    const result = await db.delete(recordings).where(eq(recordings.id, id)).returning();
+  async deleteRecording(orgId: string, id: string): Promise<boolean> {
+    const result = await db.delete(recordings)
+      .where(and(eq(recordings.orgId, orgId), eq(recordings.id, id)))
+      .returning();
+    if (result.length === 0) return false;
+    await deleteRecordingAudio(result[0]);
+    return true;
+  }
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.id, id));
+    return result[0];
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.username, username));
+    return result[0];
+  }
+
+  async getUserCount(): Promise<number> {
+    const result = await db.select({ count: sql<number>`count(*)` }).from(users);
+    return Number(result[0]?.count || 0);
+  }
+
+  async createUser(user: Omit<InsertUser, "id" | "createdAt" | "updatedAt">): Promise<User> {
+    const result = await db.insert(users).values(user).returning();
+    return result[0];
+  }
+
+  async getAllUsers(orgId: string): Promise<User[]> {
+    return await db.select().from(users).where(eq(users.orgId, orgId)).orderBy(users.username);
+  }
+
+  async updateUser(orgId: string, id: string, updates: UpdateUser): Promise<User | undefined> {
+    const result = await db.update(users)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(users.orgId, orgId), eq(users.id, id)))
+      .returning();
+    return result[0];
+  }
+
+  // Teams
+  async getAllTeams(orgId: string): Promise<Team[]> {
+    return await db.select().from(teams).where(eq(teams.orgId, orgId)).orderBy(teams.name);
+  }
+
+  async getTeam(orgId: string, id: string): Promise<Team | undefined> {
+    const result = await db.select().from(teams).where(and(eq(teams.orgId, orgId), eq(teams.id, id)));
+    return result[0];
+  }
+
+  async createTeam(team: Omit<InsertTeam, "id" | "createdAt" | "updatedAt">): Promise<Team> {
+    const result = await db.insert(teams).values(team).returning();
+    return result[0];
+  }
+
+  async updateTeam(orgId: string, id: string, team: Partial<InsertTeam>): Promise<Team | undefined> {
+    const result = await db.update(teams)
+      .set({ ...team, orgId, updatedAt: new Date() })
+      .where(and(eq(teams.orgId, orgId), eq(teams.id, id)))
+      .returning();
+    return result[0];
+  }
+
+  async deleteTeam(orgId: string, id: string): Promise<boolean> {
+    return await db.transaction(async (tx: any) => {
+      // The FK nulls teamId; a team's mandatory preset must not turn into the organization-wide one
+      await tx.update(teamPresets)
+        .set({ isMandatory: false })
+        .where(and(eq(teamPresets.orgId, orgId), eq(teamPresets.teamId, id)));
+      const result = await tx.delete(teams).where(and(eq(teams.orgId, orgId), eq(teams.id, id))).returning();
+      return result.length > 0;
+    });
+  }
+
+  // Organizations
+  async getAllOrganizations(): Promise<Organization[]> {
+    return await db.select().from(organizations).orderBy(organizations.name);
+  }
+
+  async getOrganization(id: string): Promise<Organization | undefined> {
+    const result = await db.select().from(organizations).where(eq(organizations.id, id));
+    return result[0];
+  }
+
+  async createOrganization(org: Omit<InsertOrganization, "id" | "createdAt" | "updatedAt">): Promise<Organization> {
+    const result = await db.insert(organizations).values(org).returning();
+    return result[0];
+  }
+
+  async getDefaultOrganization(): Promise<Organization> {
+    const [oldest] = await db.select().from(organizations).orderBy(organizations.createdAt).limit(1);
+    if (oldest) return oldest;
+    const result = await db.insert(organizations)
+      .values({ name: "Default" })
+      .onConflictDoNothing()
+      .returning();
+    return result[0] ?? (await db.select().from(organizations).where(eq(organizations.name, "Default")))[0];
+  }
+
+  // Invites
+  async getInvites(orgId: string): Promise<Invite[]> {
+    return await db.select().from(invites)
+      .where(and(eq(invites.orgId, orgId), gte(invites.expiresAt, new Date())))
+      .orderBy(desc(invites.createdAt));
+  }
+
+  async getInvite(id: string): Promise<Invite | undefined> {
+    const result = await db.select().from(invites).where(eq(invites.id, id));
+    return result[0];
+  }
+
+  async createInvite(invite: Omit<InsertInvite, "createdAt">): Promise<Invite> {
+    const result = await db.insert(invites).values(invite).returning();
+    return result[0];
+  }
+
+  async deleteInvite(id: string): Promise<boolean> {
+    const result = await db.delete(invites).where(eq(invites.id, id)).returning();
     return result.length > 0;
   }
 
+  // Sessions
+  async getSession(id: string): Promise<Session | undefined> {
+    const result = await db.select().from(sessions).where(eq(sessions.id, id));
+    return result[0];
+  }
+
+  async createSession(session: Omit<InsertSession, "createdAt">): Promise<Session> {
+    const result = await db.insert(sessions).values(session).returning();
+    return result[0];
+  }
+
+  async deleteSession(id: string): Promise<boolean> {
+    const result = await db.delete(sessions).where(eq(sessions.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async deleteExpiredSessions(): Promise<number> {
+    const result = await db.delete(sessions).where(lt(sessions.expiresAt, new Date())).returning();
+    return result.length;
+  }
+
+  // Audit Log
+  async recordAuditEntry(entry: Omit<InsertAuditEntry, "id" | "createdAt">): Promise<AuditEntry> {
+    const result = await db.insert(auditLog).values(entry).returning();
+    return result[0];
+  }
+
+  async getAuditEntries(orgId: string, query: AuditQuery): Promise<AuditEntry[]> {
+    return await db.select().from(auditLog)
+      .where(and(
+        eq(auditLog.orgId, orgId),
+        query.actorId ? eq(auditLog.actorId, query.actorId) : undefined,
+        query.action ? eq(auditLog.action, query.action) : undefined,
+        query.entityType ? eq(auditLog.entityType, query.entityType) : undefined,
+        query.entityId ? eq(auditLog.entityId, query.entityId) : undefined,
+        query.from ? gte(auditLog.createdAt, query.from) : undefined,
+        query.to ? lte(auditLog.createdAt, query.to) : undefined
+      ))
+      .orderBy(desc(auditLog.createdAt))
+      .limit(query.limit)
+      .offset(query.offset);
+  }
+
   // Seed sample agents for demo
-  async seedSampleAgents(): Promise<void> {
-    const existingCount = await this.getAgentCount();
+  async seedSampleAgents(orgId: string): Promise<void> {
+    const existingCount = await this.getAgentCount(orgId);
     if (existingCount > 0) {
       console.log(`Database already has ${existingCount} agents, skipping seed.`);
       return;
@@ -356,7 +799,7 @@ export class DatabaseStorage implements IStorage {
     ];
 
     for (const agent of sampleAgents) {
-      await this.createAgent(agent);
+      await this.createAgent(orgId, agent);
     }
 
     console.log(`Seeded ${sampleAgents.length} sample agents.`);
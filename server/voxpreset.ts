@@ -0,0 +1,113 @@
+// Reading and writing .voxpreset bundles for the profile and preset import/export API.
+// Devices are per machine, so bundles never carry them in either direction.
+
+import { z } from "zod";
+import {
+  VOXPRESET_FORMAT,
+  VOXPRESET_VERSION,
+  voxPresetBundleSchema,
+  voxPresetEntrySchema,
+} from "@shared/schema";
+import type {
+  AudioSettings,
+  VoxPresetBundle,
+  VoxPresetConflictMode,
+  VoxPresetEntry,
+  VoxPresetImportReport,
+} from "@shared/schema";
+
+function withoutDevices(settings: AudioSettings): AudioSettings {
+  const { inputDeviceId, outputDeviceId, ...rest } = settings;
+  return { ...rest, preferredInputDevices: [], preferredOutputDevices: [] };
+}
+
+export function toVoxPresetBundle(items: VoxPresetEntry[]): VoxPresetBundle {
+  return {
+    format: VOXPRESET_FORMAT,
+    version: VOXPRESET_VERSION,
+    exportedAt: new Date().toISOString(),
+    presets: items.map(item => ({
+      name: item.name,
+      ...(item.description ? { description: item.description } : {}),
+      audioSettings: withoutDevices(item.audioSettings),
+    })),
+  };
+}
+
+// "Support Floor" -> "support-floor.voxpreset"; several items get a dated name built from `fallback`
+export function voxPresetFileName(items: VoxPresetEntry[], fallback: string): string {
+  const base = items.length === 1
+    ? items[0].name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "")
+    : "";
+  return `${base || `${fallback}-${new Date().toISOString().slice(0, 10)}`}.voxpreset`;
+}
+
+// `?ids=a,b` narrows an export to those items; without it everything is exported
+export function selectForExport<T extends { id: string }>(items: T[], ids: unknown): T[] {
+  if (typeof ids !== "string" || ids === "") return items;
+  const wanted = new Set(ids.split(","));
+  return items.filter(item => wanted.has(item.id));
+}
+
+function nameKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+// Numbers continue from the base name, so a taken "X (2)" becomes "X (3)" rather than "X (2) (2)"
+function nextFreeName(name: string, taken: Map<string, string>): string {
+  const base = name.replace(/ \(\d+\)$/, "");
+  for (let n = 2; ; n++) {
+    const candidate = `${base} (${n})`;
+    if (!taken.has(nameKey(candidate))) return candidate;
+  }
+}
+
+/**
+ * Import every valid entry of `bundle` through `create`, which returns the new item's id.
+ * Names are compared case-insensitively against `existing` and against entries imported earlier
+ * in the same bundle. Throws a ZodError when the bundle itself (format, version, entry list) is invalid.
+ */
+export async function importVoxPresetBundle(
+  bundle: unknown,
+  existing: { id: string; name: string }[],
+  onConflict: VoxPresetConflictMode,
+  create: (entry: VoxPresetEntry) => Promise<string>,
+): Promise<VoxPresetImportReport> {
+  const { presets } = voxPresetBundleSchema.parse(bundle);
+  const taken = new Map(existing.map(item => [nameKey(item.name), item.id]));
+  const report: VoxPresetImportReport = { imported: [], conflicts: [], errors: [] };
+
+  for (const [index, raw] of presets.entries()) {
+    const parsed = voxPresetEntrySchema.safeParse(raw);
+    if (!parsed.success) {
+      const name = (raw as { name?: unknown } | null)?.name;
+      report.errors.push({
+        index,
+        ...(typeof name === "string" ? { name } : {}),
+        fields: parsed.error.errors.map((issue: z.ZodIssue) => ({
+          path: issue.path.join(".") || "(entry)",
+          message: issue.message,
+        })),
+      });
+      continue;
+    }
+
+    const entry = { ...parsed.data, audioSettings: withoutDevices(parsed.data.audioSettings) };
+    const existingId = taken.get(nameKey(entry.name));
+    if (existingId) {
+      if (onConflict === "skip") {
+        report.conflicts.push({ index, name: entry.name, existingId });
+        continue;
+      }
+      const renamedTo = nextFreeName(entry.name, taken);
+      report.conflicts.push({ index, name: entry.name, existingId, renamedTo });
+      entry.name = renamedTo;
+    }
+
+    const id = await create(entry);
+    taken.set(nameKey(entry.name), id);
+    report.imported.push({ index, name: entry.name, id });
+  }
+
+  return report;
+}
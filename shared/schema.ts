@@ -1,8 +1,8 @@
 import { z } from "zod";
-import { pgTable, text, boolean, integer, jsonb, timestamp, uuid, serial } from "drizzle-orm/pg-core";
+import { pgTable, text, boolean, integer, real, jsonb, timestamp, uuid, serial, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 
-export const SCHEMA_VERSION = 1;
+export const SCHEMA_VERSION = 7;
 
 export const schemaVersions = pgTable("schema_versions", {
   id: serial("id").primaryKey(),
@@ -25,6 +25,75 @@ export const AgentStatus = {
 
 export type AgentStatusType = typeof AgentStatus[keyof typeof AgentStatus];
 
+// User role enum. The owner runs the server itself: an admin of their own organization
+// who can also create organizations and invite users into any of them.
+export const UserRole = {
+  OWNER: "owner",
+  ADMIN: "admin",
+  SUPERVISOR: "supervisor",
+  AGENT: "agent",
+} as const;
+
+export type UserRoleType = typeof UserRole[keyof typeof UserRole];
+
+// Permission matrix. Each role maps a permission to the scope it applies to:
+// "all" agents in the user's organization, or only agents on the user's own "team". Missing means denied.
+// Agents are not listed for agent-level permissions; they always have access to their own agent.
+// Nothing here crosses organizations except "orgs:manage".
+export const Permission = {
+  AGENTS_VIEW: "agents:view",
+  AGENTS_COACH: "agents:coach",
+  AGENTS_DELETE: "agents:delete",
+  ANALYTICS_VIEW: "analytics:view",
+  PRESETS_MANAGE: "presets:manage",
+  TEAMS_MANAGE: "teams:manage",
+  USERS_MANAGE: "users:manage",
+  ORGS_MANAGE: "orgs:manage",
+  AUDIT_VIEW: "audit:view",
+} as const;
+
+export type PermissionType = typeof Permission[keyof typeof Permission];
+export type PermissionScope = "all" | "team";
+
+export const rolePermissions: Record<UserRoleType, Partial<Record<PermissionType, PermissionScope>>> = {
+  owner: {
+    "agents:view": "all",
+    "agents:coach": "all",
+    "agents:delete": "all",
+    "analytics:view": "all",
+    "presets:manage": "all",
+    "teams:manage": "all",
+    "users:manage": "all",
+    "orgs:manage": "all",
+    "audit:view": "all",
+  },
+  admin: {
+    "agents:view": "all",
+    "agents:coach": "all",
+    "agents:delete": "all",
+    "analytics:view": "all",
+    "presets:manage": "all",
+    "teams:manage": "all",
+    "users:manage": "all",
+    "audit:view": "all",
+  },
+  supervisor: {
+    "agents:view": "team",
+    "agents:coach": "team",
+    "analytics:view": "team",
+  },
+  agent: {},
+};
+
+export function getPermissionScope(role: UserRoleType, permission: PermissionType): PermissionScope | null {
+  return rolePermissions[role]?.[permission] ?? null;
+}
+
+// Owners and admins manage their whole organization; their agents aren't tied to their login.
+export function isAdminRole(role: UserRoleType): boolean {
+  return role === "owner" || role === "admin";
+}
+
 // Accent preset definitions
 export const AccentPreset = {
   // Basic voice types
@@ -56,40 +125,155 @@ export const AccentPreset = {
 
 export type AccentPresetType = typeof AccentPreset[keyof typeof AccentPreset];
 
+// One band of the user EQ; the types are the BiquadFilterNode types it is built from.
+// Gain only applies to peaking and shelf bands, Q to all but the shelves.
+export const EQ_BAND_TYPES = ["peaking", "lowshelf", "highshelf", "lowpass", "highpass", "notch"] as const;
+export const MAX_EQ_BANDS = 8;
+
+export const eqBandSchema = z.object({
+  type: z.enum(EQ_BAND_TYPES).default("peaking"),
+  frequency: z.number().min(20).max(20000),
+  gain: z.number().min(-24).max(24).default(0),
+  Q: z.number().min(0.1).max(18).default(1),
+});
+
+export type EqBand = z.infer<typeof eqBandSchema>;
+
+// When the processed voice is sent: always, only while the push-to-talk hotkey is held (or
+// latched, from the desktop app's global shortcut), or until the VAD hears autoMuteDelay seconds
+// of silence.
+export const PROCESSING_MODES = ["always-on", "push-to-talk", "auto-mute"] as const;
+export type ProcessingMode = typeof PROCESSING_MODES[number];
+
+// A device the agent has chosen before. Browsers can hand a re-plugged device a new id, so the
+// label is kept to recognise it by.
+export const MAX_PREFERRED_DEVICES = 8;
+
+export const preferredDeviceSchema = z.object({
+  deviceId: z.string().min(1).max(512),
+  label: z.string().max(256),
+});
+
+export type PreferredDevice = z.infer<typeof preferredDeviceSchema>;
+
 // Audio settings schema (Zod for validation)
 export const audioSettingsSchema = z.object({
   noiseReductionEnabled: z.boolean().default(true),
   noiseReductionLevel: z.number().min(0).max(100).default(50),
+  // Spectral (Wiener) suppression replaces the expander-only gate; it adds ~8ms of latency.
+  spectralSuppressionEnabled: z.boolean().default(false),
   accentModifierEnabled: z.boolean().default(false),
-  accentPreset: z.enum([
-    // Basic
-    "neutral", "deeper", "higher", "warm", "clear",
-    // American regional
-    "southern_us", "midwest_us", "new_york", "california", "texas", "boston", "pacific_nw", "mid_atlantic",
-    // International
-    "british", "australian",
-    // Voice character
-    "authoritative", "friendly", "calm", "energetic", "confident", "professional"
-  ]).default("neutral"),
+  // Key of one of the organization's accent presets (built-ins such as "neutral" or "british", or an admin's own).
+  // A key that no longer exists plays as neutral.
+  accentPreset: z.string().trim().min(1).max(64).default("neutral"),
   // Pitch shifting can introduce metallic artifacts; keep it opt-in.
   pitchShiftEnabled: z.boolean().default(false),
   pitchShift: z.number().min(-12).max(12).default(0),
   formantShift: z.number().min(-50).max(50).default(0),
   inputDeviceId: z.string().optional(),
   outputDeviceId: z.string().optional(),
+  // Devices to fall back to, most preferred first, when the one in use disappears
+  preferredInputDevices: z.array(preferredDeviceSchema).max(MAX_PREFERRED_DEVICES).default([]),
+  preferredOutputDevices: z.array(preferredDeviceSchema).max(MAX_PREFERRED_DEVICES).default([]),
   inputGain: z.number().min(0).max(200).default(100),
   outputGain: z.number().min(0).max(200).default(100),
   clarityBoost: z.number().min(0).max(100).default(0),
   volumeNormalization: z.boolean().default(false),
+  // The compressor volume normalization switches on. Attack and release are in ms; makeup gain (dB)
+  // comes on top of the compressor's own automatic makeup.
+  compressorThreshold: z.number().min(-60).max(0).default(-24),
+  compressorRatio: z.number().min(1).max(20).default(4),
+  compressorKnee: z.number().min(0).max(40).default(30),
+  compressorAttack: z.number().min(0).max(1000).default(3),
+  compressorRelease: z.number().min(10).max(1000).default(250),
+  compressorMakeupGain: z.number().min(0).max(24).default(0),
+  // Brickwall true-peak limiter after the output gain, so nothing past it exceeds the ceiling (dBTP).
+  // Opt-in, so agents saved before it existed keep sounding the same.
+  limiterEnabled: z.boolean().default(false),
+  limiterCeiling: z.number().min(-12).max(0).default(-1),
+  // Loudness AGC: steers short-term loudness (BS.1770) toward the target, boosting by at most
+  // agcMaxGain dB. Audio quieter than the gate counts as silence and leaves the gain alone.
+  agcEnabled: z.boolean().default(false),
+  agcTargetLufs: z.number().min(-36).max(-10).default(-18),
+  agcMaxGain: z.number().min(0).max(30).default(12),
+  agcGateLufs: z.number().min(-70).max(-30).default(-50),
+  // De-esser after the formant filters: cuts 4-9 kHz while that band is above the threshold (dBFS),
+  // by at most deEsserReduction dB. The plosive suppressor ducks low-frequency pops; higher
+  // sensitivity catches softer ones.
+  deEsserEnabled: z.boolean().default(false),
+  deEsserThreshold: z.number().min(-60).max(0).default(-30),
+  deEsserReduction: z.number().min(0).max(24).default(8),
+  plosiveSuppressionEnabled: z.boolean().default(false),
+  plosiveSensitivity: z.number().min(0).max(100).default(50),
+  processingMode: z.enum(PROCESSING_MODES).default("always-on"),
+  // Electron accelerator syntax, e.g. "CommandOrControl+Shift+Space"
+  pushToTalkHotkey: z.string().trim().min(1).max(64).default("CommandOrControl+Shift+Space"),
+  autoMuteDelay: z.number().min(1).max(60).default(5),
+  // Higher hears quieter speech over the noise floor as talking
+  vadSensitivity: z.number().min(0).max(100).default(50),
+  // Parametric EQ ahead of the normalizer, applied in order; empty means flat.
+  eqBands: z.array(eqBandSchema).max(MAX_EQ_BANDS).default([]),
 });
 
 export type AudioSettings = z.infer<typeof audioSettingsSchema>;
 
+// Devices are per machine, so presets never carry or lock them
+const DEVICE_SETTINGS = ["inputDeviceId", "outputDeviceId", "preferredInputDevices", "preferredOutputDevices"] as const;
+const lockableSettingSchema = audioSettingsSchema.keyof().exclude(DEVICE_SETTINGS, {
+  errorMap: () => ({ message: "Not a lockable audio setting" }),
+});
+type LockableSetting = z.infer<typeof lockableSettingSchema>;
+
+// A lock binds one setting to the mandatory preset's own value for it:
+// "exact" pins it, "min"/"max" only bound it (numeric settings only).
+export const presetLockModeSchema = z.enum(["exact", "min", "max"]);
+export type PresetLockMode = z.infer<typeof presetLockModeSchema>;
+
+export const presetLocksSchema = z.record(lockableSettingSchema, presetLockModeSchema).superRefine((locks, ctx) => {
+  (Object.entries(locks) as [LockableSetting, PresetLockMode][]).forEach(([field, mode]) => {
+    if (mode !== "exact" && typeof defaultAudioSettings[field] !== "number") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: "Only numeric settings take a min/max lock" });
+    }
+  });
+});
+export type PresetLocks = z.infer<typeof presetLocksSchema>;
+
+// One of an accent preset's three formant bands (F1-F3). Shelves ignore Q, as in Web Audio.
+export const formantBandSchema = z.object({
+  type: z.enum(["peaking", "lowshelf", "highshelf"]).default("peaking"),
+  frequency: z.number().min(50).max(12000),
+  Q: z.number().min(0.1).max(18).default(1),
+  gain: z.number().min(-24).max(24),
+});
+
+export type FormantBand = z.infer<typeof formantBandSchema>;
+
+export const accentFormantsSchema = z.object({
+  f1: formantBandSchema,
+  f2: formantBandSchema,
+  f3: formantBandSchema,
+});
+
+export type AccentFormants = z.infer<typeof accentFormantsSchema>;
+
 // Drizzle ORM table definitions
+
+// Organizations are tenants: every other row belongs to exactly one, and users only ever see their own.
+export const organizations = pgTable("organizations", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const agents = pgTable("agents", {
   id: uuid("id").primaryKey().defaultRandom(),
+  orgId: uuid("org_id").references(() => organizations.id, { onDelete: "cascade" }).notNull(),
   name: text("name").notNull(),
   email: text("email"),
+  // Login account that owns this agent; null for agents created by an admin or before accounts existed
+  userId: uuid("user_id").references(() => users.id, { onDelete: "set null" }),
+  teamId: uuid("team_id").references(() => teams.id, { onDelete: "set null" }),
   status: text("status").$type<AgentStatusType>().notNull().default("offline"),
   isProcessingActive: boolean("is_processing_active").notNull().default(false),
   callDuration: integer("call_duration").notNull().default(0),
@@ -104,6 +288,7 @@ export const agents = pgTable("agents", {
 // Custom accent profiles table
 export const customProfiles = pgTable("custom_profiles", {
   id: uuid("id").primaryKey().defaultRandom(),
+  orgId: uuid("org_id").references(() => organizations.id, { onDelete: "cascade" }).notNull(),
   agentId: uuid("agent_id").references(() => agents.id).notNull(),
   name: text("name").notNull(),
   audioSettings: jsonb("audio_settings").$type<AudioSettings>().notNull(),
@@ -114,17 +299,62 @@ export const customProfiles = pgTable("custom_profiles", {
 // Team presets managed by admins
 export const teamPresets = pgTable("team_presets", {
   id: uuid("id").primaryKey().defaultRandom(),
+  orgId: uuid("org_id").references(() => organizations.id, { onDelete: "cascade" }).notNull(),
   name: text("name").notNull(),
   description: text("description"),
   audioSettings: jsonb("audio_settings").$type<AudioSettings>().notNull(),
   isActive: boolean("is_active").notNull().default(true),
+  // A mandatory preset is pushed to every agent of its team (or, with no team, the whole organization)
+  // and agents can't move its locked settings. Team presets win over the organization-wide one.
+  isMandatory: boolean("is_mandatory").notNull().default(false),
+  teamId: uuid("team_id").references(() => teams.id, { onDelete: "set null" }),
+  lockedFields: jsonb("locked_fields").$type<PresetLocks>().notNull().default({}),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Voice characters for the accent modifier; audioSettings.accentPreset holds a preset's key. Every organization
+// is seeded with the built-ins (accentPresetConfigs), which admins can tune but not delete.
+export const accentPresets = pgTable("accent_presets", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orgId: uuid("org_id").references(() => organizations.id, { onDelete: "cascade" }).notNull(),
+  key: text("key").notNull(),
+  name: text("name").notNull(),
+  description: text("description").notNull().default(""),
+  category: text("category").notNull().default("Custom"),
+  pitchShift: real("pitch_shift").notNull().default(0),
+  formantShift: real("formant_shift").notNull().default(0),
+  highPassFreq: real("high_pass_freq").notNull().default(80),
+  lowPassFreq: real("low_pass_freq").notNull().default(8000),
+  resonanceQ: real("resonance_q").notNull().default(0.7),
+  // F1-F3 as they sound at this preset's own formantShift (see accentFormantBands)
+  formants: jsonb("formants").$type<AccentFormants>().notNull(),
+  isBuiltIn: boolean("is_built_in").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [unique("accent_presets_org_id_key_unique").on(table.orgId, table.key)]);
+
+// Every create/update/delete/restore of a team preset or custom profile, so a change can be inspected and rolled back.
+// targetId has no foreign key on purpose: history outlives the row it describes.
+export const settingsRevisions = pgTable("settings_revisions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orgId: uuid("org_id").references(() => organizations.id, { onDelete: "cascade" }).notNull(),
+  targetType: text("target_type").$type<RevisionTargetType>().notNull(),
+  targetId: uuid("target_id").notNull(),
+  action: text("action").$type<RevisionAction>().notNull(),
+  // The target as it stood after this change (before it, for a delete)
+  snapshot: jsonb("snapshot").$type<RevisionSnapshot>().notNull(),
+  changes: jsonb("changes").$type<AudioSettingsChange[]>().notNull().default([]),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "set null" }),
+  // Kept alongside userId so the history still reads after the account is removed
+  username: text("username").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 // Analytics/usage tracking table
 export const usageStats = pgTable("usage_stats", {
   id: uuid("id").primaryKey().defaultRandom(),
+  orgId: uuid("org_id").references(() => organizations.id, { onDelete: "cascade" }).notNull(),
   agentId: uuid("agent_id").references(() => agents.id).notNull(),
   date: timestamp("date").defaultNow().notNull(),
   noiseReductionMinutes: integer("noise_reduction_minutes").notNull().default(0),
@@ -132,19 +362,98 @@ export const usageStats = pgTable("usage_stats", {
   accentPresetUsed: text("accent_preset_used"),
   totalCalls: integer("total_calls").notNull().default(0),
   avgLatency: integer("avg_latency").notNull().default(0),
+  // Seconds the agent was heard talking vs. silent (or muted) while processing ran, from the VAD
+  talkSeconds: integer("talk_seconds").notNull().default(0),
+  silenceSeconds: integer("silence_seconds").notNull().default(0),
+});
+
+// Calls tracked from the agent dashboard; ending a call rolls its usage into usage_stats
+export const callSessions = pgTable("call_sessions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orgId: uuid("org_id").references(() => organizations.id, { onDelete: "cascade" }).notNull(),
+  agentId: uuid("agent_id").references(() => agents.id, { onDelete: "cascade" }).notNull(),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  // Null while the call is in progress
+  endedAt: timestamp("ended_at"),
 });
 
 // Recording sessions table
 export const recordings = pgTable("recordings", {
   id: uuid("id").primaryKey().defaultRandom(),
+  orgId: uuid("org_id").references(() => organizations.id, { onDelete: "cascade" }).notNull(),
   agentId: uuid("agent_id").references(() => agents.id).notNull(),
   fileName: text("file_name").notNull(),
   duration: integer("duration").notNull().default(0),
   fileSize: integer("file_size").notNull().default(0),
+  // Blob store key of the uploaded audio; null for metadata-only recordings.
+  storageKey: text("storage_key"),
+  mimeType: text("mime_type"),
   audioSettings: jsonb("audio_settings").$type<AudioSettings>().notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Teams group agents under a supervisor. Names are unique within an organization.
+export const teams = pgTable("teams", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orgId: uuid("org_id").references(() => organizations.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [unique("teams_org_id_name_unique").on(table.orgId, table.name)]);
+
+// Login accounts (passwords are bcrypt hashes)
+// Usernames stay globally unique since sign-in doesn't ask for an organization.
+export const users = pgTable("users", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orgId: uuid("org_id").references(() => organizations.id, { onDelete: "cascade" }).notNull(),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  role: text("role").$type<UserRoleType>().notNull().default("agent"),
+  // For supervisors, the team they oversee
+  teamId: uuid("team_id").references(() => teams.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Login sessions; the id is a SHA-256 of the bearer token so a leaked table can't be replayed
+export const sessions = pgTable("sessions", {
+  id: text("id").primaryKey(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Single-use invitations into an organization; like sessions, the id is a SHA-256 of the token
+export const invites = pgTable("invites", {
+  id: text("id").primaryKey(),
+  orgId: uuid("org_id").references(() => organizations.id, { onDelete: "cascade" }).notNull(),
+  role: text("role").$type<UserRoleType>().notNull().default("agent"),
+  teamId: uuid("team_id").references(() => teams.id, { onDelete: "set null" }),
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One successful POST/PATCH/DELETE: who made it, what it did, and the entity before and after.
+// Snapshots are redacted of passwords and tokens; entityId has no foreign key so entries outlive the entity.
+export const auditLog = pgTable("audit_log", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orgId: uuid("org_id").references(() => organizations.id, { onDelete: "cascade" }).notNull(),
+  actorId: uuid("actor_id").references(() => users.id, { onDelete: "set null" }),
+  actorUsername: text("actor_username").notNull(),
+  // "<entity>.<verb>", e.g. "agent.delete"
+  action: text("action").notNull(),
+  entityType: text("entity_type").$type<AuditEntityType>().notNull(),
+  entityId: text("entity_id"),
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  statusCode: integer("status_code").notNull(),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Agent type (select)
 export type Agent = typeof agents.$inferSelect;
 export type InsertAgent = typeof agents.$inferInsert;
@@ -155,6 +464,9 @@ export const insertAgentSchema = createInsertSchema(agents, {
   status: z.enum(["online", "away", "busy", "offline"]),
 }).omit({
   id: true,
+  orgId: true,
+  userId: true,
+  teamId: true,
   createdAt: true,
   updatedAt: true,
   callDuration: true,
@@ -173,6 +485,7 @@ export const insertCustomProfileSchema = createInsertSchema(customProfiles, {
   audioSettings: audioSettingsSchema,
 }).omit({
   id: true,
+  orgId: true,
   createdAt: true,
 });
 
@@ -182,33 +495,435 @@ export type InsertTeamPreset = typeof teamPresets.$inferInsert;
 
 export const insertTeamPresetSchema = createInsertSchema(teamPresets, {
   audioSettings: audioSettingsSchema,
+  teamId: z.string().min(1).nullable().optional(),
+  lockedFields: presetLocksSchema.optional(),
 }).omit({
   id: true,
+  orgId: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// Accent preset types
+export type AccentPresetDefinition = typeof accentPresets.$inferSelect;
+export type InsertAccentPresetDefinition = typeof accentPresets.$inferInsert;
+// The part of an accent preset the audio chain uses
+export type AccentVoicing = Pick<
+  AccentPresetDefinition,
+  "pitchShift" | "formantShift" | "highPassFreq" | "lowPassFreq" | "resonanceQ" | "formants"
+>;
+
+// Ranges match what the audio chain clamps to. Without a key, one is made from the name.
+export const insertAccentPresetSchema = createInsertSchema(accentPresets, {
+  key: z.string().min(1).max(64).regex(/^[a-z0-9_]+$/, "Use lowercase letters, digits and underscores").optional(),
+  name: z.string().trim().min(1).max(64),
+  description: z.string().max(200).optional(),
+  category: z.string().trim().min(1).max(64).optional(),
+  pitchShift: z.number().min(-12).max(12),
+  formantShift: z.number().min(-50).max(50),
+  highPassFreq: z.number().min(20).max(300),
+  lowPassFreq: z.number().min(4000).max(20000),
+  resonanceQ: z.number().min(0.2).max(6),
+  formants: accentFormantsSchema,
+}).omit({
+  id: true,
+  orgId: true,
+  isBuiltIn: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Keys can't change: agents' settings and usage stats refer to them
+export const updateAccentPresetSchema = insertAccentPresetSchema.omit({ key: true }).partial();
+
+// The mandatory preset governing an agent: its team's, else the organization-wide one
+export function resolveMandatoryPreset(presets: TeamPreset[], teamId: string | null): TeamPreset | undefined {
+  const mandatory = presets.filter(p => p.isActive && p.isMandatory);
+  return mandatory.find(p => teamId !== null && p.teamId === teamId) ?? mandatory.find(p => p.teamId === null);
+}
+
+// What an agent switches to when a mandatory preset is pushed: the preset, but still on the agent's own devices
+export function applyMandatoryPreset(current: AudioSettings, preset: TeamPreset): AudioSettings {
+  return {
+    ...preset.audioSettings,
+    inputDeviceId: current.inputDeviceId,
+    outputDeviceId: current.outputDeviceId,
+    preferredInputDevices: current.preferredInputDevices,
+    preferredOutputDevices: current.preferredOutputDevices,
+  };
+}
+
+// Settings are plain JSON, so list settings (eqBands) compare by content
+export function sameSettingValue(a: unknown, b: unknown): boolean {
+  return a === b || (Array.isArray(a) && Array.isArray(b) && JSON.stringify(a) === JSON.stringify(b));
+}
+
+/**
+ * Bring a (partial) settings change within a preset's locks: pinned settings take the preset's value
+ * and bounded ones are clamped to it. `adjusted` lists the settings that had to change.
+ */
+export function enforcePresetLocks<T extends Partial<AudioSettings>>(
+  settings: T,
+  preset: Pick<TeamPreset, "audioSettings" | "lockedFields">
+): { settings: T; adjusted: LockableSetting[] } {
+  const result: Partial<Record<keyof AudioSettings, unknown>> = { ...settings };
+  const adjusted: LockableSetting[] = [];
+
+  (Object.entries(preset.lockedFields) as [LockableSetting, PresetLockMode][]).forEach(([field, mode]) => {
+    const value = result[field];
+    const target = preset.audioSettings[field];
+    if (value === undefined || target === undefined) return;
+
+    const violates =
+      mode === "exact" ? !sameSettingValue(value, target) :
+      mode === "min" ? (value as number) < (target as number) :
+      (value as number) > (target as number);
+    if (violates) {
+      result[field] = target;
+      adjusted.push(field);
+    }
+  });
+
+  return { settings: result as T, adjusted };
+}
+
+// Revision history types
+export const revisionTargetTypeSchema = z.enum(["team_preset", "custom_profile"]);
+export type RevisionTargetType = z.infer<typeof revisionTargetTypeSchema>;
+export const revisionActionSchema = z.enum(["create", "update", "delete", "restore"]);
+export type RevisionAction = z.infer<typeof revisionActionSchema>;
+
+export interface RevisionSnapshot {
+  name: string;
+  description?: string | null;
+  audioSettings: AudioSettings;
+  // Team presets only: scope and locks, so a restore can undo them too (absent in older revisions)
+  teamId?: string | null;
+  isMandatory?: boolean;
+  lockedFields?: PresetLocks;
+  // Custom profiles only: who owns the profile and whether it's shared
+  agentId?: string;
+  isShared?: boolean;
+}
+
+export interface AudioSettingsChange {
+  field: keyof AudioSettings;
+  from: AudioSettings[keyof AudioSettings] | null;
+  to: AudioSettings[keyof AudioSettings] | null;
+}
+
+export type SettingsRevision = typeof settingsRevisions.$inferSelect;
+export type InsertSettingsRevision = typeof settingsRevisions.$inferInsert;
+
+// Field-by-field difference between two settings; a missing side (create/delete) reads as null
+export function diffAudioSettings(before: AudioSettings | null, after: AudioSettings | null): AudioSettingsChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]) as Set<keyof AudioSettings>;
+  const changes: AudioSettingsChange[] = [];
+  fields.forEach(field => {
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (!sameSettingValue(from, to)) {
+      changes.push({ field, from, to });
+    }
+  });
+  return changes;
+}
+
+// Portable .voxpreset bundles: named audio settings moved between installs or organizations as JSON.
+// Bump VOXPRESET_VERSION when the entry shape changes; bundles of every older version must keep importing.
+export const VOXPRESET_FORMAT = "voxpreset";
+export const VOXPRESET_VERSION = 1;
+export const MAX_VOXPRESET_ENTRIES = 200;
+
+export const voxPresetEntrySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).nullable().optional(),
+  audioSettings: audioSettingsSchema,
+});
+
+export type VoxPresetEntry = z.infer<typeof voxPresetEntrySchema>;
+
+// Only the envelope: entries are validated one by one so a single bad entry doesn't reject the rest
+export const voxPresetBundleSchema = z.object({
+  format: z.literal(VOXPRESET_FORMAT),
+  version: z.number().int().min(1).max(VOXPRESET_VERSION, `Bundles newer than version ${VOXPRESET_VERSION} aren't supported`),
+  exportedAt: z.string().optional(),
+  presets: z.array(z.unknown()).min(1).max(MAX_VOXPRESET_ENTRIES),
+});
+
+export interface VoxPresetBundle {
+  format: typeof VOXPRESET_FORMAT;
+  version: number;
+  exportedAt: string;
+  presets: VoxPresetEntry[];
+}
+
+// What to do with an entry whose name is already taken: leave it out, or import it as "Name (2)"
+export const voxPresetConflictModeSchema = z.enum(["skip", "rename"]);
+export type VoxPresetConflictMode = z.infer<typeof voxPresetConflictModeSchema>;
+
+export const importTeamPresetsSchema = z.object({
+  bundle: z.unknown(),
+  onConflict: voxPresetConflictModeSchema.default("skip"),
+});
+
+export const importCustomProfilesSchema = importTeamPresetsSchema.extend({
+  agentId: z.string().min(1),
+});
+
+export interface VoxPresetFieldError {
+  // Dotted path within the entry, e.g. "audioSettings.noiseReductionLevel"
+  path: string;
+  message: string;
+}
+
+// Entries are identified by their position in the bundle's `presets`
+export interface VoxPresetImportReport {
+  imported: { index: number; name: string; id: string }[];
+  // Names already taken; `renamedTo` is set when the entry was imported anyway
+  conflicts: { index: number; name: string; existingId: string; renamedTo?: string }[];
+  errors: { index: number; name?: string; fields: VoxPresetFieldError[] }[];
+}
+
 // Usage stats types
 export type UsageStats = typeof usageStats.$inferSelect;
 export type InsertUsageStats = typeof usageStats.$inferInsert;
 
+// Time-series analytics query (GET /api/analytics/timeseries). Buckets are aligned to UTC; weeks start on Monday.
+export const analyticsBucketSchema = z.enum(["hour", "day", "week"]);
+export type AnalyticsBucket = z.infer<typeof analyticsBucketSchema>;
+
+export const analyticsQuerySchema = z.object({
+  bucket: analyticsBucketSchema.default("day"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  agentId: z.string().min(1).optional(),
+  teamId: z.string().min(1).optional(),
+  preset: z.string().min(1).optional(),
+  format: z.enum(["json", "csv"]).default("json"),
+});
+
+export type AnalyticsQuery = z.infer<typeof analyticsQuerySchema>;
+
+export interface AnalyticsPoint {
+  // ISO start of the bucket
+  bucketStart: string;
+  calls: number;
+  noiseReductionMinutes: number;
+  accentModifierMinutes: number;
+  talkMinutes: number;
+  silenceMinutes: number;
+  // Shares (0-1) of the VAD-measured time spent talking and silent; 0 when nothing was measured
+  talkRatio: number;
+  silenceRatio: number;
+  // Latency percentiles over the calls in the bucket that measured one (ms, 0 when none did)
+  latencyP50: number;
+  latencyP95: number;
+}
+
+export interface AnalyticsTimeSeries {
+  bucket: AnalyticsBucket;
+  from: string;
+  to: string;
+  points: AnalyticsPoint[];
+  totals: Omit<AnalyticsPoint, "bucketStart">;
+}
+
+// Call session types
+export type CallSession = typeof callSessions.$inferSelect;
+export type InsertCallSession = typeof callSessions.$inferInsert;
+
+export const startCallSchema = z.object({
+  agentId: z.string().min(1),
+});
+
+// Usage measured by the dashboard over one call; the server clamps the times to the call's length
+export const endCallSchema = z.object({
+  noiseReductionSeconds: z.number().int().min(0).default(0),
+  accentModifierSeconds: z.number().int().min(0).default(0),
+  accentPresetUsed: z.string().min(1).max(64).nullable().optional(),
+  avgLatency: z.number().int().min(0).max(10000).default(0),
+  talkSeconds: z.number().int().min(0).default(0),
+  silenceSeconds: z.number().int().min(0).default(0),
+});
+
+export type EndCallUsage = z.infer<typeof endCallSchema>;
+
 // Recording types
 export type Recording = typeof recordings.$inferSelect;
 export type InsertRecording = typeof recordings.$inferInsert;
 
+// User and session types
+export type User = typeof users.$inferSelect;
+export type InsertUser = typeof users.$inferInsert;
+export type PublicUser = Pick<User, "id" | "orgId" | "username" | "role" | "teamId">;
+export type Session = typeof sessions.$inferSelect;
+export type InsertSession = typeof sessions.$inferInsert;
+
+export const loginSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
+});
+
+export const passwordSchema = z.string().min(8, "Password must be at least 8 characters").max(128);
+
+// Owner is only ever assigned by first-run setup, never through the API.
+const userRoleSchema = z.enum(["admin", "supervisor", "agent"]);
+
+export const registerUserSchema = z.object({
+  username: z.string().trim().min(3).max(64),
+  password: passwordSchema,
+  role: userRoleSchema.default("agent"),
+  teamId: z.string().min(1).nullable().optional(),
+});
+
+export const updateUserSchema = z.object({
+  role: userRoleSchema.optional(),
+  teamId: z.string().min(1).nullable().optional(),
+});
+
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+
+// Team types
+export type Team = typeof teams.$inferSelect;
+export type InsertTeam = typeof teams.$inferInsert;
+
+export const insertTeamSchema = createInsertSchema(teams, {
+  name: z.string().trim().min(1).max(100),
+}).omit({
+  id: true,
+  orgId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateTeamSchema = insertTeamSchema.partial();
+
+export const assignAgentTeamSchema = z.object({
+  teamId: z.string().min(1).nullable(),
+});
+
+// Organization types
+export type Organization = typeof organizations.$inferSelect;
+export type InsertOrganization = typeof organizations.$inferInsert;
+
+export const insertOrganizationSchema = createInsertSchema(organizations, {
+  name: z.string().trim().min(1).max(100),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Invite types
+export type Invite = typeof invites.$inferSelect;
+export type InsertInvite = typeof invites.$inferInsert;
+
+export const createInviteSchema = z.object({
+  role: userRoleSchema.default("agent"),
+  teamId: z.string().min(1).nullable().optional(),
+});
+
+export const acceptInviteSchema = z.object({
+  token: z.string().min(1),
+  username: z.string().trim().min(3).max(64),
+  password: passwordSchema,
+});
+
+// First-run setup: creates the initial admin account (only allowed while no users exist)
+export const bootstrapAdminSchema = z.object({
+  username: z.string().trim().min(3).max(64),
+  password: passwordSchema,
+});
+
+// Audit log types
+export const auditEntityTypeSchema = z.enum([
+  "agent",
+  "accent",
+  "profile",
+  "preset",
+  "team",
+  "user",
+  "organization",
+  "invite",
+  "usage",
+  "call",
+  "recording",
+]);
+export type AuditEntityType = z.infer<typeof auditEntityTypeSchema>;
+
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type InsertAuditEntry = typeof auditLog.$inferInsert;
+
+// Filters for GET /api/audit; entries come back newest first
+export const auditQuerySchema = z.object({
+  actorId: z.string().min(1).optional(),
+  action: z.string().min(1).max(64).optional(),
+  entityType: auditEntityTypeSchema.optional(),
+  entityId: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+
 // Update agent settings schema
 export const updateAgentSettingsSchema = z.object({
   audioSettings: audioSettingsSchema.partial().optional(),
   status: z.enum(["online", "away", "busy", "offline"]).optional(),
   isProcessingActive: z.boolean().optional(),
+  latency: z.number().int().min(0).optional(),
 });
 
 export type UpdateAgentSettings = z.infer<typeof updateAgentSettingsSchema>;
 
+// ===== Real-time presence (WebSocket) =====
+
+export const PRESENCE_WS_PATH = "/ws/presence";
+export const PRESENCE_HEARTBEAT_INTERVAL_MS = 5000;
+// An agent that misses this many heartbeats in a row is flipped to offline.
+export const PRESENCE_MISSED_HEARTBEATS = 3;
+
+export const presenceClientMessageSchema = z.discriminatedUnion("type", [
+  // Published by agent dashboards every PRESENCE_HEARTBEAT_INTERVAL_MS
+  z.object({
+    type: z.literal("heartbeat"),
+    agentId: z.string().min(1),
+    status: z.enum(["online", "away", "busy"]),
+    isProcessingActive: z.boolean(),
+    latency: z.number().int().min(0).max(10000),
+    inputLevel: z.number().min(0).max(100),
+  }),
+  // Sent by the admin panel to receive push updates
+  z.object({ type: z.literal("subscribe") }),
+]);
+
+export type PresenceClientMessage = z.infer<typeof presenceClientMessageSchema>;
+
+export interface PresenceUpdate {
+  agentId: string;
+  status: AgentStatusType;
+  isProcessingActive: boolean;
+  latency: number;
+  inputLevel: number;
+  lastHeartbeatAt: string;
+  // True when status/processing/latency changed (and was persisted), not just the live level.
+  changed: boolean;
+}
+
+export type PresenceServerMessage =
+  | { type: "snapshot"; agents: PresenceUpdate[] }
+  | { type: "presence"; update: PresenceUpdate }
+  // Sent to an agent's dashboard when the mandatory preset governing it changes (null: no longer governed)
+  | { type: "mandatoryPreset"; agentId: string; preset: TeamPreset | null; audioSettings: AudioSettings }
+  | { type: "error"; error: string };
+
 // Default audio settings
 export const defaultAudioSettings: AudioSettings = {
   noiseReductionEnabled: true,
   noiseReductionLevel: 50,
+  spectralSuppressionEnabled: false,
   accentModifierEnabled: false,
   accentPreset: "neutral",
   pitchShiftEnabled: false,
@@ -216,14 +931,40 @@ export const defaultAudioSettings: AudioSettings = {
   formantShift: 0,
   inputDeviceId: undefined,
   outputDeviceId: undefined,
+  preferredInputDevices: [],
+  preferredOutputDevices: [],
   inputGain: 100,
   outputGain: 100,
   clarityBoost: 0,
   volumeNormalization: false,
+  compressorThreshold: -24,
+  compressorRatio: 4,
+  compressorKnee: 30,
+  compressorAttack: 3,
+  compressorRelease: 250,
+  compressorMakeupGain: 0,
+  limiterEnabled: false,
+  limiterCeiling: -1,
+  agcEnabled: false,
+  agcTargetLufs: -18,
+  agcMaxGain: 12,
+  agcGateLufs: -50,
+  deEsserEnabled: false,
+  deEsserThreshold: -30,
+  deEsserReduction: 8,
+  plosiveSuppressionEnabled: false,
+  plosiveSensitivity: 50,
+  processingMode: "always-on",
+  pushToTalkHotkey: "CommandOrControl+Shift+Space",
+  autoMuteDelay: 5,
+  vadSensitivity: 50,
+  eqBands: [],
 };
 
 // Accent preset configurations with enhanced formant and frequency modulation
 export const accentPresetConfigs: Record<AccentPresetType, { 
+  name: string;
+  category: string;
   pitchShift: number; 
   formantShift: number;
   description: string;
@@ -233,6 +974,8 @@ export const accentPresetConfigs: Record<AccentPresetType, {
 }> = {
   // === BASIC VOICE TYPES ===
   neutral: { 
+    name: "Neutral",
+    category: "Basic",
     pitchShift: 0, 
     formantShift: 0, 
     description: "Natural voice, no modification",
@@ -241,6 +984,8 @@ export const accentPresetConfigs: Record<AccentPresetType, {
     resonanceQ: 0.7,
   },
   deeper: { 
+    name: "Deeper Voice",
+    category: "Basic",
     pitchShift: -3, 
     formantShift: -15, 
     description: "Lower, more authoritative tone",
@@ -249,6 +994,8 @@ export const accentPresetConfigs: Record<AccentPresetType, {
     resonanceQ: 0.8,
   },
   higher: { 
+    name: "Higher Voice",
+    category: "Basic",
     pitchShift: 3, 
     formantShift: 15, 
     description: "Higher, more energetic tone",
@@ -257,6 +1004,8 @@ export const accentPresetConfigs: Record<AccentPresetType, {
     resonanceQ: 0.6,
   },
   warm: { 
+    name: "Warm Tone",
+    category: "Basic",
     pitchShift: -1, 
     formantShift: -5, 
     description: "Slightly warmer, friendly tone",
@@ -265,6 +1014,8 @@ export const accentPresetConfigs: Record<AccentPresetType, {
     resonanceQ: 0.9,
   },
   clear: { 
+    name: "Clear Tone",
+    category: "Basic",
     pitchShift: 1, 
     formantShift: 5, 
     description: "Clearer, more articulate tone",
@@ -275,6 +1026,8 @@ export const accentPresetConfigs: Record<AccentPresetType, {
   
   // === AMERICAN REGIONAL ACCENTS ===
   southern_us: { 
+    name: "Southern US",
+    category: "American Accents",
     pitchShift: -2, 
     formantShift: -8, 
     description: "Warm Southern US drawl",
@@ -283,6 +1036,8 @@ export const accentPresetConfigs: Record<AccentPresetType, {
     resonanceQ: 0.85,
   },
   midwest_us: { 
+    name: "Midwest US",
+    category: "American Accents",
     pitchShift: 0, 
     formantShift: 3, 
     description: "Neutral Midwest American accent",
@@ -291,6 +1046,8 @@ export const accentPresetConfigs: Record<AccentPresetType, {
     resonanceQ: 0.7,
   },
   new_york: { 
+    name: "New York",
+    category: "American Accents",
     pitchShift: 1, 
     formantShift: 12, 
     description: "Energetic New York accent",
@@ -299,6 +1056,8 @@ export const accentPresetConfigs: Record<AccentPresetType, {
     resonanceQ: 0.55,
   },
   california: { 
+    name: "California",
+    category: "American Accents",
     pitchShift: 1, 
     formantShift: 6, 
     description: "Bright, relaxed California voice",
@@ -307,6 +1066,8 @@ export const accentPresetConfigs: Record<AccentPresetType, {
     resonanceQ: 0.6,
   },
   texas: { 
+    name: "Texas",
+    category: "American Accents",
     pitchShift: -2, 
     formantShift: -10, 
     description: "Bold Texas twang",
@@ -315,6 +1076,8 @@ export const accentPresetConfigs: Record<AccentPresetType, {
     resonanceQ: 0.9,
   },
   boston: { 
+    name: "Boston",
+    category: "American Accents",
     pitchShift: 0, 
     formantShift: 8, 
     description: "Classic Boston accent",
@@ -323,6 +1086,8 @@ export const accentPresetConfigs: Record<AccentPresetType, {
     resonanceQ: 0.65,
   },
   pacific_nw: { 
+    name: "Pacific Northwest",
+    category: "American Accents",
     pitchShift: 0, 
     formantShift: 4, 
     description: "Clean Pacific Northwest voice",
@@ -331,6 +1096,8 @@ export const accentPresetConfigs: Record<AccentPresetType, {
     resonanceQ: 0.6,
   },
   mid_atlantic: { 
+    name: "Mid-Atlantic",
+    category: "American Accents",
     pitchShift: 0, 
     formantShift: 5, 
     description: "Polished Mid-Atlantic speech",
@@ -341,6 +1108,8 @@ export const accentPresetConfigs: Record<AccentPresetType, {
   
   // === INTERNATIONAL ACCENTS ===
   british: { 
+    name: "British",
+    category: "International",
     pitchShift: 3,
     formantShift: 22,
     description: "Stronger British-style crispness (tone shaping)",
@@ -349,6 +1118,8 @@ export const accentPresetConfigs: Record<AccentPresetType, {
     resonanceQ: 1.2,
   },
   australian: { 
+    name: "Australian",
+    category: "International",
     pitchShift: 3,
     formantShift: 18,
     description: "Stronger Australian-style brightness (tone shaping)",
@@ -359,6 +1130,8 @@ export const accentPresetConfigs: Record<AccentPresetType, {
   
   // === VOICE CHARACTER/PERSONA PRESETS ===
   authoritative: { 
+    name: "Authoritative",
+    category: "Voice Character",
     pitchShift: -2, 
     formantShift: -12, 
     description: "Commanding, leadership presence",
@@ -367,6 +1140,8 @@ export const accentPresetConfigs: Record<AccentPresetType, {
     resonanceQ: 0.85,
   },
   friendly: { 
+    name: "Friendly",
+    category: "Voice Character",
     pitchShift: 1, 
     formantShift: 5, 
     description: "Warm, approachable personality",
@@ -375,6 +1150,8 @@ export const accentPresetConfigs: Record<AccentPresetType, {
     resonanceQ: 0.75,
   },
   calm: { 
+    name: "Calm",
+    category: "Voice Character",
     pitchShift: -1, 
     formantShift: -3, 
     description: "Soothing, relaxed delivery",
@@ -383,6 +1160,8 @@ export const accentPresetConfigs: Record<AccentPresetType, {
     resonanceQ: 0.95,
   },
   energetic: { 
+    name: "Energetic",
+    category: "Voice Character",
     pitchShift: 2, 
     formantShift: 10, 
     description: "Vibrant, enthusiastic tone",
@@ -391,6 +1170,8 @@ export const accentPresetConfigs: Record<AccentPresetType, {
     resonanceQ: 0.5,
   },
   confident: { 
+    name: "Confident",
+    category: "Voice Character",
     pitchShift: 0, 
     formantShift: 2, 
     description: "Self-assured, steady presence",
@@ -399,6 +1180,8 @@ export const accentPresetConfigs: Record<AccentPresetType, {
     resonanceQ: 0.7,
   },
   professional: { 
+    name: "Professional",
+    category: "Voice Character",
     pitchShift: 0, 
     formantShift: 3, 
     description: "Business-ready, polished delivery",
@@ -407,3 +1190,69 @@ export const accentPresetConfigs: Record<AccentPresetType, {
     resonanceQ: 0.65,
   },
 };
+
+// F1-F3 of the generic formant shaping: lower formants and a darker top for negative shifts,
+// a thinner, brighter voice for positive ones
+export function formantBandsForShift(formantShift: number): AccentFormants {
+  const intensity = Math.abs(formantShift) / 50;
+  if (formantShift < 0) {
+    return {
+      f1: { type: "lowshelf", frequency: 200, Q: 1, gain: intensity * 15 },
+      f2: { type: "peaking", frequency: 1200, Q: 1, gain: -intensity * 8 },
+      f3: { type: "highshelf", frequency: 3000, Q: 1, gain: -intensity * 12 },
+    };
+  }
+  if (formantShift > 0) {
+    return {
+      f1: { type: "lowshelf", frequency: 300, Q: 1, gain: -intensity * 15 },
+      f2: { type: "peaking", frequency: 2500, Q: 1, gain: intensity * 8 },
+      f3: { type: "highshelf", frequency: 4000, Q: 1, gain: intensity * 10 },
+    };
+  }
+  return {
+    f1: { type: "peaking", frequency: 500, Q: 1, gain: 0 },
+    f2: { type: "peaking", frequency: 1500, Q: 1, gain: 0 },
+    f3: { type: "peaking", frequency: 2800, Q: 1, gain: 0 },
+  };
+}
+
+// An accent preset apart from its row identity; what the built-ins are seeded from
+export type AccentPresetFields = Omit<AccentPresetDefinition, "id" | "orgId" | "createdAt" | "updatedAt">;
+
+// The built-ins as stored presets; their bands are the generic shaping at their own formant shift
+export function builtInAccentPresets(): AccentPresetFields[] {
+  return (Object.entries(accentPresetConfigs) as [AccentPresetType, typeof accentPresetConfigs.neutral][]).map(
+    ([key, config]) => ({ key, ...config, formants: formantBandsForShift(config.formantShift), isBuiltIn: true })
+  );
+}
+
+/**
+ * The voicing an accentPreset key plays with: the organization's preset of that key, else the built-in
+ * of that key, else neutral. `presets` may be empty (e.g. before they have loaded).
+ */
+export function resolveAccentPreset(presets: readonly (AccentVoicing & { key: string })[], key: string): AccentVoicing {
+  const stored = presets.find(p => p.key === key) ?? presets.find(p => p.key === AccentPreset.NEUTRAL);
+  if (stored) return stored;
+  const config = accentPresetConfigs[key as AccentPresetType] ?? accentPresetConfigs.neutral;
+  return { ...config, formants: formantBandsForShift(config.formantShift) };
+}
+
+/**
+ * F1-F3 for an agent's formant shift. At the preset's own shift these are the preset's bands; moving the
+ * shift further in the same direction scales their gains in proportion, and any other shift (the opposite
+ * direction, or away from a preset with none) uses the generic shaping. For the built-ins this is exactly
+ * formantBandsForShift.
+ */
+export function accentFormantBands(preset: Pick<AccentVoicing, "formantShift" | "formants">, formantShift: number): AccentFormants {
+  if (formantShift === preset.formantShift) return preset.formants;
+  if (preset.formantShift !== 0 && Math.sign(formantShift) === Math.sign(preset.formantShift)) {
+    const scale = formantShift / preset.formantShift;
+    const { f1, f2, f3 } = preset.formants;
+    return {
+      f1: { ...f1, gain: f1.gain * scale },
+      f2: { ...f2, gain: f2.gain * scale },
+      f3: { ...f3, gain: f3.gain * scale },
+    };
+  }
+  return formantBandsForShift(formantShift);
+}
@@ -0,0 +1,157 @@
+import { test, expect } from '@playwright/test';
+import {
+  AnalyticsRangeError,
+  MAX_ANALYTICS_BUCKETS,
+  buildTimeSeries,
+  timeSeriesToCsv,
+} from '../server/analytics';
+import type { UsageStats } from '../shared/schema';
+
+/**
+ * Analytics Rollup Tests
+ *
+ * Roll hand-made usage stats up with the analytics API's time-series builder and CSV export:
+ * UTC bucket boundaries, the bucket limit, latency percentiles and the export's column order.
+ */
+
+let nextId = 0;
+
+function usage(date: string, fields: Partial<UsageStats> = {}): UsageStats {
+  return {
+    id: `usage-${++nextId}`,
+    orgId: 'org-1',
+    agentId: 'agent-1',
+    date: new Date(date),
+    noiseReductionMinutes: 0,
+    accentModifierMinutes: 0,
+    accentPresetUsed: null,
+    totalCalls: 1,
+    avgLatency: 0,
+    talkSeconds: 0,
+    silenceSeconds: 0,
+    ...fields,
+  };
+}
+
+const bucketStarts = (series: ReturnType<typeof buildTimeSeries>) => series.points.map((point) => point.bucketStart);
+
+test.describe('Analytics Rollups', () => {
+
+  test('Hour buckets start on the UTC hour and cover the range with zero-filled gaps', () => {
+    const series = buildTimeSeries(
+      [usage('2026-03-02T11:59:59.999Z'), usage('2026-03-02T12:00:00.000Z', { totalCalls: 2 })],
+      'hour',
+      new Date('2026-03-02T09:45:00Z'),
+      new Date('2026-03-02T12:10:00Z'),
+    );
+    expect(bucketStarts(series)).toEqual([
+      '2026-03-02T09:00:00.000Z',
+      '2026-03-02T10:00:00.000Z',
+      '2026-03-02T11:00:00.000Z',
+      '2026-03-02T12:00:00.000Z',
+    ]);
+    expect(series.points.map((point) => point.calls)).toEqual([0, 0, 1, 2]);
+  });
+
+  test('Day buckets start at UTC midnight whatever offset the row was written with', () => {
+    const series = buildTimeSeries(
+      // 23:30 in New York is already the next day in UTC
+      [usage('2026-03-02T23:30:00-05:00'), usage('2026-03-02T00:00:00Z')],
+      'day',
+      new Date('2026-03-02T00:00:00Z'),
+      new Date('2026-03-03T23:59:59Z'),
+    );
+    expect(bucketStarts(series)).toEqual(['2026-03-02T00:00:00.000Z', '2026-03-03T00:00:00.000Z']);
+    expect(series.points.map((point) => point.calls)).toEqual([1, 1]);
+  });
+
+  test('Week buckets start on Monday, with Sunday night closing the week before', () => {
+    // 2026-03-01 is a Sunday
+    const series = buildTimeSeries(
+      [usage('2026-03-01T23:59:59.999Z'), usage('2026-03-02T00:00:00.000Z', { totalCalls: 3 })],
+      'week',
+      new Date('2026-03-01T12:00:00Z'),
+      new Date('2026-03-02T12:00:00Z'),
+    );
+    expect(bucketStarts(series)).toEqual(['2026-02-23T00:00:00.000Z', '2026-03-02T00:00:00.000Z']);
+    expect(series.points.map((point) => point.calls)).toEqual([1, 3]);
+  });
+
+  test('Drops rows outside the range from the points and the totals', () => {
+    const series = buildTimeSeries(
+      [
+        usage('2026-03-01T23:59:59.999Z', { totalCalls: 10 }),
+        usage('2026-03-02T08:00:00Z', { totalCalls: 2, noiseReductionMinutes: 5 }),
+        usage('2026-03-04T00:00:00Z', { totalCalls: 20 }),
+      ],
+      'day',
+      new Date('2026-03-02T00:00:00Z'),
+      new Date('2026-03-03T12:00:00Z'),
+    );
+    expect(series.points.map((point) => point.calls)).toEqual([2, 0]);
+    expect(series.totals.calls).toBe(2);
+    expect(series.totals.noiseReductionMinutes).toBe(5);
+  });
+
+  test(`Rejects ranges over ${MAX_ANALYTICS_BUCKETS} buckets and reversed ranges`, () => {
+    const from = new Date('2026-01-01T00:00:00Z');
+    const hours = (n: number) => new Date(from.getTime() + n * 60 * 60 * 1000);
+
+    expect(buildTimeSeries([], 'hour', from, hours(MAX_ANALYTICS_BUCKETS - 1)).points).toHaveLength(MAX_ANALYTICS_BUCKETS);
+    expect(() => buildTimeSeries([], 'hour', from, hours(MAX_ANALYTICS_BUCKETS))).toThrow(AnalyticsRangeError);
+    expect(() => buildTimeSeries([], 'hour', from, hours(MAX_ANALYTICS_BUCKETS))).toThrow(
+      `Range covers ${MAX_ANALYTICS_BUCKETS + 1} hour buckets`,
+    );
+    // The same range is fine in day buckets
+    expect(buildTimeSeries([], 'day', from, hours(MAX_ANALYTICS_BUCKETS)).points.length).toBeLessThan(100);
+    expect(() => buildTimeSeries([], 'day', hours(1), from)).toThrow('from must be before to');
+  });
+
+  test('Takes nearest-rank latency percentiles and skips calls that never measured latency', () => {
+    const day = '2026-03-02T10:00:00Z';
+    const range = [new Date('2026-03-02T00:00:00Z'), new Date('2026-03-02T23:00:00Z')] as const;
+
+    // 10, 20, ... 100 ms, shuffled, plus an unmeasured call
+    const tens = [70, 10, 100, 40, 90, 20, 60, 30, 80, 50, 0].map((avgLatency) => usage(day, { avgLatency }));
+    const [point] = buildTimeSeries(tens, 'day', ...range).points;
+    expect(point.calls).toBe(11);
+    expect(point.latencyP50).toBe(50);
+    expect(point.latencyP95).toBe(100);
+
+    // ceil(0.95 * 20) = 19th of 1..20 ms
+    const twenty = Array.from({ length: 20 }, (_, i) => usage(day, { avgLatency: i + 1 }));
+    const [wide] = buildTimeSeries(twenty, 'day', ...range).points;
+    expect(wide.latencyP50).toBe(10);
+    expect(wide.latencyP95).toBe(19);
+
+    const [single] = buildTimeSeries([usage(day, { avgLatency: 42 })], 'day', ...range).points;
+    expect(single.latencyP50).toBe(42);
+    expect(single.latencyP95).toBe(42);
+
+    const [unmeasured] = buildTimeSeries([usage(day)], 'day', ...range).points;
+    expect(unmeasured.latencyP50).toBe(0);
+    expect(unmeasured.latencyP95).toBe(0);
+  });
+
+  test('Exports one CSV row per bucket in a fixed column order', () => {
+    const series = buildTimeSeries(
+      [usage('2026-03-02T10:00:00Z', {
+        totalCalls: 4,
+        noiseReductionMinutes: 12,
+        accentModifierMinutes: 3,
+        talkSeconds: 540,
+        silenceSeconds: 180,
+        avgLatency: 25,
+      })],
+      'day',
+      new Date('2026-03-02T00:00:00Z'),
+      new Date('2026-03-03T00:00:00Z'),
+    );
+    expect(timeSeriesToCsv(series)).toBe([
+      'bucket_start,calls,noise_reduction_minutes,accent_modifier_minutes,talk_minutes,silence_minutes,talk_ratio,silence_ratio,latency_p50_ms,latency_p95_ms',
+      '2026-03-02T00:00:00.000Z,4,12,3,9,3,0.75,0.25,25,25',
+      '2026-03-03T00:00:00.000Z,0,0,0,0,0,0,0,0,0',
+      '',
+    ].join('\r\n'));
+  });
+});
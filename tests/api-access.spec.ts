@@ -0,0 +1,278 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+import { startApiServer, type ApiServer } from './utils/api-server';
+import { audioSettingsSchema, type Agent, type AuditEntry, type TeamPreset } from '../shared/schema';
+
+/**
+ * API Access Tests
+ *
+ * Start the API server on in-memory storage and call it as users of two organizations: nothing
+ * of another organization is visible (it 404s), supervisors stay within their team, and agents
+ * can't move settings their team's mandatory preset locks.
+ */
+
+const PASSWORD = 'correct horse battery';
+const settings = audioSettingsSchema.parse({});
+
+let server: ApiServer;
+
+// Signed-in clients
+let owner: APIRequestContext;
+let globexAdmin: APIRequestContext;
+let supervisor: APIRequestContext;
+let agentUser: APIRequestContext;
+
+// Default organization: one agent each in the red team, the blue team and no team, plus the agent user's own agent
+let redAgent: Agent;
+let blueAgent: Agent;
+let unassignedAgent: Agent;
+let ownAgent: Agent;
+let redPreset: TeamPreset;
+
+// Second organization
+let globexAgent: Agent;
+let globexPreset: TeamPreset;
+
+async function json<T>(response: Awaited<ReturnType<APIRequestContext['get']>>, status = 200): Promise<T> {
+  expect(response.status(), await response.text()).toBe(status);
+  return response.json();
+}
+
+async function signIn(username: string): Promise<APIRequestContext> {
+  const anonymous = await server.client();
+  const { sessionId } = await json<{ sessionId: string }>(
+    await anonymous.post('/api/auth/login', { data: { username, password: PASSWORD } }),
+  );
+  return server.client(sessionId);
+}
+
+test.describe('API Access', () => {
+  // Starting the dev server and hashing passwords takes a while
+  test.describe.configure({ timeout: 120_000 });
+
+  test.beforeAll(async () => {
+    test.setTimeout(180_000);
+    server = await startApiServer();
+    const anonymous = await server.client();
+
+    // The first account owns the default organization, which starts with sample agents
+    const bootstrap = await json<{ sessionId: string }>(
+      await anonymous.post('/api/auth/bootstrap', { data: { username: 'owner', password: PASSWORD } }),
+      201,
+    );
+    owner = await server.client(bootstrap.sessionId);
+
+    const org = await json<{ id: string }>(await owner.post('/api/orgs', { data: { name: 'Globex' } }), 201);
+    const invite = await json<{ token: string }>(
+      await owner.post(`/api/orgs/${org.id}/invites`, { data: { role: 'admin' } }),
+      201,
+    );
+    const joined = await json<{ sessionId: string }>(
+      await anonymous.post('/api/auth/invite/accept', {
+        data: { token: invite.token, username: 'globex-admin', password: PASSWORD },
+      }),
+      201,
+    );
+    globexAdmin = await server.client(joined.sessionId);
+
+    globexAgent = await json<Agent>(await globexAdmin.post('/api/agents', {
+      data: { name: 'Globex Agent', email: 'agent@globex.example', status: 'online', isProcessingActive: false, audioSettings: settings },
+    }), 201);
+    globexPreset = await json<TeamPreset>(await globexAdmin.post('/api/team-presets', {
+      data: { name: 'Globex Floor', audioSettings: settings, isActive: true, isMandatory: false },
+    }), 201);
+
+    const red = await json<{ id: string }>(await owner.post('/api/teams', { data: { name: 'Red Team' } }), 201);
+    const blue = await json<{ id: string }>(await owner.post('/api/teams', { data: { name: 'Blue Team' } }), 201);
+
+    const [first, second, third] = await json<Agent[]>(await owner.get('/api/agents'));
+    redAgent = await json<Agent>(await owner.patch(`/api/agents/${first.id}/team`, { data: { teamId: red.id } }));
+    blueAgent = await json<Agent>(await owner.patch(`/api/agents/${second.id}/team`, { data: { teamId: blue.id } }));
+    unassignedAgent = third;
+
+    for (const [username, role] of [['red-lead', 'supervisor'], ['red-agent', 'agent']]) {
+      await json(await owner.post('/api/auth/register', {
+        data: { username, password: PASSWORD, role, teamId: red.id },
+      }), 201);
+    }
+    supervisor = await signIn('red-lead');
+    agentUser = await signIn('red-agent');
+
+    const created = await json<Agent>(await agentUser.post('/api/agents', {
+      data: { name: 'Red Agent', email: null, status: 'online', isProcessingActive: false, audioSettings: settings },
+    }), 201);
+    ownAgent = await json<Agent>(await owner.patch(`/api/agents/${created.id}/team`, { data: { teamId: red.id } }));
+
+    // Noise reduction stays on and at least at 60, the accent modifier is pinned off
+    redPreset = await json<TeamPreset>(await owner.post('/api/team-presets', {
+      data: {
+        name: 'Red Floor',
+        audioSettings: { ...settings, noiseReductionEnabled: true, noiseReductionLevel: 60, accentModifierEnabled: false },
+        teamId: red.id,
+        isActive: true,
+        isMandatory: true,
+        lockedFields: { noiseReductionEnabled: 'exact', noiseReductionLevel: 'min', accentModifierEnabled: 'exact' },
+      },
+    }), 201);
+  });
+
+  test.afterAll(async () => {
+    await server?.stop();
+  });
+
+  test.describe('Organizations', () => {
+
+    test("Agents of another organization are not found", async () => {
+      for (const [client, agent] of [[globexAdmin, redAgent], [owner, globexAgent]] as const) {
+        expect((await client.get(`/api/agents/${agent.id}`)).status()).toBe(404);
+        expect((await client.patch(`/api/agents/${agent.id}`, { data: { status: 'away' } })).status()).toBe(404);
+        expect((await client.patch(`/api/agents/${agent.id}/team`, { data: { teamId: null } })).status()).toBe(404);
+        expect((await client.get(`/api/analytics/agent/${agent.id}`)).status()).toBe(404);
+        expect((await client.delete(`/api/agents/${agent.id}`)).status()).toBe(404);
+      }
+
+      const globexAgents = await json<Agent[]>(await globexAdmin.get('/api/agents'));
+      expect(globexAgents.map((agent) => agent.id)).toEqual([globexAgent.id]);
+      const ownerAgents = await json<Agent[]>(await owner.get('/api/agents'));
+      expect(ownerAgents.map((agent) => agent.id)).not.toContain(globexAgent.id);
+
+      // Untouched by the attempts above
+      expect((await json<Agent>(await owner.get(`/api/agents/${redAgent.id}`))).status).toBe(redAgent.status);
+    });
+
+    test("Presets of another organization are not found", async () => {
+      for (const [client, preset] of [[globexAdmin, redPreset], [owner, globexPreset]] as const) {
+        expect((await client.patch(`/api/team-presets/${preset.id}`, { data: { name: 'Taken Over' } })).status()).toBe(404);
+        expect((await client.get(`/api/team-presets/${preset.id}/revisions`)).status()).toBe(404);
+        expect((await client.delete(`/api/team-presets/${preset.id}`)).status()).toBe(404);
+      }
+
+      const globexPresets = await json<TeamPreset[]>(await globexAdmin.get('/api/team-presets'));
+      expect(globexPresets.map((preset) => preset.id)).toEqual([globexPreset.id]);
+      const ownerPresets = await json<TeamPreset[]>(await owner.get('/api/team-presets'));
+      expect(ownerPresets.map((preset) => preset.id)).not.toContain(globexPreset.id);
+    });
+
+    test("The audit log holds only the caller's organization", async () => {
+      const globexEntries = await json<AuditEntry[]>(await globexAdmin.get('/api/audit'));
+      expect(globexEntries.length).toBeGreaterThan(0);
+      expect(new Set(globexEntries.map((entry) => entry.orgId)).size).toBe(1);
+      expect(globexEntries.map((entry) => entry.entityId)).toContain(globexAgent.id);
+      expect(globexEntries.map((entry) => entry.entityId)).not.toContain(redPreset.id);
+
+      // Filtering by another organization's entity finds nothing
+      expect(await json(await globexAdmin.get(`/api/audit?entityId=${redAgent.id}`))).toEqual([]);
+      expect(await json(await owner.get(`/api/audit?entityId=${globexAgent.id}`))).toEqual([]);
+      expect(await json(await owner.get(`/api/audit?entityId=${globexPreset.id}`))).toEqual([]);
+      expect((await json<AuditEntry[]>(await owner.get(`/api/audit?entityId=${redPreset.id}`))).length).toBeGreaterThan(0);
+    });
+  });
+
+  test.describe('Team Scope', () => {
+
+    test('Supervisors see only the agents of their team', async () => {
+      const agents = await json<Agent[]>(await supervisor.get('/api/agents'));
+      expect(agents.map((agent) => agent.id).sort()).toEqual([redAgent.id, ownAgent.id].sort());
+      await json(await supervisor.get(`/api/agents/${redAgent.id}`));
+      await json(await supervisor.get(`/api/analytics/agent/${redAgent.id}`));
+
+      for (const agent of [blueAgent, unassignedAgent]) {
+        const response = await supervisor.get(`/api/agents/${agent.id}`);
+        expect(response.status()).toBe(403);
+        expect((await response.json()).error).toBe("You don't have permission to view this agent");
+        expect((await supervisor.get(`/api/analytics/agent/${agent.id}`)).status()).toBe(403);
+      }
+    });
+
+    test('Supervisors coach their team and nobody else', async () => {
+      const coached = await json<Agent>(await supervisor.patch(`/api/agents/${redAgent.id}`, {
+        data: { audioSettings: { pitchShift: 1 } },
+      }));
+      expect(coached.audioSettings.pitchShift).toBe(1);
+
+      for (const agent of [blueAgent, unassignedAgent]) {
+        const response = await supervisor.patch(`/api/agents/${agent.id}`, { data: { audioSettings: { pitchShift: 1 } } });
+        expect(response.status()).toBe(403);
+        expect((await response.json()).error).toBe("You don't have permission to modify this agent");
+      }
+      expect((await json<Agent>(await owner.get(`/api/agents/${blueAgent.id}`))).audioSettings.pitchShift)
+        .toBe(blueAgent.audioSettings.pitchShift);
+    });
+
+    test('Supervisors and agents cannot manage teams, presets or the audit log', async () => {
+      for (const client of [supervisor, agentUser]) {
+        expect((await client.post('/api/teams', { data: { name: 'Rogue Team' } })).status()).toBe(403);
+        expect((await client.patch(`/api/agents/${blueAgent.id}/team`, { data: { teamId: null } })).status()).toBe(403);
+        expect((await client.post('/api/team-presets', {
+          data: { name: 'Rogue Preset', audioSettings: settings, isActive: true, isMandatory: false },
+        })).status()).toBe(403);
+        expect((await client.patch(`/api/team-presets/${redPreset.id}`, { data: { isMandatory: false } })).status()).toBe(403);
+        expect((await client.get('/api/audit')).status()).toBe(403);
+      }
+    });
+
+    test('Agents reach only their own agent', async () => {
+      expect((await agentUser.get('/api/agents')).status()).toBe(403);
+      await json(await agentUser.get(`/api/agents/${ownAgent.id}`));
+      // Same team, but not theirs
+      expect((await agentUser.get(`/api/agents/${redAgent.id}`)).status()).toBe(403);
+      expect((await agentUser.patch(`/api/agents/${redAgent.id}`, { data: { status: 'away' } })).status()).toBe(403);
+    });
+  });
+
+  test.describe('Preset Locks', () => {
+
+    test('Joining a team with a mandatory preset applies it', async () => {
+      const agent = await json<Agent>(await agentUser.get(`/api/agents/${ownAgent.id}`));
+      expect(agent.audioSettings).toMatchObject({ noiseReductionEnabled: true, noiseReductionLevel: 60, accentModifierEnabled: false });
+    });
+
+    test("Agents' overrides of locked settings are clamped to the preset", async () => {
+      const updated = await json<Agent>(await agentUser.patch(`/api/agents/${ownAgent.id}`, {
+        data: { audioSettings: { noiseReductionEnabled: false, noiseReductionLevel: 20, accentModifierEnabled: true, pitchShift: 2 } },
+      }));
+      expect(updated.audioSettings).toMatchObject({
+        noiseReductionEnabled: true,
+        noiseReductionLevel: 60,
+        accentModifierEnabled: false,
+        // Not locked
+        pitchShift: 2,
+      });
+
+      // Stored as clamped
+      const stored = await json<Agent>(await agentUser.get(`/api/agents/${ownAgent.id}`));
+      expect(stored.audioSettings).toEqual(updated.audioSettings);
+    });
+
+    test('A minimum lock still lets settings go above it', async () => {
+      const updated = await json<Agent>(await agentUser.patch(`/api/agents/${ownAgent.id}`, {
+        data: { audioSettings: { noiseReductionLevel: 85 } },
+      }));
+      expect(updated.audioSettings.noiseReductionLevel).toBe(85);
+    });
+
+    test('Supervisors and admins are held to the same locks', async () => {
+      for (const client of [supervisor, owner]) {
+        const updated = await json<Agent>(await client.patch(`/api/agents/${redAgent.id}`, {
+          data: { audioSettings: { noiseReductionLevel: 10, accentModifierEnabled: true } },
+        }));
+        expect(updated.audioSettings).toMatchObject({ noiseReductionLevel: 60, accentModifierEnabled: false });
+      }
+    });
+
+    test("Agents outside the preset's team are not bound by it", async () => {
+      for (const agent of [blueAgent, unassignedAgent]) {
+        const updated = await json<Agent>(await owner.patch(`/api/agents/${agent.id}`, {
+          data: { audioSettings: { noiseReductionLevel: 10, accentModifierEnabled: true } },
+        }));
+        expect(updated.audioSettings).toMatchObject({ noiseReductionLevel: 10, accentModifierEnabled: true });
+      }
+    });
+
+    test('Devices cannot be locked', async () => {
+      const response = await owner.patch(`/api/team-presets/${redPreset.id}`, {
+        data: { lockedFields: { inputDeviceId: 'exact' } },
+      });
+      expect(response.status()).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { test, expect } from '@playwright/test';
+import { loadWorklet, postToWorklet, renderWorklet, RENDER_QUANTUM } from './utils/worklet-runner';
+import { NoiseGate } from '../server/dsp/noise-gate';
+import { SpectralSuppressor } from '../server/dsp/spectral-suppressor';
+import { PitchShifter } from '../server/dsp/pitch-shifter';
+import { TruePeakLimiter } from '../server/dsp/limiter';
+import { LoudnessAgc } from '../server/dsp/agc';
+import { DeEsser } from '../server/dsp/de-esser';
+import { BiquadFilter, type BiquadParams } from '../server/dsp/biquad';
+import { processAudio } from '../server/dsp/engine';
+
+/**
+ * Server DSP Parity Tests
+ *
+ * The processing API renders with server/dsp ports of the browser chain. Run one fixed buffer
+ * through each port and through the AudioWorklet it was ported from (evaluated outside the
+ * browser), and check the biquads against the Web Audio filter formulas, so the two renders
+ * can't drift apart unnoticed.
+ */
+
+const SAMPLE_RATE = 48000;
+
+// Two seconds that give every stage something to do: voiced bursts and pauses over a noise
+// floor, a sibilant hiss, a low-frequency pop and an overload well above full scale
+function fixedBuffer(): Float32Array {
+  let seed = 1;
+  const noise = () => ((seed = (seed * 1103515245 + 12345) & 0x7fffffff) / 0x7fffffff) * 2 - 1;
+  const tone = (hz: number, t: number) => Math.sin(2 * Math.PI * hz * t);
+  const inside = (t: number, from: number, to: number) => (t >= from && t < to ? 1 : 0);
+
+  const buffer = new Float32Array(SAMPLE_RATE * 2);
+  for (let i = 0; i < buffer.length; i++) {
+    const t = i / SAMPLE_RATE;
+    const voiced = t % 0.5 < 0.3 ? 0.4 * tone(180, t) + 0.2 * tone(360, t) : 0;
+    buffer[i] = voiced
+      + inside(t, 0.9, 1.0) * 0.3 * tone(6500, t)
+      + inside(t, 1.4, 1.45) * 0.9 * tone(50, t)
+      + inside(t, 1.6, 1.65) * 1.6 * tone(1000, t)
+      + 0.01 * noise();
+  }
+  return buffer;
+}
+
+const input = fixedBuffer();
+
+// Block-based ports render quantum by quantum like the worklet; sample-based ones work in place
+function renderBlocks(processBlock: (input: Float32Array, output: Float32Array) => void): Float32Array {
+  const output = new Float32Array(input.length);
+  for (let start = 0; start < input.length; start += RENDER_QUANTUM) {
+    const block = new Float32Array(RENDER_QUANTUM);
+    processBlock(input.subarray(start, start + RENDER_QUANTUM), block);
+    output.set(block, start);
+  }
+  return output;
+}
+
+function renderInPlace(process: (buffer: Float32Array) => void): Float32Array {
+  const buffer = Float32Array.from(input);
+  process(buffer);
+  return buffer;
+}
+
+const maxDifference = (a: Float32Array, b: Float32Array) =>
+  a.reduce((max, value, i) => Math.max(max, Math.abs(value - b[i])), 0);
+
+const peak = (buffer: Float32Array) => buffer.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+
+// Steady-state amplitude of a unit sine at `hz` after the filter, once its transient has died out
+function sineGain(params: BiquadParams, hz: number): number {
+  const sine = Float32Array.from({ length: SAMPLE_RATE }, (_, i) => Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE));
+  new BiquadFilter(params, SAMPLE_RATE).process(sine);
+  return peak(sine.subarray(SAMPLE_RATE / 2));
+}
+
+test.describe('Server DSP Parity', () => {
+
+  const stages: { name: string; worklet: string; message: Record<string, unknown>; render: () => Float32Array }[] = [
+    {
+      name: 'noise gate',
+      worklet: 'noise-gate-processor.js',
+      message: { type: 'set', enabled: true, thresholdDb: -30, kneeDb: 10, ratio: 2, reductionDb: 12, attackMs: 10, releaseMs: 200 },
+      render: () => {
+        const gate = new NoiseGate(
+          { enabled: true, thresholdDb: -30, kneeDb: 10, ratio: 2, reductionDb: 12, attackMs: 10, releaseMs: 200 },
+          SAMPLE_RATE,
+        );
+        return renderBlocks((block, output) => gate.processBlock(block, output));
+      },
+    },
+    {
+      name: 'spectral suppressor',
+      worklet: 'spectral-suppressor-processor.js',
+      message: { type: 'set', enabled: true, overSubtraction: 1.5, floorDb: -18 },
+      render: () => {
+        const suppressor = new SpectralSuppressor({ enabled: true, overSubtraction: 1.5, floorDb: -18 });
+        return renderBlocks((block, output) => suppressor.processBlock(block, output));
+      },
+    },
+    {
+      name: 'pitch shifter',
+      worklet: 'pitch-shifter-processor.js',
+      message: { type: 'setPitchRatio', value: 0.85 },
+      render: () => {
+        const shifter = new PitchShifter(0.85);
+        return renderBlocks((block, output) => shifter.processBlock(block, output));
+      },
+    },
+    {
+      name: 'true-peak limiter',
+      worklet: 'true-peak-limiter-processor.js',
+      message: { type: 'set', enabled: true, ceilingDb: -1 },
+      render: () => renderInPlace((buffer) => new TruePeakLimiter({ enabled: true, ceilingDb: -1 }, SAMPLE_RATE).process(buffer)),
+    },
+    {
+      name: 'loudness AGC',
+      worklet: 'agc-processor.js',
+      message: { type: 'set', enabled: true, targetLufs: -18, maxGainDb: 12, gateLufs: -50 },
+      render: () => renderInPlace((buffer) =>
+        new LoudnessAgc({ enabled: true, targetLufs: -18, maxGainDb: 12, gateLufs: -50 }, SAMPLE_RATE).process(buffer)),
+    },
+    {
+      name: 'de-esser',
+      worklet: 'de-esser-processor.js',
+      message: {
+        type: 'set', deEsserEnabled: true, deEsserThresholdDb: -40, deEsserMaxReductionDb: 8, plosiveEnabled: true, plosiveThresholdDb: -30,
+      },
+      render: () => renderInPlace((buffer) => new DeEsser({
+        deEsserEnabled: true, deEsserThresholdDb: -40, deEsserMaxReductionDb: 8, plosiveEnabled: true, plosiveThresholdDb: -30,
+      }, SAMPLE_RATE).process(buffer)),
+    },
+  ];
+
+  for (const { name, worklet, message, render } of stages) {
+    test(`The ${name} port renders what its worklet renders`, () => {
+      const processor = loadWorklet(worklet, SAMPLE_RATE);
+      postToWorklet(processor, message);
+      const expected = renderWorklet(processor, input);
+      const actual = render();
+
+      // Guard against comparing two pass-throughs
+      expect(maxDifference(expected, input)).toBeGreaterThan(0.1);
+      expect(maxDifference(actual, expected)).toBeLessThanOrEqual(1e-6);
+    });
+  }
+
+  test('Biquads follow the Web Audio filter formulas', () => {
+    // Lowpass/highpass Q is the resonance in dB at the cutoff
+    expect(sineGain({ type: 'lowpass', frequency: 1000, Q: 6, gain: 0 }, 1000)).toBeCloseTo(Math.pow(10, 6 / 20), 2);
+    expect(sineGain({ type: 'highpass', frequency: 1000, Q: 0, gain: 0 }, 1000)).toBeCloseTo(1, 2);
+    expect(sineGain({ type: 'lowpass', frequency: 1000, Q: 0, gain: 0 }, 100)).toBeCloseTo(1, 2);
+    expect(sineGain({ type: 'lowpass', frequency: 1000, Q: 0, gain: 0 }, 10000)).toBeLessThan(0.02);
+    // Peaking and shelving gains are in dB
+    expect(sineGain({ type: 'peaking', frequency: 2000, Q: 1, gain: 6 }, 2000)).toBeCloseTo(Math.pow(10, 6 / 20), 2);
+    expect(sineGain({ type: 'lowshelf', frequency: 200, Q: 1, gain: -12 }, 20)).toBeCloseTo(Math.pow(10, -12 / 20), 2);
+    expect(sineGain({ type: 'highshelf', frequency: 4000, Q: 1, gain: 6 }, 20000)).toBeCloseTo(Math.pow(10, 6 / 20), 1);
+    expect(sineGain({ type: 'notch', frequency: 1000, Q: 1, gain: 0 }, 1000)).toBeLessThan(0.001);
+  });
+
+  test('The engine keeps the fixed buffer under the limiter ceiling', () => {
+    const output = processAudio(input, SAMPLE_RATE, { limiterEnabled: true, limiterCeiling: -1 });
+    expect(output).toHaveLength(input.length);
+    expect(output.every(Number.isFinite)).toBe(true);
+    // A sample can't be above the true peak, so none may exceed -1 dBFS
+    expect(peak(output)).toBeLessThanOrEqual(Math.pow(10, -1 / 20) + 1e-6);
+    expect(maxDifference(output, input)).toBeGreaterThan(0.1);
+  });
+});
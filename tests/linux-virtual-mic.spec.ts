@@ -0,0 +1,112 @@
+import { test, expect } from '@playwright/test';
+import {
+  AudioDeviceManager,
+  LINUX_VIRTUAL_SINK,
+  LINUX_VIRTUAL_SOURCE,
+  type CommandRunner,
+} from '../electron/audio/device-manager';
+
+/**
+ * Linux Virtual Microphone Tests
+ *
+ * Drive the pactl handling of the desktop app's AudioDeviceManager against a scripted
+ * command runner, so no PulseAudio/PipeWire (or browser) is needed.
+ */
+
+interface FakePactl {
+  runCommand: CommandRunner;
+  calls: string[];
+}
+
+// `modules` is what `pactl list short modules` prints; load-module hands out ids from 100 and
+// fails for the modules listed in `failLoad`
+function fakePactl(modules = '', failLoad: string[] = []): FakePactl {
+  const calls: string[] = [];
+  let nextId = 100;
+  const runCommand: CommandRunner = async (command, args) => {
+    calls.push([command, ...args].join(' '));
+    if (command !== 'pactl') throw new Error(`unexpected command ${command}`);
+    if (args.join(' ') === 'list short modules') return modules;
+    if (args[0] === 'load-module') {
+      if (failLoad.includes(args[1])) throw new Error(`Failure: Module initialization failed (${args[1]})`);
+      return `${nextId++}\n`;
+    }
+    if (args[0] === 'unload-module') return '';
+    throw new Error(`unexpected pactl ${args.join(' ')}`);
+  };
+  return { runCommand, calls };
+}
+
+const unloads = (calls: string[]) => calls.filter((call) => call.startsWith('pactl unload-module'));
+
+test.describe('Linux Virtual Microphone', () => {
+
+  test('Loads the null sink, then the remapped source, and unloads them in reverse', async () => {
+    const pactl = fakePactl();
+    const manager = new AudioDeviceManager({ platform: 'linux', runCommand: pactl.runCommand });
+
+    const device = await manager.findVirtualCableDevice();
+    expect(device).toMatchObject({ deviceId: LINUX_VIRTUAL_SINK, isVirtualCable: true });
+
+    const loads = pactl.calls.filter((call) => call.startsWith('pactl load-module'));
+    expect(loads).toHaveLength(2);
+    expect(loads[0]).toContain(`module-null-sink sink_name=${LINUX_VIRTUAL_SINK}`);
+    expect(loads[1]).toContain(`module-remap-source master=${LINUX_VIRTUAL_SINK}.monitor source_name=${LINUX_VIRTUAL_SOURCE}`);
+
+    // A second lookup reuses the modules already loaded
+    await manager.findVirtualCableDevice();
+    expect(pactl.calls.filter((call) => call.startsWith('pactl load-module'))).toHaveLength(2);
+
+    await manager.cleanup();
+    expect(unloads(pactl.calls)).toEqual(['pactl unload-module 101', 'pactl unload-module 100']);
+  });
+
+  test('Adopts modules left behind by an earlier session', async () => {
+    const pactl = fakePactl([
+      `7\tmodule-null-sink\tsink_name=${LINUX_VIRTUAL_SINK} sink_properties='device.description="VoxFilter Sink"'`,
+      '8\tmodule-native-protocol-unix\t',
+      `9\tmodule-remap-source\tmaster=${LINUX_VIRTUAL_SINK}.monitor source_name=${LINUX_VIRTUAL_SOURCE}`,
+    ].join('\n'));
+    const manager = new AudioDeviceManager({ platform: 'linux', runCommand: pactl.runCommand });
+
+    expect(await manager.findVirtualCableDevice()).not.toBeNull();
+    expect(pactl.calls.some((call) => call.startsWith('pactl load-module'))).toBe(false);
+
+    await manager.cleanup();
+    expect(unloads(pactl.calls)).toEqual(['pactl unload-module 9', 'pactl unload-module 7']);
+  });
+
+  test('Unloads a half-created virtual microphone and retries on the next lookup', async () => {
+    const failLoad = ['module-remap-source'];
+    const pactl = fakePactl('', failLoad);
+    const manager = new AudioDeviceManager({ platform: 'linux', runCommand: pactl.runCommand });
+
+    expect(await manager.findVirtualCableDevice()).toBeNull();
+    expect(unloads(pactl.calls)).toEqual(['pactl unload-module 100']);
+
+    failLoad.length = 0;
+    expect(await manager.findVirtualCableDevice()).not.toBeNull();
+
+    // Only the second attempt's modules are left to unload on quit
+    await manager.cleanup();
+    expect(unloads(pactl.calls)).toEqual([
+      'pactl unload-module 100',
+      'pactl unload-module 102',
+      'pactl unload-module 101',
+    ]);
+  });
+
+  test('Keeps adopted modules when creating the rest fails', async () => {
+    const pactl = fakePactl(
+      `7\tmodule-null-sink\tsink_name=${LINUX_VIRTUAL_SINK}`,
+      ['module-remap-source'],
+    );
+    const manager = new AudioDeviceManager({ platform: 'linux', runCommand: pactl.runCommand });
+
+    expect(await manager.findVirtualCableDevice()).toBeNull();
+    expect(unloads(pactl.calls)).toEqual([]);
+
+    await manager.cleanup();
+    expect(unloads(pactl.calls)).toEqual(['pactl unload-module 7']);
+  });
+});
@@ -0,0 +1,195 @@
+import { test, expect } from '@playwright/test';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  UPDATE_FEED_FILE,
+  parseUpdateFeed,
+  signUpdateFeed,
+  updatePublicKey,
+  verifyUpdateFeed,
+  type UpdateFeed,
+} from '../electron/main/update-feed';
+import { UpdateManager, type UpdateState } from '../electron/main/updater';
+
+/**
+ * Desktop Update Feed Tests
+ *
+ * Sign feeds with a throwaway Ed25519 key and check what the desktop app's updater accepts:
+ * only the exact feed that was signed, and no unsigned feed over plain HTTP. Feeds and
+ * installers are served from a temporary folder by a local HTTP server.
+ */
+
+const INSTALLER = 'VoxFilter-2.0.0-Windows.exe';
+const installerBytes = Buffer.from('not really an installer');
+
+function generateSigningKey(): string {
+  const { privateKey } = crypto.generateKeyPairSync('ed25519');
+  return privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+}
+
+function unsignedFeed(): UpdateFeed {
+  return {
+    version: '2.0.0',
+    releaseDate: '2026-10-18T09:00:00.000Z',
+    notes: 'Fixes clipping in the de-esser',
+    files: {
+      'win32-x64': {
+        url: INSTALLER,
+        sha512: crypto.createHash('sha512').update(installerBytes).digest('base64'),
+        size: installerBytes.length,
+      },
+    },
+    signature: null,
+  };
+}
+
+function signedFeed(privateKeyPem: string): UpdateFeed {
+  const feed = unsignedFeed();
+  return { ...feed, signature: signUpdateFeed(feed, privateKeyPem) };
+}
+
+// Another base64 SHA-512 of the right length
+const otherSha512 = crypto.createHash('sha512').update('something else').digest('base64');
+
+test.describe('Desktop Update Feed', () => {
+
+  test('Verifies a feed signed with the matching key, however it is formatted', () => {
+    const key = generateSigningKey();
+    const feed = signedFeed(key);
+    expect(verifyUpdateFeed(feed, updatePublicKey(key))).toBe(true);
+
+    // Reordered keys, indentation and unknown fields don't change what was signed
+    const { files, signature, ...rest } = feed;
+    const reformatted = JSON.stringify({ signature, files, ...rest, publishedBy: 'release-bot' }, null, 2);
+    expect(verifyUpdateFeed(parseUpdateFeed(reformatted), updatePublicKey(key))).toBe(true);
+  });
+
+  test('Rejects a signed feed once anything it covers is changed', () => {
+    const key = generateSigningKey();
+    const publicKey = updatePublicKey(key);
+    const feed = signedFeed(key);
+    const file = feed.files['win32-x64'];
+
+    const tampered: UpdateFeed[] = [
+      { ...feed, files: { 'win32-x64': { ...file, sha512: otherSha512 } } },
+      { ...feed, files: { 'win32-x64': { ...file, size: file.size + 1 } } },
+      { ...feed, files: { 'win32-x64': { ...file, url: 'https://attacker.example/setup.exe' } } },
+      { ...feed, files: { ...feed.files, 'linux-x64': { ...file, url: 'VoxFilter-2.0.0-Linux.AppImage' } } },
+      { ...feed, version: '2.0.1' },
+      { ...feed, notes: 'Nothing to see here' },
+    ];
+    tampered.forEach((changed) => expect(verifyUpdateFeed(changed, publicKey)).toBe(false));
+  });
+
+  test('Rejects unsigned, garbled and foreign signatures', () => {
+    const key = generateSigningKey();
+    const publicKey = updatePublicKey(key);
+    expect(verifyUpdateFeed(unsignedFeed(), publicKey)).toBe(false);
+    expect(verifyUpdateFeed({ ...unsignedFeed(), signature: 'not base64 at all' }, publicKey)).toBe(false);
+    expect(verifyUpdateFeed(signedFeed(generateSigningKey()), publicKey)).toBe(false);
+    expect(verifyUpdateFeed(signedFeed(key), 'not a key')).toBe(false);
+  });
+
+  test.describe('Updater', () => {
+    let feedDir: string;
+    let downloadDir: string;
+    let server: http.Server;
+    let baseUrl: string;
+
+    test.beforeAll(async () => {
+      feedDir = fs.mkdtempSync(path.join(os.tmpdir(), 'voxfilter-feed-'));
+      downloadDir = fs.mkdtempSync(path.join(os.tmpdir(), 'voxfilter-downloads-'));
+      fs.writeFileSync(path.join(feedDir, INSTALLER), installerBytes);
+
+      server = http.createServer((req, res) => {
+        fs.createReadStream(path.join(feedDir, path.basename(req.url ?? '/')))
+          .on('error', () => {
+            res.statusCode = 404;
+            res.end();
+          })
+          .pipe(res);
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+    });
+
+    test.afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+      fs.rmSync(feedDir, { recursive: true, force: true });
+      fs.rmSync(downloadDir, { recursive: true, force: true });
+    });
+
+    const publish = (feed: UpdateFeed) => fs.writeFileSync(path.join(feedDir, UPDATE_FEED_FILE), JSON.stringify(feed));
+
+    // Check the feed, then wait out the download it starts
+    async function checkFrom(feedUrl: string, publicKey: string | null): Promise<UpdateState> {
+      const manager = new UpdateManager({
+        feedUrl,
+        publicKey,
+        currentVersion: '1.0.0',
+        downloadDir,
+        platform: 'win32',
+        arch: 'x64',
+      });
+      const state = await manager.checkForUpdates();
+      if (state.status !== 'downloading') return state;
+      return new Promise((resolve) => {
+        manager.on('state', (next: UpdateState) => {
+          if (next.status !== 'downloading') resolve(next);
+        });
+      });
+    }
+
+    test('Downloads a signed feed over plain HTTP and installs it silently', async () => {
+      const key = generateSigningKey();
+      publish(signedFeed(key));
+      const state = await checkFrom(baseUrl, updatePublicKey(key));
+      expect(state).toMatchObject({ status: 'ready', availableVersion: '2.0.0', installMode: 'silent', error: null });
+    });
+
+    test('Refuses an unsigned feed over plain HTTP', async () => {
+      publish(unsignedFeed());
+      const state = await checkFrom(baseUrl, null);
+      expect(state.status).toBe('error');
+      expect(state.error).toBe('Unsigned update feeds must be served over HTTPS or from a file share');
+    });
+
+    test('Accepts an unsigned feed from a file share, for the agent to install', async () => {
+      publish(unsignedFeed());
+      const state = await checkFrom(feedDir, null);
+      expect(state).toMatchObject({ status: 'ready', installMode: 'manual' });
+    });
+
+    test('Refuses unsigned and tampered feeds once a key is built in', async () => {
+      const key = generateSigningKey();
+
+      publish(unsignedFeed());
+      expect((await checkFrom(feedDir, updatePublicKey(key))).error).toBe('The update feed signature is missing or invalid');
+
+      for (const tampered of [
+        { ...signedFeed(key), version: '2.0.1' },
+        { ...signedFeed(key), files: { 'win32-x64': { ...unsignedFeed().files['win32-x64'], sha512: otherSha512 } } },
+      ]) {
+        publish(tampered);
+        const state = await checkFrom(baseUrl, updatePublicKey(key));
+        expect(state.status).toBe('error');
+        expect(state.error).toBe('The update feed signature is missing or invalid');
+      }
+    });
+
+    test('Discards an installer that does not match the signed hash', async () => {
+      const key = generateSigningKey();
+      const feed = unsignedFeed();
+      feed.files['win32-x64'].sha512 = otherSha512;
+      publish({ ...feed, signature: signUpdateFeed(feed, key) });
+
+      const state = await checkFrom(baseUrl, updatePublicKey(key));
+      expect(state.status).toBe('error');
+      expect(state.error).toBe('The downloaded update did not match the feed and was discarded');
+    });
+  });
+});
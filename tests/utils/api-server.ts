@@ -0,0 +1,109 @@
+import { spawn, type ChildProcess } from 'child_process';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { request, type APIRequestContext } from '@playwright/test';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const ROOT_DIR = path.join(__dirname, '..', '..');
+
+export interface ApiServer {
+  baseURL: string;
+  /** A request context for one client; pass the session id to call as a signed-in user */
+  client(sessionId?: string): Promise<APIRequestContext>;
+  stop(): Promise<void>;
+}
+
+async function freePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+function waitForStartup(child: ChildProcess, timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let output = '';
+    const timer = setTimeout(() => reject(new Error(`Server did not start:\n${output}`)), timeoutMs);
+    const onData = (data: Buffer) => {
+      output += data.toString();
+      if (output.includes('serving on port')) {
+        clearTimeout(timer);
+        resolve();
+      }
+    };
+    child.stdout?.on('data', onData);
+    child.stderr?.on('data', onData);
+    child.once('exit', (code) => {
+      clearTimeout(timer);
+      reject(new Error(`Server exited with code ${code}:\n${output}`));
+    });
+  });
+}
+
+/**
+ * Start the API server from server/index.ts on in-memory storage, in a temporary working
+ * directory so its data and recordings never touch the repository
+ */
+export async function startApiServer(timeoutMs = 60_000): Promise<ApiServer> {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'voxfilter-api-'));
+  const port = await freePort();
+  const env: NodeJS.ProcessEnv = {
+    ...process.env,
+    NODE_ENV: 'development',
+    HOST: '127.0.0.1',
+    PORT: String(port),
+    RECORDINGS_DIR: path.join(workDir, 'recordings'),
+  };
+  delete env.DATABASE_URL;
+
+  const child = spawn(
+    path.join(ROOT_DIR, 'node_modules', '.bin', 'tsx'),
+    ['--tsconfig', path.join(ROOT_DIR, 'tsconfig.json'), path.join(ROOT_DIR, 'server', 'index.ts')],
+    { cwd: workDir, env, detached: true, stdio: ['ignore', 'pipe', 'pipe'] },
+  );
+
+  const baseURL = `http://127.0.0.1:${port}`;
+  const contexts: APIRequestContext[] = [];
+  let clients = 0;
+
+  const stop = async () => {
+    await Promise.all(contexts.map((context) => context.dispose()));
+    if (child.exitCode === null) {
+      const exited = new Promise((resolve) => child.once('exit', resolve));
+      // The server runs in its own process group, so this also stops tsx's child
+      process.kill(-child.pid!, 'SIGTERM');
+      await exited;
+    }
+    fs.rmSync(workDir, { recursive: true, force: true });
+  };
+
+  try {
+    await waitForStartup(child, timeoutMs);
+  } catch (error) {
+    await stop();
+    throw error;
+  }
+
+  return {
+    baseURL,
+    async client(sessionId?: string) {
+      // The API rate-limits per client address; each client gets its own behind the trusted proxy
+      const context = await request.newContext({
+        baseURL,
+        extraHTTPHeaders: {
+          'X-Forwarded-For': `203.0.113.${++clients}`,
+          ...(sessionId ? { Authorization: `Bearer ${sessionId}` } : {}),
+        },
+      });
+      contexts.push(context);
+      return context;
+    },
+    stop,
+  };
+}
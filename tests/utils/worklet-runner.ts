@@ -0,0 +1,59 @@
+import fs from 'fs';
+import path from 'path';
+import vm from 'vm';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const WORKLET_DIR = path.join(__dirname, '..', '..', 'client', 'public');
+
+// Web Audio render quantum
+export const RENDER_QUANTUM = 128;
+
+export interface WorkletProcessor {
+  port: { onmessage: ((event: { data: unknown }) => void) | null; postMessage(message: unknown): void };
+  process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean;
+}
+
+/**
+ * Evaluate an AudioWorklet script from client/public in a stand-in for AudioWorkletGlobalScope
+ * and construct the processor it registers
+ */
+export function loadWorklet(fileName: string, sampleRate: number): WorkletProcessor {
+  let Processor: (new () => WorkletProcessor) | undefined;
+  class AudioWorkletProcessor {
+    port = { onmessage: null, postMessage() {} };
+  }
+  const scope = {
+    sampleRate,
+    currentTime: 0,
+    AudioWorkletProcessor,
+    registerProcessor: (_name: string, ctor: new () => WorkletProcessor) => {
+      Processor = ctor;
+    },
+  };
+  vm.runInNewContext(fs.readFileSync(path.join(WORKLET_DIR, fileName), 'utf8'), scope, { filename: fileName });
+  if (!Processor) throw new Error(`${fileName} did not register a processor`);
+  return new Processor();
+}
+
+/**
+ * Send `message` to the processor the way the main thread's port.postMessage would
+ */
+export function postToWorklet(processor: WorkletProcessor, message: unknown) {
+  processor.port.onmessage?.({ data: message });
+}
+
+/**
+ * Render mono `input` through the processor one render quantum at a time
+ */
+export function renderWorklet(processor: WorkletProcessor, input: Float32Array): Float32Array {
+  const output = new Float32Array(input.length);
+  for (let start = 0; start + RENDER_QUANTUM <= input.length; start += RENDER_QUANTUM) {
+    const block = new Float32Array(RENDER_QUANTUM);
+    processor.process([[input.subarray(start, start + RENDER_QUANTUM)]], [[block]], {});
+    output.set(block, start);
+  }
+  return output;
+}
@@ -0,0 +1,159 @@
+import { test, expect } from '@playwright/test';
+import { ZodError } from 'zod';
+import { importVoxPresetBundle, toVoxPresetBundle, voxPresetFileName } from '../server/voxpreset';
+import { audioSettingsSchema, type VoxPresetConflictMode, type VoxPresetEntry } from '../shared/schema';
+
+/**
+ * .voxpreset Bundle Tests
+ *
+ * Import and export bundles the way the profile and preset routes do, with an in-memory `create`:
+ * name conflicts against saved items and within the bundle, bad entries next to good ones, and
+ * device settings never crossing machines in either direction.
+ */
+
+const settings = audioSettingsSchema.parse({});
+
+const devices = {
+  inputDeviceId: 'usb-headset-mic',
+  outputDeviceId: 'cable-input',
+  preferredInputDevices: [{ deviceId: 'usb-headset-mic', label: 'USB Headset' }],
+  preferredOutputDevices: [{ deviceId: 'cable-input', label: 'CABLE Input' }],
+};
+
+function bundle(presets: unknown[]) {
+  return { format: 'voxpreset', version: 1, presets };
+}
+
+const entry = (name: string, audioSettings: object = {}) => ({ name, audioSettings: { ...settings, ...audioSettings } });
+
+// Imports through a `create` that records what it was given and hands out sequential ids
+async function importBundle(presets: unknown[], existing: { id: string; name: string }[], onConflict: VoxPresetConflictMode) {
+  const created: VoxPresetEntry[] = [];
+  const report = await importVoxPresetBundle(bundle(presets), existing, onConflict, async (item) => {
+    created.push(item);
+    return `new-${created.length}`;
+  });
+  return { report, created };
+}
+
+test.describe('.voxpreset Bundles', () => {
+
+  test('Skips entries whose name is already taken, ignoring case and spacing', async () => {
+    const { report, created } = await importBundle(
+      [entry(' support floor '), entry('Closers')],
+      [{ id: 'existing-1', name: 'Support Floor' }],
+      'skip',
+    );
+    expect(report.conflicts).toEqual([{ index: 0, name: 'support floor', existingId: 'existing-1' }]);
+    expect(report.imported).toEqual([{ index: 1, name: 'Closers', id: 'new-1' }]);
+    expect(created.map((item) => item.name)).toEqual(['Closers']);
+  });
+
+  test('Renames conflicting entries to the next free numbered name', async () => {
+    const { report, created } = await importBundle(
+      [entry('Support Floor')],
+      [{ id: 'existing-1', name: 'Support Floor' }, { id: 'existing-2', name: 'support floor (2)' }],
+      'rename',
+    );
+    expect(report.conflicts).toEqual([
+      { index: 0, name: 'Support Floor', existingId: 'existing-1', renamedTo: 'Support Floor (3)' },
+    ]);
+    expect(report.imported).toEqual([{ index: 0, name: 'Support Floor (3)', id: 'new-1' }]);
+    expect(created[0].name).toBe('Support Floor (3)');
+  });
+
+  test('Treats names imported earlier in the same bundle as taken', async () => {
+    const renamed = await importBundle([entry('X'), entry('x'), entry('X (2)')], [], 'rename');
+    expect(renamed.report.imported).toEqual([
+      { index: 0, name: 'X', id: 'new-1' },
+      { index: 1, name: 'x (2)', id: 'new-2' },
+      { index: 2, name: 'X (3)', id: 'new-3' },
+    ]);
+    expect(renamed.report.conflicts).toEqual([
+      { index: 1, name: 'x', existingId: 'new-1', renamedTo: 'x (2)' },
+      { index: 2, name: 'X (2)', existingId: 'new-2', renamedTo: 'X (3)' },
+    ]);
+
+    const skipped = await importBundle([entry('X'), entry('x'), entry('X (2)')], [], 'skip');
+    expect(skipped.report.imported).toEqual([
+      { index: 0, name: 'X', id: 'new-1' },
+      { index: 2, name: 'X (2)', id: 'new-2' },
+    ]);
+    expect(skipped.report.conflicts).toEqual([{ index: 1, name: 'x', existingId: 'new-1' }]);
+  });
+
+  test('Reports invalid entries by index and field while importing the valid ones', async () => {
+    const { report } = await importBundle(
+      [
+        entry('Quiet Room'),
+        { name: 'Too Much', audioSettings: { ...settings, noiseReductionLevel: 500 } },
+        { name: '', audioSettings: settings },
+        'not an entry',
+        entry('Loud Floor'),
+      ],
+      [],
+      'skip',
+    );
+    expect(report.imported.map(({ index, name }) => ({ index, name }))).toEqual([
+      { index: 0, name: 'Quiet Room' },
+      { index: 4, name: 'Loud Floor' },
+    ]);
+    expect(report.errors.map(({ index, name }) => ({ index, name }))).toEqual([
+      { index: 1, name: 'Too Much' },
+      { index: 2, name: '' },
+      { index: 3, name: undefined },
+    ]);
+    expect(report.errors[0].fields.map((field) => field.path)).toEqual(['audioSettings.noiseReductionLevel']);
+    expect(report.errors[1].fields.map((field) => field.path)).toEqual(['name']);
+    expect(report.errors[2].fields.map((field) => field.path)).toEqual(['(entry)']);
+    expect(report.conflicts).toEqual([]);
+  });
+
+  test('Rejects the whole bundle when its envelope is invalid', async () => {
+    const create = async () => 'never';
+    for (const invalid of [
+      { format: 'json', version: 1, presets: [entry('A')] },
+      { format: 'voxpreset', version: 2, presets: [entry('A')] },
+      { format: 'voxpreset', version: 1, presets: [] },
+      [entry('A')],
+    ]) {
+      await expect(importVoxPresetBundle(invalid, [], 'skip', create)).rejects.toBeInstanceOf(ZodError);
+    }
+  });
+
+  test('Drops device settings from imported entries', async () => {
+    const { created } = await importBundle([entry('Headset Setup', { ...devices, noiseReductionLevel: 80 })], [], 'skip');
+    expect(created[0].audioSettings).not.toHaveProperty('inputDeviceId');
+    expect(created[0].audioSettings).not.toHaveProperty('outputDeviceId');
+    expect(created[0].audioSettings.preferredInputDevices).toEqual([]);
+    expect(created[0].audioSettings.preferredOutputDevices).toEqual([]);
+    expect(created[0].audioSettings.noiseReductionLevel).toBe(80);
+  });
+
+  test('Drops device settings from exported bundles', () => {
+    const exported = toVoxPresetBundle([
+      { name: 'Headset Setup', description: null, audioSettings: { ...settings, ...devices, noiseReductionLevel: 80 } },
+      { name: 'Closers', description: 'Warmer voice', audioSettings: settings },
+    ]);
+    expect(exported).toMatchObject({ format: 'voxpreset', version: 1 });
+
+    const [headset, closers] = exported.presets;
+    expect(headset).not.toHaveProperty('description');
+    expect(headset.audioSettings).not.toHaveProperty('inputDeviceId');
+    expect(headset.audioSettings).not.toHaveProperty('outputDeviceId');
+    expect(headset.audioSettings.preferredInputDevices).toEqual([]);
+    expect(headset.audioSettings.preferredOutputDevices).toEqual([]);
+    expect(headset.audioSettings.noiseReductionLevel).toBe(80);
+    expect(closers.description).toBe('Warmer voice');
+    expect(JSON.stringify(exported)).not.toContain('usb-headset-mic');
+
+    // What was exported imports again unchanged
+    expect(audioSettingsSchema.parse(headset.audioSettings)).toEqual(headset.audioSettings);
+  });
+
+  test('Names a single-item export after the item', () => {
+    expect(voxPresetFileName([entry('Support Floor #2')], 'presets')).toBe('support-floor-2.voxpreset');
+    expect(voxPresetFileName([entry('!!!')], 'presets')).toMatch(/^presets-\d{4}-\d{2}-\d{2}\.voxpreset$/);
+    expect(voxPresetFileName([entry('A'), entry('B')], 'profiles')).toMatch(/^profiles-\d{4}-\d{2}-\d{2}\.voxpreset$/);
+  });
+});
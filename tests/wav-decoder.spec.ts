@@ -0,0 +1,159 @@
+import { test, expect } from '@playwright/test';
+import { decodeWav, downmixToMono, encodeWav, WavDecodeError } from '../server/dsp/wav';
+
+/**
+ * WAV Decoder Tests
+ *
+ * Feed hand-built RIFF/WAVE buffers to the processing API's decoder: every supported sample
+ * encoding, chunk layouts real writers produce, and the malformed headers it must reject.
+ */
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// Chunks are word aligned: an odd-sized body is followed by a pad byte that its size leaves out
+function chunk(id: string, body: Buffer, size = body.length): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(id, 0, 'ascii');
+  header.writeUInt32LE(size, 4);
+  return Buffer.concat([header, body, Buffer.alloc(body.length % 2)]);
+}
+
+function riff(...chunks: Buffer[]): Buffer {
+  const body = Buffer.concat([Buffer.from('WAVE', 'ascii'), ...chunks]);
+  const header = Buffer.alloc(8);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+function fmt(format: number, channels: number, sampleRate: number, bits: number, subFormat?: number): Buffer {
+  const body = Buffer.alloc(subFormat === undefined ? 16 : 40);
+  const blockAlign = (channels * bits) / 8;
+  body.writeUInt16LE(format, 0);
+  body.writeUInt16LE(channels, 2);
+  body.writeUInt32LE(sampleRate, 4);
+  body.writeUInt32LE(sampleRate * blockAlign, 8);
+  body.writeUInt16LE(blockAlign, 12);
+  body.writeUInt16LE(bits, 14);
+  if (subFormat !== undefined) {
+    body.writeUInt16LE(22, 16);
+    body.writeUInt16LE(bits, 18);
+    body.writeUInt16LE(subFormat, 24);
+  }
+  return chunk('fmt ', body);
+}
+
+// Interleaved samples in [-1, 1) written with `write(buffer, value, offset)`
+function samples(values: number[], bytes: number, write: (b: Buffer, v: number, o: number) => void): Buffer {
+  const body = Buffer.alloc(values.length * bytes);
+  values.forEach((v, i) => write(body, v, i * bytes));
+  return body;
+}
+
+const VALUES = [0, 0.5, -0.5, 0.25, -1];
+
+function expectSamples(actual: Float32Array, expected: number[], tolerance = 1e-6) {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((v, i) => expect(Math.abs(actual[i] - v)).toBeLessThanOrEqual(tolerance));
+}
+
+test.describe('WAV Decoder', () => {
+
+  const encodings: { name: string; format: number; bits: number; write: (b: Buffer, v: number, o: number) => void }[] = [
+    { name: '8-bit PCM', format: WAVE_FORMAT_PCM, bits: 8, write: (b, v, o) => b.writeUInt8(Math.round(v * 128 + 128), o) },
+    { name: '16-bit PCM', format: WAVE_FORMAT_PCM, bits: 16, write: (b, v, o) => b.writeInt16LE(Math.round(v * 32768), o) },
+    { name: '24-bit PCM', format: WAVE_FORMAT_PCM, bits: 24, write: (b, v, o) => b.writeIntLE(Math.round(v * 8388608), o, 3) },
+    { name: '32-bit PCM', format: WAVE_FORMAT_PCM, bits: 32, write: (b, v, o) => b.writeInt32LE(Math.round(v * 2147483648), o) },
+    { name: '32-bit float', format: WAVE_FORMAT_IEEE_FLOAT, bits: 32, write: (b, v, o) => b.writeFloatLE(v, o) },
+    { name: '64-bit float', format: WAVE_FORMAT_IEEE_FLOAT, bits: 64, write: (b, v, o) => b.writeDoubleLE(v, o) },
+  ];
+
+  for (const { name, format, bits, write } of encodings) {
+    test(`Decodes ${name}`, () => {
+      const wav = riff(fmt(format, 1, 44100, bits), chunk('data', samples(VALUES, bits / 8, write)));
+      const decoded = decodeWav(wav);
+      expect(decoded.sampleRate).toBe(44100);
+      expect(decoded.channels).toHaveLength(1);
+      expectSamples(decoded.channels[0], VALUES);
+    });
+  }
+
+  test('Reads the sub-format of WAVE_FORMAT_EXTENSIBLE', () => {
+    const wav = riff(
+      fmt(WAVE_FORMAT_EXTENSIBLE, 1, 48000, 32, WAVE_FORMAT_IEEE_FLOAT),
+      chunk('data', samples(VALUES, 4, (b, v, o) => b.writeFloatLE(v, o))),
+    );
+    expectSamples(decodeWav(wav).channels[0], VALUES);
+  });
+
+  test('Splits interleaved channels and downmixes them by averaging', () => {
+    // Left, right pairs
+    const wav = riff(
+      fmt(WAVE_FORMAT_PCM, 2, 16000, 16),
+      chunk('data', samples([0.5, -0.5, 0.25, 0.75, -1, 0], 2, (b, v, o) => b.writeInt16LE(Math.round(v * 32768), o))),
+    );
+    const { channels } = decodeWav(wav);
+    expectSamples(channels[0], [0.5, 0.25, -1]);
+    expectSamples(channels[1], [-0.5, 0.75, 0]);
+    expectSamples(downmixToMono(channels), [0, 0.5, -0.5]);
+  });
+
+  test('Skips padded odd-sized chunks before and after the audio', () => {
+    const write8 = (b: Buffer, v: number, o: number) => b.writeUInt8(Math.round(v * 128 + 128), o);
+    const wav = riff(
+      chunk('LIST', Buffer.from('abc', 'ascii')),
+      fmt(WAVE_FORMAT_PCM, 1, 8000, 8),
+      // Three 8-bit samples: an odd-sized data chunk, so a pad byte follows it
+      chunk('data', samples([0.5, -0.5, 0.25], 1, write8)),
+      chunk('cue ', Buffer.from('x', 'ascii')),
+    );
+    expectSamples(decodeWav(wav).channels[0], [0.5, -0.5, 0.25]);
+  });
+
+  test('Reads the data a streaming writer left unsized', () => {
+    const body = samples(VALUES, 2, (b, v, o) => b.writeInt16LE(Math.round(v * 32768), o));
+    const wav = riff(fmt(WAVE_FORMAT_PCM, 1, 22050, 16), chunk('data', body, 0xffffffff));
+    expectSamples(decodeWav(wav).channels[0], VALUES);
+  });
+
+  test('Drops a trailing partial frame', () => {
+    const body = samples([0.5, -0.5, 0.25], 2, (b, v, o) => b.writeInt16LE(Math.round(v * 32768), o));
+    const wav = riff(fmt(WAVE_FORMAT_PCM, 2, 8000, 16), chunk('data', body));
+    const { channels } = decodeWav(wav);
+    expectSamples(channels[0], [0.5]);
+    expectSamples(channels[1], [-0.5]);
+  });
+
+  // Positive samples are encoded over 32767 steps but decoded over 32768, so allow two steps
+  test('Round-trips what it encodes to 16-bit precision', () => {
+    const input = Float32Array.from({ length: 64 }, (_, i) => 0.9 * Math.sin(i / 3));
+    const decoded = decodeWav(encodeWav(input, 48000));
+    expect(decoded.sampleRate).toBe(48000);
+    expectSamples(decoded.channels[0], Array.from(input), 2 / 32768);
+  });
+
+  const data = chunk('data', Buffer.alloc(4));
+  const malformed: { name: string; wav: Buffer; error: string | RegExp }[] = [
+    { name: 'not a RIFF file', wav: Buffer.from('ID3\x03 definitely not audio', 'ascii'), error: 'Not a RIFF/WAVE file' },
+    { name: 'a RIFF file that is not WAVE', wav: Buffer.from('RIFF\x04\x00\x00\x00AVI ', 'ascii'), error: 'Not a RIFF/WAVE file' },
+    { name: 'a header cut short', wav: Buffer.from('RIFF', 'ascii'), error: 'Not a RIFF/WAVE file' },
+    { name: 'no fmt chunk', wav: riff(data), error: 'Missing fmt chunk' },
+    { name: 'no data chunk', wav: riff(fmt(WAVE_FORMAT_PCM, 1, 8000, 16)), error: 'Missing data chunk' },
+    { name: 'a truncated fmt chunk', wav: riff(chunk('fmt ', Buffer.alloc(12)), data), error: 'Truncated fmt chunk' },
+    { name: 'zero channels', wav: riff(fmt(WAVE_FORMAT_PCM, 0, 8000, 16), data), error: 'Invalid channel count' },
+    { name: 'a sample rate below 8 kHz', wav: riff(fmt(WAVE_FORMAT_PCM, 1, 4000, 16), data), error: 'Unsupported sample rate: 4000' },
+    { name: 'a sample rate above 192 kHz', wav: riff(fmt(WAVE_FORMAT_PCM, 1, 384000, 16), data), error: 'Unsupported sample rate: 384000' },
+    { name: '12-bit PCM', wav: riff(fmt(WAVE_FORMAT_PCM, 1, 8000, 12), data), error: /format 1, 12-bit/ },
+    { name: '16-bit float', wav: riff(fmt(WAVE_FORMAT_IEEE_FLOAT, 1, 8000, 16), data), error: /format 3, 16-bit/ },
+    { name: 'A-law', wav: riff(fmt(6, 1, 8000, 8), data), error: /format 6, 8-bit/ },
+  ];
+
+  for (const { name, wav, error } of malformed) {
+    test(`Rejects ${name}`, () => {
+      expect(() => decodeWav(wav)).toThrow(WavDecodeError);
+      expect(() => decodeWav(wav)).toThrow(error);
+    });
+  }
+});